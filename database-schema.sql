@@ -21,54 +21,225 @@ CREATE TABLE public.polls (
     title TEXT NOT NULL,
     description TEXT,
     created_by UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
-    is_active BOOLEAN DEFAULT TRUE,
+    status TEXT NOT NULL DEFAULT 'open', -- 'draft', 'scheduled', 'open', 'closed', 'archived'
     allow_multiple_votes BOOLEAN DEFAULT FALSE,
     require_authentication BOOLEAN DEFAULT FALSE,
+    allow_write_in BOOLEAN DEFAULT FALSE, -- Adds an "Other (please specify)" choice
+    is_quiz BOOLEAN DEFAULT FALSE, -- Scores votes against the correct options in quiz_answers
+    allow_vote_changes BOOLEAN DEFAULT FALSE, -- Lets signed-in voters change or retract their vote until the poll closes
+    results_visibility TEXT NOT NULL DEFAULT 'always', -- 'always', 'after_vote', 'after_close', 'never' (creator only)
+    poll_type TEXT NOT NULL DEFAULT 'standard', -- 'standard', 'ranked_choice', 'rating', 'nps', 'likert', 'survey'
+    scale_labels TEXT[], -- Agreement scale for Likert polls, lowest first
+    min_selections INTEGER NOT NULL DEFAULT 1, -- For multiple-vote (approval) polls
+    max_selections INTEGER, -- NULL means voters may approve every option
+    starts_at TIMESTAMP WITH TIME ZONE, -- NULL means the poll opens as soon as it is created
     expires_at TIMESTAMP WITH TIME ZONE,
+    password_protected BOOLEAN NOT NULL DEFAULT FALSE, -- Voters must enter the password in poll_passwords first
+    invite_only BOOLEAN NOT NULL DEFAULT FALSE, -- Only voters with an unused ballot token from poll_invitations may vote
+    allowed_email_domains TEXT[], -- Lowercase domains voters' account emails must be at; NULL or empty allows any
+    require_verified BOOLEAN NOT NULL DEFAULT FALSE, -- Only accounts with users.is_verified may vote
+    min_account_age_days INTEGER, -- Accounts must be at least this many days old to vote
+    challenge_difficulty INTEGER NOT NULL DEFAULT 16, -- Leading zero bits of the proof-of-work anonymous voters solve; 0 turns it off
+    require_phone_verification BOOLEAN NOT NULL DEFAULT FALSE, -- Anonymous voters must verify their phone number with a texted code
+    access TEXT NOT NULL DEFAULT 'public', -- 'public', 'unlisted' (share link only), 'private' (share link and sign-in)
     qr_code_url TEXT,
-    share_token TEXT UNIQUE DEFAULT encode(gen_random_bytes(16), 'hex'),
+    share_token TEXT NOT NULL UNIQUE DEFAULT encode(gen_random_bytes(16), 'hex'), -- Rotating it invalidates old share links and QR codes
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     
     -- Constraints
     CONSTRAINT valid_expiry CHECK (expires_at IS NULL OR expires_at > NOW()),
-    CONSTRAINT valid_title CHECK (length(trim(title)) > 0)
+    CONSTRAINT valid_schedule CHECK (starts_at IS NULL OR expires_at IS NULL OR expires_at > starts_at),
+    CONSTRAINT valid_title CHECK (length(trim(title)) > 0),
+    CONSTRAINT valid_status CHECK (status IN ('draft', 'scheduled', 'open', 'closed', 'archived')),
+    CONSTRAINT valid_access CHECK (access IN ('public', 'unlisted', 'private')),
+    CONSTRAINT valid_min_account_age CHECK (min_account_age_days IS NULL OR min_account_age_days > 0),
+    CONSTRAINT valid_challenge_difficulty CHECK (challenge_difficulty BETWEEN 0 AND 24),
+    CONSTRAINT valid_results_visibility CHECK (results_visibility IN ('always', 'after_vote', 'after_close', 'never')),
+    CONSTRAINT valid_poll_type CHECK (poll_type IN ('standard', 'ranked_choice', 'rating', 'nps', 'likert', 'survey')),
+    CONSTRAINT valid_selection_limits CHECK (
+        min_selections >= 1 AND
+        (max_selections IS NULL OR max_selections >= min_selections)
+    ),
+    CONSTRAINT valid_quiz CHECK (
+        is_quiz = FALSE OR
+        (poll_type IN ('standard', 'survey') AND allow_write_in = FALSE AND allow_vote_changes = FALSE)
+    ),
+    CONSTRAINT valid_vote_changes CHECK (allow_vote_changes = FALSE OR poll_type <> 'survey')
+);
+
+-- Survey questions table (the ordered questions of a survey poll; each one has
+-- its own type, settings and options)
+CREATE TABLE public.poll_questions (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
+    text TEXT NOT NULL,
+    question_type TEXT NOT NULL DEFAULT 'standard', -- Any poll type except 'survey'
+    allow_multiple_votes BOOLEAN DEFAULT FALSE,
+    min_selections INTEGER NOT NULL DEFAULT 1,
+    max_selections INTEGER,
+    scale_labels TEXT[],
+    is_required BOOLEAN DEFAULT TRUE,
+    order_index INTEGER NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_question_text CHECK (length(trim(text)) > 0),
+    CONSTRAINT valid_question_type CHECK (question_type IN ('standard', 'ranked_choice', 'rating', 'nps', 'likert')),
+    CONSTRAINT valid_question_selection_limits CHECK (
+        min_selections >= 1 AND
+        (max_selections IS NULL OR max_selections >= min_selections)
+    ),
+    CONSTRAINT unique_poll_question_order UNIQUE (poll_id, order_index)
 );
 
 -- Poll options table
 CREATE TABLE public.poll_options (
     id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
     poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
+    question_id UUID REFERENCES public.poll_questions(id) ON DELETE CASCADE, -- Set for survey options only
     text TEXT NOT NULL,
     order_index INTEGER NOT NULL,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     
     -- Constraints
     CONSTRAINT valid_option_text CHECK (length(trim(text)) > 0),
-    CONSTRAINT unique_poll_option_order UNIQUE (poll_id, order_index)
+    CONSTRAINT unique_poll_option_order UNIQUE NULLS NOT DISTINCT (poll_id, question_id, order_index)
+);
+
+-- Survey responses table (one row per respondent; the answers are the votes
+-- that reference it)
+CREATE TABLE public.survey_responses (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
+    voter_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+    voter_email TEXT,
+    voter_phone TEXT,
+    ip_address INET,
+    user_agent TEXT,
+    pending_until TIMESTAMP WITH TIME ZONE, -- Set until the respondent confirms their email address, like votes.pending_until
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints to prevent duplicate responses
+    CONSTRAINT unique_user_response UNIQUE (poll_id, voter_id),
+    CONSTRAINT unique_email_response UNIQUE (poll_id, voter_email),
+    CONSTRAINT unique_phone_response UNIQUE (poll_id, voter_phone),
+    CONSTRAINT valid_respondent_info CHECK (
+        (voter_id IS NOT NULL) OR
+        (voter_email IS NOT NULL) OR
+        (voter_phone IS NOT NULL)
+    )
+);
+
+-- Quiz answers table (the correct options of a quiz; kept apart from poll_options
+-- so voters can't read them)
+CREATE TABLE public.quiz_answers (
+    option_id UUID REFERENCES public.poll_options(id) ON DELETE CASCADE PRIMARY KEY,
+    poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
+    question_id UUID REFERENCES public.poll_questions(id) ON DELETE CASCADE, -- Set for survey questions only
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Poll passwords table (the hashed passwords of password-protected polls; kept apart from
+-- polls so they are never sent with a poll, and hidden from voters)
+CREATE TABLE public.poll_passwords (
+    poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE PRIMARY KEY,
+    password_hash TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Poll invitations table (one single-use ballot token per invitee of an invite-only poll;
+-- used records turnout, but not when the invitee voted, so that invitations can't be matched
+-- to votes by their timestamps)
+CREATE TABLE public.poll_invitations (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
+    email TEXT NOT NULL,
+    ballot_token TEXT NOT NULL UNIQUE DEFAULT encode(gen_random_bytes(16), 'hex'),
+    used BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT unique_poll_invitee UNIQUE (poll_id, email)
 );
 
 -- Votes table (prevents duplicate votes)
 CREATE TABLE public.votes (
     id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
     poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
-    option_id UUID REFERENCES public.poll_options(id) ON DELETE CASCADE NOT NULL,
+    option_id UUID REFERENCES public.poll_options(id) ON DELETE CASCADE, -- NULL for rating and NPS polls
+    question_id UUID REFERENCES public.poll_questions(id) ON DELETE CASCADE, -- Set for survey answers only
+    response_id UUID REFERENCES public.survey_responses(id) ON DELETE CASCADE, -- Set for survey answers only
+    write_in TEXT, -- Free-text "Other" answer; option_id is NULL until the write-in is promoted to an option
+    share_id UUID, -- The share the voter came through, if any; references poll_shares, below
     voter_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
     voter_email TEXT, -- For anonymous votes
     voter_phone TEXT, -- For anonymous votes
     ip_address INET,
     user_agent TEXT,
+    fraud_flags TEXT[], -- Why the vote looks suspicious ('ip_burst', 'subnet_burst', 'shared_user_agent', 'throwaway_email'); NULL if it doesn't
+    excluded_at TIMESTAMP WITH TIME ZONE, -- Set when the poll creator excludes the vote from the tallies
+    excluded_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    exclusion_reason TEXT,
+    pending_until TIMESTAMP WITH TIME ZONE, -- Set on anonymous email ballots until the voter follows their confirmation link; NULL once counted
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     
     -- Constraints to prevent duplicate votes
-    CONSTRAINT unique_user_vote UNIQUE (poll_id, voter_id),
-    CONSTRAINT unique_email_vote UNIQUE (poll_id, voter_email),
-    CONSTRAINT unique_phone_vote UNIQUE (poll_id, voter_phone),
+    -- (one row per approved option; single-choice polls are enforced by trigger below)
+    CONSTRAINT unique_user_vote UNIQUE (poll_id, voter_id, option_id),
+    CONSTRAINT unique_email_vote UNIQUE (poll_id, voter_email, option_id),
+    CONSTRAINT unique_phone_vote UNIQUE (poll_id, voter_phone, option_id),
     CONSTRAINT valid_voter_info CHECK (
         (voter_id IS NOT NULL) OR 
         (voter_email IS NOT NULL) OR 
         (voter_phone IS NOT NULL)
-    )
+    ),
+    CONSTRAINT valid_write_in CHECK (write_in IS NULL OR length(trim(write_in)) BETWEEN 1 AND 200),
+    CONSTRAINT valid_exclusion CHECK ((excluded_at IS NULL) = (exclusion_reason IS NULL))
+);
+
+-- Vote rankings table (full preference order for ranked-choice ballots;
+-- the parent vote row holds the first preference)
+CREATE TABLE public.vote_rankings (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    vote_id UUID REFERENCES public.votes(id) ON DELETE CASCADE NOT NULL,
+    option_id UUID REFERENCES public.poll_options(id) ON DELETE CASCADE NOT NULL,
+    rank INTEGER NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_rank CHECK (rank > 0),
+    CONSTRAINT unique_vote_rank UNIQUE (vote_id, rank),
+    CONSTRAINT unique_vote_ranked_option UNIQUE (vote_id, option_id)
+);
+
+-- Vote ratings table (answers to rating, NPS and Likert polls; Likert answers
+-- reference the row being rated, rating and NPS answers have no option)
+CREATE TABLE public.vote_ratings (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    vote_id UUID REFERENCES public.votes(id) ON DELETE CASCADE NOT NULL,
+    option_id UUID REFERENCES public.poll_options(id) ON DELETE CASCADE,
+    value INTEGER NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_rating_value CHECK (value BETWEEN 0 AND 10),
+    CONSTRAINT unique_vote_rating UNIQUE NULLS NOT DISTINCT (vote_id, option_id)
+);
+
+-- Vote changes table (history of changed and retracted votes, for the poll
+-- creator; ballots are stored as { optionIds, ranking?, ratings?, writeIn? })
+CREATE TABLE public.vote_changes (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
+    voter_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    action TEXT NOT NULL, -- 'changed' or 'retracted'
+    previous_ballot JSONB NOT NULL,
+    new_ballot JSONB, -- NULL when the vote was retracted
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_vote_change_action CHECK (action IN ('changed', 'retracted')),
+    CONSTRAINT valid_vote_change_ballot CHECK ((action = 'retracted') = (new_ballot IS NULL))
 );
 
 -- Poll analytics table (for performance)
@@ -88,18 +259,95 @@ CREATE TABLE public.poll_shares (
     poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
     shared_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
     share_method TEXT NOT NULL, -- 'qr', 'link', 'social'
-    shared_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    platform TEXT, -- 'twitter', 'facebook', 'linkedin', 'whatsapp'; social shares only
+    shared_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT valid_share_platform CHECK ((share_method = 'social') = (platform IS NOT NULL))
+);
+
+-- Short links table (labeled /p/<slug> links to a poll, so creators can compare the channels they
+-- hand them out on; they redirect to the poll's current share link)
+CREATE TABLE public.short_links (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    poll_id UUID REFERENCES public.polls(id) ON DELETE CASCADE NOT NULL,
+    slug TEXT NOT NULL UNIQUE,
+    label TEXT,
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT valid_short_link_slug CHECK (slug ~ '^[A-Za-z0-9_-]{3,32}$'),
+    CONSTRAINT valid_short_link_label CHECK (label IS NULL OR length(trim(label)) BETWEEN 1 AND 100)
+);
+
+-- Short link clicks table (one row per visit to a short link)
+CREATE TABLE public.short_link_clicks (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    short_link_id UUID REFERENCES public.short_links(id) ON DELETE CASCADE NOT NULL,
+    referrer TEXT,
+    user_agent TEXT,
+    clicked_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Rate limit counters (one fixed window per key, such as 'vote:ip=1.2.3.4:poll=<id>';
+-- only the server uses them, through increment_rate_limit below)
+CREATE TABLE public.rate_limits (
+    key TEXT PRIMARY KEY,
+    count INTEGER NOT NULL DEFAULT 0,
+    reset_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Vote challenges that have been solved and used, so that each one counts for a single ballot
+-- (only the server uses them; delete old ones with
+-- DELETE FROM public.used_vote_challenges WHERE expires_at < NOW())
+CREATE TABLE public.used_vote_challenges (
+    id TEXT PRIMARY KEY,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Verification codes texted to anonymous voters on polls that require verified phone numbers
+-- (only the server uses them; codes are deleted once entered correctly, and old ones can be
+-- deleted with DELETE FROM public.phone_verifications WHERE created_at < NOW() - INTERVAL '1 hour')
+CREATE TABLE public.phone_verifications (
+    id UUID PRIMARY KEY,
+    poll_id UUID NOT NULL REFERENCES public.polls(id) ON DELETE CASCADE,
+    phone TEXT NOT NULL,
+    code_hash TEXT NOT NULL, -- HMAC of the code, keyed with PHONE_VERIFICATION_SECRET
+    attempts INTEGER NOT NULL DEFAULT 0,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Votes remember the share their voter came through, so that shares can be credited with votes.
+ALTER TABLE public.votes ADD CONSTRAINT votes_share_id_fkey
+    FOREIGN KEY (share_id) REFERENCES public.poll_shares(id) ON DELETE SET NULL;
+
 -- Indexes for performance
 CREATE INDEX idx_polls_created_by ON public.polls(created_by);
-CREATE INDEX idx_polls_active ON public.polls(is_active) WHERE is_active = TRUE;
+CREATE INDEX idx_polls_status ON public.polls(status);
 CREATE INDEX idx_polls_expires_at ON public.polls(expires_at) WHERE expires_at IS NOT NULL;
+CREATE INDEX idx_polls_starts_at ON public.polls(starts_at) WHERE starts_at IS NOT NULL;
 CREATE INDEX idx_poll_options_poll_id ON public.poll_options(poll_id);
+CREATE INDEX idx_poll_questions_poll_id ON public.poll_questions(poll_id);
+CREATE INDEX idx_quiz_answers_poll_id ON public.quiz_answers(poll_id);
+CREATE INDEX idx_poll_invitations_poll_id ON public.poll_invitations(poll_id);
+CREATE INDEX idx_survey_responses_poll_id ON public.survey_responses(poll_id);
+CREATE INDEX idx_votes_response_id ON public.votes(response_id);
+CREATE INDEX idx_short_links_poll_id ON public.short_links(poll_id);
+CREATE INDEX idx_short_link_clicks_short_link_id ON public.short_link_clicks(short_link_id);
+CREATE INDEX idx_rate_limits_reset_at ON public.rate_limits(reset_at);
+CREATE INDEX idx_used_vote_challenges_expires_at ON public.used_vote_challenges(expires_at);
+CREATE INDEX idx_phone_verifications_poll_phone ON public.phone_verifications(poll_id, phone, created_at);
+CREATE INDEX idx_votes_fraud_flags ON public.votes(poll_id) WHERE fraud_flags IS NOT NULL OR excluded_at IS NOT NULL;
+CREATE INDEX idx_votes_share_id ON public.votes(share_id) WHERE share_id IS NOT NULL;
+CREATE INDEX idx_votes_pending_until ON public.votes(pending_until) WHERE pending_until IS NOT NULL;
+CREATE INDEX idx_survey_responses_pending_until ON public.survey_responses(pending_until) WHERE pending_until IS NOT NULL;
 CREATE INDEX idx_votes_poll_id ON public.votes(poll_id);
 CREATE INDEX idx_votes_option_id ON public.votes(option_id);
 CREATE INDEX idx_votes_voter_id ON public.votes(voter_id);
 CREATE INDEX idx_votes_created_at ON public.votes(created_at);
+CREATE INDEX idx_vote_rankings_vote_id ON public.vote_rankings(vote_id);
+CREATE INDEX idx_vote_ratings_vote_id ON public.vote_ratings(vote_id);
+CREATE INDEX idx_vote_changes_poll_id ON public.vote_changes(poll_id);
 
 -- Functions for automatic updates
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -124,14 +372,39 @@ CREATE TRIGGER update_poll_analytics_updated_at BEFORE UPDATE ON public.poll_ana
 CREATE OR REPLACE FUNCTION update_poll_analytics()
 RETURNS TRIGGER AS $
 BEGIN
+    -- Changed and retracted votes remove the old vote rows. Votes still waiting for their voter's
+    -- email confirmation were never counted, so dropping them leaves the analytics as they are.
+    IF TG_OP = 'DELETE' THEN
+        IF OLD.pending_until IS NOT NULL THEN
+            RETURN OLD;
+        END IF;
+
+        UPDATE public.poll_analytics SET
+            total_votes = GREATEST(total_votes - 1, 0),
+            unique_voters = (
+                SELECT COUNT(DISTINCT COALESCE(response_id::TEXT, voter_id::TEXT, voter_email, voter_phone))
+                FROM public.votes
+                WHERE poll_id = OLD.poll_id AND pending_until IS NULL
+            ),
+            updated_at = NOW()
+        WHERE poll_id = OLD.poll_id;
+        RETURN OLD;
+    END IF;
+
+    -- Pending votes are counted when they are confirmed, which clears their pending_until
+    IF NEW.pending_until IS NOT NULL OR (TG_OP = 'UPDATE' AND OLD.pending_until IS NULL) THEN
+        RETURN NEW;
+    END IF;
+
     INSERT INTO public.poll_analytics (poll_id, total_votes, unique_voters, last_vote_at)
     VALUES (NEW.poll_id, 1, 1, NEW.created_at)
     ON CONFLICT (poll_id) DO UPDATE SET
         total_votes = poll_analytics.total_votes + 1,
+        -- Survey answers count once per response, since one respondent answers many questions
         unique_voters = (
-            SELECT COUNT(DISTINCT COALESCE(voter_id, voter_email, voter_phone))
+            SELECT COUNT(DISTINCT COALESCE(response_id::TEXT, voter_id::TEXT, voter_email, voter_phone))
             FROM public.votes
-            WHERE poll_id = NEW.poll_id
+            WHERE poll_id = NEW.poll_id AND pending_until IS NULL
         ),
         last_vote_at = NEW.created_at,
         updated_at = NOW();
@@ -139,17 +412,140 @@ BEGIN
 END;
 $ language 'plpgsql';
 
+-- Function to keep single-choice polls to one vote per voter
+CREATE OR REPLACE FUNCTION enforce_single_choice_vote()
+RETURNS TRIGGER AS $
+BEGIN
+    -- Survey answers are limited to one response per voter by survey_responses instead
+    IF NEW.response_id IS NULL AND EXISTS (
+        SELECT 1 FROM public.polls
+        WHERE id = NEW.poll_id AND allow_multiple_votes = FALSE
+    ) AND EXISTS (
+        SELECT 1 FROM public.votes
+        WHERE poll_id = NEW.poll_id
+        AND (
+            voter_id = NEW.voter_id OR
+            voter_email = NEW.voter_email OR
+            voter_phone = NEW.voter_phone
+        )
+    ) THEN
+        RAISE EXCEPTION 'Voter has already voted on this poll' USING ERRCODE = 'unique_violation';
+    END IF;
+    RETURN NEW;
+END;
+$ language 'plpgsql';
+
+CREATE TRIGGER enforce_single_choice_on_vote BEFORE INSERT ON public.votes
+    FOR EACH ROW EXECUTE FUNCTION enforce_single_choice_vote();
+
+-- Counts a request against a rate limit key, starting a new window once the last one has ended.
+-- Expired rows are reused by their key; delete old ones with
+-- DELETE FROM public.rate_limits WHERE reset_at < NOW() - INTERVAL '1 day'.
+CREATE OR REPLACE FUNCTION increment_rate_limit(limit_key TEXT, window_seconds INTEGER)
+RETURNS TABLE(hits INTEGER, window_reset_at TIMESTAMP WITH TIME ZONE) AS $
+BEGIN
+    RETURN QUERY
+    INSERT INTO public.rate_limits AS r (key, count, reset_at)
+    VALUES (limit_key, 1, NOW() + make_interval(secs => window_seconds))
+    ON CONFLICT (key) DO UPDATE SET
+        count = CASE WHEN r.reset_at <= NOW() THEN 1 ELSE r.count + 1 END,
+        reset_at = CASE WHEN r.reset_at <= NOW() THEN NOW() + make_interval(secs => window_seconds) ELSE r.reset_at END
+    RETURNING r.count, r.reset_at;
+END;
+$ LANGUAGE plpgsql;
+
+-- Deletes anonymous ballots whose email confirmation has expired; survey responses take their
+-- answers with them. These ballots were never counted in poll_analytics, whose trigger skips
+-- pending votes, so the analytics stay as they are. Schedule it, e.g. every 15 minutes with pg_cron:
+-- SELECT cron.schedule('expire-pending-votes', '*/15 * * * *', 'SELECT expire_pending_votes()').
+CREATE OR REPLACE FUNCTION expire_pending_votes()
+RETURNS VOID AS $
+BEGIN
+    DELETE FROM public.survey_responses WHERE pending_until < NOW();
+    DELETE FROM public.votes WHERE pending_until < NOW();
+END;
+$ LANGUAGE plpgsql;
+
+-- Function to check whether the current user may see a poll's results.
+-- Voters always see their own votes; this decides whether everyone else's are visible.
+-- SECURITY DEFINER lets the votes policies call it without recursing into themselves.
+CREATE OR REPLACE FUNCTION can_view_results(poll_uuid UUID)
+RETURNS BOOLEAN AS $
+BEGIN
+    RETURN EXISTS (
+        SELECT 1 FROM public.polls p
+        WHERE p.id = poll_uuid
+        AND (
+            p.created_by = auth.uid() OR
+            p.results_visibility = 'always' OR
+            (p.results_visibility = 'after_close' AND (
+                p.status IN ('closed', 'archived') OR
+                (p.expires_at IS NOT NULL AND p.expires_at <= NOW())
+            )) OR
+            (p.results_visibility = 'after_vote' AND EXISTS (
+                SELECT 1 FROM public.votes v
+                WHERE v.poll_id = p.id AND v.voter_id = auth.uid()
+            ))
+        )
+    );
+END;
+$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+-- Function to check whether the current user meets a poll's eligibility rules.
+-- Polls without rules are open to everyone; polls with rules need a signed-in voter whose account
+-- email is at an allowed domain, is verified, and is old enough, as the poll requires.
+CREATE OR REPLACE FUNCTION is_eligible_voter(poll_uuid UUID)
+RETURNS BOOLEAN AS $
+BEGIN
+    RETURN EXISTS (
+        SELECT 1 FROM public.polls p
+        LEFT JOIN public.users u ON u.id = auth.uid()
+        WHERE p.id = poll_uuid
+        AND (
+            (COALESCE(cardinality(p.allowed_email_domains), 0) = 0 AND
+                NOT p.require_verified AND
+                p.min_account_age_days IS NULL) OR
+            (u.id IS NOT NULL AND
+                (COALESCE(cardinality(p.allowed_email_domains), 0) = 0 OR
+                    lower(split_part(u.email, '@', 2)) = ANY (p.allowed_email_domains)) AND
+                (NOT p.require_verified OR u.is_verified) AND
+                (p.min_account_age_days IS NULL OR
+                    u.created_at <= NOW() - make_interval(days => p.min_account_age_days)))
+        )
+    );
+END;
+$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
 -- Trigger to update analytics on vote
 CREATE TRIGGER update_analytics_on_vote AFTER INSERT ON public.votes
     FOR EACH ROW EXECUTE FUNCTION update_poll_analytics();
 
+CREATE TRIGGER update_analytics_on_vote_removal AFTER DELETE ON public.votes
+    FOR EACH ROW EXECUTE FUNCTION update_poll_analytics();
+
+CREATE TRIGGER update_analytics_on_vote_confirmation AFTER UPDATE OF pending_until ON public.votes
+    FOR EACH ROW EXECUTE FUNCTION update_poll_analytics();
+
 -- Row Level Security (RLS) Policies
 ALTER TABLE public.users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.polls ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.poll_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.survey_responses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quiz_answers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_passwords ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_invitations ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.votes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.vote_rankings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.vote_ratings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.vote_changes ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.poll_analytics ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.poll_shares ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.short_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.short_link_clicks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rate_limits ENABLE ROW LEVEL SECURITY; -- No policies: only the service role uses it
+ALTER TABLE public.used_vote_challenges ENABLE ROW LEVEL SECURITY; -- No policies: only the service role uses it
+ALTER TABLE public.phone_verifications ENABLE ROW LEVEL SECURITY; -- No policies: only the service role uses it
 
 -- Users policies
 CREATE POLICY "Users can view their own profile" ON public.users
@@ -162,8 +558,10 @@ CREATE POLICY "Users can insert their own profile" ON public.users
     FOR INSERT WITH CHECK (auth.uid() = id);
 
 -- Polls policies
-CREATE POLICY "Anyone can view active polls" ON public.polls
-    FOR SELECT USING (is_active = TRUE);
+-- Drafts are only visible to their creator, through the policy below.
+-- Unlisted and private polls are only served through the API, which checks the share token.
+CREATE POLICY "Anyone can view published public polls" ON public.polls
+    FOR SELECT USING (status <> 'draft' AND access = 'public');
 
 CREATE POLICY "Users can view their own polls" ON public.polls
     FOR SELECT USING (created_by = auth.uid());
@@ -187,17 +585,87 @@ CREATE POLICY "Poll creators can manage options" ON public.poll_options
         )
     );
 
--- Votes policies
-CREATE POLICY "Anyone can view votes" ON public.votes
+-- Survey questions policies
+CREATE POLICY "Anyone can view poll questions" ON public.poll_questions
+    FOR SELECT USING (TRUE);
+
+CREATE POLICY "Poll creators can manage questions" ON public.poll_questions
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.polls
+            WHERE id = poll_questions.poll_id
+            AND created_by = auth.uid()
+        )
+    );
+
+-- Quiz answers policies (voters only learn the answers from the server once they have voted)
+CREATE POLICY "Poll creators can manage quiz answers" ON public.quiz_answers
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.polls
+            WHERE id = quiz_answers.poll_id
+            AND created_by = auth.uid()
+        )
+    );
+
+-- Poll passwords policies (voters never read them; the server checks the password)
+CREATE POLICY "Poll creators can manage their poll's password" ON public.poll_passwords
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.polls
+            WHERE id = poll_passwords.poll_id
+            AND created_by = auth.uid()
+        )
+    );
+
+-- Poll invitations policies (invitees never read them; the server claims their ballot tokens)
+CREATE POLICY "Poll creators can manage their poll's invitations" ON public.poll_invitations
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.polls
+            WHERE id = poll_invitations.poll_id
+            AND created_by = auth.uid()
+        )
+    );
+
+-- Survey responses policies
+CREATE POLICY "Anyone can view survey responses" ON public.survey_responses
     FOR SELECT USING (TRUE);
 
+CREATE POLICY "Voters can submit their own response" ON public.survey_responses
+    FOR INSERT WITH CHECK (
+        (voter_id = auth.uid() OR (voter_id IS NULL AND (voter_email IS NOT NULL OR voter_phone IS NOT NULL))) AND
+        EXISTS (
+            SELECT 1 FROM public.polls
+            WHERE id = survey_responses.poll_id
+            AND poll_type = 'survey'
+            AND access = 'public'
+            AND password_protected = FALSE
+            AND invite_only = FALSE
+            AND is_eligible_voter(id)
+            AND status IN ('scheduled', 'open')
+            AND (voter_id IS NOT NULL OR require_authentication = FALSE)
+            AND (starts_at IS NULL OR starts_at <= NOW())
+            AND (expires_at IS NULL OR expires_at > NOW())
+        )
+    );
+
+-- Votes policies
+CREATE POLICY "Votes are visible when the poll's results are" ON public.votes
+    FOR SELECT USING (voter_id = auth.uid() OR can_view_results(poll_id));
+
 CREATE POLICY "Authenticated users can vote" ON public.votes
     FOR INSERT WITH CHECK (
         voter_id = auth.uid() AND
         EXISTS (
             SELECT 1 FROM public.polls 
             WHERE id = votes.poll_id 
-            AND is_active = TRUE 
+            AND access = 'public'
+            AND password_protected = FALSE
+            AND invite_only = FALSE
+            AND is_eligible_voter(id)
+            AND status IN ('scheduled', 'open')
+            AND (starts_at IS NULL OR starts_at <= NOW())
             AND (expires_at IS NULL OR expires_at > NOW())
         )
     );
@@ -209,15 +677,92 @@ CREATE POLICY "Anonymous users can vote on public polls" ON public.votes
         EXISTS (
             SELECT 1 FROM public.polls 
             WHERE id = votes.poll_id 
-            AND is_active = TRUE 
+            AND access = 'public'
+            AND password_protected = FALSE
+            AND invite_only = FALSE
+            AND is_eligible_voter(id)
+            AND status IN ('scheduled', 'open')
             AND require_authentication = FALSE
+            AND (starts_at IS NULL OR starts_at <= NOW())
             AND (expires_at IS NULL OR expires_at > NOW())
         )
     );
 
+CREATE POLICY "Poll creators can promote write-ins" ON public.votes
+    FOR UPDATE USING (
+        write_in IS NOT NULL AND
+        EXISTS (
+            SELECT 1 FROM public.polls
+            WHERE id = votes.poll_id
+            AND created_by = auth.uid()
+        )
+    );
+
+CREATE POLICY "Voters can change or retract their own vote" ON public.votes
+    FOR DELETE USING (
+        voter_id = auth.uid() AND
+        EXISTS (
+            SELECT 1 FROM public.polls
+            WHERE id = votes.poll_id
+            AND allow_vote_changes = TRUE
+            AND status IN ('scheduled', 'open')
+            AND (expires_at IS NULL OR expires_at > NOW())
+        )
+    );
+
+-- Vote rankings policies
+CREATE POLICY "Vote rankings are visible when the poll's results are" ON public.vote_rankings
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.votes
+            WHERE id = vote_rankings.vote_id
+        )
+    );
+
+-- Anonymous ballots are only written by the vote endpoints, with the service role.
+CREATE POLICY "Voters can rank their own ballot" ON public.vote_rankings
+    FOR INSERT WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.votes
+            WHERE id = vote_rankings.vote_id
+            AND voter_id = auth.uid()
+        )
+    );
+
+-- Vote ratings policies
+CREATE POLICY "Vote ratings are visible when the poll's results are" ON public.vote_ratings
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.votes
+            WHERE id = vote_ratings.vote_id
+        )
+    );
+
+CREATE POLICY "Voters can rate on their own ballot" ON public.vote_ratings
+    FOR INSERT WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.votes
+            WHERE id = vote_ratings.vote_id
+            AND voter_id = auth.uid()
+        )
+    );
+
+-- Vote changes policies
+CREATE POLICY "Poll creators can view vote changes" ON public.vote_changes
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.polls
+            WHERE id = vote_changes.poll_id
+            AND created_by = auth.uid()
+        )
+    );
+
+CREATE POLICY "Voters can record their own vote changes" ON public.vote_changes
+    FOR INSERT WITH CHECK (voter_id = auth.uid());
+
 -- Analytics policies
-CREATE POLICY "Anyone can view poll analytics" ON public.poll_analytics
-    FOR SELECT USING (TRUE);
+CREATE POLICY "Poll analytics are visible when the poll's results are" ON public.poll_analytics
+    FOR SELECT USING (can_view_results(poll_id));
 
 -- Shares policies
 CREATE POLICY "Anyone can view poll shares" ON public.poll_shares
@@ -226,6 +771,26 @@ CREATE POLICY "Anyone can view poll shares" ON public.poll_shares
 CREATE POLICY "Authenticated users can create shares" ON public.poll_shares
     FOR INSERT WITH CHECK (shared_by = auth.uid());
 
+-- Short links policies (visitors never read them; the server resolves slugs and records clicks)
+CREATE POLICY "Poll creators can manage their poll's short links" ON public.short_links
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.polls
+            WHERE id = short_links.poll_id
+            AND created_by = auth.uid()
+        )
+    );
+
+CREATE POLICY "Poll creators can view their short links' clicks" ON public.short_link_clicks
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.short_links
+            JOIN public.polls ON polls.id = short_links.poll_id
+            WHERE short_links.id = short_link_clicks.short_link_id
+            AND polls.created_by = auth.uid()
+        )
+    );
+
 -- Views for easier querying
 CREATE OR REPLACE VIEW public.poll_results AS
 SELECT 
@@ -248,9 +813,11 @@ SELECT
     END as percentage
 FROM public.polls p
 JOIN public.poll_options po ON p.id = po.poll_id
-LEFT JOIN public.votes v ON po.id = v.option_id
+LEFT JOIN public.votes v ON po.id = v.option_id AND v.excluded_at IS NULL AND v.pending_until IS NULL
 LEFT JOIN public.poll_analytics pa ON p.id = pa.poll_id
-WHERE p.is_active = TRUE
+WHERE p.status NOT IN ('draft', 'archived')
+AND p.access = 'public'
+AND can_view_results(p.id)
 GROUP BY p.id, p.title, p.description, p.created_by, p.allow_multiple_votes, p.require_authentication, 
          p.expires_at, po.id, po.text, po.order_index, pa.total_votes
 ORDER BY p.created_at DESC, po.order_index;
@@ -0,0 +1,44 @@
+/**
+ * Polly embed script. Replaces each `<div data-polly-poll="<poll id>">` on the page with an iframe
+ * of the poll, keeps the iframe sized to the poll, and fires a `polly:vote` event on the div when
+ * someone votes. Unlisted and private polls also need `data-polly-token="<share token>"`.
+ */
+(() => {
+  const script = document.currentScript;
+  if (!script) return;
+
+  const origin = new URL(script.src).origin;
+  const frames = [];
+
+  const embed = (container) => {
+    if (container.querySelector("iframe")) return;
+
+    const pollId = container.getAttribute("data-polly-poll");
+    const token = container.getAttribute("data-polly-token");
+    const iframe = document.createElement("iframe");
+    iframe.src = `${origin}/embed/polls/${encodeURIComponent(pollId)}${token ? `?token=${encodeURIComponent(token)}` : ""}`;
+    iframe.title = "Poll";
+    iframe.width = "100%";
+    iframe.height = "480";
+    iframe.style.border = "0";
+    iframe.loading = "lazy";
+    container.appendChild(iframe);
+    frames.push({ container, iframe });
+  };
+
+  window.addEventListener("message", (event) => {
+    const data = event.data;
+    if (event.origin !== origin || !data || data.source !== "polly") return;
+
+    const frame = frames.find((candidate) => candidate.iframe.contentWindow === event.source);
+    if (!frame) return;
+
+    if (data.type === "resize" && typeof data.height === "number") {
+      frame.iframe.height = String(data.height);
+    } else if (data.type === "vote") {
+      frame.container.dispatchEvent(new CustomEvent("polly:vote", { bubbles: true, detail: { pollId: data.pollId } }));
+    }
+  });
+
+  document.querySelectorAll("[data-polly-poll]").forEach(embed);
+})();
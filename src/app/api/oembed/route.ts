@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/client'
+import { oEmbedSchema } from '@/lib/validations'
+import { getPollShareCard } from '@/lib/share-card-access'
+import { getOEmbedResponse, parsePollUrl } from '@/lib/share-cards'
+
+/**
+ * oEmbed endpoint for links to polls, so that tools that unfurl links can embed the poll itself.
+ * The `url` query parameter is a poll page or embed link; unlisted polls are only embedded if the
+ * link carries their share token, and private polls and drafts never are. Only JSON is supported.
+ * @param request The incoming request object.
+ * @returns The oEmbed response, or an error message.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createServerSupabaseClient()
+    const query = oEmbedSchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+
+    if (query.format !== 'json') {
+      return NextResponse.json({ error: 'Only the json format is supported' }, { status: 501 })
+    }
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL ?? request.nextUrl.origin
+    const link = parsePollUrl(query.url, baseUrl)
+    const card = link && await getPollShareCard(supabase, link.pollId, link.shareToken)
+
+    if (!link || !card) {
+      return NextResponse.json({ error: 'Poll not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(
+      getOEmbedResponse(card, {
+        baseUrl,
+        shareToken: link.shareToken,
+        ...(query.maxwidth && { maxWidth: query.maxwidth }),
+        ...(query.maxheight && { maxHeight: query.maxheight })
+      }),
+      { headers: { 'Cache-Control': 'public, max-age=300' } }
+    )
+  } catch (error: any) {
+    console.error('oEmbed error:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({ error: 'Invalid parameters' }, { status: 400 })
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ImageResponse } from 'next/og'
+import { createServerSupabaseClient } from '@/lib/supabase/client'
+import { getPollShareCard } from '@/lib/share-card-access'
+import { SHARE_CARD_SIZE, getShareCardBars } from '@/lib/share-cards'
+
+/**
+ * API endpoint for a poll's share card: a PNG with the poll's title and, when anyone may see the
+ * results, bars for its leading options. It is the poll page's Open Graph image and its oEmbed
+ * thumbnail. Unlisted polls need their share token, as the `token` query parameter; private polls
+ * and drafts have no card.
+ * @param request The incoming request object.
+ * @param context The context object, which contains the poll ID.
+ * @returns A PNG response, or an error message.
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = createServerSupabaseClient()
+    const card = await getPollShareCard(supabase, params.id, request.nextUrl.searchParams.get('token'))
+
+    if (!card) {
+      return NextResponse.json({ error: 'Poll not found' }, { status: 404 })
+    }
+
+    const { bars, remaining } = card.results ? getShareCardBars(card.results) : { bars: [], remaining: 0 }
+    const totalVotes = card.results?.reduce((sum, option) => sum + option.votes, 0) ?? 0
+
+    return new ImageResponse(
+      (
+        <div style={{ width: '100%', height: '100%', display: 'flex', flexDirection: 'column', padding: 64, background: '#ffffff', color: '#111827' }}>
+          <div style={{ display: 'flex', fontSize: 28, fontWeight: 700, color: '#2563eb' }}>Polly</div>
+          <div style={{ display: 'flex', marginTop: 24, fontSize: 56, fontWeight: 700, lineHeight: 1.15 }}>
+            {card.title.length > 90 ? `${card.title.slice(0, 89)}…` : card.title}
+          </div>
+          {card.results ? (
+            <div style={{ display: 'flex', flexDirection: 'column', marginTop: 40 }}>
+              {bars.map((bar) => (
+                <div key={bar.text} style={{ display: 'flex', flexDirection: 'column', marginBottom: 20 }}>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 28 }}>
+                    <span>{bar.text.length > 60 ? `${bar.text.slice(0, 59)}…` : bar.text}</span>
+                    <span style={{ color: '#6b7280' }}>{bar.percentage}%</span>
+                  </div>
+                  <div style={{ display: 'flex', marginTop: 8, height: 16, borderRadius: 8, background: '#e5e7eb' }}>
+                    <div style={{ display: 'flex', width: `${bar.percentage}%`, height: 16, borderRadius: 8, background: '#2563eb' }} />
+                  </div>
+                </div>
+              ))}
+              <div style={{ display: 'flex', fontSize: 24, color: '#6b7280' }}>
+                {`${totalVotes} vote${totalVotes === 1 ? '' : 's'}${remaining > 0 ? ` · ${remaining} more option${remaining === 1 ? '' : 's'}` : ''}`}
+              </div>
+            </div>
+          ) : (
+            <div style={{ display: 'flex', marginTop: 40, fontSize: 32, color: '#6b7280' }}>Cast your vote on Polly</div>
+          )}
+        </div>
+      ),
+      {
+        ...SHARE_CARD_SIZE,
+        // Results change with every vote, so cards are only cached briefly.
+        headers: { 'Cache-Control': 'public, max-age=300' }
+      }
+    )
+  } catch (error) {
+    console.error('Share card error:', error)
+    return NextResponse.json({ error: 'Failed to generate share card' }, { status: 500 })
+  }
+}
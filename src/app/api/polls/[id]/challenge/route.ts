@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/client'
+import { checkRequestPollAccess, pollAccessErrorResponse } from '@/lib/share-access'
+import { issueVoteChallenge } from '@/lib/challenge-access'
+
+/**
+ * API endpoint for the challenge an anonymous voter solves before voting on a poll.
+ * The challenge is signed, scoped to the poll and short-lived; the voter's browser finds a
+ * solution whose SHA-256 hash starts with the poll's number of zero bits, and sends both with
+ * the ballot. Polls whose difficulty is 0 don't need one, and respond with no challenge.
+ * @param request The incoming request object.
+ * @param context The context object, which contains the poll ID.
+ * @returns A response object with the challenge's token and difficulty, or an error message.
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = createServerSupabaseClient()
+
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('id, created_by, status, access, share_token, challenge_difficulty')
+      .eq('id', params.id)
+      .in('status', ['scheduled', 'open'])
+      .single()
+
+    if (pollError || !poll) {
+      return NextResponse.json({ error: 'Poll not found or inactive' }, { status: 404 })
+    }
+
+    const access = await checkRequestPollAccess(supabase, request, poll)
+    if (access !== 'granted') {
+      return pollAccessErrorResponse(access)
+    }
+
+    const data = poll.challenge_difficulty > 0
+      ? { token: issueVoteChallenge(poll), difficulty: poll.challenge_difficulty }
+      : null
+
+    const response = NextResponse.json({ success: true, data })
+    response.headers.set('Cache-Control', 'no-store')
+    return response
+  } catch (error) {
+    console.error('Get vote challenge error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
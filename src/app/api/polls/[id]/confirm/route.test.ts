@@ -0,0 +1,72 @@
+// @vitest-environment node
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createConfirmationToken } from '@/lib/vote-confirmations';
+
+const tables: Record<string, unknown> = {};
+
+/** A query on the fake database, whatever its filters, resolves to its table's rows. */
+function query(table: string): unknown {
+  const result = { data: tables[table] ?? null, error: null };
+  const builder: unknown = new Proxy({}, {
+    get: (_, prop) => (prop === 'then' ? (resolve: (value: unknown) => void) => resolve(result) : () => builder)
+  });
+  return builder;
+}
+
+vi.mock('@/lib/supabase/client', () => ({
+  createServerSupabaseClient: () => ({ from: query })
+}));
+
+const { GET } = await import('./route');
+
+const secret = 'confirmation-secret';
+const unlistedPoll = { id: 'poll-1', access: 'unlisted', share_token: 'secret-share-token' };
+
+function confirm(token: string) {
+  const request = new NextRequest(`https://polly.test/api/polls/poll-1/confirm?token=${encodeURIComponent(token)}`);
+  return GET(request, { params: { id: 'poll-1' } });
+}
+
+describe('GET /api/polls/[id]/confirm', () => {
+  beforeEach(() => {
+    vi.stubEnv('VOTE_CONFIRMATION_SECRET', secret);
+    vi.stubEnv('NEXT_PUBLIC_APP_URL', 'https://polly.test');
+    tables.polls = unlistedPoll;
+    tables.votes = [{ id: 'ballot-1' }];
+  });
+
+  it('should not reveal the share token of an unlisted poll for a token that does not verify', async () => {
+    const forged = createConfirmationToken('poll-1', 'ballot-1', 'other-secret', Date.now() + 60_000);
+
+    for (const token of ['garbage', '', forged]) {
+      const response = await confirm(token);
+      expect(response.status).toBe(404);
+      expect(response.headers.get('location')).toBeNull();
+      expect(await response.text()).not.toContain('secret-share-token');
+    }
+  });
+
+  it('should not reveal the share token of an unlisted poll for an expired token', async () => {
+    const response = await confirm(createConfirmationToken('poll-1', 'ballot-1', secret, Date.now() - 1));
+
+    expect(response.status).toBe(410);
+    expect(response.headers.get('location')).toBeNull();
+  });
+
+  it('should send the voter back through the share link once their token verifies', async () => {
+    const response = await confirm(createConfirmationToken('poll-1', 'ballot-1', secret, Date.now() + 60_000));
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get('location')).toBe(
+      'https://polly.test/polls/poll-1?token=secret-share-token&confirmation=confirmed'
+    );
+  });
+
+  it('should send voters on public polls back to the poll when their token expired', async () => {
+    tables.polls = { ...unlistedPoll, access: 'public' };
+    const response = await confirm(createConfirmationToken('poll-1', 'ballot-1', secret, Date.now() - 1));
+
+    expect(response.headers.get('location')).toBe('https://polly.test/polls/poll-1?confirmation=expired');
+  });
+});
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/client'
+import { getShareUrl } from '@/lib/access'
+import { confirmBallot, getConfirmationSecret } from '@/lib/confirmation-access'
+import { VoteConfirmationResult, verifyConfirmationToken } from '@/lib/vote-confirmations'
+
+/**
+ * API endpoint behind the link emailed to anonymous voters. Following it in time counts the
+ * voter's ballot; ballots that weren't confirmed before the link expired have been dropped, and
+ * the voter can vote again. Either way, the voter is sent back to the poll, whose page says what
+ * happened with its `confirmation` query parameter.
+ * Only links that verify and haven't expired lead back to an unlisted or private poll, since the
+ * redirect carries its share token. Links that don't verify are answered as if the poll didn't
+ * exist, and expired links to those polls with a plain message.
+ * @param request The incoming request object, with the link's `token`.
+ * @param context The context object, which contains the poll ID.
+ * @returns A redirect to the poll, or a not found or expired response.
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = createServerSupabaseClient()
+
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('id, access, share_token')
+      .eq('id', params.id)
+      .single()
+
+    if (pollError || !poll) {
+      return new NextResponse('Poll not found', { status: 404 })
+    }
+
+    const check = verifyConfirmationToken(request.nextUrl.searchParams.get('token') ?? '', poll.id, getConfirmationSecret())
+    if (check === 'invalid') {
+      return new NextResponse('Poll not found', { status: 404 })
+    }
+    if (check === 'expired' && poll.access !== 'public') {
+      return new NextResponse('This confirmation link has expired; vote again to get a new one', { status: 410 })
+    }
+
+    const result: VoteConfirmationResult = typeof check === 'string'
+      ? check
+      : await confirmBallot(supabase, poll.id, check.ballotId)
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL ?? request.nextUrl.origin
+    const pollUrl = new URL(poll.access === 'public' ? `${baseUrl}/polls/${poll.id}` : getShareUrl(baseUrl, poll.id, poll.share_token))
+    pollUrl.searchParams.set('confirmation', result)
+
+    const response = NextResponse.redirect(pollUrl, 302)
+    response.headers.set('Cache-Control', 'no-store')
+    return response
+  } catch (error) {
+    console.error('Vote confirmation error:', error)
+    return new NextResponse('Internal server error', { status: 500 })
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/client'
+import { inviteesSchema } from '@/lib/validations'
+import { getTurnout } from '@/lib/invitations'
+import { PollInvitation } from '@/types'
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>
+
+/**
+ * Checks that the current user created the poll whose invitations they are asking for.
+ * @param supabase The Supabase client.
+ * @param pollId The ID of the poll.
+ * @returns The poll, or an error response.
+ */
+async function getCreatedPoll(supabase: SupabaseClient, pollId: string) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { response: NextResponse.json({ error: 'Authentication required' }, { status: 401 }) }
+  }
+
+  const { data: poll, error: pollError } = await supabase
+    .from('polls')
+    .select('created_by')
+    .eq('id', pollId)
+    .single()
+
+  if (pollError || !poll) {
+    return { response: NextResponse.json({ error: 'Poll not found' }, { status: 404 }) }
+  }
+
+  if (poll.created_by !== user.id) {
+    return { response: NextResponse.json({ error: 'You are not authorized to manage invitations for this poll' }, { status: 403 }) }
+  }
+
+  return { poll }
+}
+
+/**
+ * Responds with a poll's invitations, in the order they were added, and its turnout.
+ * @param supabase The Supabase client.
+ * @param pollId The ID of the poll.
+ */
+async function respondWithInvitations(supabase: SupabaseClient, pollId: string) {
+  const { data: rows, error } = await supabase
+    .from('poll_invitations')
+    .select('id, email, ballot_token, used')
+    .eq('poll_id', pollId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('Invitations fetch error:', error)
+    return NextResponse.json({ error: 'Failed to fetch invitations' }, { status: 500 })
+  }
+
+  const invitations: PollInvitation[] = rows.map((row) => ({
+    id: row.id,
+    email: row.email,
+    ballotToken: row.ballot_token,
+    hasVoted: row.used
+  }))
+
+  return NextResponse.json({ success: true, data: { invitations, turnout: getTurnout(invitations) } })
+}
+
+/**
+ * API endpoint for the invitations of an invite-only poll.
+ * Only the poll creator can see them. Each invitation holds the invitee's ballot token and whether
+ * it has been used; the response also includes the poll's turnout. Which invitee voted for what is
+ * never recorded.
+ * @param request The incoming request object.
+ * @param context The context object, which contains the poll ID.
+ * @returns A response object with the invitations and turnout or an error message.
+ */
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = createServerSupabaseClient()
+
+    const { poll, response } = await getCreatedPoll(supabase, params.id)
+    if (!poll) return response
+
+    return await respondWithInvitations(supabase, params.id)
+  } catch (error) {
+    console.error('Get invitations error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * API endpoint for inviting people to vote on a poll, by email address.
+ * Each new invitee gets their own single-use ballot token; addresses that were already invited
+ * keep the token they have.
+ * @param request The incoming request object.
+ * @param context The context object, which contains the poll ID.
+ * @returns A response object with all of the poll's invitations and its turnout, or an error message.
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = createServerSupabaseClient()
+    const { emails } = inviteesSchema.parse(await request.json())
+
+    const { poll, response } = await getCreatedPoll(supabase, params.id)
+    if (!poll) return response
+
+    const { error: insertError } = await supabase
+      .from('poll_invitations')
+      .upsert(
+        emails.map((email) => ({ poll_id: params.id, email })),
+        { onConflict: 'poll_id,email', ignoreDuplicates: true }
+      )
+
+    if (insertError) {
+      console.error('Invitations insert error:', insertError)
+      return NextResponse.json({ error: 'Failed to add invitees' }, { status: 500 })
+    }
+
+    return await respondWithInvitations(supabase, params.id)
+  } catch (error: any) {
+    console.error('Add invitations error:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
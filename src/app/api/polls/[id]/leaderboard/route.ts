@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/client'
+import { buildAnswerKey, buildLeaderboard, maskContact } from '@/lib/quiz'
+import { canRequestViewResults } from '@/lib/results-access'
+import { checkRequestPollAccess, pollAccessErrorResponse } from '@/lib/share-access'
+import { isRequestUnlocked, pollLockedResponse } from '@/lib/unlock-access'
+
+/**
+ * API endpoint for the leaderboard of a quiz.
+ * Participants are ranked by how many questions they answered correctly and, on equal scores,
+ * by how soon after the quiz opened they answered. Anonymous participants are shown with their
+ * email address or phone number masked. The leaderboard is hidden whenever the quiz's results are.
+ * @param request The incoming request object.
+ * @param context The context object, which contains the poll ID.
+ * @returns A response object with the leaderboard or an error message.
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = createServerSupabaseClient()
+    const pollId = params.id
+
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('id, is_quiz, created_at, created_by, status, starts_at, expires_at, results_visibility, access, share_token, password_protected')
+      .eq('id', pollId)
+      .single()
+
+    if (pollError || !poll) {
+      return NextResponse.json({ error: 'Poll not found' }, { status: 404 })
+    }
+
+    // Unlisted and private quizzes only show their leaderboard through their share link, and
+    // password-protected quizzes once they have been unlocked.
+    const access = await checkRequestPollAccess(supabase, request, poll)
+    if (access !== 'granted') {
+      return pollAccessErrorResponse(access)
+    }
+
+    if (!(await isRequestUnlocked(supabase, request, poll))) {
+      return pollLockedResponse()
+    }
+
+    if (!poll.is_quiz) {
+      return NextResponse.json({ error: 'This poll is not a quiz' }, { status: 400 })
+    }
+
+    if (!(await canRequestViewResults(supabase, request, poll))) {
+      return NextResponse.json({ error: 'Results are not available yet' }, { status: 403 })
+    }
+
+    const { data: answers, error: answersError } = await supabase
+      .from('quiz_answers')
+      .select('option_id, question_id')
+      .eq('poll_id', pollId)
+
+    const { data: votes, error: votesError } = await supabase
+      .from('votes')
+      .select('option_id, question_id, response_id, voter_id, voter_email, voter_phone, created_at')
+      .eq('poll_id', pollId)
+      .is('excluded_at', null)
+      .is('pending_until', null)
+
+    if (answersError || votesError) {
+      console.error('Leaderboard fetch error:', answersError || votesError)
+      return NextResponse.json({ error: 'Failed to fetch leaderboard' }, { status: 500 })
+    }
+
+    // Signed-in participants are shown by their username.
+    const voterIds = [...new Set(votes.flatMap((vote) => (vote.voter_id ? [vote.voter_id] : [])))]
+    const { data: users, error: usersError } = voterIds.length > 0
+      ? await supabase.from('users').select('id, username').in('id', voterIds)
+      : { data: [], error: null }
+
+    if (usersError) {
+      console.error('Leaderboard users fetch error:', usersError)
+      return NextResponse.json({ error: 'Failed to fetch leaderboard' }, { status: 500 })
+    }
+
+    const usernames = new Map(users.map((user) => [user.id, user.username]))
+    const nameOf = (vote: (typeof votes)[number]) => {
+      const contact = vote.voter_email ?? vote.voter_phone
+      return (vote.voter_id && usernames.get(vote.voter_id)) || (contact ? maskContact(contact) : 'Anonymous')
+    }
+
+    const leaderboard = buildLeaderboard(
+      votes.map((vote) => ({
+        ...vote,
+        participant: vote.response_id ?? vote.voter_id ?? vote.voter_email ?? vote.voter_phone ?? '',
+        name: nameOf(vote)
+      })),
+      buildAnswerKey(answers),
+      new Date(poll.created_at)
+    )
+
+    return NextResponse.json({ success: true, data: leaderboard })
+  } catch (error) {
+    console.error('Get leaderboard error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,203 @@
+import { randomUUID } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/client'
+import { requestPhoneCodeSchema, verifyPhoneCodeSchema } from '@/lib/validations'
+import {
+  MAX_PHONE_CODES_PER_HOUR,
+  MAX_PHONE_CODE_ATTEMPTS,
+  PHONE_CODE_TTL_MS,
+  buildPhoneCodeMessage,
+  checkPhoneCode,
+  generatePhoneCode,
+  hashPhoneCode
+} from '@/lib/phone-verification'
+import { getPhoneVerificationSecret, rememberPhoneVerification } from '@/lib/phone-access'
+import { sendSms } from '@/lib/sms'
+import { checkRequestPollAccess, pollAccessErrorResponse } from '@/lib/share-access'
+import { isRequestUnlocked, pollLockedResponse } from '@/lib/unlock-access'
+import { RATE_LIMITS } from '@/lib/rate-limit'
+import { enforceRateLimit, withRateLimitHeaders } from '@/lib/rate-limit-store'
+import { AppError } from '@/lib/errors'
+import { handleApiError } from '@/lib/api-response'
+
+const codeErrors = {
+  incorrect: { error: 'Incorrect code', status: 400 },
+  expired: { error: 'This code has expired; request a new one', status: 410 },
+  too_many_attempts: { error: 'Too many attempts; request a new code', status: 429 }
+}
+
+/**
+ * API endpoint for texting a verification code to an anonymous voter, on a poll that requires
+ * verified phone numbers. The response's `verification_id` goes with the code when the voter
+ * enters it. Requests are rate limited per IP address and poll, and each phone number only gets
+ * a few codes an hour.
+ * @param request The incoming request object, with the voter's `phone`.
+ * @param context The context object, which contains the poll ID.
+ * @returns A response object with the verification's ID and expiry, or an error message.
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = createServerSupabaseClient()
+    const pollId = params.id
+    const { phone } = requestPhoneCodeSchema.parse(await request.json())
+
+    const rateLimit = await enforceRateLimit(request, RATE_LIMITS.phoneCode, { pollId })
+
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('*')
+      .eq('id', pollId)
+      .in('status', ['scheduled', 'open'])
+      .single()
+
+    if (pollError || !poll) {
+      return NextResponse.json({ error: 'Poll not found or inactive' }, { status: 404 })
+    }
+
+    const access = await checkRequestPollAccess(supabase, request, poll)
+    if (access !== 'granted') {
+      return pollAccessErrorResponse(access)
+    }
+
+    if (!(await isRequestUnlocked(supabase, request, poll))) {
+      return pollLockedResponse()
+    }
+
+    if (!poll.require_phone_verification) {
+      return NextResponse.json({ error: 'This poll does not require phone verification' }, { status: 400 })
+    }
+
+    const { count: recentCodes } = await supabase
+      .from('phone_verifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('poll_id', pollId)
+      .eq('phone', phone)
+      .gte('created_at', new Date(Date.now() - 60 * 60 * 1000).toISOString())
+
+    if ((recentCodes ?? 0) >= MAX_PHONE_CODES_PER_HOUR) {
+      return NextResponse.json({ error: 'Too many codes sent to this number; try again later' }, { status: 429 })
+    }
+
+    const verificationId = randomUUID()
+    const code = generatePhoneCode()
+    const expiresAt = new Date(Date.now() + PHONE_CODE_TTL_MS).toISOString()
+
+    const { error: insertError } = await supabase
+      .from('phone_verifications')
+      .insert({
+        id: verificationId,
+        poll_id: pollId,
+        phone,
+        code_hash: hashPhoneCode(verificationId, code, getPhoneVerificationSecret()),
+        expires_at: expiresAt
+      })
+
+    if (insertError) {
+      console.error('Error creating phone verification:', insertError)
+      return NextResponse.json({ error: 'Failed to send verification code' }, { status: 500 })
+    }
+
+    try {
+      await sendSms(buildPhoneCodeMessage(phone, code, poll.title))
+    } catch (smsError) {
+      console.error('Error sending verification code:', smsError)
+      await supabase.from('phone_verifications').delete().eq('id', verificationId)
+      return NextResponse.json({ error: 'Failed to send verification code' }, { status: 500 })
+    }
+
+    return withRateLimitHeaders(
+      NextResponse.json({
+        success: true,
+        data: { verification_id: verificationId, expires_at: expiresAt }
+      }),
+      rateLimit
+    )
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return handleApiError(error)
+    }
+
+    console.error('Request phone code error:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * API endpoint for entering a verification code. The right code sets a short-lived cookie,
+ * signed and scoped to the poll and phone number, that lets the voter vote with that number.
+ * Each code can be entered a few times before it stops working, and is used up once it is right.
+ * @param request The incoming request object, with the `verification_id` and `code`.
+ * @param context The context object, which contains the poll ID.
+ * @returns A response object confirming the verification, or an error message.
+ */
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = createServerSupabaseClient()
+    const pollId = params.id
+    const { verification_id, code } = verifyPhoneCodeSchema.parse(await request.json())
+
+    const rateLimit = await enforceRateLimit(request, RATE_LIMITS.phoneCode, { pollId })
+
+    const { data: verification, error: verificationError } = await supabase
+      .from('phone_verifications')
+      .select('id, phone, code_hash, attempts, expires_at')
+      .eq('id', verification_id)
+      .eq('poll_id', pollId)
+      .single()
+
+    if (verificationError || !verification) {
+      return NextResponse.json({ error: 'Verification not found' }, { status: 404 })
+    }
+
+    // Each attempt is recorded before the code is checked, and only if no other attempt was
+    // recorded in the meantime, so that parallel guesses can't go past the limit.
+    const result = checkPhoneCode(verification, code, getPhoneVerificationSecret())
+    if (result !== 'too_many_attempts') {
+      const { data: recorded } = await supabase
+        .from('phone_verifications')
+        .update({ attempts: verification.attempts + 1 })
+        .eq('id', verification.id)
+        .eq('attempts', verification.attempts)
+        .select('id')
+
+      if (!recorded?.length) {
+        return NextResponse.json({ error: 'Please try again' }, { status: 409 })
+      }
+    }
+
+    if (result !== 'verified') {
+      const { error, status } = codeErrors[result]
+      const attemptsLeft = Math.max(MAX_PHONE_CODE_ATTEMPTS - verification.attempts - 1, 0)
+      return NextResponse.json(
+        { error, reason: result, ...(result === 'incorrect' && { attemptsLeft }) },
+        { status }
+      )
+    }
+
+    await supabase.from('phone_verifications').delete().eq('id', verification.id)
+
+    return rememberPhoneVerification(
+      request,
+      withRateLimitHeaders(NextResponse.json({ success: true, data: { phone: verification.phone } }), rateLimit),
+      pollId,
+      verification.phone
+    )
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return handleApiError(error)
+    }
+
+    console.error('Verify phone code error:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,8 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerSupabaseClient } from '@/lib/supabase/client'
 import { qrCodeSchema } from '@/lib/validations'
+import { getShareUrl } from '@/lib/access'
+import { checkRequestPollAccess, pollAccessErrorResponse } from '@/lib/share-access'
+import { checkQrColors, getErrorCorrectionLevel, getQrCaption, normalizeHexColor } from '@/lib/qr-codes'
+import { loadQrLogo, renderQrPdf, renderQrPng, renderQrSvg } from '@/lib/qr-images'
+import { addAttribution } from '@/lib/sharing'
+import { getShortLinkUrl } from '@/lib/short-links'
 import QRCode from 'qrcode'
 
+/**
+ * API endpoint for a poll's QR code, as PNG, SVG or a printable PDF page.
+ * The code's colors (`dark`, `light`), `margin` and `error_correction` level can be set, and it
+ * can carry a center `logo` from the poll-assets bucket and a `caption` with the poll title. A `ref`
+ * to a recorded QR share is added to the link, so that votes from people who scan it are credited.
+ * With a `short_link`, the code holds that short link instead, which is quicker to scan and type.
+ * Drafts return 404 to everyone but their creator.
+ * @param request The incoming request object.
+ * @param context The context object, which contains the poll ID.
+ * @returns The QR code, or an error message.
+ */
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
@@ -13,18 +30,44 @@ export async function GET(
     
     const size = parseInt(searchParams.get('size') || '300')
     const format = searchParams.get('format') || 'png'
+    const margin = searchParams.get('margin')
     
     // Validate parameters
     const validatedData = qrCodeSchema.parse({
       poll_id: params.id,
       size,
-      format: format as 'png' | 'svg' | 'pdf'
+      format: format as 'png' | 'svg' | 'pdf',
+      dark: searchParams.get('dark') ?? undefined,
+      light: searchParams.get('light') ?? undefined,
+      margin: margin === null ? undefined : parseInt(margin),
+      error_correction: searchParams.get('error_correction') ?? undefined,
+      logo: searchParams.get('logo') ?? undefined,
+      caption: searchParams.get('caption') === 'true',
+      ref: searchParams.get('ref') ?? undefined,
+      short_link: searchParams.get('short_link') ?? undefined
     })
 
+    if (validatedData.ref && validatedData.short_link) {
+      return NextResponse.json(
+        { error: 'Choose either a share or a short link' },
+        { status: 400 }
+      )
+    }
+
+    const dark = normalizeHexColor(validatedData.dark)
+    const light = normalizeHexColor(validatedData.light)
+    const colorsError = checkQrColors(dark, light)
+    if (colorsError) {
+      return NextResponse.json(
+        { error: colorsError },
+        { status: 400 }
+      )
+    }
+
     // Get poll data
     const { data: poll, error: pollError } = await supabase
       .from('polls')
-      .select('id, share_token')
+      .select('id, title, share_token, access, created_by, status')
       .eq('id', validatedData.poll_id)
       .single()
 
@@ -35,55 +78,90 @@ export async function GET(
       )
     }
 
+    // Drafts are invisible to everyone but their creator.
+    const { data: { user } } = await supabase.auth.getUser()
+    if (poll.status === 'draft' && user?.id !== poll.created_by) {
+      return NextResponse.json(
+        { error: 'Poll not found' },
+        { status: 404 }
+      )
+    }
+
+    // The QR code holds the share token, so unlisted and private polls only hand it to those
+    // who already have the share link.
+    const access = await checkRequestPollAccess(supabase, request, poll)
+    if (access !== 'granted') {
+      return pollAccessErrorResponse(access)
+    }
+
+    const logo = validatedData.logo ? await loadQrLogo(supabase, validatedData.logo) : null
+    if (validatedData.logo && !logo) {
+      return NextResponse.json(
+        { error: 'Logo not found' },
+        { status: 404 }
+      )
+    }
+
     // Generate poll URL
-    const pollUrl = `${process.env.NEXT_PUBLIC_APP_URL}/polls/${poll.id}?token=${poll.share_token}`
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL ?? ''
+    let pollUrl = getShareUrl(baseUrl, poll.id, poll.share_token)
+    if (validatedData.ref) {
+      pollUrl = addAttribution(pollUrl, validatedData.ref)
+    }
 
-    // Generate QR code
-    let qrCodeData: string | Buffer
-    
-    const options = {
-      width: validatedData.size,
-      margin: 2,
-      color: {
-        dark: '#000000',
-        light: '#FFFFFF'
+    if (validatedData.short_link) {
+      const { data: shortLink } = await supabase
+        .from('short_links')
+        .select('slug')
+        .eq('slug', validatedData.short_link)
+        .eq('poll_id', poll.id)
+        .maybeSingle()
+
+      if (!shortLink) {
+        return NextResponse.json(
+          { error: 'Short link not found' },
+          { status: 404 }
+        )
       }
+
+      pollUrl = getShortLinkUrl(baseUrl, shortLink.slug)
     }
 
-    switch (validatedData.format) {
-      case 'svg':
-        qrCodeData = await QRCode.toString(pollUrl, {
-          ...options,
-          type: 'svg'
-        })
-        break
-      case 'pdf':
-        qrCodeData = await QRCode.toBuffer(pollUrl, {
-          ...options,
-          type: 'pdf'
-        })
-        break
-      default: // png
-        qrCodeData = await QRCode.toDataURL(pollUrl, options)
-        break
+    // Generate QR code
+    const options = {
+      url: pollUrl,
+      size: validatedData.size,
+      style: {
+        dark,
+        light,
+        margin: validatedData.margin,
+        errorCorrectionLevel: getErrorCorrectionLevel(validatedData.error_correction, Boolean(logo))
+      },
+      logo,
+      caption: validatedData.caption ? getQrCaption(poll.title) : null
     }
 
-    // Set appropriate headers
+    let qrCodeData: string | Uint8Array<ArrayBuffer>
     const headers = new Headers()
-    
+
     switch (validatedData.format) {
       case 'svg':
+        qrCodeData = await renderQrSvg(options)
         headers.set('Content-Type', 'image/svg+xml')
         break
       case 'pdf':
+        qrCodeData = new Uint8Array(await renderQrPdf(options))
         headers.set('Content-Type', 'application/pdf')
         break
       default: // png
+        qrCodeData = new Uint8Array(await renderQrPng(options))
         headers.set('Content-Type', 'image/png')
         break
     }
 
-    headers.set('Cache-Control', 'public, max-age=3600') // Cache for 1 hour
+    // Public polls' QR codes are cached for 1 hour. Others aren't cached by shared caches, and are
+    // never reused after the share token is rotated.
+    headers.set('Cache-Control', poll.access === 'public' ? 'public, max-age=3600' : 'private, no-store')
 
     return new NextResponse(qrCodeData, {
       status: 200,
@@ -147,7 +225,7 @@ export async function POST(
     }
 
     // Generate poll URL
-    const pollUrl = `${process.env.NEXT_PUBLIC_APP_URL}/polls/${poll.id}?token=${poll.share_token}`
+    const pollUrl = getShareUrl(process.env.NEXT_PUBLIC_APP_URL ?? '', poll.id, poll.share_token)
 
     // Generate QR code as PNG
     const qrCodeDataUrl = await QRCode.toDataURL(pollUrl, {
@@ -0,0 +1,321 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/client'
+import { surveyResponseSchema } from '@/lib/validations'
+import { findSurveyResponseError, toSurveyQuestion } from '@/lib/survey'
+import { buildAnswerKey, collectSelections, scoreQuiz } from '@/lib/quiz'
+import { rememberVote } from '@/lib/results-access'
+import { checkRequestPollAccess, pollAccessErrorResponse } from '@/lib/share-access'
+import { isRequestUnlocked, pollLockedResponse } from '@/lib/unlock-access'
+import { claimRequestBallot, releaseBallot } from '@/lib/ballot-access'
+import { checkRequestEligibility, ineligibleResponse, toEligibilityRules } from '@/lib/eligibility-access'
+import { hasEligibilityRules } from '@/lib/eligibility'
+import { getRequestShareId } from '@/lib/share-attribution'
+import { detectBallotFraud } from '@/lib/fraud-access'
+import { claimRequestChallenge, releaseChallenge } from '@/lib/challenge-access'
+import { checkRequestPhoneVerification } from '@/lib/phone-access'
+import { clearExpiredBallots, getPendingUntil, sendBallotConfirmation } from '@/lib/confirmation-access'
+import { RATE_LIMITS, getClientIp } from '@/lib/rate-limit'
+import { enforceRateLimit, withRateLimitHeaders } from '@/lib/rate-limit-store'
+import { AppError } from '@/lib/errors'
+import { handleApiError } from '@/lib/api-response'
+
+/**
+ * API endpoint for submitting a response to a survey poll.
+ * A response answers all of the survey's questions at once. It is stored as one `survey_responses`
+ * row, with every answer stored as a vote that references it, so ranked and scale answers
+ * keep their rankings and ratings just like single-question polls.
+ * Responses to quizzes are scored straight away, and the response includes the `quiz` feedback.
+ * Invite-only surveys take a ballot token, like votes on invite-only polls.
+ * Anonymous respondents send a solved vote challenge, like anonymous voters, and responses with
+ * an email address wait for the respondent to confirm it, like votes. Surveys that require
+ * verified phone numbers take anonymous responses with a verified `voter_phone` instead.
+ * @param request The incoming request object.
+ * @param context The context object, which contains the poll ID.
+ * @returns A response object with the new response or an error message.
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = createServerSupabaseClient()
+
+    // We parse and validate the request body using a Zod schema.
+    const body = await request.json()
+    const validatedData = surveyResponseSchema.parse({ ...body, poll_id: params.id })
+
+    const rateLimit = await enforceRateLimit(request, RATE_LIMITS.vote, { pollId: validatedData.poll_id })
+
+    // We get the user's IP address and user agent from the request headers.
+    const ip = getClientIp(request.headers)
+    const userAgent = request.headers.get('user-agent') || 'unknown'
+
+    // We check if the survey exists and is currently active.
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('*')
+      .eq('id', validatedData.poll_id)
+      .in('status', ['scheduled', 'open'])
+      .single()
+
+    if (pollError || !poll) {
+      return NextResponse.json({ error: 'Poll not found or inactive' }, { status: 404 })
+    }
+
+    // Unlisted and private surveys can only be answered through their share link, and
+    // password-protected surveys once they have been unlocked.
+    const access = await checkRequestPollAccess(supabase, request, poll)
+    if (access !== 'granted') {
+      return pollAccessErrorResponse(access)
+    }
+
+    if (!(await isRequestUnlocked(supabase, request, poll))) {
+      return pollLockedResponse()
+    }
+
+    // Surveys with eligibility rules only take responses from the accounts they allow.
+    const ineligibleReason = await checkRequestEligibility(supabase, poll)
+    if (ineligibleReason) {
+      return ineligibleResponse(ineligibleReason, poll)
+    }
+
+    if (poll.poll_type !== 'survey') {
+      return NextResponse.json({ error: 'This poll is not a survey' }, { status: 400 })
+    }
+
+    // We check if the survey has opened yet.
+    if (poll.starts_at && new Date(poll.starts_at) > new Date()) {
+      return NextResponse.json({ error: 'Poll has not opened yet' }, { status: 400 })
+    }
+
+    // We check if the survey has expired.
+    if (poll.expires_at && new Date(poll.expires_at) < new Date()) {
+      return NextResponse.json({ error: 'Poll has expired' }, { status: 400 })
+    }
+
+    // If the survey requires authentication, we check if the user is logged in.
+    // Surveys with eligibility rules record respondents by account, so that each account responds once.
+    let voterId: string | null = null
+    if (poll.require_authentication || hasEligibilityRules(toEligibilityRules(poll))) {
+      const { data: { user }, error: authError } = await supabase.auth.getUser()
+      if (authError || !user) {
+        return NextResponse.json({ error: 'Authentication required for this poll' }, { status: 401 })
+      }
+      voterId = user.id
+    }
+
+    // Surveys that require verified phone numbers only take anonymous responses with a number
+    // the respondent just verified, and tell those respondents apart by it.
+    const phoneError = checkRequestPhoneVerification(request, poll, { ...validatedData, voter_id: voterId })
+    if (phoneError) {
+      return phoneError
+    }
+
+    // We check if the voter has already responded to this survey.
+    const [voterColumn, voterValue] = voterId
+      ? ['voter_id' as const, voterId]
+      : validatedData.voter_email && !poll.require_phone_verification
+      ? ['voter_email' as const, validatedData.voter_email]
+      : ['voter_phone' as const, validatedData.voter_phone ?? '']
+
+    // Responses that weren't confirmed in time are dropped, so the respondent can respond again.
+    if (voterColumn === 'voter_email') {
+      await clearExpiredBallots(supabase, validatedData.poll_id, voterValue)
+    }
+
+    const { data: existingResponse } = await supabase
+      .from('survey_responses')
+      .select('id, pending_until')
+      .eq('poll_id', validatedData.poll_id)
+      .eq(voterColumn, voterValue)
+      .single()
+
+    if (existingResponse) {
+      const error = existingResponse.pending_until
+        ? 'You have already responded to this survey; check your email to confirm your response'
+        : 'You have already responded to this survey'
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    // We check every answer against the survey's questions and their options.
+    const { data: questionRows, error: questionsError } = await supabase
+      .from('poll_questions')
+      .select('*')
+      .eq('poll_id', validatedData.poll_id)
+      .order('order_index', { ascending: true })
+
+    const { data: optionRows, error: optionsError } = await supabase
+      .from('poll_options')
+      .select('*')
+      .eq('poll_id', validatedData.poll_id)
+
+    if (questionsError || optionsError) {
+      console.error('Survey fetch error:', questionsError || optionsError)
+      return NextResponse.json({ error: 'Failed to submit response' }, { status: 500 })
+    }
+
+    const questions = questionRows.map((row) => toSurveyQuestion(row, optionRows))
+    const answerError = findSurveyResponseError(questions, validatedData.answers)
+    if (answerError) {
+      return NextResponse.json({ error: answerError }, { status: 400 })
+    }
+
+    // Anonymous voters must have solved a challenge, which is used up along with the response.
+    // Like the ballot token below, it is given back if the response can't be saved.
+    const challenge = await claimRequestChallenge(supabase, request, poll)
+    if ('response' in challenge) {
+      return challenge.response
+    }
+
+    // On invite-only surveys, the respondent's ballot token is used up before the response is stored.
+    const ballot = await claimRequestBallot(supabase, request, poll)
+    if ('response' in ballot) {
+      await releaseChallenge(supabase, challenge.challengeId)
+      return ballot.response
+    }
+
+    // Once all the checks have passed, we store the response. Anonymous responses with an email
+    // address are only counted once the respondent confirms it, like votes.
+    const voter = {
+      voter_id: voterId,
+      voter_email: validatedData.voter_email ?? null,
+      voter_phone: validatedData.voter_phone ?? null
+    }
+    const pendingUntil = getPendingUntil(poll, voter)
+
+    const { data: response, error: responseError } = await supabase
+      .from('survey_responses')
+      .insert({
+        poll_id: validatedData.poll_id,
+        ...voter,
+        ip_address: ip,
+        user_agent: userAgent,
+        pending_until: pendingUntil
+      })
+      .select()
+      .single()
+
+    if (responseError) {
+      console.error('Survey response submission error:', responseError)
+      await releaseBallot(supabase, ballot.invitationId)
+      await releaseChallenge(supabase, challenge.challengeId)
+      return NextResponse.json({ error: 'Failed to submit response' }, { status: 500 })
+    }
+
+    // Every answer becomes one vote, or one vote per selected option for multiple-vote questions.
+    // Ranked answers store their first preference on the vote, like ranked-choice polls.
+    // We generate the vote IDs here so the rankings and ratings can reference them.
+    // The votes are credited to the share the respondent came through, if any, and flagged for
+    // review if the response looks like ballot stuffing.
+    const shareId = await getRequestShareId(supabase, request, poll.id)
+    const fraudFlags = await detectBallotFraud(supabase, poll.id, {
+      ipAddress: ip,
+      userAgent,
+      voterEmail: voter.voter_email
+    })
+    const votes = validatedData.answers.flatMap((answer) => {
+      const optionIds = answer.option_ids ?? [answer.option_id ?? answer.ranking?.[0] ?? null]
+      return optionIds.map((optionId) => ({
+        id: crypto.randomUUID(),
+        poll_id: validatedData.poll_id,
+        question_id: answer.question_id,
+        response_id: response.id,
+        option_id: optionId,
+        ...voter,
+        share_id: shareId,
+        ip_address: ip,
+        user_agent: userAgent,
+        fraud_flags: fraudFlags,
+        pending_until: pendingUntil
+      }))
+    })
+    const voteIdFor = (questionId: string) => votes.find((vote) => vote.question_id === questionId)?.id ?? ''
+
+    const rankings = validatedData.answers.flatMap((answer) =>
+      (answer.ranking ?? []).map((optionId, index) => ({
+        vote_id: voteIdFor(answer.question_id),
+        option_id: optionId,
+        rank: index + 1
+      }))
+    )
+
+    const ratings = validatedData.answers.flatMap((answer) =>
+      (answer.ratings ?? []).map((rating) => ({
+        vote_id: voteIdFor(answer.question_id),
+        option_id: rating.option_id ?? null,
+        value: rating.value
+      }))
+    )
+
+    // If any part of the response fails to save, we remove the response (and with it, its votes)
+    // so the voter can try again.
+    const { error: votesError } = await supabase.from('votes').insert(votes)
+    const { error: rankingsError } = votesError || rankings.length === 0
+      ? { error: null }
+      : await supabase.from('vote_rankings').insert(rankings)
+    const { error: ratingsError } = votesError || rankingsError || ratings.length === 0
+      ? { error: null }
+      : await supabase.from('vote_ratings').insert(ratings)
+
+    if (votesError || rankingsError || ratingsError) {
+      console.error('Survey answers submission error:', votesError || rankingsError || ratingsError)
+      await supabase.from('survey_responses').delete().eq('id', response.id)
+      await releaseBallot(supabase, ballot.invitationId)
+      await releaseChallenge(supabase, challenge.challengeId)
+      return NextResponse.json({ error: 'Failed to submit response' }, { status: 500 })
+    }
+
+    // We email the link that confirms the response. If it can't be sent, we remove the response.
+    if (pendingUntil && voter.voter_email) {
+      if (!(await sendBallotConfirmation(request, poll, response.id, voter.voter_email, pendingUntil))) {
+        await supabase.from('survey_responses').delete().eq('id', response.id)
+        await releaseBallot(supabase, ballot.invitationId)
+        await releaseChallenge(supabase, challenge.challengeId)
+        return NextResponse.json({ error: 'Failed to send the confirmation email' }, { status: 500 })
+      }
+    }
+
+    // On quizzes, the respondent learns straight away which questions they got right.
+    let quiz = null
+    if (poll.is_quiz) {
+      const { data: quizAnswers, error: quizAnswersError } = await supabase
+        .from('quiz_answers')
+        .select('option_id, question_id')
+        .eq('poll_id', validatedData.poll_id)
+
+      if (quizAnswersError) {
+        console.error('Quiz answers fetch error:', quizAnswersError)
+      } else {
+        quiz = scoreQuiz(buildAnswerKey(quizAnswers), collectSelections(votes))
+      }
+    }
+
+    // Any one of the response's votes is enough to recognise the respondent later.
+    return rememberVote(
+      request,
+      withRateLimitHeaders(
+        NextResponse.json({
+          success: true,
+          data: {
+            ...response,
+            answers: validatedData.answers
+          },
+          ...(quiz && { quiz }),
+          ...(pendingUntil && { pending: true })
+        }),
+        rateLimit
+      ),
+      validatedData.poll_id,
+      votes[0]?.id ?? ''
+    )
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return handleApiError(error)
+    }
+
+    console.error('Survey response error:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,66 @@
+// @vitest-environment node
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const tables: Record<string, unknown> = {};
+let user: { id: string } | null = null;
+
+/** A query on the fake database, whatever its filters, resolves to its table's rows. */
+function query(table: string): unknown {
+  const result = { data: tables[table] ?? null, error: null };
+  const builder: unknown = new Proxy({}, {
+    get: (_, prop) => (prop === 'then' ? (resolve: (value: unknown) => void) => resolve(result) : () => builder)
+  });
+  return builder;
+}
+
+vi.mock('@/lib/supabase/client', () => ({
+  createServerSupabaseClient: () => ({
+    from: query,
+    auth: { getUser: async () => ({ data: { user }, error: null }) }
+  })
+}));
+
+const { GET } = await import('./route');
+
+const draft = {
+  id: 'poll-1',
+  poll_type: 'standard',
+  allow_multiple_votes: false,
+  scale_labels: null,
+  created_by: 'creator-1',
+  status: 'draft',
+  starts_at: null,
+  expires_at: null,
+  results_visibility: 'always',
+  access: 'public',
+  share_token: 'share-token-1',
+  password_protected: false
+};
+
+function getResults() {
+  return GET(new NextRequest('https://polly.test/api/polls/poll-1/results'), { params: { id: 'poll-1' } });
+}
+
+describe('GET /api/polls/[id]/results', () => {
+  beforeEach(() => {
+    tables.polls = draft;
+    tables.poll_options = [{ id: 'option-1', text: 'Pizza', question_id: null }];
+    tables.votes = [];
+  });
+
+  it('should hide the results of a draft from everyone but its creator', async () => {
+    user = { id: 'voter-1' };
+    const response = await getResults();
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: 'Poll not found' });
+  });
+
+  it('should show the creator the results of their draft', async () => {
+    user = { id: 'creator-1' };
+    const response = await getResults();
+
+    expect(response.status).toBe(200);
+  });
+});
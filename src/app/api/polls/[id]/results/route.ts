@@ -0,0 +1,234 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/client'
+import { calculateNps, summarizeRatings, tallyApproval, tallyInstantRunoff } from '@/lib/tally'
+import { getScaleRange, isScalePoll } from '@/lib/scales'
+import { canRequestViewResults } from '@/lib/results-access'
+import { checkRequestPollAccess, pollAccessErrorResponse } from '@/lib/share-access'
+import { isRequestUnlocked, pollLockedResponse } from '@/lib/unlock-access'
+import { PollResults, PollType, QuestionType } from '@/types'
+
+type QuestionSettings = { poll_type: string; allow_multiple_votes: boolean | null; scale_labels: string[] | null }
+type OptionRow = { id: string; text: string }
+type VoteRow = {
+  id: string
+  option_id: string | null
+  response_id: string | null
+  voter_id: string | null
+  voter_email: string | null
+  voter_phone: string | null
+}
+type RankingRow = { vote_id: string; option_id: string; rank: number }
+type RatingRow = { vote_id: string; option_id: string | null; value: number }
+
+/**
+ * Tallies the votes for a single question: a whole poll, or one question of a survey.
+ * @param question The question's voting settings.
+ * @param options The question's options, in display order.
+ * @param votes The votes cast on the question.
+ * @param rankings The rankings of ranked ballots, in rank order.
+ * @param ratings The answers to scale questions.
+ * @returns The question's results.
+ */
+function tallyQuestion(
+  question: QuestionSettings,
+  options: OptionRow[],
+  votes: VoteRow[],
+  rankings: RankingRow[],
+  ratings: RatingRow[]
+): Omit<PollResults, 'pollId' | 'pollType'> {
+  const optionIds = options.map((option) => option.id)
+  const results: Omit<PollResults, 'pollId' | 'pollType'> = {
+    totalVotes: votes.length,
+    options: options.map((option) => ({
+      id: option.id,
+      text: option.text,
+      votes: votes.filter((vote) => vote.option_id === option.id).length
+    }))
+  }
+
+  // For ranked-choice questions, we rebuild every ballot from its rankings and run the tally.
+  if (question.poll_type === 'ranked_choice') {
+    const ballots = votes.map((vote) =>
+      rankings.filter((ranking) => ranking.vote_id === vote.id).map((ranking) => ranking.option_id)
+    )
+    results.rankedChoice = tallyInstantRunoff(optionIds, ballots)
+  }
+
+  // For multiple-vote questions, we group the vote rows into one approval ballot per voter.
+  if (question.allow_multiple_votes) {
+    const ballots = new Map<string, string[]>()
+    for (const vote of votes) {
+      const voterKey = vote.response_id || vote.voter_id || vote.voter_email || vote.voter_phone || vote.id
+      if (vote.option_id) {
+        ballots.set(voterKey, [...(ballots.get(voterKey) || []), vote.option_id])
+      }
+    }
+    results.approval = tallyApproval(optionIds, [...ballots.values()])
+  }
+
+  // For scale questions, we summarize the answers, per row for Likert questions.
+  const range = getScaleRange(question.poll_type, question.scale_labels)
+  if (isScalePoll(question.poll_type) && range) {
+    const voteIds = new Set(votes.map((vote) => vote.id))
+    const answers = ratings.filter((rating) => voteIds.has(rating.vote_id))
+
+    if (question.poll_type === 'likert') {
+      results.likert = options.map((option) => ({
+        optionId: option.id,
+        ...summarizeRatings(
+          answers.filter((rating) => rating.option_id === option.id).map((rating) => rating.value),
+          range
+        )
+      }))
+    } else {
+      const values = answers.map((rating) => rating.value)
+      results.rating = summarizeRatings(values, range)
+      if (question.poll_type === 'nps') {
+        results.nps = calculateNps(values)
+      }
+    }
+  }
+
+  return results
+}
+
+/**
+ * API endpoint for fetching the tallied results of a poll.
+ * Ranked-choice polls also include the instant-runoff rounds, and multiple-vote
+ * polls include approval counts per voter alongside the raw vote totals. Rating, NPS and
+ * Likert polls include answer summaries (mean, median, distribution and NPS score).
+ * Surveys include the same results for every question, along with the number of respondents.
+ * Votes the poll creator excluded after review, and anonymous votes whose email address hasn't been
+ * confirmed yet, are left out of every tally.
+ * Polls whose results are hidden from the requester, by the poll's results visibility, return 403.
+ * Drafts return 404 to everyone but their creator.
+ * @param request The incoming request object.
+ * @param context The context object, which contains the poll ID.
+ * @returns A response object with the poll results or an error message.
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = createServerSupabaseClient()
+    const pollId = params.id
+
+    // We fetch the poll and its options in display order.
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('id, poll_type, allow_multiple_votes, scale_labels, created_by, status, starts_at, expires_at, results_visibility, access, share_token, password_protected')
+      .eq('id', pollId)
+      .single()
+
+    if (pollError || !poll) {
+      return NextResponse.json({ error: 'Poll not found' }, { status: 404 })
+    }
+
+    // Drafts are invisible to everyone but their creator.
+    const { data: { user } } = await supabase.auth.getUser()
+    if (poll.status === 'draft' && user?.id !== poll.created_by) {
+      return NextResponse.json({ error: 'Poll not found' }, { status: 404 })
+    }
+
+    // Unlisted and private polls only show their results through their share link, and
+    // password-protected polls once they have been unlocked.
+    const access = await checkRequestPollAccess(supabase, request, poll)
+    if (access !== 'granted') {
+      return pollAccessErrorResponse(access)
+    }
+
+    if (!(await isRequestUnlocked(supabase, request, poll))) {
+      return pollLockedResponse()
+    }
+
+    if (!(await canRequestViewResults(supabase, request, poll))) {
+      return NextResponse.json({ error: 'Results are not available yet' }, { status: 403 })
+    }
+
+    const isSurvey = poll.poll_type === 'survey'
+
+    const { data: options, error: optionsError } = await supabase
+      .from('poll_options')
+      .select('id, text, question_id')
+      .eq('poll_id', pollId)
+      .order('order_index', { ascending: true })
+
+    const { data: votes, error: votesError } = await supabase
+      .from('votes')
+      .select('id, option_id, question_id, response_id, voter_id, voter_email, voter_phone')
+      .eq('poll_id', pollId)
+      .is('excluded_at', null)
+      .is('pending_until', null)
+
+    if (optionsError || votesError) {
+      console.error('Results fetch error:', optionsError || votesError)
+      return NextResponse.json({ error: 'Failed to fetch results' }, { status: 500 })
+    }
+
+    // We fetch the full rankings and scale answers only when the poll can have them.
+    const voteIds = votes.map((vote) => vote.id)
+    const { data: rankings, error: rankingsError } = isSurvey || poll.poll_type === 'ranked_choice'
+      ? await supabase
+          .from('vote_rankings')
+          .select('vote_id, option_id, rank')
+          .in('vote_id', voteIds)
+          .order('rank', { ascending: true })
+      : { data: [], error: null }
+
+    const { data: ratings, error: ratingsError } = isSurvey || isScalePoll(poll.poll_type)
+      ? await supabase
+          .from('vote_ratings')
+          .select('vote_id, option_id, value')
+          .in('vote_id', voteIds)
+      : { data: [], error: null }
+
+    if (rankingsError || ratingsError) {
+      console.error('Ballot fetch error:', rankingsError || ratingsError)
+      return NextResponse.json({ error: 'Failed to fetch results' }, { status: 500 })
+    }
+
+    if (!isSurvey) {
+      const results: PollResults = {
+        pollId,
+        pollType: poll.poll_type as PollType,
+        ...tallyQuestion(poll, options, votes, rankings, ratings)
+      }
+      return NextResponse.json({ success: true, data: results })
+    }
+
+    // For surveys, we tally every question separately and count respondents rather than answers.
+    const { data: questions, error: questionsError } = await supabase
+      .from('poll_questions')
+      .select('id, text, question_type, allow_multiple_votes, scale_labels')
+      .eq('poll_id', pollId)
+      .order('order_index', { ascending: true })
+
+    if (questionsError) {
+      console.error('Survey questions fetch error:', questionsError)
+      return NextResponse.json({ error: 'Failed to fetch results' }, { status: 500 })
+    }
+
+    const results: PollResults = {
+      pollId,
+      pollType: 'survey',
+      totalVotes: votes.length,
+      options: [],
+      respondents: new Set(votes.map((vote) => vote.response_id)).size,
+      questions: questions.map((question) => ({
+        questionId: question.id,
+        text: question.text,
+        pollType: question.question_type as QuestionType,
+        ...tallyQuestion(
+          { ...question, poll_type: question.question_type },
+          options.filter((option) => option.question_id === question.id),
+          votes.filter((vote) => vote.question_id === question.id),
+          rankings,
+          ratings
+        )
+      }))
+    }
+
+    return NextResponse.json({ success: true, data: results })
+  } catch (error) {
+    console.error('Get results error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
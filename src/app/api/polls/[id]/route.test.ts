@@ -0,0 +1,157 @@
+// @vitest-environment node
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const tables: Record<string, unknown> = {};
+const calls: { table: string; method: string; args: unknown[] }[] = [];
+
+/** A query on the fake database, whatever its filters, resolves to its table's rows. Every call is recorded. */
+function query(table: string): unknown {
+  const result = { data: tables[table] ?? null, error: null };
+  const builder: unknown = new Proxy({}, {
+    get: (_, prop) => (prop === 'then'
+      ? (resolve: (value: unknown) => void) => resolve(result)
+      : (...args: unknown[]) => {
+          calls.push({ table, method: String(prop), args });
+          return builder;
+        })
+  });
+  return builder;
+}
+
+vi.mock('@/lib/supabase/client', () => ({
+  createServerSupabaseClient: () => ({
+    from: query,
+    auth: { getUser: async () => ({ data: { user: { id: 'creator-1' } }, error: null }) }
+  })
+}));
+
+const { GET, PUT } = await import('./route');
+
+const draft = {
+  id: 'poll-1',
+  created_by: 'creator-1',
+  status: 'draft',
+  starts_at: null,
+  expires_at: null,
+  poll_type: 'standard',
+  is_quiz: false
+};
+
+function editPoll(body: Record<string, unknown>) {
+  const request = new NextRequest('https://polly.test/api/polls/poll-1', { method: 'PUT', body: JSON.stringify(body) });
+  return PUT(request, { params: { id: 'poll-1' } });
+}
+
+function insertedOptions() {
+  return calls.filter((call) => call.table === 'poll_options' && call.method === 'insert').map((call) => call.args[0]);
+}
+
+describe('PUT /api/polls/[id]', () => {
+  beforeEach(() => {
+    calls.length = 0;
+    tables.polls = draft;
+    tables.poll_options = [{ text: 'Pizza' }, { text: 'Tacos' }];
+  });
+
+  it('should replace the options of a draft that were changed', async () => {
+    const response = await editPoll({ title: 'Lunch', options: ['Pizza', 'Sushi', 'Tacos'] });
+
+    expect(response.status).toBe(200);
+    expect(insertedOptions()).toEqual([
+      [
+        expect.objectContaining({ poll_id: 'poll-1', text: 'Pizza', order_index: 0 }),
+        expect.objectContaining({ poll_id: 'poll-1', text: 'Sushi', order_index: 1 }),
+        expect.objectContaining({ poll_id: 'poll-1', text: 'Tacos', order_index: 2 })
+      ]
+    ]);
+  });
+
+  it('should keep the options of a draft that weren\'t changed', async () => {
+    await editPoll({ title: 'Lunch', options: ['Pizza', 'Tacos'] });
+
+    expect(calls.some((call) => call.table === 'poll_options' && call.method === 'delete')).toBe(false);
+  });
+
+  it('should ask for the correct options of a draft quiz again once its options change', async () => {
+    tables.polls = { ...draft, is_quiz: true };
+    const response = await editPoll({ title: 'Lunch', options: ['Pizza', 'Sushi'] });
+
+    expect(response.status).toBe(400);
+    expect(insertedOptions()).toEqual([]);
+  });
+
+  it('should check an edit against the poll\'s own type', async () => {
+    tables.polls = { ...draft, status: 'open', poll_type: 'rating' };
+    const response = await editPoll({ title: 'Rate lunch', options: [] });
+
+    expect(response.status).toBe(200);
+    expect(calls.find((call) => call.table === 'polls' && call.method === 'update')?.args[0]).not.toHaveProperty('poll_type');
+  });
+
+  it('should clear the description and dates sent as null', async () => {
+    tables.polls = { ...draft, starts_at: '2099-01-01T00:00:00.000Z', expires_at: '2099-02-01T00:00:00.000Z' };
+    await editPoll({ title: 'Lunch', options: ['Pizza', 'Tacos'], description: null, starts_at: null, expires_at: null });
+
+    expect(calls.find((call) => call.table === 'polls' && call.method === 'update')?.args[0]).toMatchObject({
+      description: null,
+      starts_at: null,
+      expires_at: null
+    });
+  });
+
+  it('should leave the options of a published poll alone', async () => {
+    tables.polls = { ...draft, status: 'open' };
+    await editPoll({ title: 'Lunch', options: ['Pizza', 'Sushi', 'Tacos'] });
+
+    expect(calls.some((call) => call.table === 'poll_options')).toBe(false);
+  });
+});
+
+describe('GET /api/polls/[id]', () => {
+  const unlisted = {
+    id: 'poll-1',
+    created_by: 'creator-2',
+    status: 'open',
+    access: 'unlisted',
+    share_token: 'share-token-1',
+    password_protected: false,
+    invite_only: false,
+    results_visibility: 'always',
+    poll_type: 'standard',
+    starts_at: null,
+    expires_at: null,
+    allowed_email_domains: null,
+    require_verified: false,
+    min_account_age_days: null,
+    poll_options: []
+  };
+
+  function openPoll(url: string, headers: Record<string, string> = {}) {
+    return GET(new NextRequest(url, { headers }), { params: { id: 'poll-1' } });
+  }
+
+  beforeEach(() => {
+    tables.polls = unlisted;
+    tables.votes = [];
+  });
+
+  it('should remember the share token of an embedded unlisted poll in a cookie its iframe is sent', async () => {
+    const embed = { referer: 'https://polly.test/embed/polls/poll-1?token=share-token-1' };
+    const response = await openPoll('https://polly.test/api/polls/poll-1?token=share-token-1', embed);
+    const cookie = response.cookies.get('share_poll-1');
+
+    expect(response.status).toBe(200);
+    expect(cookie).toMatchObject({ value: 'share-token-1', sameSite: 'none', secure: true, partitioned: true });
+
+    const again = await openPoll('https://polly.test/api/polls/poll-1', { ...embed, cookie: `share_poll-1=${cookie?.value}` });
+    expect(again.status).toBe(200);
+  });
+
+  it('should keep the share token cookie same-site outside embeds', async () => {
+    const response = await openPoll('https://polly.test/api/polls/poll-1?token=share-token-1');
+
+    expect(response.cookies.get('share_poll-1')).toMatchObject({ sameSite: 'lax' });
+    expect(response.cookies.get('share_poll-1')).not.toHaveProperty('secure');
+  });
+});
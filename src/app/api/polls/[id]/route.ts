@@ -1,9 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerSupabaseClient } from '@/lib/supabase/client'
-import { createPollSchema, voteSchema, multipleVoteSchema } from '@/lib/validations'
+import { createPollSchema, voteSchema, multipleVoteSchema, pollStatusSchema } from '@/lib/validations'
+import { toSurveyQuestion } from '@/lib/survey'
+import { POLL_STATUS_LABELS, canTransition, getEffectiveStatus } from '@/lib/lifecycle'
+import { canRequestViewResults } from '@/lib/results-access'
+import { hashPassword } from '@/lib/poll-passwords'
+import { checkRequestPollAccess, pollAccessErrorResponse, rememberShareToken } from '@/lib/share-access'
+import { isRequestUnlocked } from '@/lib/unlock-access'
+import { getRequestBallotStatus, rememberBallotToken } from '@/lib/ballot-access'
+import { checkRequestEligibility } from '@/lib/eligibility-access'
+import { rememberShareRef } from '@/lib/share-attribution'
+import { SHARE_REF_PARAM } from '@/lib/sharing'
+import { PollStatus } from '@/types'
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>
 
 /**
  * API endpoint for fetching a single poll by its ID.
+ * Each option includes its vote count when the poll's results are visible to the requester;
+ * otherwise the counts are left out and `results_hidden` is set.
+ * Unlisted and private polls need their share token, as the `token` query parameter, unless the
+ * requester created the poll. The token is remembered in a cookie for the poll's other endpoints,
+ * and only the creator is sent the `share_token` itself. Password-protected polls are sent without
+ * their options, and with `locked` set, until the requester unlocks them. On invite-only polls,
+ * `ballot_status` tells whether the requester's ballot token, from the `ballot` query parameter,
+ * can still be used; it is remembered in a cookie like the share token. On polls with eligibility
+ * rules, `ineligible_reason` tells requesters who may not vote why. Visitors who came through a
+ * recorded share, given as the `ref` query parameter, have it remembered so their vote is credited to it.
  * @param request The incoming request object.
  * @param context The context object, which contains the poll ID.
  * @returns A response object with the poll or an error message.
@@ -27,15 +50,157 @@ export async function GET(request: NextRequest, { params }: { params: { id: stri
       return NextResponse.json({ error: 'Poll not found' }, { status: 404 })
     }
 
-    return NextResponse.json({ success: true, data: poll })
+    // Drafts are invisible to everyone but their creator.
+    const { data: { user } } = await supabase.auth.getUser()
+    const isCreator = Boolean(user) && user?.id === poll.created_by
+    if (poll.status === 'draft' && !isCreator) {
+      return NextResponse.json({ error: 'Poll not found' }, { status: 404 })
+    }
+
+    // Unlisted and private polls also need their share link.
+    const access = await checkRequestPollAccess(supabase, request, poll)
+    if (access !== 'granted') {
+      return pollAccessErrorResponse(access)
+    }
+
+    // Only the creator gets the share token; everyone else already has it in their link, if they need it.
+    const { share_token: shareToken, ...pollData } = poll
+    const token = request.nextUrl.searchParams.get('token')
+    const ballotToken = request.nextUrl.searchParams.get('ballot')
+    const shareRef = request.nextUrl.searchParams.get(SHARE_REF_PARAM)
+    const respond = (body: object) => {
+      let response: NextResponse = NextResponse.json({ success: true, data: body })
+      if (token && poll.access !== 'public' && !isCreator) response = rememberShareToken(request, response, pollId, token)
+      if (ballotToken && poll.invite_only) response = rememberBallotToken(request, response, pollId, ballotToken)
+      if (shareRef) response = rememberShareRef(request, response, pollId, shareRef)
+      return response
+    }
+
+    // Password-protected polls leave out their options and questions until they are unlocked.
+    if (!(await isRequestUnlocked(supabase, request, poll))) {
+      return respond({ ...pollData, poll_options: [], locked: true })
+    }
+
+    // Vote counts are only sent to those allowed to see the results.
+    const resultsVisible = await canRequestViewResults(supabase, request, poll)
+    let options = poll.poll_options
+    if (resultsVisible) {
+      const { data: votes, error: votesError } = await supabase
+        .from('votes')
+        .select('option_id')
+        .eq('poll_id', pollId)
+        .is('excluded_at', null)
+        .is('pending_until', null)
+
+      if (votesError) {
+        console.error('Vote counts fetch error:', votesError)
+        return NextResponse.json({ error: 'Failed to fetch poll' }, { status: 500 })
+      }
+
+      options = options.map((option) => ({
+        ...option,
+        votes: votes.filter((vote) => vote.option_id === option.id).length
+      }))
+    }
+
+    const ballotStatus = await getRequestBallotStatus(supabase, request, poll)
+    const ineligibleReason = await checkRequestEligibility(supabase, poll)
+    const data = {
+      ...pollData,
+      poll_options: options,
+      ...(!resultsVisible && { results_hidden: true }),
+      ...(ballotStatus && { ballot_status: ballotStatus }),
+      ...(ineligibleReason && { ineligible_reason: ineligibleReason }),
+      ...(isCreator && { share_token: shareToken })
+    }
+
+    // Surveys also list their questions in order, each with its own options.
+    if (poll.poll_type === 'survey') {
+      const { data: questionRows, error: questionsError } = await supabase
+        .from('poll_questions')
+        .select('*')
+        .eq('poll_id', pollId)
+        .order('order_index', { ascending: true })
+
+      if (questionsError) {
+        console.error('Survey questions fetch error:', questionsError)
+        return NextResponse.json({ error: 'Failed to fetch survey questions' }, { status: 500 })
+      }
+
+      const questions = questionRows.map((row) => toSurveyQuestion(row, options))
+      return respond({ ...data, questions })
+    }
+
+    return respond(data)
   } catch (error) {
     console.error('Get poll error:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
 }
 
+/**
+ * Replaces the options of a draft with the ones it was edited to have. They are only replaced if
+ * they changed, since replacing them also drops the correct options of a quiz, which must then be
+ * marked again.
+ * @param supabase The Supabase client.
+ * @param poll The draft.
+ * @param options The draft's options, in order.
+ * @param correctOptions The indexes of the correct options among them, for quizzes.
+ * @returns The error response to send, or null once the options are saved.
+ */
+async function replaceDraftOptions(
+  supabase: SupabaseClient,
+  poll: { id: string; is_quiz: boolean },
+  options: string[],
+  correctOptions: number[] | undefined
+) {
+  const { data: current, error: fetchError } = await supabase
+    .from('poll_options')
+    .select('text')
+    .eq('poll_id', poll.id)
+    .is('question_id', null)
+    .order('order_index', { ascending: true })
+
+  if (fetchError) {
+    console.error('Options fetch error:', fetchError)
+    return NextResponse.json({ error: 'Failed to update poll options' }, { status: 500 })
+  }
+
+  if (current.length === options.length && current.every((option, index) => option.text === options[index])) {
+    return null
+  }
+
+  if (poll.is_quiz && !correctOptions?.length) {
+    return NextResponse.json({ error: 'Mark the correct options again after changing the options of a quiz' }, { status: 400 })
+  }
+  if (poll.is_quiz && correctOptions?.some((index) => index >= options.length)) {
+    return NextResponse.json({ error: 'Invalid correct options' }, { status: 400 })
+  }
+
+  const rows = options.map((text, index) => ({ id: crypto.randomUUID(), poll_id: poll.id, text, order_index: index }))
+  const { error: deleteError } = await supabase.from('poll_options').delete().eq('poll_id', poll.id).is('question_id', null)
+  const { error: insertError } = deleteError ? { error: null } : await supabase.from('poll_options').insert(rows)
+  const { error: answersError } = deleteError || insertError || !poll.is_quiz
+    ? { error: null }
+    : await supabase.from('quiz_answers').insert(
+        rows
+          .filter((_, index) => correctOptions?.includes(index))
+          .map((row) => ({ option_id: row.id, poll_id: poll.id, question_id: null }))
+      )
+
+  if (deleteError || insertError || answersError) {
+    console.error('Poll options update error:', deleteError || insertError || answersError)
+    return NextResponse.json({ error: 'Failed to update poll options' }, { status: 500 })
+  }
+  return null
+}
+
 /**
  * API endpoint for updating a poll.
+ * A body with only a `status` moves the poll through its lifecycle, if the move is allowed from
+ * the poll's current status. Any other body edits the poll; drafts can be edited freely, options
+ * included, while closed and archived polls must be reopened first. Once a poll is published, its
+ * votes refer to its options, so the options of a published poll can't be changed.
  * @param request The incoming request object.
  * @param context The context object, which contains the poll ID.
  * @returns A response object with the updated poll or an error message.
@@ -55,7 +220,7 @@ export async function PUT(request: NextRequest, { params }: { params: { id: stri
     // We fetch the poll from the database to check if the user is the creator.
     const { data: existingPoll, error: fetchError } = await supabase
       .from('polls')
-      .select('created_by')
+      .select('id, created_by, status, starts_at, expires_at, poll_type, is_quiz')
       .eq('id', pollId)
       .single()
 
@@ -67,20 +232,114 @@ export async function PUT(request: NextRequest, { params }: { params: { id: stri
       return NextResponse.json({ error: 'You are not authorized to update this poll' }, { status: 403 })
     }
 
-    // We parse and validate the request body.
     const body = await request.json()
-    const validatedData = createPollSchema.parse(body)
+    const currentStatus = getEffectiveStatus(
+      existingPoll.status as PollStatus,
+      existingPoll.starts_at,
+      existingPoll.expires_at
+    )
+
+    // A status change on its own moves the poll through its lifecycle.
+    if (body && Object.keys(body).length === 1 && 'status' in body) {
+      const { status } = pollStatusSchema.parse(body)
+
+      if (!canTransition(currentStatus, status)) {
+        return NextResponse.json(
+          { error: `A ${POLL_STATUS_LABELS[currentStatus].toLowerCase()} poll cannot be moved to ${POLL_STATUS_LABELS[status].toLowerCase()}` },
+          { status: 409 }
+        )
+      }
+
+      if (status === 'scheduled' && !(existingPoll.starts_at && new Date(existingPoll.starts_at) > new Date())) {
+        return NextResponse.json({ error: 'Set a start date in the future to schedule the poll' }, { status: 400 })
+      }
+
+      // Opening a poll starts it now, even if it was scheduled for later,
+      // and reopening a poll that closed by expiring clears its expiry.
+      const now = new Date()
+      const startsNow = status === 'open' && existingPoll.starts_at && new Date(existingPoll.starts_at) > now
+      const expiryPassed = status === 'open' && existingPoll.expires_at && new Date(existingPoll.expires_at) <= now
+      const { data: updatedPoll, error: updateError } = await supabase
+        .from('polls')
+        .update({
+          status,
+          ...(startsNow && { starts_at: now.toISOString() }),
+          ...(expiryPassed && { expires_at: null })
+        })
+        .eq('id', pollId)
+        .select()
+        .single()
+
+      if (updateError) {
+        console.error('Poll status update error:', updateError)
+        return NextResponse.json({ error: 'Failed to update poll status' }, { status: 500 })
+      }
+
+      return NextResponse.json({ success: true, data: updatedPoll })
+    }
+
+    if (currentStatus === 'closed' || currentStatus === 'archived') {
+      return NextResponse.json(
+        { error: `${POLL_STATUS_LABELS[currentStatus]} polls cannot be edited; reopen the poll first` },
+        { status: 409 }
+      )
+    }
+
+    // We parse and validate the request body. A poll keeps its type, so the edit is checked
+    // against the type it already has.
+    const validatedData = createPollSchema.parse({ ...body, poll_type: existingPoll.poll_type })
+
+    // A new password replaces the old one, which also locks out everyone who unlocked the poll
+    // with it. A null password removes it, and leaving it out keeps the current one.
+    if (validatedData.password !== undefined) {
+      const { error: passwordError } = validatedData.password
+        ? await supabase
+            .from('poll_passwords')
+            .upsert({ poll_id: pollId, password_hash: await hashPassword(validatedData.password) })
+        : await supabase.from('poll_passwords').delete().eq('poll_id', pollId)
+
+      if (passwordError) {
+        console.error('Poll password update error:', passwordError)
+        return NextResponse.json({ error: 'Failed to update poll password' }, { status: 500 })
+      }
+    }
+
+    // Drafts haven't taken any votes yet, so their options can still change. Survey questions
+    // aren't edited here.
+    if (existingPoll.status === 'draft' && existingPoll.poll_type !== 'survey' && 'options' in body) {
+      const optionsError = await replaceDraftOptions(supabase, existingPoll, validatedData.options, validatedData.correct_options)
+      if (optionsError) {
+        return optionsError
+      }
+    }
+
+    // We update the poll in the database. Settings left out of the body keep their current values,
+    // rather than taking the defaults the schema fills in for them.
+    const settings = {
+      title: validatedData.title,
+      description: validatedData.description,
+      allow_multiple_votes: validatedData.allow_multiple_votes,
+      require_authentication: validatedData.require_authentication,
+      allow_write_in: validatedData.allow_write_in,
+      allow_vote_changes: validatedData.allow_vote_changes,
+      results_visibility: validatedData.results_visibility,
+      access: validatedData.access,
+      ...(validatedData.password !== undefined && { password_protected: Boolean(validatedData.password) }),
+      invite_only: validatedData.invite_only,
+      allowed_email_domains: validatedData.allowed_email_domains ?? null,
+      require_verified: validatedData.require_verified,
+      min_account_age_days: validatedData.min_account_age_days ?? null,
+      challenge_difficulty: validatedData.challenge_difficulty,
+      require_phone_verification: validatedData.require_phone_verification,
+      min_selections: validatedData.min_selections,
+      max_selections: validatedData.max_selections,
+      starts_at: validatedData.starts_at,
+      expires_at: validatedData.expires_at
+    }
 
-    // We update the poll in the database.
     const { data: updatedPoll, error: updateError } = await supabase
       .from('polls')
-      .update({
-        title: validatedData.title,
-        description: validatedData.description,
-        allow_multiple_votes: validatedData.allow_multiple_votes,
-        require_authentication: validatedData.require_authentication,
-        expires_at: validatedData.expires_at
-      })
+      .update(Object.fromEntries(Object.entries(settings).filter(([key]) => key in body || key === 'password_protected')))
       .eq('id', pollId)
       .select()
       .single()
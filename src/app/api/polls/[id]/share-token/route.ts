@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/client'
+import { generateShareToken } from '@/lib/share-access'
+import { getShareUrl } from '@/lib/access'
+
+/**
+ * API endpoint for rotating the share token of a poll.
+ * The old share link, and every QR code made from it, stops working straight away. The stored
+ * QR code is removed, so that a new one is made for the new link.
+ * @param request The incoming request object.
+ * @param context The context object, which contains the poll ID.
+ * @returns A response object with the new share token and link, or an error message.
+ */
+export async function POST(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = createServerSupabaseClient()
+    const pollId = params.id
+
+    // Only the poll creator can rotate the share token.
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('id, created_by, qr_code_url')
+      .eq('id', pollId)
+      .single()
+
+    if (pollError || !poll) {
+      return NextResponse.json({ error: 'Poll not found' }, { status: 404 })
+    }
+
+    if (poll.created_by !== user.id) {
+      return NextResponse.json({ error: 'You are not authorized to rotate the share link of this poll' }, { status: 403 })
+    }
+
+    const shareToken = generateShareToken()
+    const { error: updateError } = await supabase
+      .from('polls')
+      .update({ share_token: shareToken, qr_code_url: null })
+      .eq('id', pollId)
+
+    if (updateError) {
+      console.error('Share token rotation error:', updateError)
+      return NextResponse.json({ error: 'Failed to rotate share link' }, { status: 500 })
+    }
+
+    // The stored QR code still points at the old link. The token has already changed, so a
+    // failure here only leaves a QR code behind that no longer opens the poll.
+    if (poll.qr_code_url) {
+      const { error: removeError } = await supabase.storage
+        .from('poll-assets')
+        .remove([`qr-codes/${poll.id}.png`])
+
+      if (removeError) {
+        console.error('QR code removal error:', removeError)
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        share_token: shareToken,
+        poll_url: getShareUrl(process.env.NEXT_PUBLIC_APP_URL ?? '', poll.id, shareToken)
+      }
+    })
+  } catch (error) {
+    console.error('Rotate share token error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/client'
+import { sharePollSchema } from '@/lib/validations'
+import { getShareUrl } from '@/lib/access'
+import { checkRequestPollAccess, pollAccessErrorResponse } from '@/lib/share-access'
+import { addAttribution, summarizeShareChannels } from '@/lib/sharing'
+import { RATE_LIMITS } from '@/lib/rate-limit'
+import { enforceRateLimit, withRateLimitHeaders } from '@/lib/rate-limit-store'
+import { AppError } from '@/lib/errors'
+import { handleApiError } from '@/lib/api-response'
+import { ShareMethod, SharePlatform } from '@/types'
+
+/**
+ * API endpoint for recording that a poll is being shared, by QR code, link or on a social platform.
+ * Anyone who can open the poll can share it. The response holds the share's ID and the link to
+ * hand out, which carries the share as its `ref` parameter so that votes from people who follow it
+ * are credited to the share. Links to unlisted and private polls also carry the share token.
+ * @param request The incoming request object.
+ * @param context The context object, which contains the poll ID.
+ * @returns A response object with the share or an error message.
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = createServerSupabaseClient()
+    const validatedData = sharePollSchema.parse({ ...(await request.json()), poll_id: params.id })
+
+    const rateLimit = await enforceRateLimit(request, RATE_LIMITS.share)
+
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('id, status, access, share_token, created_by')
+      .eq('id', validatedData.poll_id)
+      .single()
+
+    if (pollError || !poll) {
+      return NextResponse.json({ error: 'Poll not found' }, { status: 404 })
+    }
+
+    // Drafts can't be shared by anyone but their creator, and the poll's access level still applies.
+    const { data: { user } } = await supabase.auth.getUser()
+    if (poll.status === 'draft' && user?.id !== poll.created_by) {
+      return NextResponse.json({ error: 'Poll not found' }, { status: 404 })
+    }
+
+    const access = await checkRequestPollAccess(supabase, request, poll)
+    if (access !== 'granted') {
+      return pollAccessErrorResponse(access)
+    }
+
+    const { data: share, error: shareError } = await supabase
+      .from('poll_shares')
+      .insert({
+        poll_id: poll.id,
+        shared_by: user?.id ?? null,
+        share_method: validatedData.share_method,
+        platform: validatedData.platform ?? null
+      })
+      .select('id')
+      .single()
+
+    if (shareError || !share) {
+      console.error('Share record error:', shareError)
+      return NextResponse.json({ error: 'Failed to record share' }, { status: 500 })
+    }
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL ?? request.nextUrl.origin
+    const pollUrl = poll.access === 'public' ? `${baseUrl}/polls/${poll.id}` : getShareUrl(baseUrl, poll.id, poll.share_token)
+
+    return withRateLimitHeaders(
+      NextResponse.json({
+        success: true,
+        data: { id: share.id, url: addAttribution(pollUrl, share.id) }
+      }),
+      rateLimit
+    )
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return handleApiError(error)
+    }
+
+    console.error('Share poll error:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * API endpoint for a poll's share statistics: how often it was shared through each channel, and
+ * how many votes came through each. Only the poll creator can see them.
+ * @param request The incoming request object.
+ * @param context The context object, which contains the poll ID.
+ * @returns A response object with the share channels or an error message.
+ */
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = createServerSupabaseClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('id, created_by')
+      .eq('id', params.id)
+      .single()
+
+    if (pollError || !poll) {
+      return NextResponse.json({ error: 'Poll not found' }, { status: 404 })
+    }
+
+    if (poll.created_by !== user.id) {
+      return NextResponse.json({ error: 'You are not authorized to view the shares of this poll' }, { status: 403 })
+    }
+
+    const [{ data: shares, error: sharesError }, { data: votes, error: votesError }] = await Promise.all([
+      supabase.from('poll_shares').select('id, share_method, platform').eq('poll_id', poll.id),
+      supabase.from('votes').select('share_id').eq('poll_id', poll.id).not('share_id', 'is', null).is('excluded_at', null).is('pending_until', null)
+    ])
+
+    if (sharesError || votesError) {
+      console.error('Share statistics fetch error:', sharesError ?? votesError)
+      return NextResponse.json({ error: 'Failed to fetch share statistics' }, { status: 500 })
+    }
+
+    const channels = summarizeShareChannels(
+      shares.map((share) => ({
+        id: share.id,
+        method: share.share_method as ShareMethod,
+        platform: share.platform as SharePlatform | null
+      })),
+      votes.map((vote) => ({ shareId: vote.share_id }))
+    )
+
+    return NextResponse.json({ success: true, data: channels })
+  } catch (error) {
+    console.error('Get share statistics error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,192 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/client'
+import { deleteShortLinkSchema, shortLinkSchema } from '@/lib/validations'
+import { generateShortLinkSlug, summarizeShortLinks } from '@/lib/short-links'
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>
+
+/** How many generated slugs are tried before giving up, should they already be taken. */
+const SLUG_ATTEMPTS = 3
+
+/**
+ * Checks that the current user created the poll whose short links they are asking for.
+ * @param supabase The Supabase client.
+ * @param pollId The ID of the poll.
+ * @returns The poll and user, or an error response.
+ */
+async function getCreatedPoll(supabase: SupabaseClient, pollId: string) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { response: NextResponse.json({ error: 'Authentication required' }, { status: 401 }) }
+  }
+
+  const { data: poll, error: pollError } = await supabase
+    .from('polls')
+    .select('id, created_by')
+    .eq('id', pollId)
+    .single()
+
+  if (pollError || !poll) {
+    return { response: NextResponse.json({ error: 'Poll not found' }, { status: 404 }) }
+  }
+
+  if (poll.created_by !== user.id) {
+    return { response: NextResponse.json({ error: 'You are not authorized to manage short links for this poll' }, { status: 403 }) }
+  }
+
+  return { poll, user }
+}
+
+/**
+ * Responds with a poll's short links, in the order they were created, and their clicks.
+ * @param supabase The Supabase client.
+ * @param pollId The ID of the poll.
+ */
+async function respondWithShortLinks(supabase: SupabaseClient, pollId: string) {
+  const { data: links, error: linksError } = await supabase
+    .from('short_links')
+    .select('id, slug, label')
+    .eq('poll_id', pollId)
+    .order('created_at', { ascending: true })
+
+  if (linksError) {
+    console.error('Short links fetch error:', linksError)
+    return NextResponse.json({ error: 'Failed to fetch short links' }, { status: 500 })
+  }
+
+  const { data: clicks, error: clicksError } = links.length > 0
+    ? await supabase
+      .from('short_link_clicks')
+      .select('short_link_id, referrer, clicked_at')
+      .in('short_link_id', links.map((link) => link.id))
+    : { data: [], error: null }
+
+  if (clicksError) {
+    console.error('Short link clicks fetch error:', clicksError)
+    return NextResponse.json({ error: 'Failed to fetch short links' }, { status: 500 })
+  }
+
+  const shortLinks = summarizeShortLinks(
+    links,
+    clicks.map((click) => ({ shortLinkId: click.short_link_id, referrer: click.referrer, clickedAt: click.clicked_at }))
+  )
+
+  return NextResponse.json({ success: true, data: shortLinks })
+}
+
+/**
+ * API endpoint for a poll's short links and how often each was clicked.
+ * Only the poll creator can see them.
+ * @param request The incoming request object.
+ * @param context The context object, which contains the poll ID.
+ * @returns A response object with the short links or an error message.
+ */
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = createServerSupabaseClient()
+
+    const { poll, response } = await getCreatedPoll(supabase, params.id)
+    if (!poll) return response
+
+    return await respondWithShortLinks(supabase, poll.id)
+  } catch (error) {
+    console.error('Get short links error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * API endpoint for creating a short link to a poll, with an optional label and slug. Without a
+ * slug, a random one is generated. Short links redirect to the poll's current share link, so they
+ * keep working when the share token is rotated; delete one to stop it working.
+ * @param request The incoming request object.
+ * @param context The context object, which contains the poll ID.
+ * @returns A response object with all of the poll's short links, or an error message.
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = createServerSupabaseClient()
+    const validatedData = shortLinkSchema.parse(await request.json())
+
+    const { poll, user, response } = await getCreatedPoll(supabase, params.id)
+    if (!poll) return response
+
+    for (let attempt = 0; attempt < SLUG_ATTEMPTS; attempt++) {
+      const { error: insertError } = await supabase
+        .from('short_links')
+        .insert({
+          poll_id: poll.id,
+          slug: validatedData.slug ?? generateShortLinkSlug(),
+          label: validatedData.label ?? null,
+          created_by: user.id
+        })
+
+      if (!insertError) {
+        return await respondWithShortLinks(supabase, poll.id)
+      }
+
+      // Slugs are unique across all polls
+      if (insertError.code !== '23505') {
+        console.error('Short link insert error:', insertError)
+        return NextResponse.json({ error: 'Failed to create short link' }, { status: 500 })
+      }
+
+      if (validatedData.slug) {
+        return NextResponse.json({ error: 'That short link is already taken' }, { status: 409 })
+      }
+    }
+
+    return NextResponse.json({ error: 'Failed to create short link' }, { status: 500 })
+  } catch (error: any) {
+    console.error('Create short link error:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * API endpoint for deleting one of a poll's short links, given as the `link_id` parameter. The
+ * link stops working straight away, and its clicks are removed with it.
+ * @param request The incoming request object.
+ * @param context The context object, which contains the poll ID.
+ * @returns A response object with the poll's remaining short links, or an error message.
+ */
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = createServerSupabaseClient()
+    const { link_id: linkId } = deleteShortLinkSchema.parse({ link_id: request.nextUrl.searchParams.get('link_id') })
+
+    const { poll, response } = await getCreatedPoll(supabase, params.id)
+    if (!poll) return response
+
+    const { data: deleted, error: deleteError } = await supabase
+      .from('short_links')
+      .delete()
+      .eq('id', linkId)
+      .eq('poll_id', poll.id)
+      .select('id')
+
+    if (deleteError) {
+      console.error('Short link delete error:', deleteError)
+      return NextResponse.json({ error: 'Failed to delete short link' }, { status: 500 })
+    }
+
+    if (deleted.length === 0) {
+      return NextResponse.json({ error: 'Short link not found' }, { status: 404 })
+    }
+
+    return await respondWithShortLinks(supabase, poll.id)
+  } catch (error: any) {
+    console.error('Delete short link error:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
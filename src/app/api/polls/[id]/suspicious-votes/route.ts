@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/client'
+import { reviewVotesSchema } from '@/lib/validations'
+import { getBallotKey, groupSuspiciousBallots } from '@/lib/fraud'
+import { maskContact } from '@/lib/quiz'
+import { FraudFlag } from '@/types'
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>
+
+/**
+ * Checks that the current user created the poll whose votes they are reviewing.
+ * @param supabase The Supabase client.
+ * @param pollId The ID of the poll.
+ * @returns The poll and user, or an error response.
+ */
+async function getCreatedPoll(supabase: SupabaseClient, pollId: string) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { response: NextResponse.json({ error: 'Authentication required' }, { status: 401 }) }
+  }
+
+  const { data: poll, error: pollError } = await supabase
+    .from('polls')
+    .select('id, created_by')
+    .eq('id', pollId)
+    .single()
+
+  if (pollError || !poll) {
+    return { response: NextResponse.json({ error: 'Poll not found' }, { status: 404 }) }
+  }
+
+  if (poll.created_by !== user.id) {
+    return { response: NextResponse.json({ error: 'You are not authorized to review votes on this poll' }, { status: 403 }) }
+  }
+
+  return { poll, user }
+}
+
+/**
+ * Responds with a poll's flagged and excluded ballots, newest first.
+ * @param supabase The Supabase client.
+ * @param pollId The ID of the poll.
+ */
+async function respondWithSuspiciousBallots(supabase: SupabaseClient, pollId: string) {
+  const { data: votes, error } = await supabase
+    .from('votes')
+    .select('id, response_id, voter_id, voter_email, voter_phone, ip_address, user_agent, fraud_flags, excluded_at, exclusion_reason, created_at')
+    .eq('poll_id', pollId)
+    .or('fraud_flags.not.is.null,excluded_at.not.is.null')
+
+  if (error) {
+    console.error('Suspicious votes fetch error:', error)
+    return NextResponse.json({ error: 'Failed to fetch suspicious votes' }, { status: 500 })
+  }
+
+  const ballots = groupSuspiciousBallots(votes.map((vote) => {
+    const contact = vote.voter_email ?? vote.voter_phone
+    return {
+      id: vote.id,
+      ballotKey: getBallotKey(vote),
+      flags: (vote.fraud_flags ?? []) as FraudFlag[],
+      voter: contact ? maskContact(contact) : null,
+      ipAddress: vote.ip_address,
+      userAgent: vote.user_agent,
+      createdAt: vote.created_at,
+      excluded: vote.excluded_at !== null,
+      exclusionReason: vote.exclusion_reason
+    }
+  }))
+
+  return NextResponse.json({ success: true, data: ballots })
+}
+
+/**
+ * API endpoint for the ballots on a poll that were flagged as suspicious, such as bursts of votes
+ * from one IP address or network, or throwaway email addresses, and those the creator excluded.
+ * Only the poll creator can see them. Voters' email addresses and phone numbers are masked.
+ * @param request The incoming request object.
+ * @param context The context object, which contains the poll ID.
+ * @returns A response object with the ballots or an error message.
+ */
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = createServerSupabaseClient()
+
+    const { poll, response } = await getCreatedPoll(supabase, params.id)
+    if (!poll) return response
+
+    return await respondWithSuspiciousBallots(supabase, poll.id)
+  } catch (error) {
+    console.error('Get suspicious votes error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * API endpoint for excluding votes on a poll from its tallies, with the reason recorded, or for
+ * counting excluded votes again. Only the poll creator can review votes.
+ * @param request The incoming request object.
+ * @param context The context object, which contains the poll ID.
+ * @returns A response object with the poll's flagged and excluded ballots, or an error message.
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = createServerSupabaseClient()
+    const validatedData = reviewVotesSchema.parse(await request.json())
+
+    const { poll, user, response } = await getCreatedPoll(supabase, params.id)
+    if (!poll) return response
+
+    const { error: updateError } = await supabase
+      .from('votes')
+      .update(validatedData.excluded
+        ? { excluded_at: new Date().toISOString(), excluded_by: user.id, exclusion_reason: validatedData.reason ?? null }
+        : { excluded_at: null, excluded_by: null, exclusion_reason: null })
+      .eq('poll_id', poll.id)
+      .in('id', validatedData.vote_ids)
+
+    if (updateError) {
+      console.error('Vote review error:', updateError)
+      return NextResponse.json({ error: 'Failed to update votes' }, { status: 500 })
+    }
+
+    return await respondWithSuspiciousBallots(supabase, poll.id)
+  } catch (error: any) {
+    console.error('Review votes error:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/client'
+import { unlockPollSchema } from '@/lib/validations'
+import { verifyPassword } from '@/lib/poll-passwords'
+import { checkRequestPollAccess, pollAccessErrorResponse } from '@/lib/share-access'
+import { getPollPasswordHash, rememberUnlock } from '@/lib/unlock-access'
+import { RATE_LIMITS } from '@/lib/rate-limit'
+import { enforceRateLimit, withRateLimitHeaders } from '@/lib/rate-limit-store'
+import { AppError } from '@/lib/errors'
+import { handleApiError } from '@/lib/api-response'
+
+/**
+ * API endpoint for unlocking a password-protected poll.
+ * The right password sets a short-lived cookie, signed and scoped to the poll, that lets the
+ * voter see the poll's options and vote without entering the password again. Attempts are rate
+ * limited per IP address and poll, so that passwords can't be guessed.
+ * @param request The incoming request object.
+ * @param context The context object, which contains the poll ID.
+ * @returns A response object confirming the unlock, or an error message.
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = createServerSupabaseClient()
+    const pollId = params.id
+    const { password } = unlockPollSchema.parse(await request.json())
+
+    const rateLimit = await enforceRateLimit(request, RATE_LIMITS.unlock, { pollId })
+
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('id, created_by, status, access, share_token, password_protected')
+      .eq('id', pollId)
+      .neq('status', 'draft')
+      .single()
+
+    if (pollError || !poll) {
+      return NextResponse.json({ error: 'Poll not found' }, { status: 404 })
+    }
+
+    // Unlisted and private polls need their share link before their password.
+    const access = await checkRequestPollAccess(supabase, request, poll)
+    if (access !== 'granted') {
+      return pollAccessErrorResponse(access)
+    }
+
+    const passwordHash = poll.password_protected ? await getPollPasswordHash(supabase, pollId) : null
+    if (!passwordHash) {
+      return NextResponse.json({ error: 'This poll is not password protected' }, { status: 400 })
+    }
+
+    if (!(await verifyPassword(password, passwordHash))) {
+      return NextResponse.json({ error: 'Incorrect password' }, { status: 401 })
+    }
+
+    return rememberUnlock(request, withRateLimitHeaders(NextResponse.json({ success: true }), rateLimit), pollId, passwordHash)
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return handleApiError(error)
+    }
+
+    console.error('Unlock poll error:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
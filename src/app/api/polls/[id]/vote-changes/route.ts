@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/client'
+import { Ballot, VoteChange } from '@/types'
+
+/**
+ * API endpoint for the vote change history of a poll.
+ * Only the poll creator can see it. Each entry holds the voter's ballot before and after the change,
+ * newest first.
+ * @param request The incoming request object.
+ * @param context The context object, which contains the poll ID.
+ * @returns A response object with the vote changes or an error message.
+ */
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = createServerSupabaseClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('created_by')
+      .eq('id', params.id)
+      .single()
+
+    if (pollError || !poll) {
+      return NextResponse.json({ error: 'Poll not found' }, { status: 404 })
+    }
+
+    if (poll.created_by !== user.id) {
+      return NextResponse.json({ error: 'You are not authorized to view vote changes for this poll' }, { status: 403 })
+    }
+
+    const { data: changes, error: changesError } = await supabase
+      .from('vote_changes')
+      .select('*')
+      .eq('poll_id', params.id)
+      .order('created_at', { ascending: false })
+
+    if (changesError) {
+      console.error('Vote changes fetch error:', changesError)
+      return NextResponse.json({ error: 'Failed to fetch vote changes' }, { status: 500 })
+    }
+
+    const voterIds = [...new Set(changes.map((change) => change.voter_id))]
+    const { data: users, error: usersError } = voterIds.length > 0
+      ? await supabase.from('users').select('id, username').in('id', voterIds)
+      : { data: [], error: null }
+
+    if (usersError) {
+      console.error('Vote changes users fetch error:', usersError)
+      return NextResponse.json({ error: 'Failed to fetch vote changes' }, { status: 500 })
+    }
+
+    const usernames = new Map(users.map((voter) => [voter.id, voter.username]))
+    const history: VoteChange[] = changes.map((change) => ({
+      id: change.id,
+      voter: usernames.get(change.voter_id) ?? 'Unknown voter',
+      action: change.action === 'retracted' ? 'retracted' : 'changed',
+      previousBallot: change.previous_ballot as Ballot,
+      newBallot: change.new_ballot as Ballot | null,
+      changedAt: new Date(change.created_at)
+    }))
+
+    return NextResponse.json({ success: true, data: history })
+  } catch (error) {
+    console.error('Get vote changes error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
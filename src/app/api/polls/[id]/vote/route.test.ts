@@ -0,0 +1,158 @@
+// @vitest-environment node
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const tables: Record<string, unknown> = {};
+let user: { id: string } | null = null;
+
+/**
+ * A query on the fake database, whatever its filters, resolves to its table's rows. Like Supabase,
+ * `single()` fails unless there is exactly one row, and `maybeSingle()` if there is more than one.
+ */
+function query(table: string): unknown {
+  const rows = tables[table] ?? null;
+  let result = { data: rows, error: null as { message: string } | null };
+  const builder: unknown = new Proxy({}, {
+    get: (_, prop) => {
+      if (prop === 'then') return (resolve: (value: unknown) => void) => resolve(result);
+      return () => {
+        if ((prop === 'single' || prop === 'maybeSingle') && Array.isArray(rows)) {
+          const allowed = rows.length === 1 || (prop === 'maybeSingle' && rows.length === 0);
+          result = allowed
+            ? { data: rows[0] ?? null, error: null }
+            : { data: null, error: { message: 'JSON object requested, multiple (or no) rows returned' } };
+        }
+        return builder;
+      };
+    }
+  });
+  return builder;
+}
+
+vi.mock('@/lib/supabase/client', () => ({
+  createServerSupabaseClient: () => ({
+    from: query,
+    auth: { getUser: async () => ({ data: { user }, error: null }) }
+  })
+}));
+
+const { PATCH, POST, PUT } = await import('./route');
+
+const pollId = '3f2c9a6e-4b1d-4c8e-9f1a-2b3c4d5e6f70';
+const optionId = '8a7b6c5d-4e3f-4a1b-8c2d-3e4f5a6b7c8d';
+const otherOptionId = '1b2c3d4e-5f6a-4b7c-8d9e-0f1a2b3c4d5e';
+const day = 24 * 60 * 60 * 1000;
+
+function vote() {
+  const request = new NextRequest(`https://polly.test/api/polls/${pollId}/vote`, {
+    method: 'POST',
+    headers: { 'x-forwarded-for': '203.0.113.7' },
+    body: JSON.stringify({ poll_id: pollId, option_id: optionId, voter_email: 'voter@example.com' })
+  });
+  return POST(request);
+}
+
+const publicPoll = {
+  id: pollId,
+  status: 'open',
+  access: 'public',
+  password_protected: false,
+  allowed_email_domains: null,
+  require_verified: false,
+  min_account_age_days: null,
+  poll_type: 'single_choice',
+  starts_at: null,
+  expires_at: null
+};
+
+describe('POST /api/polls/[id]/vote', () => {
+  beforeEach(() => {
+    user = null;
+    tables.polls = { ...publicPoll, status: 'scheduled', starts_at: new Date(Date.now() + day).toISOString() };
+  });
+
+  it('should turn away ballots cast before the poll opens', async () => {
+    const response = await vote();
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Poll has not opened yet' });
+  });
+
+  it('should turn away ballots cast after the poll expires', async () => {
+    tables.polls = { ...publicPoll, expires_at: new Date(Date.now() - day).toISOString() };
+    const response = await vote();
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Poll has expired' });
+  });
+});
+
+describe('PUT /api/polls/[id]/vote', () => {
+  const approvalPoll = { ...publicPoll, poll_type: 'approval', allow_multiple_votes: true, min_selections: 1, max_selections: null };
+
+  function voteMany(optionIds: string[]) {
+    const request = new NextRequest(`https://polly.test/api/polls/${pollId}/vote`, {
+      method: 'PUT',
+      headers: { 'x-forwarded-for': '203.0.113.7' },
+      body: JSON.stringify({ poll_id: pollId, option_ids: optionIds })
+    });
+    return PUT(request);
+  }
+
+  beforeEach(() => {
+    user = { id: 'voter-1' };
+    tables.polls = approvalPoll;
+  });
+
+  it('should turn away a second ballot from a voter who already selected several options', async () => {
+    tables.votes = [
+      { id: 'vote-1', option_id: optionId },
+      { id: 'vote-2', option_id: otherOptionId }
+    ];
+    const response = await voteMany([otherOptionId]);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'You have already voted on this poll' });
+  });
+});
+
+describe('PATCH /api/polls/[id]/vote', () => {
+  const changeablePoll = { ...publicPoll, allow_vote_changes: true };
+
+  function changeVote(ballot: Record<string, unknown>) {
+    const request = new NextRequest(`https://polly.test/api/polls/${pollId}/vote`, {
+      method: 'PATCH',
+      body: JSON.stringify(ballot)
+    });
+    return PATCH(request, { params: { id: pollId } });
+  }
+
+  beforeEach(() => {
+    user = { id: 'voter-1' };
+    tables.polls = changeablePoll;
+  });
+
+  it('should turn away changes made before the poll opens', async () => {
+    tables.polls = { ...changeablePoll, status: 'scheduled', starts_at: new Date(Date.now() + day).toISOString() };
+    const response = await changeVote({ option_id: optionId });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Poll has not opened yet' });
+  });
+
+  it('should turn away changes from accounts the eligibility rules leave out', async () => {
+    tables.polls = { ...changeablePoll, allowed_email_domains: ['example.com'] };
+    tables.users = [{ email: 'voter@example.org', is_verified: true, created_at: '2024-01-01T00:00:00.000Z' }];
+    const response = await changeVote({ option_id: optionId });
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ ineligible_reason: 'email_domain' });
+  });
+
+  it('should turn away write-in answers rather than drop them', async () => {
+    const response = await changeVote({ write_in: 'Pizza' });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toMatch(/^Write-in answers cannot be changed/);
+  });
+});
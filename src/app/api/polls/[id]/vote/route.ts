@@ -1,9 +1,72 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerSupabaseClient } from '@/lib/supabase/client'
-import { voteSchema, multipleVoteSchema } from '@/lib/validations'
+import { voteSchema, rankedVoteSchema, ratingVoteSchema, multipleVoteSchema, changeVoteSchema } from '@/lib/validations'
+import { getScaleRange, isScalePoll } from '@/lib/scales'
+import { buildAnswerKey, collectSelections, scoreQuiz } from '@/lib/quiz'
+import { findAnswerError, toPollQuestion } from '@/lib/survey'
+import { toBallot } from '@/lib/ballots'
+import { rememberVote } from '@/lib/results-access'
+import { checkRequestPollAccess, pollAccessErrorResponse } from '@/lib/share-access'
+import { isRequestUnlocked, pollLockedResponse } from '@/lib/unlock-access'
+import { claimRequestBallot, releaseBallot } from '@/lib/ballot-access'
+import { checkRequestEligibility, ineligibleResponse, toEligibilityRules } from '@/lib/eligibility-access'
+import { hasEligibilityRules } from '@/lib/eligibility'
+import { getRequestShareId } from '@/lib/share-attribution'
+import { detectBallotFraud } from '@/lib/fraud-access'
+import { claimRequestChallenge, releaseChallenge } from '@/lib/challenge-access'
+import { checkRequestPhoneVerification } from '@/lib/phone-access'
+import { clearExpiredBallots, getPendingUntil, sendBallotConfirmation } from '@/lib/confirmation-access'
+import { RATE_LIMITS, getClientIp } from '@/lib/rate-limit'
+import { enforceRateLimit, withRateLimitHeaders } from '@/lib/rate-limit-store'
+import { AppError } from '@/lib/errors'
+import { handleApiError } from '@/lib/api-response'
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>
+
+const ballotTypeErrors = {
+  choice: 'This poll requires a single option',
+  ranked: 'This poll requires a ranked ballot',
+  rating: 'This poll requires ratings'
+}
+
+/**
+ * Scores a ballot on a quiz against the quiz's correct options.
+ * @param supabase The Supabase client.
+ * @param pollId The ID of the quiz.
+ * @param optionIds The options the voter selected.
+ * @returns The voter's score along with the correct options, or null if they could not be fetched.
+ */
+async function scoreQuizBallot(supabase: SupabaseClient, pollId: string, optionIds: string[]) {
+  const { data: answers, error } = await supabase
+    .from('quiz_answers')
+    .select('option_id, question_id')
+    .eq('poll_id', pollId)
+
+  if (error) {
+    console.error('Quiz answers fetch error:', error)
+    return null
+  }
+
+  return scoreQuiz(
+    buildAnswerKey(answers),
+    collectSelections(optionIds.map((optionId) => ({ option_id: optionId, question_id: null })))
+  )
+}
 
 /**
  * API endpoint for submitting a single vote on a poll.
+ * Ranked-choice polls accept a `ranking` of option IDs, most preferred first, instead of an `option_id`.
+ * Rating, NPS and Likert polls accept `ratings` instead; Likert ratings name the row they answer.
+ * Polls that allow write-ins accept a free-text `write_in` answer in place of an `option_id`.
+ * Votes on quizzes are scored straight away, and the response includes the `quiz` feedback.
+ * Anonymous votes with an email address wait, marked `pending` in the response, until the voter
+ * follows the confirmation link emailed to them; votes that aren't confirmed in time are dropped.
+ * Invite-only polls take one of their unused ballot tokens, as the `ballot` query parameter or
+ * the cookie set when the invitee opened the poll, and use it up.
+ * Anonymous voters send a solved challenge from the poll's challenge endpoint in the
+ * `X-Vote-Challenge` and `X-Vote-Challenge-Solution` headers, unless the poll's difficulty is 0.
+ * On polls that require verified phone numbers, anonymous voters vote with a `voter_phone` they
+ * verified first, and their votes are counted without an email confirmation.
  * @param request The incoming request object.
  * @returns A response object with the new vote or an error message.
  */
@@ -12,13 +75,22 @@ export async function POST(request: NextRequest) {
     const supabase = createServerSupabaseClient()
     
     // We parse and validate the request body using a Zod schema.
+    // A body with a `ranking` is a ranked ballot; its first preference is stored as the vote's option.
+    // A body with `ratings` is a scale ballot; its answers are stored separately from the vote.
     const body = await request.json()
-    const validatedData = voteSchema.parse(body)
+    const ballotType = Array.isArray(body.ranking) ? 'ranked' : Array.isArray(body.ratings) ? 'rating' : 'choice'
+    const ranking: string[] = ballotType === 'ranked' ? rankedVoteSchema.parse(body).ranking : []
+    const ratingBallot = ballotType === 'rating' ? ratingVoteSchema.parse(body) : null
+    const ratings = ratingBallot?.ratings ?? []
+    const validatedData = ratingBallot
+      ? { ...ratingBallot, option_id: null, write_in: undefined }
+      : voteSchema.parse(ballotType === 'ranked' ? { ...body, option_id: ranking[0] } : body)
+
+    const rateLimit = await enforceRateLimit(request, RATE_LIMITS.vote, { pollId: validatedData.poll_id })
 
     // We get the user's IP address and user agent from the request headers.
     // This information can be used for analytics or to prevent duplicate votes.
-    const forwarded = request.headers.get('x-forwarded-for')
-    const ip = forwarded ? forwarded.split(',')[0] : request.ip || 'unknown'
+    const ip = getClientIp(request.headers)
     const userAgent = request.headers.get('user-agent') || 'unknown'
 
     // We check if the poll exists and is currently active.
@@ -26,7 +98,7 @@ export async function POST(request: NextRequest) {
       .from('polls')
       .select('*')
       .eq('id', validatedData.poll_id)
-      .eq('is_active', true)
+      .in('status', ['scheduled', 'open'])
       .single()
 
     if (pollError || !poll) {
@@ -36,6 +108,31 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Unlisted and private polls can only be voted on through their share link, and
+    // password-protected polls once they have been unlocked.
+    const access = await checkRequestPollAccess(supabase, request, poll)
+    if (access !== 'granted') {
+      return pollAccessErrorResponse(access)
+    }
+
+    if (!(await isRequestUnlocked(supabase, request, poll))) {
+      return pollLockedResponse()
+    }
+
+    // Polls with eligibility rules only take votes from the accounts they allow.
+    const ineligibleReason = await checkRequestEligibility(supabase, poll)
+    if (ineligibleReason) {
+      return ineligibleResponse(ineligibleReason, poll)
+    }
+
+    // We check if the poll has opened yet.
+    if (poll.starts_at && new Date(poll.starts_at) > new Date()) {
+      return NextResponse.json(
+        { error: 'Poll has not opened yet' },
+        { status: 400 }
+      )
+    }
+
     // We check if the poll has expired.
     if (poll.expires_at && new Date(poll.expires_at) < new Date()) {
       return NextResponse.json(
@@ -44,20 +141,56 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Surveys are answered with a single response to all of their questions instead.
+    if (poll.poll_type === 'survey') {
+      return NextResponse.json(
+        { error: 'Surveys must be answered through their responses endpoint' },
+        { status: 400 }
+      )
+    }
+
+    // We make sure the ballot matches the poll's voting method.
+    const expectedBallotType = poll.poll_type === 'ranked_choice' ? 'ranked' : isScalePoll(poll.poll_type) ? 'rating' : 'choice'
+    if (ballotType !== expectedBallotType) {
+      return NextResponse.json(
+        { error: ballotTypeErrors[expectedBallotType] },
+        { status: 400 }
+      )
+    }
+
+    // Write-in answers are only accepted on polls that offer an "Other" choice.
+    if (validatedData.write_in && !poll.allow_write_in) {
+      return NextResponse.json(
+        { error: 'This poll does not accept write-in answers' },
+        { status: 400 }
+      )
+    }
+
     // If the poll requires authentication, we check if the user is logged in.
-    if (poll.require_authentication) {
+    // On polls that allow vote changes, signed-in voters are always recorded by account,
+    // since that is how they change or retract the vote later. Polls with eligibility rules
+    // record them too, so that each eligible account votes once.
+    if (poll.require_authentication || poll.allow_vote_changes || hasEligibilityRules(toEligibilityRules(poll))) {
       const { data: { user }, error: authError } = await supabase.auth.getUser()
-      if (authError || !user) {
+      if (poll.require_authentication && (authError || !user)) {
         return NextResponse.json(
           { error: 'Authentication required for this poll' },
           { status: 401 }
         )
       }
-      validatedData.voter_id = user.id
+      if (user) validatedData.voter_id = user.id
+    }
+
+    // Polls that require verified phone numbers only take anonymous votes cast with a number
+    // the voter just verified through the poll's phone verification endpoint.
+    const phoneError = checkRequestPhoneVerification(request, poll, validatedData)
+    if (phoneError) {
+      return phoneError
     }
 
     // We check if the user has already voted on this poll.
-    // This is to prevent users from voting multiple times.
+    // This is to prevent users from voting multiple times. Anonymous voters on polls that
+    // require verified phone numbers are told apart by their number rather than their email.
     let existingVote
     if (validatedData.voter_id) {
       const { data: vote } = await supabase
@@ -67,10 +200,12 @@ export async function POST(request: NextRequest) {
         .eq('voter_id', validatedData.voter_id)
         .single()
       existingVote = vote
-    } else if (validatedData.voter_email) {
+    } else if (validatedData.voter_email && !poll.require_phone_verification) {
+      // Ballots that weren't confirmed in time are dropped, so the voter can vote again.
+      await clearExpiredBallots(supabase, validatedData.poll_id, validatedData.voter_email)
       const { data: vote } = await supabase
         .from('votes')
-        .select('id')
+        .select('id, pending_until')
         .eq('poll_id', validatedData.poll_id)
         .eq('voter_email', validatedData.voter_email)
         .single()
@@ -87,55 +222,222 @@ export async function POST(request: NextRequest) {
 
     if (existingVote) {
       return NextResponse.json(
-        { error: 'You have already voted on this poll' },
+        {
+          error: 'pending_until' in existingVote && existingVote.pending_until
+            ? 'You have already voted on this poll; check your email to confirm your vote'
+            : 'You have already voted on this poll'
+        },
         { status: 400 }
       )
     }
 
     // We verify that the selected option exists and belongs to the poll.
-    const { data: option, error: optionError } = await supabase
-      .from('poll_options')
-      .select('id')
-      .eq('id', validatedData.option_id)
-      .eq('poll_id', validatedData.poll_id)
-      .single()
+    if (validatedData.option_id) {
+      const { data: option, error: optionError } = await supabase
+        .from('poll_options')
+        .select('id')
+        .eq('id', validatedData.option_id)
+        .eq('poll_id', validatedData.poll_id)
+        .single()
 
-    if (optionError || !option) {
-      return NextResponse.json(
-        { error: 'Invalid option selected' },
-        { status: 400 }
-      )
+      if (optionError || !option) {
+        return NextResponse.json(
+          { error: 'Invalid option selected' },
+          { status: 400 }
+        )
+      }
+    }
+
+    // For scale ballots, every answer must be on the poll's scale. Likert answers must each
+    // name one of the poll's rows, while rating and NPS polls take a single answer with no row.
+    if (ballotType === 'rating') {
+      const range = getScaleRange(poll.poll_type, poll.scale_labels)
+      if (range && ratings.some((rating) => rating.value < range.min || rating.value > range.max)) {
+        return NextResponse.json(
+          { error: `Answers must be between ${range.min} and ${range.max}` },
+          { status: 400 }
+        )
+      }
+
+      const ratedRows = ratings.flatMap((rating) => (rating.option_id ? [rating.option_id] : []))
+      if (poll.poll_type === 'likert') {
+        const { data: rows, error: rowsError } = await supabase
+          .from('poll_options')
+          .select('id')
+          .eq('poll_id', validatedData.poll_id)
+          .in('id', ratedRows)
+
+        if (rowsError || ratedRows.length !== ratings.length || rows.length !== ratedRows.length) {
+          return NextResponse.json(
+            { error: 'One or more invalid rows answered' },
+            { status: 400 }
+          )
+        }
+      } else if (ratings.length !== 1 || ratedRows.length > 0) {
+        return NextResponse.json(
+          { error: 'This poll takes a single answer' },
+          { status: 400 }
+        )
+      }
     }
 
-    // Once all the checks have passed, we submit the vote to the database.
+    // For ranked ballots, every ranked option must also belong to the poll.
+    if (ballotType === 'ranked') {
+      const { data: rankedOptions, error: rankedOptionsError } = await supabase
+        .from('poll_options')
+        .select('id')
+        .eq('poll_id', validatedData.poll_id)
+        .in('id', ranking)
+
+      if (rankedOptionsError || rankedOptions.length !== ranking.length) {
+        return NextResponse.json(
+          { error: 'One or more invalid options ranked' },
+          { status: 400 }
+        )
+      }
+    }
+
+    // Anonymous voters must have solved a challenge, which is used up along with the vote.
+    // Like the ballot token below, it is given back if the vote can't be saved.
+    const challenge = await claimRequestChallenge(supabase, request, poll)
+    if ('response' in challenge) {
+      return challenge.response
+    }
+
+    // On invite-only polls, the voter's ballot token is used up before the vote is submitted.
+    const ballot = await claimRequestBallot(supabase, request, poll)
+    if ('response' in ballot) {
+      await releaseChallenge(supabase, challenge.challengeId)
+      return ballot.response
+    }
+
+    // Once all the checks have passed, we submit the vote to the database,
+    // credited to the share the voter came through, if any. Votes that look like ballot stuffing
+    // are flagged for the poll creator to review, but still counted. Anonymous votes with an email
+    // address are only counted once the voter confirms it.
+    const pendingUntil = getPendingUntil(poll, validatedData)
+    const shareId = await getRequestShareId(supabase, request, poll.id)
+    const fraudFlags = await detectBallotFraud(supabase, poll.id, {
+      ipAddress: ip,
+      userAgent,
+      voterEmail: validatedData.voter_email
+    })
     const { data: vote, error: voteError } = await supabase
       .from('votes')
       .insert({
         poll_id: validatedData.poll_id,
-        option_id: validatedData.option_id,
+        option_id: validatedData.option_id ?? null,
+        write_in: validatedData.write_in ?? null,
         voter_id: validatedData.voter_id,
         voter_email: validatedData.voter_email,
         voter_phone: validatedData.voter_phone,
+        share_id: shareId,
         ip_address: ip,
-        user_agent: userAgent
+        user_agent: userAgent,
+        fraud_flags: fraudFlags,
+        pending_until: pendingUntil
       })
       .select()
       .single()
 
     if (voteError) {
       console.error('Vote submission error:', voteError)
+      await releaseBallot(supabase, ballot.invitationId)
+      await releaseChallenge(supabase, challenge.challengeId)
       return NextResponse.json(
         { error: 'Failed to submit vote' },
         { status: 500 }
       )
     }
 
-    return NextResponse.json({
-      success: true,
-      data: vote
-    })
+    // We store the full preference order for ranked ballots.
+    // If that fails, we remove the vote so the voter can try again.
+    if (ballotType === 'ranked') {
+      const { error: rankingError } = await supabase
+        .from('vote_rankings')
+        .insert(ranking.map((optionId, index) => ({
+          vote_id: vote.id,
+          option_id: optionId,
+          rank: index + 1
+        })))
+
+      if (rankingError) {
+        console.error('Ranking submission error:', rankingError)
+        await supabase.from('votes').delete().eq('id', vote.id)
+        await releaseBallot(supabase, ballot.invitationId)
+        await releaseChallenge(supabase, challenge.challengeId)
+        return NextResponse.json(
+          { error: 'Failed to submit vote' },
+          { status: 500 }
+        )
+      }
+    }
+
+    // Likewise, we store the answers for scale ballots.
+    if (ballotType === 'rating') {
+      const { error: ratingError } = await supabase
+        .from('vote_ratings')
+        .insert(ratings.map((rating) => ({
+          vote_id: vote.id,
+          option_id: rating.option_id ?? null,
+          value: rating.value
+        })))
+
+      if (ratingError) {
+        console.error('Rating submission error:', ratingError)
+        await supabase.from('votes').delete().eq('id', vote.id)
+        await releaseBallot(supabase, ballot.invitationId)
+        await releaseChallenge(supabase, challenge.challengeId)
+        return NextResponse.json(
+          { error: 'Failed to submit vote' },
+          { status: 500 }
+        )
+      }
+    }
+
+    // We email the link that confirms the vote. If it can't be sent, we remove the vote so the
+    // voter can try again.
+    if (pendingUntil && validatedData.voter_email) {
+      if (!(await sendBallotConfirmation(request, poll, vote.id, validatedData.voter_email, pendingUntil))) {
+        await supabase.from('votes').delete().eq('id', vote.id)
+        await releaseBallot(supabase, ballot.invitationId)
+        await releaseChallenge(supabase, challenge.challengeId)
+        return NextResponse.json(
+          { error: 'Failed to send the confirmation email' },
+          { status: 500 }
+        )
+      }
+    }
+
+    // On quizzes, the voter learns straight away whether they were right.
+    const quiz = poll.is_quiz
+      ? await scoreQuizBallot(supabase, poll.id, validatedData.option_id ? [validatedData.option_id] : [])
+      : null
+
+    return rememberVote(
+      request,
+      withRateLimitHeaders(
+        NextResponse.json({
+          success: true,
+          data: {
+            ...vote,
+            ...(ballotType === 'ranked' && { ranking }),
+            ...(ballotType === 'rating' && { ratings })
+          },
+          ...(quiz && { quiz }),
+          ...(pendingUntil && { pending: true })
+        }),
+        rateLimit
+      ),
+      vote.poll_id,
+      vote.id
+    )
 
   } catch (error: any) {
+    if (error instanceof AppError) {
+      return handleApiError(error)
+    }
+
     console.error('Vote error:', error)
     
     if (error.name === 'ZodError') {
@@ -155,6 +457,9 @@ export async function POST(request: NextRequest) {
 /**
  * API endpoint for submitting multiple votes on a poll.
  * This is only for polls that have `allow_multiple_votes` set to `true`.
+ * A `write_in` answer can be submitted alongside the options on polls that allow write-ins.
+ * Votes on quizzes are scored as a whole, and the response includes the `quiz` feedback.
+ * Invite-only polls take a ballot token, like single votes.
  * @param request The incoming request object.
  * @returns A response object with the new votes or an error message.
  */
@@ -166,6 +471,8 @@ export async function PUT(request: NextRequest) {
     const body = await request.json()
     const validatedData = multipleVoteSchema.parse(body)
 
+    const rateLimit = await enforceRateLimit(request, RATE_LIMITS.vote, { pollId: validatedData.poll_id })
+
     // We get the authenticated user.
     // Multiple votes can only be submitted by authenticated users.
     const { data: { user }, error: authError } = await supabase.auth.getUser()
@@ -181,8 +488,9 @@ export async function PUT(request: NextRequest) {
       .from('polls')
       .select('*')
       .eq('id', validatedData.poll_id)
-      .eq('is_active', true)
+      .in('status', ['scheduled', 'open'])
       .eq('allow_multiple_votes', true)
+      .neq('poll_type', 'survey')
       .single()
 
     if (pollError || !poll) {
@@ -192,6 +500,31 @@ export async function PUT(request: NextRequest) {
       )
     }
 
+    // Unlisted and private polls can only be voted on through their share link, and
+    // password-protected polls once they have been unlocked.
+    const access = await checkRequestPollAccess(supabase, request, poll)
+    if (access !== 'granted') {
+      return pollAccessErrorResponse(access)
+    }
+
+    if (!(await isRequestUnlocked(supabase, request, poll))) {
+      return pollLockedResponse()
+    }
+
+    // Polls with eligibility rules only take votes from the accounts they allow.
+    const ineligibleReason = await checkRequestEligibility(supabase, poll)
+    if (ineligibleReason) {
+      return ineligibleResponse(ineligibleReason, poll)
+    }
+
+    // We check if the poll has opened yet.
+    if (poll.starts_at && new Date(poll.starts_at) > new Date()) {
+      return NextResponse.json(
+        { error: 'Poll has not opened yet' },
+        { status: 400 }
+      )
+    }
+
     // We check if the poll has expired.
     if (poll.expires_at && new Date(poll.expires_at) < new Date()) {
       return NextResponse.json(
@@ -200,15 +533,32 @@ export async function PUT(request: NextRequest) {
       )
     }
 
-    // We check if the user has already voted on this poll.
-    const { data: existingVote } = await supabase
+    // Write-in answers are only accepted on polls that offer an "Other" choice.
+    if (validatedData.write_in && !poll.allow_write_in) {
+      return NextResponse.json(
+        { error: 'This poll does not accept write-in answers' },
+        { status: 400 }
+      )
+    }
+
+    // We check if the user has already voted on this poll. A ballot on a multiple-vote poll has one
+    // row per option, so we look for any row rather than a single one.
+    const { data: existingVotes, error: existingVotesError } = await supabase
       .from('votes')
       .select('id')
       .eq('poll_id', validatedData.poll_id)
       .eq('voter_id', user.id)
-      .single()
+      .limit(1)
 
-    if (existingVote) {
+    if (existingVotesError) {
+      console.error('Existing vote check error:', existingVotesError)
+      return NextResponse.json(
+        { error: 'Failed to submit votes' },
+        { status: 500 }
+      )
+    }
+
+    if (existingVotes.length > 0) {
       return NextResponse.json(
         { error: 'You have already voted on this poll' },
         { status: 400 }
@@ -229,19 +579,58 @@ export async function PUT(request: NextRequest) {
       )
     }
 
+    // We enforce the poll's selection limits; a write-in counts as one selection.
+    const selectionCount = new Set(validatedData.option_ids).size + (validatedData.write_in ? 1 : 0)
+    if (selectionCount < poll.min_selections) {
+      return NextResponse.json(
+        { error: `Please select at least ${poll.min_selections} option${poll.min_selections === 1 ? '' : 's'}` },
+        { status: 400 }
+      )
+    }
+
+    if (poll.max_selections !== null && selectionCount > poll.max_selections) {
+      return NextResponse.json(
+        { error: `Please select no more than ${poll.max_selections} option${poll.max_selections === 1 ? '' : 's'}` },
+        { status: 400 }
+      )
+    }
+
     // We get the user's IP address and user agent.
-    const forwarded = request.headers.get('x-forwarded-for')
-    const ip = forwarded ? forwarded.split(',')[0] : request.ip || 'unknown'
+    const ip = getClientIp(request.headers)
     const userAgent = request.headers.get('user-agent') || 'unknown'
 
-    // We submit the multiple votes to the database.
-    const votesData = validatedData.option_ids.map(optionId => ({
-      poll_id: validatedData.poll_id,
-      option_id: optionId,
-      voter_id: user.id,
-      ip_address: ip,
-      user_agent: userAgent
-    }))
+    // We submit the multiple votes to the database, with the write-in as a vote without an option.
+    // Like single votes, they are credited to the share the voter came through and checked for fraud.
+    const shareId = await getRequestShareId(supabase, request, poll.id)
+    const fraudFlags = await detectBallotFraud(supabase, poll.id, { ipAddress: ip, userAgent })
+    const votesData = [
+      ...validatedData.option_ids.map(optionId => ({
+        poll_id: validatedData.poll_id,
+        option_id: optionId,
+        voter_id: user.id,
+        share_id: shareId,
+        ip_address: ip,
+        user_agent: userAgent,
+        fraud_flags: fraudFlags
+      })),
+      ...(validatedData.write_in
+        ? [{
+            poll_id: validatedData.poll_id,
+            option_id: null,
+            write_in: validatedData.write_in,
+            voter_id: user.id,
+            share_id: shareId,
+            ip_address: ip,
+            user_agent: userAgent,
+            fraud_flags: fraudFlags
+          }]
+        : [])
+    ]
+
+    const ballot = await claimRequestBallot(supabase, request, poll)
+    if ('response' in ballot) {
+      return ballot.response
+    }
 
     const { data: votes, error: votesError } = await supabase
       .from('votes')
@@ -250,18 +639,31 @@ export async function PUT(request: NextRequest) {
 
     if (votesError) {
       console.error('Multiple votes submission error:', votesError)
+      await releaseBallot(supabase, ballot.invitationId)
       return NextResponse.json(
         { error: 'Failed to submit votes' },
         { status: 500 }
       )
     }
 
-    return NextResponse.json({
-      success: true,
-      data: votes
-    })
+    const quiz = poll.is_quiz
+      ? await scoreQuizBallot(supabase, poll.id, validatedData.option_ids)
+      : null
+
+    return withRateLimitHeaders(
+      NextResponse.json({
+        success: true,
+        data: votes,
+        ...(quiz && { quiz })
+      }),
+      rateLimit
+    )
 
   } catch (error: any) {
+    if (error instanceof AppError) {
+      return handleApiError(error)
+    }
+
     console.error('Multiple votes error:', error)
     
     if (error.name === 'ZodError') {
@@ -276,4 +678,293 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Checks that the current user can change their vote on a poll: they must be signed in, and the
+ * poll must allow vote changes and be open: started, and not yet expired. Unlisted and private polls also need their share link,
+ * password-protected polls must be unlocked, and polls with eligibility rules only take eligible accounts.
+ * @param supabase The Supabase client.
+ * @param request The incoming request object.
+ * @param pollId The ID of the poll.
+ * @returns The poll and the user, or an error response.
+ */
+async function getChangeablePoll(supabase: SupabaseClient, request: NextRequest, pollId: string) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { response: NextResponse.json({ error: 'Sign in to change your vote' }, { status: 401 }) }
+  }
+
+  const { data: poll, error: pollError } = await supabase
+    .from('polls')
+    .select('*')
+    .eq('id', pollId)
+    .in('status', ['scheduled', 'open'])
+    .single()
+
+  if (pollError || !poll) {
+    return { response: NextResponse.json({ error: 'Poll not found or inactive' }, { status: 404 }) }
+  }
+
+  const access = await checkRequestPollAccess(supabase, request, poll)
+  if (access !== 'granted') {
+    return { response: pollAccessErrorResponse(access) }
+  }
+
+  if (!(await isRequestUnlocked(supabase, request, poll))) {
+    return { response: pollLockedResponse() }
+  }
+
+  // Accounts that no longer meet the poll's eligibility rules can't change their vote either.
+  const ineligibleReason = await checkRequestEligibility(supabase, poll)
+  if (ineligibleReason) {
+    return { response: ineligibleResponse(ineligibleReason, poll) }
+  }
+
+  if (!poll.allow_vote_changes) {
+    return { response: NextResponse.json({ error: 'This poll does not allow changing votes' }, { status: 403 }) }
+  }
+
+  if (poll.starts_at && new Date(poll.starts_at) > new Date()) {
+    return { response: NextResponse.json({ error: 'Poll has not opened yet' }, { status: 400 }) }
+  }
+
+  if (poll.expires_at && new Date(poll.expires_at) < new Date()) {
+    return { response: NextResponse.json({ error: 'Poll has expired' }, { status: 400 }) }
+  }
+
+  return { poll, user }
+}
+
+/**
+ * Fetches a voter's current ballot on a poll: their vote rows along with any rankings and ratings.
+ * @param supabase The Supabase client.
+ * @param pollId The ID of the poll.
+ * @param voterId The ID of the voter.
+ * @returns The ballot's rows, or null if they could not be fetched.
+ */
+async function fetchBallotRows(supabase: SupabaseClient, pollId: string, voterId: string) {
+  const { data: votes, error: votesError } = await supabase
+    .from('votes')
+    .select('*')
+    .eq('poll_id', pollId)
+    .eq('voter_id', voterId)
+
+  if (votesError) {
+    console.error('Ballot fetch error:', votesError)
+    return null
+  }
+
+  const voteIds = votes.map((vote) => vote.id)
+  const { data: rankings, error: rankingsError } = await supabase.from('vote_rankings').select('*').in('vote_id', voteIds)
+  const { data: ratings, error: ratingsError } = await supabase.from('vote_ratings').select('*').in('vote_id', voteIds)
+
+  if (rankingsError || ratingsError) {
+    console.error('Ballot fetch error:', rankingsError || ratingsError)
+    return null
+  }
+
+  return { votes, rankings, ratings }
+}
+
+/**
+ * API endpoint for changing a vote on a poll that allows vote changes.
+ * The body holds the whole new ballot: an `option_id`, `option_ids`, a `ranking` or `ratings`,
+ * depending on the poll's voting method. The old ballot is replaced and the change is recorded
+ * in the poll's vote change history. Write-in answers can't be changed; voters retract their vote
+ * and vote again instead.
+ * @param request The incoming request object.
+ * @param context The context object, which contains the poll ID.
+ * @returns A response object with the new votes or an error message.
+ */
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = createServerSupabaseClient()
+
+    const body = await request.json()
+    if (body.write_in !== undefined) {
+      return NextResponse.json(
+        { error: 'Write-in answers cannot be changed; retract your vote and vote again' },
+        { status: 400 }
+      )
+    }
+    const validatedData = changeVoteSchema.parse({ ...body, poll_id: params.id })
+
+    const { poll, user, response } = await getChangeablePoll(supabase, request, validatedData.poll_id)
+    if (!poll) return response
+
+    // The new ballot is checked like a survey answer, with the poll itself as the question.
+    const { data: options, error: optionsError } = await supabase
+      .from('poll_options')
+      .select('*')
+      .eq('poll_id', poll.id)
+
+    if (optionsError) {
+      console.error('Options fetch error:', optionsError)
+      return NextResponse.json({ error: 'Failed to change vote' }, { status: 500 })
+    }
+
+    const answerError = findAnswerError(toPollQuestion(poll, options), validatedData)
+    if (answerError) {
+      return NextResponse.json(
+        { error: answerError.charAt(0).toUpperCase() + answerError.slice(1) },
+        { status: 400 }
+      )
+    }
+
+    const previous = await fetchBallotRows(supabase, poll.id, user.id)
+    if (!previous) {
+      return NextResponse.json({ error: 'Failed to change vote' }, { status: 500 })
+    }
+
+    if (previous.votes.length === 0) {
+      return NextResponse.json({ error: 'You have not voted on this poll' }, { status: 404 })
+    }
+
+    // We build the new ballot's rows, generating the vote IDs so the rankings and ratings can reference them.
+    // The new rows keep the old ballot's share credit, fraud flags and exclusion, so that changing
+    // a vote the creator excluded doesn't count it again.
+    const ip = getClientIp(request.headers)
+    const userAgent = request.headers.get('user-agent') || 'unknown'
+    const oldVote = previous.votes[0]
+    const carriedOver = {
+      share_id: oldVote?.share_id ?? null,
+      fraud_flags: oldVote?.fraud_flags ?? null,
+      excluded_at: oldVote?.excluded_at ?? null,
+      excluded_by: oldVote?.excluded_by ?? null,
+      exclusion_reason: oldVote?.exclusion_reason ?? null
+    }
+
+    const votes = (validatedData.option_ids ?? [validatedData.option_id ?? validatedData.ranking?.[0] ?? null])
+      .map((optionId) => ({
+        id: crypto.randomUUID(),
+        poll_id: poll.id,
+        option_id: optionId,
+        voter_id: user.id,
+        ip_address: ip,
+        user_agent: userAgent,
+        ...carriedOver
+      }))
+    const voteId = votes[0]?.id ?? ''
+    const rankings = (validatedData.ranking ?? []).map((optionId, index) => ({
+      vote_id: voteId,
+      option_id: optionId,
+      rank: index + 1
+    }))
+    const ratings = (validatedData.ratings ?? []).map((rating) => ({
+      vote_id: voteId,
+      option_id: rating.option_id ?? null,
+      value: rating.value
+    }))
+
+    // We swap the old ballot for the new one. If the new ballot fails to save,
+    // we put the old one back so the voter keeps their vote.
+    const { error: deleteError } = await supabase
+      .from('votes')
+      .delete()
+      .eq('poll_id', poll.id)
+      .eq('voter_id', user.id)
+
+    if (deleteError) {
+      console.error('Vote change error:', deleteError)
+      return NextResponse.json({ error: 'Failed to change vote' }, { status: 500 })
+    }
+
+    const { error: votesError } = await supabase.from('votes').insert(votes)
+    const { error: rankingsError } = votesError || rankings.length === 0
+      ? { error: null }
+      : await supabase.from('vote_rankings').insert(rankings)
+    const { error: ratingsError } = votesError || rankingsError || ratings.length === 0
+      ? { error: null }
+      : await supabase.from('vote_ratings').insert(ratings)
+
+    if (votesError || rankingsError || ratingsError) {
+      console.error('Vote change error:', votesError || rankingsError || ratingsError)
+      await supabase.from('votes').delete().eq('poll_id', poll.id).eq('voter_id', user.id)
+      await supabase.from('votes').insert(previous.votes)
+      if (previous.rankings.length > 0) await supabase.from('vote_rankings').insert(previous.rankings)
+      if (previous.ratings.length > 0) await supabase.from('vote_ratings').insert(previous.ratings)
+      return NextResponse.json({ error: 'Failed to change vote' }, { status: 500 })
+    }
+
+    // The change is kept for the poll creator; the vote itself has already been changed.
+    const { error: historyError } = await supabase
+      .from('vote_changes')
+      .insert({
+        poll_id: poll.id,
+        voter_id: user.id,
+        action: 'changed',
+        previous_ballot: toBallot(previous.votes, previous.rankings, previous.ratings),
+        new_ballot: toBallot(votes.map((vote) => ({ ...vote, write_in: null })), rankings, ratings)
+      })
+
+    if (historyError) {
+      console.error('Vote change history error:', historyError)
+    }
+
+    return NextResponse.json({ success: true, data: votes })
+  } catch (error: any) {
+    console.error('Change vote error:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * API endpoint for retracting a vote on a poll that allows vote changes.
+ * The voter's whole ballot is removed and the retraction is recorded in the poll's vote change history.
+ * @param request The incoming request object.
+ * @param context The context object, which contains the poll ID.
+ * @returns A response object indicating success or failure.
+ */
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = createServerSupabaseClient()
+
+    const { poll, user, response } = await getChangeablePoll(supabase, request, params.id)
+    if (!poll) return response
+
+    const previous = await fetchBallotRows(supabase, poll.id, user.id)
+    if (!previous) {
+      return NextResponse.json({ error: 'Failed to retract vote' }, { status: 500 })
+    }
+
+    if (previous.votes.length === 0) {
+      return NextResponse.json({ error: 'You have not voted on this poll' }, { status: 404 })
+    }
+
+    const { error: deleteError } = await supabase
+      .from('votes')
+      .delete()
+      .eq('poll_id', poll.id)
+      .eq('voter_id', user.id)
+
+    if (deleteError) {
+      console.error('Vote retraction error:', deleteError)
+      return NextResponse.json({ error: 'Failed to retract vote' }, { status: 500 })
+    }
+
+    const { error: historyError } = await supabase
+      .from('vote_changes')
+      .insert({
+        poll_id: poll.id,
+        voter_id: user.id,
+        action: 'retracted',
+        previous_ballot: toBallot(previous.votes, previous.rankings, previous.ratings),
+        new_ballot: null
+      })
+
+    if (historyError) {
+      console.error('Vote change history error:', historyError)
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Retract vote error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
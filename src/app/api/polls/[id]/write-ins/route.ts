@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/client'
+import { promoteWriteInSchema } from '@/lib/validations'
+import { groupWriteIns } from '@/lib/write-ins'
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>
+
+/**
+ * Checks that the current user created the poll, and fetches its write-in answers grouped by normalized text.
+ * Write-ins that have already been promoted to an option are left out.
+ * @param supabase The Supabase client.
+ * @param pollId The ID of the poll.
+ * @returns The write-in groups, or an error response.
+ */
+async function getWriteInGroups(supabase: SupabaseClient, pollId: string) {
+  // Only the poll creator can review write-ins.
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { response: NextResponse.json({ error: 'Authentication required' }, { status: 401 }) }
+  }
+
+  const { data: poll, error: pollError } = await supabase
+    .from('polls')
+    .select('created_by')
+    .eq('id', pollId)
+    .single()
+
+  if (pollError || !poll) {
+    return { response: NextResponse.json({ error: 'Poll not found' }, { status: 404 }) }
+  }
+
+  if (poll.created_by !== user.id) {
+    return { response: NextResponse.json({ error: 'You are not authorized to review write-ins for this poll' }, { status: 403 }) }
+  }
+
+  const { data: votes, error: votesError } = await supabase
+    .from('votes')
+    .select('id, write_in')
+    .eq('poll_id', pollId)
+    .is('option_id', null)
+    .not('write_in', 'is', null)
+    .is('excluded_at', null)
+    .is('pending_until', null)
+
+  if (votesError) {
+    console.error('Write-ins fetch error:', votesError)
+    return { response: NextResponse.json({ error: 'Failed to fetch write-ins' }, { status: 500 }) }
+  }
+
+  return {
+    groups: groupWriteIns(votes.map((vote) => ({ voteId: vote.id, text: vote.write_in ?? '' })))
+  }
+}
+
+/**
+ * API endpoint for reviewing the write-in answers of a poll.
+ * Write-ins are grouped by normalized text, most frequent first.
+ * @param request The incoming request object.
+ * @param context The context object, which contains the poll ID.
+ * @returns A response object with the write-in groups or an error message.
+ */
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = createServerSupabaseClient()
+    const { groups, response } = await getWriteInGroups(supabase, params.id)
+    if (!groups) return response
+
+    return NextResponse.json({
+      success: true,
+      data: groups.map(({ voteIds: _voteIds, ...group }) => group)
+    })
+  } catch (error) {
+    console.error('Get write-ins error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * API endpoint for promoting a group of write-in answers to a real poll option.
+ * The new option takes the group's most common spelling, and every vote in the group is moved to it.
+ * @param request The incoming request object, with the `key` of the group to promote.
+ * @param context The context object, which contains the poll ID.
+ * @returns A response object with the new option or an error message.
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = createServerSupabaseClient()
+    const pollId = params.id
+
+    const body = await request.json()
+    const validatedData = promoteWriteInSchema.parse(body)
+
+    const { groups, response } = await getWriteInGroups(supabase, pollId)
+    if (!groups) return response
+
+    const group = groups.find((candidate) => candidate.key === validatedData.key)
+    if (!group) {
+      return NextResponse.json({ error: 'Write-in not found' }, { status: 404 })
+    }
+
+    // The new option goes after the existing ones, within the usual option limit.
+    const { data: options, error: optionsError } = await supabase
+      .from('poll_options')
+      .select('order_index')
+      .eq('poll_id', pollId)
+      .order('order_index', { ascending: false })
+
+    if (optionsError) {
+      console.error('Options fetch error:', optionsError)
+      return NextResponse.json({ error: 'Failed to promote write-in' }, { status: 500 })
+    }
+
+    if (options.length >= 10) {
+      return NextResponse.json({ error: 'Maximum 10 options allowed' }, { status: 400 })
+    }
+
+    const { data: option, error: optionError } = await supabase
+      .from('poll_options')
+      .insert({
+        poll_id: pollId,
+        text: group.text,
+        order_index: (options[0]?.order_index ?? -1) + 1
+      })
+      .select()
+      .single()
+
+    if (optionError) {
+      console.error('Option creation error:', optionError)
+      return NextResponse.json({ error: 'Failed to promote write-in' }, { status: 500 })
+    }
+
+    // The write-in text stays on each vote as a record of what the voter typed.
+    // If the votes can't be moved, we remove the new option again.
+    const { error: updateError } = await supabase
+      .from('votes')
+      .update({ option_id: option.id })
+      .in('id', group.voteIds)
+
+    if (updateError) {
+      console.error('Write-in promotion error:', updateError)
+      await supabase.from('poll_options').delete().eq('id', option.id)
+      return NextResponse.json({ error: 'Failed to promote write-in' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { ...option, votes: group.count }
+    })
+  } catch (error: any) {
+    console.error('Promote write-in error:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 })
+    }
+
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/client'
+import { qrExportSchema } from '@/lib/validations'
+import { getShareUrl } from '@/lib/access'
+import { checkQrColors, getErrorCorrectionLevel, normalizeHexColor } from '@/lib/qr-codes'
+import { loadQrLogo } from '@/lib/qr-images'
+import { buildQrPosterPdf, buildQrZip } from '@/lib/qr-exports'
+
+/**
+ * API endpoint for exporting the QR codes of several polls at once, for printing at events.
+ * The `format` is either a PDF with a poster per poll (title, description, QR code and link), in
+ * the order given, or a ZIP with a PNG or SVG QR code per poll, as chosen by `file_format`. The
+ * codes take the same style options as a single poll's QR code. Only the polls' creator can
+ * export them, since the codes carry the share token.
+ * @param request The incoming request object.
+ * @returns The PDF or ZIP file, or an error message.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createServerSupabaseClient()
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validatedData = qrExportSchema.parse(body)
+    const pollIds = [...new Set(validatedData.poll_ids)]
+
+    const dark = normalizeHexColor(validatedData.dark)
+    const light = normalizeHexColor(validatedData.light)
+    const colorsError = checkQrColors(dark, light)
+    if (colorsError) {
+      return NextResponse.json({ error: colorsError }, { status: 400 })
+    }
+
+    const { data: rows, error: pollsError } = await supabase
+      .from('polls')
+      .select('id, title, description, share_token, created_by')
+      .in('id', pollIds)
+      .eq('created_by', user.id)
+
+    if (pollsError) {
+      console.error('QR export polls fetch error:', pollsError)
+      return NextResponse.json({ error: 'Failed to fetch polls' }, { status: 500 })
+    }
+
+    // Polls that don't exist and polls of other creators are reported alike.
+    const polls = pollIds.flatMap((id) => rows.filter((row) => row.id === id))
+    if (polls.length !== pollIds.length) {
+      return NextResponse.json({ error: 'Poll not found' }, { status: 404 })
+    }
+
+    const logo = validatedData.logo ? await loadQrLogo(supabase, validatedData.logo) : null
+    if (validatedData.logo && !logo) {
+      return NextResponse.json({ error: 'Logo not found' }, { status: 404 })
+    }
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL ?? ''
+    const exportPolls = polls.map((poll) => ({
+      id: poll.id,
+      title: poll.title,
+      description: poll.description,
+      url: getShareUrl(baseUrl, poll.id, poll.share_token)
+    }))
+    const options = {
+      size: validatedData.size,
+      style: {
+        dark,
+        light,
+        margin: validatedData.margin,
+        errorCorrectionLevel: getErrorCorrectionLevel(validatedData.error_correction, Boolean(logo))
+      },
+      logo
+    }
+
+    const file = validatedData.format === 'zip'
+      ? await buildQrZip(exportPolls, validatedData.file_format, { ...options, caption: validatedData.caption })
+      : await buildQrPosterPdf(exportPolls, options)
+
+    return new NextResponse(new Uint8Array(file), {
+      status: 200,
+      headers: {
+        'Content-Type': validatedData.format === 'zip' ? 'application/zip' : 'application/pdf',
+        'Content-Disposition': `attachment; filename="${validatedData.format === 'zip' ? 'qr-codes.zip' : 'qr-posters.pdf'}"`,
+        'Cache-Control': 'private, no-store'
+      }
+    })
+  } catch (error: any) {
+    console.error('QR export error:', error)
+
+    if (error.name === 'ZodError') {
+      return NextResponse.json({ error: 'Invalid parameters' }, { status: 400 })
+    }
+
+    return NextResponse.json({ error: 'Failed to export QR codes' }, { status: 500 })
+  }
+}
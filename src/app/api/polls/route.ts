@@ -1,7 +1,11 @@
 import { NextRequest } from 'next/server';
 import { createApiResponse, handleApiError } from '@/lib/api-response';
-import { createPollSchema } from '@/lib/validations';
+import { createPollSchema, pollSearchSchema } from '@/lib/validations';
+import { getPublishedStatus } from '@/lib/lifecycle';
+import { hashPassword } from '@/lib/poll-passwords';
 import { AuthenticationError, ValidationError, ConflictError } from '@/lib/errors';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { enforceRateLimit, withRateLimitHeaders } from '@/lib/rate-limit-store';
 import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
 import { cookies } from 'next/headers';
 
@@ -15,6 +19,8 @@ export async function POST(request: NextRequest) {
       throw new AuthenticationError('Authentication required to create polls');
     }
 
+    const rateLimit = await enforceRateLimit(request, RATE_LIMITS.createPoll, { userId: session.user.id });
+
     // Parse and validate request body
     const body = await request.json();
     const validatedData = createPollSchema.parse(body);
@@ -32,20 +38,40 @@ export async function POST(request: NextRequest) {
     }
 
     // Create the poll
+    const options = validatedData.options.map((text, index) => ({
+      id: crypto.randomUUID(),
+      text,
+      votes: 0,
+      order: index
+    }));
+
     const { data: poll, error: createError } = await supabase
       .from('polls')
       .insert({
         title: validatedData.title,
         description: validatedData.description,
-        options: validatedData.options.map((text, index) => ({
-          id: crypto.randomUUID(),
-          text,
-          votes: 0,
-          order: index
-        })),
+        options,
         created_by: session.user.id,
         allow_multiple_votes: validatedData.allow_multiple_votes,
         require_authentication: validatedData.require_authentication,
+        allow_write_in: validatedData.allow_write_in,
+        is_quiz: validatedData.is_quiz,
+        allow_vote_changes: validatedData.allow_vote_changes,
+        results_visibility: validatedData.results_visibility,
+        access: validatedData.access,
+        password_protected: Boolean(validatedData.password),
+        invite_only: validatedData.invite_only,
+        allowed_email_domains: validatedData.allowed_email_domains ?? null,
+        require_verified: validatedData.require_verified,
+        min_account_age_days: validatedData.min_account_age_days ?? null,
+        challenge_difficulty: validatedData.challenge_difficulty,
+        require_phone_verification: validatedData.require_phone_verification,
+        min_selections: validatedData.min_selections,
+        max_selections: validatedData.max_selections,
+        poll_type: validatedData.poll_type,
+        scale_labels: validatedData.scale_labels,
+        status: validatedData.status === 'draft' ? 'draft' : getPublishedStatus(validatedData.starts_at),
+        starts_at: validatedData.starts_at,
         expires_at: validatedData.expires_at
       })
       .select()
@@ -55,10 +81,90 @@ export async function POST(request: NextRequest) {
       throw new Error(`Database error: ${createError.message}`);
     }
 
-    return createApiResponse(
-      poll,
-      201,
-      'Poll created successfully'
+    // Quizzes keep their correct options apart from the options voters can see
+    const quizAnswers: { option_id: string | undefined; poll_id: string; question_id: string | null }[] =
+      validatedData.poll_type !== 'survey'
+        ? (validatedData.correct_options ?? []).map((index) => ({
+            option_id: options[index]?.id,
+            poll_id: poll.id,
+            question_id: null
+          }))
+        : [];
+
+    // Surveys store their ordered questions, each with its own options
+    if (validatedData.poll_type === 'survey' && validatedData.questions) {
+      const questions = validatedData.questions.map((question, index) => ({
+        id: crypto.randomUUID(),
+        poll_id: poll.id,
+        text: question.text,
+        question_type: question.question_type,
+        allow_multiple_votes: question.allow_multiple_votes,
+        min_selections: question.min_selections,
+        max_selections: question.max_selections,
+        scale_labels: question.scale_labels,
+        is_required: question.is_required,
+        order_index: index
+      }));
+
+      const questionOptions = validatedData.questions.map((question, index) =>
+        question.options.map((text, order) => ({
+          id: crypto.randomUUID(),
+          poll_id: poll.id,
+          question_id: questions[index]?.id,
+          text,
+          order_index: order
+        }))
+      );
+
+      const { error: questionsError } = await supabase.from('poll_questions').insert(questions);
+      const { error: optionsError } = questionsError
+        ? { error: null }
+        : await supabase.from('poll_options').insert(questionOptions.flat());
+
+      if (questionsError || optionsError) {
+        await supabase.from('polls').delete().eq('id', poll.id);
+        throw new Error(`Database error: ${(questionsError || optionsError)?.message}`);
+      }
+
+      validatedData.questions.forEach((question, index) => {
+        for (const option of question.correct_options ?? []) {
+          quizAnswers.push({
+            option_id: questionOptions[index]?.[option]?.id,
+            poll_id: poll.id,
+            question_id: questions[index]?.id ?? null
+          });
+        }
+      });
+    }
+
+    // Password-protected polls keep the hash of their password apart from the poll
+    if (validatedData.password) {
+      const { error: passwordError } = await supabase
+        .from('poll_passwords')
+        .insert({ poll_id: poll.id, password_hash: await hashPassword(validatedData.password) });
+
+      if (passwordError) {
+        await supabase.from('polls').delete().eq('id', poll.id);
+        throw new Error(`Database error: ${passwordError.message}`);
+      }
+    }
+
+    if (validatedData.is_quiz && quizAnswers.length > 0) {
+      const { error: answersError } = await supabase.from('quiz_answers').insert(quizAnswers);
+
+      if (answersError) {
+        await supabase.from('polls').delete().eq('id', poll.id);
+        throw new Error(`Database error: ${answersError.message}`);
+      }
+    }
+
+    return withRateLimitHeaders(
+      createApiResponse(
+        poll,
+        201,
+        'Poll created successfully'
+      ),
+      rateLimit
     );
 
   } catch (error) {
@@ -78,8 +184,9 @@ export async function GET(request: NextRequest) {
     // Parse query parameters
     const page = parseInt(searchParams.get('page') || '1');
     const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 100);
-    const status = searchParams.get('status') || 'all';
+    const status = pollSearchSchema.shape.status.parse(searchParams.get('status') || undefined);
     const search = searchParams.get('search');
+    const createdBy = searchParams.get('created_by');
     
     let query = supabase
       .from('polls')
@@ -87,12 +194,33 @@ export async function GET(request: NextRequest) {
       .order('created_at', { ascending: false });
 
     // Apply filters
-    if (status !== 'all') {
-      if (status === 'active') {
-        query = query.eq('is_active', true);
-      } else if (status === 'expired') {
-        query = query.lt('expires_at', new Date().toISOString());
+    // Polls are filtered by their effective status: scheduled polls that have started count as
+    // open, and open polls past their expiry count as closed.
+    const now = new Date().toISOString();
+    if (status === 'all') {
+      // Listings leave out drafts and archived polls, except when showing a creator's own polls.
+      if (!createdBy) {
+        query = query.not('status', 'in', '(draft,archived)');
       }
+    } else if (status === 'open') {
+      query = query
+        .in('status', ['scheduled', 'open'])
+        .or(`starts_at.is.null,starts_at.lte.${now}`)
+        .or(`expires_at.is.null,expires_at.gt.${now}`);
+    } else if (status === 'scheduled') {
+      query = query.eq('status', 'scheduled').gt('starts_at', now);
+    } else if (status === 'closed') {
+      query = query.or(`status.eq.closed,and(status.in.(scheduled,open),expires_at.lte.${now})`);
+    } else {
+      query = query.eq('status', status);
+    }
+
+    // Unlisted and private polls are only reached through their share link, so they are only
+    // listed among their creator's polls.
+    if (createdBy) {
+      query = query.eq('created_by', createdBy);
+    } else {
+      query = query.eq('access', 'public');
     }
 
     if (search) {
@@ -5,7 +5,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Badge } from "@/components/ui/badge";
+import { PollStatusBadge } from "@/components/polls/poll-status-badge";
 import { Poll } from "@/types";
 import { PollAPI } from "@/lib/api";
 import { useAuth } from "@/contexts/auth-context";
@@ -152,9 +152,7 @@ function ProfilePage() {
                             </p>
                           )}
                           <div className="flex items-center gap-2 mt-2">
-                            <Badge variant={poll.isActive ? "default" : "secondary"}>
-                              {poll.isActive ? "Active" : "Inactive"}
-                            </Badge>
+                            <PollStatusBadge poll={poll} />
                             <span className="text-xs text-gray-500">
                               {poll.options.reduce((sum, opt) => sum + opt.votes, 0)} votes
                             </span>
@@ -0,0 +1,114 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { useParams, useSearchParams } from "next/navigation";
+import { PollDetails } from "@/components/polls/poll-details";
+import { SurveyDetails } from "@/components/polls/survey-details";
+import { PollPasswordForm } from "@/components/polls/poll-password-form";
+import { EmbedMessage, Poll } from "@/types";
+import { PollAPI } from "@/lib/api";
+import { useAuth } from "@/contexts/auth-context";
+
+/**
+ * Posts a message to the page the poll is embedded in. Embeds can be on any site, so the target
+ * origin isn't restricted; the messages carry nothing private.
+ * @param message The message to post.
+ */
+function postToParent(message: EmbedMessage) {
+  if (window.parent !== window) {
+    window.parent.postMessage(message, "*");
+  }
+}
+
+export default function EmbeddedPollPage() {
+  const params = useParams();
+  const { user } = useAuth();
+  const pollId = params.id as string;
+  // Unlisted and private polls are embedded with their share token.
+  const searchParams = useSearchParams();
+  const shareToken = searchParams.get("token");
+  const contentRef = useRef<HTMLDivElement>(null);
+
+  const [poll, setPoll] = useState<Poll | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const isAuthenticated = Boolean(user);
+
+  useEffect(() => {
+    if (!pollId) return;
+
+    PollAPI.getPoll(pollId, shareToken)
+      .then((fetchedPoll) => {
+        if (fetchedPoll) {
+          setPoll(fetchedPoll);
+        } else {
+          setError("Poll not found");
+        }
+      })
+      .catch((err) => {
+        const message = err instanceof Error ? err.message : "";
+        setError(message === "Sign in to open this poll" || message === "Poll not found" ? message : "Failed to load poll");
+        console.error("Error loading poll:", err);
+      })
+      .finally(() => setIsLoading(false));
+  }, [pollId, shareToken]);
+
+  // Report the content's height whenever it changes, so the embedding page can size its iframe to fit.
+  useEffect(() => {
+    const content = contentRef.current;
+    if (!content) return;
+
+    const observer = new ResizeObserver(() => {
+      postToParent({ source: "polly", type: "resize", pollId, height: Math.ceil(content.getBoundingClientRect().height) });
+    });
+    observer.observe(content);
+    return () => observer.disconnect();
+  }, [pollId]);
+
+  const handleReload = () => {
+    PollAPI.getPoll(pollId, shareToken).then((updatedPoll) => {
+      if (updatedPoll) {
+        setPoll(updatedPoll);
+      }
+    });
+  };
+
+  const handleVoteSuccess = () => {
+    postToParent({ source: "polly", type: "vote", pollId });
+    handleReload();
+  };
+
+  return (
+    <div ref={contentRef} className="p-4">
+      {isLoading ? (
+        <div className="text-center text-sm">Loading poll...</div>
+      ) : error || !poll ? (
+        <div className="text-center text-sm text-gray-600">{error || "Poll Not Found"}</div>
+      ) : poll.locked ? (
+        <PollPasswordForm poll={poll} onUnlock={handleReload} />
+      ) : poll.pollType === "survey" ? (
+        <SurveyDetails
+          poll={poll}
+          isAuthenticated={isAuthenticated}
+          isCreator={false}
+          onResponseSuccess={handleVoteSuccess}
+        />
+      ) : (
+        <PollDetails
+          poll={poll}
+          userVote={null}
+          userVotes={[]}
+          isAuthenticated={isAuthenticated}
+          isCreator={false}
+          onVoteSuccess={handleVoteSuccess}
+        />
+      )}
+
+      <div className="mt-3 text-center text-xs text-muted-foreground">
+        <a href={`/polls/${pollId}${shareToken ? `?token=${shareToken}` : ""}`} target="_blank" rel="noopener noreferrer" className="hover:underline">
+          Open in Polly
+        </a>
+      </div>
+    </div>
+  );
+}
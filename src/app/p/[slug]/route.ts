@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase/client'
+import { getShareUrl } from '@/lib/access'
+import { SHORT_LINK_SLUG_PATTERN } from '@/lib/short-links'
+
+/**
+ * Short link redirect. Records the click, with its referrer and user agent, and sends the visitor
+ * on to the poll. Unlisted and private polls are opened with their current share token, so short
+ * links keep working when the token is rotated.
+ * @param request The incoming request object.
+ * @param context The context object, which contains the short link's slug.
+ * @returns A redirect to the poll, or a not found response.
+ */
+export async function GET(request: NextRequest, { params }: { params: { slug: string } }) {
+  try {
+    if (!SHORT_LINK_SLUG_PATTERN.test(params.slug)) {
+      return new NextResponse('Short link not found', { status: 404 })
+    }
+
+    const supabase = createServerSupabaseClient()
+
+    const { data: link } = await supabase
+      .from('short_links')
+      .select('id, poll_id')
+      .eq('slug', params.slug)
+      .maybeSingle()
+
+    if (!link) {
+      return new NextResponse('Short link not found', { status: 404 })
+    }
+
+    const { data: poll, error: pollError } = await supabase
+      .from('polls')
+      .select('id, access, share_token')
+      .eq('id', link.poll_id)
+      .single()
+
+    if (pollError || !poll) {
+      return new NextResponse('Short link not found', { status: 404 })
+    }
+
+    const { error: clickError } = await supabase
+      .from('short_link_clicks')
+      .insert({
+        short_link_id: link.id,
+        referrer: request.headers.get('referer'),
+        user_agent: request.headers.get('user-agent')
+      })
+
+    // A click that couldn't be recorded shouldn't keep the visitor from the poll
+    if (clickError) {
+      console.error('Short link click record error:', clickError)
+    }
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL ?? request.nextUrl.origin
+    const pollUrl = poll.access === 'public' ? `${baseUrl}/polls/${poll.id}` : getShareUrl(baseUrl, poll.id, poll.share_token)
+
+    // Not cached, so that every click is counted
+    const response = NextResponse.redirect(pollUrl, 302)
+    response.headers.set('Cache-Control', 'no-store')
+    return response
+  } catch (error) {
+    console.error('Short link redirect error:', error)
+    return new NextResponse('Internal server error', { status: 500 })
+  }
+}
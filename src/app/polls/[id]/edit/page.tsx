@@ -8,8 +8,21 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Switch } from '@/components/ui/switch';
 import { PollAPI } from '@/lib/api';
-import { CreatePollForm, Poll } from '@/types';
+import { isExpired } from '@/lib/utils';
+import { CreatePollForm, Poll, PollAccess, ResultsVisibility } from '@/types';
+import { RESULTS_VISIBILITIES, RESULTS_VISIBILITY_LABELS } from '@/lib/visibility';
+import { POLL_ACCESS_LABELS, POLL_ACCESS_LEVELS } from '@/lib/access';
+import { parseEmailDomains } from '@/lib/eligibility';
+import { toPollForm } from '@/lib/polls';
+import { CHALLENGE_DIFFICULTY_LEVELS, DEFAULT_CHALLENGE_DIFFICULTY } from '@/lib/proof-of-work';
 import { useAuth } from '@/contexts/auth-context';
+import { getMinOptions } from '@/components/polls/survey-questions-editor';
+import { PollStatusControls } from '@/components/polls/poll-status-controls';
+import { ShareLinkControls } from '@/components/polls/share-link-controls';
+import { InvitationManager } from '@/components/polls/invitation-manager';
+import { EmbedCodeControls } from '@/components/polls/embed-code-controls';
+import { ShortLinkManager } from '@/components/polls/short-link-manager';
+import { SuspiciousVoteReview } from '@/components/polls/suspicious-vote-review';
 
 export default function EditPollPage() {
   const { id: pollId } = useParams();
@@ -20,6 +33,8 @@ export default function EditPollPage() {
   const [pollData, setPollData] = useState<CreatePollForm | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // The allowed email domains are edited as text, and parsed when the poll is saved.
+  const [emailDomains, setEmailDomains] = useState('');
 
   useEffect(() => {
     const fetchPoll = async () => {
@@ -34,14 +49,8 @@ export default function EditPollPage() {
           return;
         }
         setPoll(fetchedPoll);
-        setPollData({
-          title: fetchedPoll.title,
-          description: fetchedPoll.description,
-          options: fetchedPoll.options.map((o) => o.text),
-          allowMultipleVotes: fetchedPoll.allowMultipleVotes,
-          requireAuthentication: fetchedPoll.requireAuthentication,
-          expiresAt: fetchedPoll.expiresAt,
-        });
+        setEmailDomains((fetchedPoll.allowedEmailDomains ?? []).join(', '));
+        setPollData(toPollForm(fetchedPoll));
       } catch (err) {
         setError('Failed to fetch poll');
       } finally {
@@ -54,6 +63,13 @@ export default function EditPollPage() {
     }
   }, [pollId, user]);
 
+  const handleStatusChange = async () => {
+    const updatedPoll = await PollAPI.getPoll(pollId as string);
+    if (updatedPoll) {
+      setPoll(updatedPoll);
+    }
+  };
+
   const handleAddOption = () => {
     if (pollData && pollData.options.length < 10) {
       setPollData({
@@ -84,15 +100,28 @@ export default function EditPollPage() {
     }
   };
 
+  // Leaving the password empty keeps the current one; null removes it.
+  const handlePasswordChange = (password: string | null) => {
+    if (!pollData) return;
+    const { password: _, ...rest } = pollData;
+    setPollData(password === '' ? rest : { ...rest, password });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!pollData) return;
 
+    const { domains, invalid } = parseEmailDomains(emailDomains);
+    if (invalid.length > 0) {
+      setError(`Not an email domain: ${invalid.join(', ')}`);
+      return;
+    }
+
     setIsLoading(true);
     setError(null);
 
     try {
-      const result = await PollAPI.updatePoll(pollId as string, pollData);
+      const result = await PollAPI.updatePoll(pollId as string, { ...pollData, allowedEmailDomains: domains });
 
       if (result.success) {
         router.push(`/polls/${pollId}`);
@@ -118,13 +147,23 @@ export default function EditPollPage() {
     return <div>Poll data could not be loaded.</div>;
   }
 
+  // Rating and NPS polls have no options, and surveys keep theirs in their questions.
+  const pollType = pollData.pollType ?? 'standard';
+  const minOptions = pollType === 'survey' ? 0 : getMinOptions(pollType);
+
   return (
     <Card className="w-full max-w-2xl mx-auto">
       <CardHeader>
         <CardTitle>Edit Poll</CardTitle>
         <CardDescription>Update the details of your poll</CardDescription>
       </CardHeader>
-      <CardContent>
+      <CardContent className="space-y-6">
+        {poll && <PollStatusControls poll={poll} onStatusChange={handleStatusChange} />}
+        {poll && <ShareLinkControls poll={poll} />}
+        {poll?.inviteOnly && <InvitationManager poll={poll} />}
+        {poll && <ShortLinkManager poll={poll} />}
+        {poll && <EmbedCodeControls poll={poll} />}
+        {poll && <SuspiciousVoteReview poll={poll} />}
         <form onSubmit={handleSubmit} className="space-y-6">
           <div className="space-y-2">
             <Label htmlFor="title">Poll Title *</Label>
@@ -151,39 +190,41 @@ export default function EditPollPage() {
             />
           </div>
 
-          <div className="space-y-4">
-            <Label>Poll Options *</Label>
-            {pollData.options.map((option, index) => (
-              <div key={index} className="flex gap-2">
-                <Input
-                  placeholder={`Option ${index + 1}`}
-                  value={option}
-                  onChange={(e) => handleOptionChange(index, e.target.value)}
-                  required={index < 2}
-                />
-                {pollData.options.length > 2 && index >= 2 && (
-                  <Button
-                    type="button"
-                    variant="outline"
-                    size="sm"
-                    onClick={() => handleRemoveOption(index)}
-                  >
-                    Remove
-                  </Button>
-                )}
-              </div>
-            ))}
-            {pollData.options.length < 10 && (
-              <Button
-                type="button"
-                variant="outline"
-                onClick={handleAddOption}
-                className="w-full"
-              >
-                Add Option
-              </Button>
-            )}
-          </div>
+          {minOptions > 0 && (
+            <div className="space-y-4">
+              <Label>{pollType === 'likert' ? 'Statements *' : 'Poll Options *'}</Label>
+              {pollData.options.map((option, index) => (
+                <div key={index} className="flex gap-2">
+                  <Input
+                    placeholder={`Option ${index + 1}`}
+                    value={option}
+                    onChange={(e) => handleOptionChange(index, e.target.value)}
+                    required={index < minOptions}
+                  />
+                  {pollData.options.length > 2 && index >= 2 && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRemoveOption(index)}
+                    >
+                      Remove
+                    </Button>
+                  )}
+                </div>
+              ))}
+              {pollData.options.length < 10 && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleAddOption}
+                  className="w-full"
+                >
+                  Add Option
+                </Button>
+              )}
+            </div>
+          )}
 
           <div className="space-y-6 border-t pt-6">
             <div>
@@ -211,6 +252,268 @@ export default function EditPollPage() {
               />
             </div>
 
+            {pollData.allowMultipleVotes && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="min-selections" className="text-sm font-medium">
+                    Minimum Selections
+                  </Label>
+                  <Input
+                    id="min-selections"
+                    type="number"
+                    min={1}
+                    max={pollData.options.length}
+                    value={pollData.minSelections ?? 1}
+                    onChange={(e) =>
+                      setPollData({ ...pollData, minSelections: Number(e.target.value) || 1 })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="max-selections" className="text-sm font-medium">
+                    Maximum Selections (Optional)
+                  </Label>
+                  <Input
+                    id="max-selections"
+                    type="number"
+                    min={pollData.minSelections ?? 1}
+                    max={pollData.options.length}
+                    placeholder="No limit"
+                    value={pollData.maxSelections ?? ''}
+                    onChange={(e) =>
+                      setPollData({
+                        ...pollData,
+                        maxSelections: e.target.value ? Number(e.target.value) : null,
+                      })
+                    }
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="allow-write-in" className="text-sm font-medium">
+                  Allow Write-in Answers
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  Voters can choose Other and write in their own answer
+                </p>
+              </div>
+              <Switch
+                id="allow-write-in"
+                checked={Boolean(pollData.allowWriteIn)}
+                onCheckedChange={(checked) =>
+                  setPollData({ ...pollData, allowWriteIn: checked })
+                }
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="allow-vote-changes" className="text-sm font-medium">
+                  Allow Vote Changes
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  Signed-in voters can change or retract their vote until the poll closes
+                </p>
+              </div>
+              <Switch
+                id="allow-vote-changes"
+                checked={Boolean(pollData.allowVoteChanges)}
+                disabled={poll?.pollType === 'survey' || Boolean(poll?.isQuiz)}
+                onCheckedChange={(checked) =>
+                  setPollData({ ...pollData, allowVoteChanges: checked })
+                }
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="invite-only" className="text-sm font-medium">
+                  Invite Only
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  Only invitees can vote, once each, with the ballot link you send them
+                </p>
+              </div>
+              <Switch
+                id="invite-only"
+                checked={Boolean(pollData.inviteOnly)}
+                onCheckedChange={(checked) =>
+                  setPollData({ ...pollData, inviteOnly: checked })
+                }
+              />
+            </div>
+
+            <div className="space-y-4 p-4 border rounded-lg">
+              <div className="space-y-0.5">
+                <Label className="text-sm font-medium">Who Can Vote</Label>
+                <p className="text-xs text-muted-foreground">
+                  Voters must sign in when any of these are set
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="allowed-email-domains" className="text-sm font-medium">
+                  Allowed Email Domains (Optional)
+                </Label>
+                <Input
+                  id="allowed-email-domains"
+                  placeholder="example.com, example.org"
+                  value={emailDomains}
+                  onChange={(e) => setEmailDomains(e.target.value)}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="require-verified" className="text-sm font-medium">
+                  Verified Accounts Only
+                </Label>
+                <Switch
+                  id="require-verified"
+                  checked={Boolean(pollData.requireVerified)}
+                  onCheckedChange={(checked) =>
+                    setPollData({ ...pollData, requireVerified: checked })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="min-account-age" className="text-sm font-medium">
+                  Minimum Account Age in Days (Optional)
+                </Label>
+                <Input
+                  id="min-account-age"
+                  type="number"
+                  min={1}
+                  placeholder="No minimum"
+                  value={pollData.minAccountAgeDays ?? ''}
+                  onChange={(e) =>
+                    setPollData({
+                      ...pollData,
+                      minAccountAgeDays: e.target.value ? Number(e.target.value) : null,
+                    })
+                  }
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="access" className="text-sm font-medium">
+                Who Can Open the Poll
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Unlisted and private polls are left out of poll listings
+              </p>
+              <select
+                id="access"
+                value={pollData.access ?? 'public'}
+                onChange={(e) =>
+                  setPollData({ ...pollData, access: e.target.value as PollAccess })
+                }
+                className="border-input h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs"
+              >
+                {POLL_ACCESS_LEVELS.map((access) => (
+                  <option key={access} value={access}>
+                    {POLL_ACCESS_LABELS[access]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="challenge-difficulty" className="text-sm font-medium">
+                Bot Protection
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Voters who are not signed in wait for their browser to solve a puzzle before voting; higher levels take longer
+              </p>
+              <select
+                id="challenge-difficulty"
+                value={pollData.challengeDifficulty ?? DEFAULT_CHALLENGE_DIFFICULTY}
+                onChange={(e) =>
+                  setPollData({ ...pollData, challengeDifficulty: Number(e.target.value) })
+                }
+                className="border-input h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs"
+              >
+                {CHALLENGE_DIFFICULTY_LEVELS.map((level) => (
+                  <option key={level.value} value={level.value}>
+                    {level.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="require-phone-verification" className="text-sm font-medium">
+                  Verified Phone Numbers
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  Voters who are not signed in must enter a code texted to their phone before voting
+                </p>
+              </div>
+              <Switch
+                id="require-phone-verification"
+                checked={Boolean(pollData.requirePhoneVerification)}
+                onCheckedChange={(checked) =>
+                  setPollData({ ...pollData, requirePhoneVerification: checked })
+                }
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="poll-password" className="text-sm font-medium">
+                Password
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                {poll?.passwordProtected
+                  ? 'Changing the password asks everyone to enter the new one'
+                  : 'Voters must enter it before they can see the options and vote'}
+              </p>
+              <div className="flex gap-2">
+                <Input
+                  id="poll-password"
+                  type="password"
+                  value={pollData.password ?? ''}
+                  onChange={(e) => handlePasswordChange(e.target.value)}
+                  placeholder={poll?.passwordProtected ? 'Leave empty to keep the current password' : 'Leave empty for no password'}
+                  disabled={pollData.password === null}
+                  autoComplete="new-password"
+                />
+                {poll?.passwordProtected && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => handlePasswordChange(pollData.password === null ? '' : null)}
+                  >
+                    {pollData.password === null ? 'Keep Password' : 'Remove Password'}
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="results-visibility" className="text-sm font-medium">
+                Show Results
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                You can always see the results of your own polls
+              </p>
+              <select
+                id="results-visibility"
+                value={pollData.resultsVisibility ?? 'always'}
+                onChange={(e) =>
+                  setPollData({ ...pollData, resultsVisibility: e.target.value as ResultsVisibility })
+                }
+                className="border-input h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs"
+              >
+                {RESULTS_VISIBILITIES.map((visibility) => (
+                  <option key={visibility} value={visibility}>
+                    {RESULTS_VISIBILITY_LABELS[visibility]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             <div className="flex items-center justify-between">
               <div className="space-y-0.5">
                 <Label htmlFor="require-auth" className="text-sm font-medium">
@@ -229,6 +532,27 @@ export default function EditPollPage() {
               />
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="starts-at" className="text-sm font-medium">
+                Start Date (Optional)
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Set when this poll opens for voting; it can't be moved once the poll has opened
+              </p>
+              <Input
+                id="starts-at"
+                type="datetime-local"
+                value={pollData.startsAt ? new Date(pollData.startsAt).toISOString().slice(0, 16) : ''}
+                disabled={poll?.status !== 'draft' && (!poll?.startsAt || isExpired(new Date(poll.startsAt)))}
+                onChange={(e) => {
+                  const { startsAt: _startsAt, ...rest } = pollData;
+                  const value = e.target.value;
+                  setPollData(value ? { ...rest, startsAt: new Date(value) } : rest);
+                }}
+                min={new Date().toISOString().slice(0, 16)}
+              />
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="expires-at" className="text-sm font-medium">
                 Expiration Date (Optional)
@@ -262,7 +586,7 @@ export default function EditPollPage() {
             <Button
               type="submit"
               className="w-full"
-              disabled={isLoading || pollData.title.trim() === '' || pollData.options.filter(opt => opt.trim() !== '').length < 2}
+              disabled={isLoading || pollData.title.trim() === '' || pollData.options.filter(opt => opt.trim() !== '').length < minOptions}
             >
               {isLoading ? 'Updating Poll...' : 'Update Poll'}
             </Button>
@@ -1,120 +1,42 @@
-"use client";
-
-import { useState, useEffect } from "react";
-import { useParams, useRouter } from "next/navigation";
-import { Button } from "@/components/ui/button";
-import { PollDetails } from "@/components/polls/poll-details";
-import { Poll } from "@/types";
-import { PollAPI } from "@/lib/api";
-
-export default function PollPage() {
-  const params = useParams();
-  const router = useRouter();
-  const pollId = params.id as string;
-
-  const [poll, setPoll] = useState<Poll | null>(null);
-  const [userVote, setUserVote] = useState<string | null>(null);
-  const [userVotes, setUserVotes] = useState<string[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState("");
-  const [isAuthenticated, setIsAuthenticated] = useState(false); // TODO: Get from auth context
-
-  useEffect(() => {
-    const loadPoll = async () => {
-      if (!pollId) return;
+import type { Metadata } from "next";
+import { PollView } from "@/components/polls/poll-view";
+import { createServerSupabaseClient } from "@/lib/supabase/client";
+import { getPollShareCard } from "@/lib/share-card-access";
+import { SHARE_CARD_SIZE, getShareCardDescription, getShareCardImageUrl } from "@/lib/share-cards";
+
+interface PollPageProps {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ token?: string }>;
+}
 
-      try {
-        const fetchedPoll = await PollAPI.getPoll(pollId);
-        if (fetchedPoll) {
-          setPoll(fetchedPoll);
-          // TODO: Fetch user's vote for this poll
-          // const userVoteData = await PollAPI.getUserVote(pollId);
-          // setUserVote(userVoteData?.optionId || null);
-        } else {
-          setError("Poll not found");
-        }
-      } catch (err) {
-        setError("Failed to load poll");
-        console.error("Error loading poll:", err);
-      } finally {
-        setIsLoading(false);
+/**
+ * Describes the poll to link previews: its title, a share card image with its results when anyone
+ * may see them, and where to find its oEmbed. Polls that can't be previewed get the app's defaults.
+ */
+export async function generateMetadata({ params, searchParams }: PollPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const { token } = await searchParams;
+  const card = await getPollShareCard(createServerSupabaseClient(), id, token ?? null).catch(() => null);
+  if (!card) return {};
+
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL ?? "";
+  const pollUrl = `${baseUrl}/polls/${id}${token ? `?token=${token}` : ""}`;
+  const description = getShareCardDescription(card);
+  const image = { url: getShareCardImageUrl(baseUrl, id, token), ...SHARE_CARD_SIZE, alt: card.title };
+
+  return {
+    title: `${card.title} - Polly`,
+    description,
+    openGraph: { type: "website", siteName: "Polly", url: pollUrl, title: card.title, description, images: [image] },
+    twitter: { card: "summary_large_image", title: card.title, description, images: [image.url] },
+    alternates: {
+      types: {
+        "application/json+oembed": `${baseUrl}/api/oembed?url=${encodeURIComponent(pollUrl)}&format=json`
       }
-    };
-
-    loadPoll();
-  }, [pollId]);
-
-  const handleVoteSuccess = () => {
-    // Reload the poll to get updated vote counts
-    if (pollId) {
-      PollAPI.getPoll(pollId).then((updatedPoll) => {
-        if (updatedPoll) {
-          setPoll(updatedPoll);
-        }
-      });
     }
   };
+}
 
-  if (isLoading) {
-    return (
-      <div className="container mx-auto px-4 py-8">
-        <div className="max-w-2xl mx-auto">
-          <div className="text-center">Loading poll...</div>
-        </div>
-      </div>
-    );
-  }
-
-  if (error || !poll) {
-    return (
-      <div className="container mx-auto px-4 py-8">
-        <div className="max-w-2xl mx-auto text-center">
-          <h1 className="text-2xl font-bold mb-4">
-            {error || "Poll Not Found"}
-          </h1>
-          <p className="text-gray-600 mb-4">
-            {error === "Poll not found"
-              ? "The poll you're looking for doesn't exist or has been removed."
-              : "There was an error loading the poll. Please try again."}
-          </p>
-          <div className="flex gap-4 justify-center">
-            <Button onClick={() => router.back()}>Go Back</Button>
-            <Button variant="outline" onClick={() => router.push("/polls")}>
-              Browse Polls
-            </Button>
-          </div>
-        </div>
-      </div>
-    );
-  }
-
-  return (
-    <div className="container mx-auto px-4 py-8">
-      <div className="max-w-2xl mx-auto">
-        <div className="mb-6">
-          <Button
-            variant="outline"
-            onClick={() => router.back()}
-            className="mb-4"
-          >
-            ← Back
-          </Button>
-        </div>
-
-        <PollDetails
-          poll={poll}
-          userVote={userVote}
-          userVotes={userVotes}
-          isAuthenticated={isAuthenticated}
-          onVoteSuccess={handleVoteSuccess}
-        />
-
-        <div className="mt-6 text-center">
-          <Button variant="outline" onClick={() => router.push("/polls")}>
-            Browse More Polls
-          </Button>
-        </div>
-      </div>
-    </div>
-  );
+export default function PollPage() {
+  return <PollView />;
 }
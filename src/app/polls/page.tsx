@@ -7,6 +7,7 @@ import { Input } from "@/components/ui/input";
 import { PollCard } from "@/components/polls/poll-card";
 import { Poll } from "@/types";
 import { PollAPI } from "@/lib/api";
+import { getEffectiveStatus } from "@/lib/lifecycle";
 import { useAuth } from "@/contexts/auth-context";
 
 /**
@@ -17,9 +18,10 @@ export default function PollsPage() {
   const { user } = useAuth();
   const [polls, setPolls] = useState<Poll[]>([]);
   const [filteredPolls, setFilteredPolls] = useState<Poll[]>([]);
+  const [upcomingPolls, setUpcomingPolls] = useState<Poll[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
   const [isLoading, setIsLoading] = useState(true);
-  const [filter, setFilter] = useState<"all" | "active" | "expired">("all");
+  const [filter, setFilter] = useState<"all" | "open" | "closed">("all");
 
   useEffect(() => {
     // When the component mounts, we load all the polls from the API.
@@ -27,7 +29,6 @@ export default function PollsPage() {
       try {
         const fetchedPolls = await PollAPI.getPolls();
         setPolls(fetchedPolls);
-        setFilteredPolls(fetchedPolls);
       } catch (error) {
         console.error("Failed to load polls:", error);
       } finally {
@@ -50,13 +51,21 @@ export default function PollsPage() {
       );
     }
 
+    // Polls that haven't opened yet are listed separately, soonest first.
+    const statusOf = (poll: Poll) => getEffectiveStatus(poll.status, poll.startsAt, poll.expiresAt);
+    const isUpcoming = (poll: Poll) => statusOf(poll) === "scheduled";
+    setUpcomingPolls(
+      filtered
+        .filter(isUpcoming)
+        .sort((a, b) => new Date(a.startsAt ?? 0).getTime() - new Date(b.startsAt ?? 0).getTime())
+    );
+    filtered = filtered.filter((poll) => !isUpcoming(poll));
+
     // We filter the polls based on the selected status filter.
-    if (filter === "active") {
-      filtered = filtered.filter((poll) => poll.isActive);
-    } else if (filter === "expired") {
-      filtered = filtered.filter(
-        (poll) => !poll.isActive || (poll.expiresAt && new Date() > poll.expiresAt)
-      );
+    if (filter === "open") {
+      filtered = filtered.filter((poll) => statusOf(poll) === "open");
+    } else if (filter === "closed") {
+      filtered = filtered.filter((poll) => statusOf(poll) === "closed");
     }
 
     setFilteredPolls(filtered);
@@ -118,22 +127,39 @@ export default function PollsPage() {
               All Polls
             </Button>
             <Button
-              variant={filter === "active" ? "default" : "outline"}
+              variant={filter === "open" ? "default" : "outline"}
               size="sm"
-              onClick={() => setFilter("active")}
+              onClick={() => setFilter("open")}
             >
-              Active
+              Open
             </Button>
             <Button
-              variant={filter === "expired" ? "default" : "outline"}
+              variant={filter === "closed" ? "default" : "outline"}
               size="sm"
-              onClick={() => setFilter("expired")}
+              onClick={() => setFilter("closed")}
             >
-              Expired
+              Closed
             </Button>
           </div>
         </div>
 
+        {/* Upcoming Polls */}
+        {upcomingPolls.length > 0 && filter !== "closed" && (
+          <div className="mb-8 space-y-4">
+            <h2 className="text-xl font-semibold">Upcoming</h2>
+            <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+              {upcomingPolls.map((poll) => (
+                <PollCard
+                  key={poll.id}
+                  poll={poll}
+                  isOwner={poll.createdBy === user?.id}
+                  onDelete={handleDelete}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Poll Results */}
         <div className="space-y-4">
           {filteredPolls.length > 0 ? (
@@ -152,7 +178,7 @@ export default function PollsPage() {
                 ))}
               </div>
             </>
-          ) : (
+          ) : upcomingPolls.length > 0 && filter !== "closed" ? null : (
             <div className="text-center py-12">
               <h3 className="text-lg font-medium mb-2">No polls found</h3>
               <p className="text-gray-600 mb-4">
@@ -1,6 +1,7 @@
 "use client";
 
 import Link from "next/link";
+import { usePathname } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
@@ -8,6 +9,10 @@ import { useAuth } from "@/contexts/auth-context";
 
 export function Header() {
   const { user, logout } = useAuth();
+  const pathname = usePathname();
+
+  // Embedded polls are shown inside other sites, without the app's chrome.
+  if (pathname.startsWith("/embed")) return null;
 
   return (
     <header className="border-b">
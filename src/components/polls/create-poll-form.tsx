@@ -8,19 +8,88 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Checkbox } from "@/components/ui/checkbox";
 import { Switch } from "@/components/ui/switch";
 import { PollAPI } from "@/lib/api";
-import { CreatePollForm } from "@/types";
+import { CreatePollForm, PollAccess, PollType, ResultsVisibility } from "@/types";
+import { DEFAULT_LIKERT_LABELS } from "@/lib/scales";
+import { RESULTS_VISIBILITIES, RESULTS_VISIBILITY_LABELS } from "@/lib/visibility";
+import { POLL_ACCESS_LABELS, POLL_ACCESS_LEVELS } from "@/lib/access";
+import { parseEmailDomains } from "@/lib/eligibility";
+import { CHALLENGE_DIFFICULTY_LEVELS, DEFAULT_CHALLENGE_DIFFICULTY } from "@/lib/proof-of-work";
+import {
+  SurveyQuestionsEditor,
+  emptySurveyQuestion,
+  getMinOptions,
+  questionTypes,
+  removeCorrectOption,
+  toggleCorrectOption,
+} from "@/components/polls/survey-questions-editor";
 import { z } from "zod";
 
 // The Zod schema for validating the create poll form.
 export const createPollSchema = z.object({
   title: z.string().min(1, "Title is required"),
   description: z.string().optional(),
-  options: z.array(z.string()).min(2, "At least 2 options are required"),
+  options: z.array(z.string()),
   allow_multiple_votes: z.boolean(),
+  allow_write_in: z.boolean(),
+  is_quiz: z.boolean(),
+  allow_vote_changes: z.boolean(),
+  results_visibility: z.enum(["always", "after_vote", "after_close", "never"]),
+  access: z.enum(["public", "unlisted", "private"]),
+  password: z.string().min(4, "Password must be at least 4 characters").optional(),
+  invite_only: z.boolean(),
+  allowed_email_domains: z.array(z.string()).optional(),
+  require_verified: z.boolean(),
+  min_account_age_days: z.number().int().min(1, "Minimum account age must be at least 1 day").optional(),
+  challenge_difficulty: z.number().int().min(0),
+  require_phone_verification: z.boolean(),
+  correct_options: z.array(z.number().int().min(0)).optional(),
   require_authentication: z.boolean(),
+  poll_type: z.enum(["standard", "ranked_choice", "rating", "nps", "likert", "survey"]),
+  questions: z.array(z.object({
+    text: z.string().trim().min(1, "Every question needs text"),
+    options: z.array(z.object({ text: z.string() })),
+  })).optional(),
+  scale_labels: z.array(z.string().min(1)).min(2, "At least 2 scale points are required").optional(),
+  min_selections: z.number().int().min(1).optional(),
+  max_selections: z.number().int().min(1).nullable().optional(),
+  starts_at: z.string().optional(),
   expires_at: z.string().optional()
+}).refine((data) => !data.min_selections || !data.max_selections || data.min_selections <= data.max_selections, {
+  message: "Maximum selections cannot be lower than minimum selections",
+  path: ["max_selections"]
+}).refine((data) => !data.starts_at || !data.expires_at || new Date(data.expires_at) > new Date(data.starts_at), {
+  message: "Expiration date must be after the start date",
+  path: ["expires_at"]
+}).refine((data) => data.poll_type !== "survey" || (data.questions?.length ?? 0) > 0, {
+  message: "At least 1 question is required",
+  path: ["questions"]
+}).refine((data) => !data.is_quiz || data.poll_type !== "standard" || (data.correct_options?.length ?? 0) > 0, {
+  message: "Mark the correct answer",
+  path: ["correct_options"]
 });
 
+/**
+ * Drops the blank options, keeping the indexes of the correct quiz answers in step.
+ * @param options The options, including blank ones.
+ * @param correctOptions The indexes of the options marked correct.
+ */
+function withoutBlankOptions<T extends string | { text: string }>(options: T[], correctOptions: number[] = []) {
+  const kept = options.flatMap((option, index) => {
+    const text = typeof option === "string" ? option : option.text;
+    return text.trim() !== "" ? [index] : [];
+  });
+  return {
+    options: kept.flatMap((index) => options[index] ?? []),
+    correctOptions: kept.flatMap((index, position) => (correctOptions.includes(index) ? [position] : [])),
+  };
+}
+
+// The types a poll can have. Surveys hold their options in their questions instead.
+const pollTypes: { value: PollType; label: string; minOptions: number }[] = [
+  ...questionTypes,
+  { value: "survey", label: "Survey (several questions)", minOptions: 0 },
+];
+
 /**
  * The properties for the `CreatePollFormComponent` component.
  */
@@ -41,10 +110,19 @@ export function CreatePollFormComponent({ onSuccess }: CreatePollFormProps) {
     options: ["", ""],
     allowMultipleVotes: false,
     requireAuthentication: false,
+    pollType: "standard",
   });
+  // The allowed email domains are typed as text, and parsed when the poll is created.
+  const [emailDomains, setEmailDomains] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  const pollType = pollData.pollType || "standard";
+  const minOptions = pollTypes.find((type) => type.value === pollType)?.minOptions ?? 2;
+  // Quizzes score multiple choice questions, on their own or in a survey.
+  const canBeQuiz = pollType === "standard" || pollType === "survey";
+  const isQuiz = canBeQuiz && Boolean(pollData.isQuiz);
+
   /**
    * Adds a new option to the poll.
    */
@@ -67,6 +145,7 @@ export function CreatePollFormComponent({ onSuccess }: CreatePollFormProps) {
       setPollData({
         ...pollData,
         options: newOptions,
+        correctOptions: removeCorrectOption(pollData.correctOptions, index),
       });
     }
   };
@@ -88,21 +167,63 @@ export function CreatePollFormComponent({ onSuccess }: CreatePollFormProps) {
   /**
    * Handles the form submission.
    * It validates the form data, creates the poll, and calls the `onSuccess` callback.
+   * The poll is published, or saved as a draft when submitted with the "Save as Draft" button.
    * @param e The form event.
    */
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    const isDraft = (e.nativeEvent as SubmitEvent).submitter?.getAttribute("value") === "draft";
+    const { domains, invalid } = parseEmailDomains(emailDomains);
+    if (invalid.length > 0) {
+      setError(`Not an email domain: ${invalid.join(", ")}`);
+      return;
+    }
     setIsLoading(true);
     setError(null);
 
     try {
+      // For surveys, we drop the blank options of every question, and all options of
+      // questions that don't use them.
+      const questions = pollType === "survey"
+        ? (pollData.questions ?? []).map((question) => ({
+            ...question,
+            ...(getMinOptions(question.questionType) > 0
+              ? withoutBlankOptions(question.options, isQuiz ? question.correctOptions : [])
+              : { options: [], correctOptions: [] }),
+          }))
+        : undefined;
+      const choices = minOptions > 0
+        ? withoutBlankOptions(pollData.options, isQuiz ? pollData.correctOptions : [])
+        : { options: [], correctOptions: [] };
+
       // We validate the form data using the Zod schema.
       const validatedData = createPollSchema.parse({
         title: pollData.title,
         description: pollData.description || undefined,
-        options: pollData.options.filter(option => option.trim() !== ''),
+        options: choices.options,
         allow_multiple_votes: pollData.allowMultipleVotes,
+        allow_write_in: pollType === "standard" && !isQuiz && Boolean(pollData.allowWriteIn),
+        is_quiz: isQuiz,
+        allow_vote_changes: pollType !== "survey" && !isQuiz && Boolean(pollData.allowVoteChanges),
+        results_visibility: pollData.resultsVisibility ?? "always",
+        access: pollData.access ?? "public",
+        password: pollData.password || undefined,
+        invite_only: Boolean(pollData.inviteOnly),
+        allowed_email_domains: domains.length > 0 ? domains : undefined,
+        require_verified: Boolean(pollData.requireVerified),
+        min_account_age_days: pollData.minAccountAgeDays ?? undefined,
+        challenge_difficulty: pollData.challengeDifficulty ?? DEFAULT_CHALLENGE_DIFFICULTY,
+        require_phone_verification: Boolean(pollData.requirePhoneVerification),
+        correct_options: isQuiz && pollType === "standard" ? choices.correctOptions : undefined,
         require_authentication: pollData.requireAuthentication,
+        poll_type: pollType,
+        questions,
+        scale_labels: pollType === "likert"
+          ? (pollData.scaleLabels ?? DEFAULT_LIKERT_LABELS).map((label) => label.trim()).filter(Boolean)
+          : undefined,
+        min_selections: pollData.allowMultipleVotes ? pollData.minSelections : undefined,
+        max_selections: pollData.allowMultipleVotes ? pollData.maxSelections : undefined,
+        starts_at: pollData.startsAt ? pollData.startsAt.toISOString() : undefined,
         expires_at: pollData.expiresAt ? pollData.expiresAt.toISOString() : undefined
       });
 
@@ -112,7 +233,27 @@ export function CreatePollFormComponent({ onSuccess }: CreatePollFormProps) {
         description: validatedData.description,
         options: validatedData.options,
         allowMultipleVotes: validatedData.allow_multiple_votes,
+        allowWriteIn: validatedData.allow_write_in,
+        isQuiz: validatedData.is_quiz,
+        allowVoteChanges: validatedData.allow_vote_changes,
+        resultsVisibility: validatedData.results_visibility,
+        access: validatedData.access,
+        ...(validatedData.password && { password: validatedData.password }),
+        inviteOnly: validatedData.invite_only,
+        ...(validatedData.allowed_email_domains && { allowedEmailDomains: validatedData.allowed_email_domains }),
+        requireVerified: validatedData.require_verified,
+        ...(validatedData.min_account_age_days && { minAccountAgeDays: validatedData.min_account_age_days }),
+        challengeDifficulty: validatedData.challenge_difficulty,
+        requirePhoneVerification: validatedData.require_phone_verification,
+        isDraft,
+        correctOptions: validatedData.correct_options,
         requireAuthentication: validatedData.require_authentication,
+        pollType: validatedData.poll_type,
+        scaleLabels: validatedData.scale_labels,
+        questions,
+        minSelections: validatedData.min_selections,
+        maxSelections: validatedData.max_selections,
+        ...(validatedData.starts_at && { startsAt: new Date(validatedData.starts_at) }),
         expiresAt: validatedData.expires_at ? new Date(validatedData.expires_at) : undefined
       });
 
@@ -125,7 +266,9 @@ export function CreatePollFormComponent({ onSuccess }: CreatePollFormProps) {
           expiresAt: undefined,
           allowMultipleVotes: false,
           requireAuthentication: false,
+          pollType: 'standard',
         });
+        setEmailDomains('');
         
         onSuccess?.(result.data.id);
       } else {
@@ -178,40 +321,113 @@ export function CreatePollFormComponent({ onSuccess }: CreatePollFormProps) {
             />
           </div>
 
-          <div className="space-y-4">
-            <Label>Poll Options *</Label>
-            {pollData.options.map((option, index) => (
-              <div key={index} className="flex gap-2">
-                <Input
-                  placeholder={`Option ${index + 1}`}
-                  value={option}
-                  onChange={(e) => handleOptionChange(index, e.target.value)}
-                  required={index < 2}
-                />
-                {pollData.options.length > 2 && index >= 2 && (
-                  <Button
-                    type="button"
-                    variant="outline"
-                    size="sm"
-                    onClick={() => handleRemoveOption(index)}
-                  >
-                    Remove
-                  </Button>
-                )}
-              </div>
-            ))}
-            {pollData.options.length < 10 && (
-              <Button
-                type="button"
-                variant="outline"
-                onClick={handleAddOption}
-                className="w-full"
-              >
-                Add Option
-              </Button>
-            )}
+          <div className="space-y-2">
+            <Label htmlFor="poll-type">Question Type</Label>
+            <select
+              id="poll-type"
+              value={pollType}
+              onChange={(e) => {
+                const nextType = e.target.value as PollType;
+                setPollData({
+                  ...pollData,
+                  pollType: nextType,
+                  allowMultipleVotes: nextType === "standard" ? pollData.allowMultipleVotes : false,
+                  correctOptions: nextType === "standard" ? pollData.correctOptions ?? [] : [],
+                  ...(nextType === "survey" && { questions: pollData.questions ?? [emptySurveyQuestion()] }),
+                });
+              }}
+              className="border-input h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs"
+            >
+              {pollTypes.map((type) => (
+                <option key={type.value} value={type.value}>
+                  {type.label}
+                </option>
+              ))}
+            </select>
           </div>
 
+          {/* Likert polls rate each statement on an agreement scale. */}
+          {pollType === "likert" && (
+            <div className="space-y-2">
+              <Label htmlFor="scale-labels">Agreement Scale</Label>
+              <Input
+                id="scale-labels"
+                placeholder="Comma-separated, lowest first"
+                value={(pollData.scaleLabels ?? DEFAULT_LIKERT_LABELS).join(", ")}
+                onChange={(e) =>
+                  setPollData({
+                    ...pollData,
+                    scaleLabels: e.target.value.split(",").map((label) => label.trimStart()),
+                  })
+                }
+              />
+            </div>
+          )}
+
+          {/* Surveys are made up of several questions, each with its own type and options. */}
+          {pollType === "survey" && (
+            <SurveyQuestionsEditor
+              questions={pollData.questions ?? []}
+              onChange={(questions) => setPollData({ ...pollData, questions })}
+              isQuiz={isQuiz}
+            />
+          )}
+
+          {/* Rating and NPS polls have no options to fill in. */}
+          {minOptions > 0 && (
+            <div className="space-y-4">
+              <Label>{pollType === "likert" ? "Statements *" : "Poll Options *"}</Label>
+              {pollData.options.map((option, index) => (
+                <div key={index} className="flex gap-2">
+                  <Input
+                    placeholder={`Option ${index + 1}`}
+                    value={option}
+                    onChange={(e) => handleOptionChange(index, e.target.value)}
+                    required={index < 2}
+                  />
+                  {/* On quizzes, the correct answers are marked next to the options themselves. */}
+                  {isQuiz && pollType === "standard" && (
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Checkbox
+                        id={`correct-option-${index}`}
+                        checked={pollData.correctOptions?.includes(index) ?? false}
+                        onCheckedChange={() =>
+                          setPollData({
+                            ...pollData,
+                            correctOptions: toggleCorrectOption(pollData.correctOptions, index, pollData.allowMultipleVotes),
+                          })
+                        }
+                      />
+                      <Label htmlFor={`correct-option-${index}`} className="text-sm">
+                        Correct
+                      </Label>
+                    </div>
+                  )}
+                  {pollData.options.length > 2 && index >= 2 && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRemoveOption(index)}
+                    >
+                      Remove
+                    </Button>
+                  )}
+                </div>
+              ))}
+              {pollData.options.length < 10 && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleAddOption}
+                  className="w-full"
+                >
+                  Add Option
+                </Button>
+              )}
+            </div>
+          )}
+
           {/* Poll Settings */}
           <div className="space-y-6 border-t pt-6">
             <div>
@@ -234,12 +450,292 @@ export function CreatePollFormComponent({ onSuccess }: CreatePollFormProps) {
               <Switch
                 id="multiple-votes"
                 checked={pollData.allowMultipleVotes}
+                disabled={pollType !== "standard"}
+                onCheckedChange={(checked) =>
+                  setPollData({
+                    ...pollData,
+                    allowMultipleVotes: checked,
+                    correctOptions: (pollData.correctOptions ?? []).slice(0, checked ? undefined : 1),
+                  })
+                }
+              />
+            </div>
+
+            {/* Selection Limits */}
+            {pollData.allowMultipleVotes && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="min-selections" className="text-sm font-medium">
+                    Minimum Selections
+                  </Label>
+                  <Input
+                    id="min-selections"
+                    type="number"
+                    min={1}
+                    max={pollData.options.length}
+                    value={pollData.minSelections ?? 1}
+                    onChange={(e) =>
+                      setPollData({ ...pollData, minSelections: Number(e.target.value) || 1 })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="max-selections" className="text-sm font-medium">
+                    Maximum Selections (Optional)
+                  </Label>
+                  <Input
+                    id="max-selections"
+                    type="number"
+                    min={pollData.minSelections ?? 1}
+                    max={pollData.options.length}
+                    placeholder="No limit"
+                    value={pollData.maxSelections ?? ""}
+                    onChange={(e) =>
+                      setPollData({
+                        ...pollData,
+                        maxSelections: e.target.value ? Number(e.target.value) : null,
+                      })
+                    }
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* Write-in Setting */}
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="allow-write-in" className="text-sm font-medium">
+                  Allow Write-in Answers
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  Voters can choose Other and write in their own answer
+                </p>
+              </div>
+              <Switch
+                id="allow-write-in"
+                checked={Boolean(pollData.allowWriteIn) && !isQuiz}
+                disabled={pollType !== "standard" || isQuiz}
+                onCheckedChange={(checked) =>
+                  setPollData({ ...pollData, allowWriteIn: checked })
+                }
+              />
+            </div>
+
+            {/* Quiz Setting */}
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="is-quiz" className="text-sm font-medium">
+                  Quiz Mode
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  Mark the correct answers; voters see their score and a leaderboard
+                </p>
+              </div>
+              <Switch
+                id="is-quiz"
+                checked={isQuiz}
+                disabled={!canBeQuiz}
+                onCheckedChange={(checked) =>
+                  setPollData({ ...pollData, isQuiz: checked })
+                }
+              />
+            </div>
+
+            {/* Vote Change Setting */}
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="allow-vote-changes" className="text-sm font-medium">
+                  Allow Vote Changes
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  Signed-in voters can change or retract their vote until the poll closes
+                </p>
+              </div>
+              <Switch
+                id="allow-vote-changes"
+                checked={Boolean(pollData.allowVoteChanges) && pollType !== "survey" && !isQuiz}
+                disabled={pollType === "survey" || isQuiz}
+                onCheckedChange={(checked) =>
+                  setPollData({ ...pollData, allowVoteChanges: checked })
+                }
+              />
+            </div>
+
+            {/* Invite-Only Setting */}
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="invite-only" className="text-sm font-medium">
+                  Invite Only
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  Only invitees can vote, once each, with the ballot link you send them
+                </p>
+              </div>
+              <Switch
+                id="invite-only"
+                checked={Boolean(pollData.inviteOnly)}
+                onCheckedChange={(checked) =>
+                  setPollData({ ...pollData, inviteOnly: checked })
+                }
+              />
+            </div>
+
+            {/* Eligibility Rules */}
+            <div className="space-y-4 p-4 border rounded-lg">
+              <div className="space-y-0.5">
+                <Label className="text-sm font-medium">Who Can Vote</Label>
+                <p className="text-xs text-muted-foreground">
+                  Voters must sign in when any of these are set
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="allowed-email-domains" className="text-sm font-medium">
+                  Allowed Email Domains (Optional)
+                </Label>
+                <Input
+                  id="allowed-email-domains"
+                  placeholder="example.com, example.org"
+                  value={emailDomains}
+                  onChange={(e) => setEmailDomains(e.target.value)}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="require-verified" className="text-sm font-medium">
+                  Verified Accounts Only
+                </Label>
+                <Switch
+                  id="require-verified"
+                  checked={Boolean(pollData.requireVerified)}
+                  onCheckedChange={(checked) =>
+                    setPollData({ ...pollData, requireVerified: checked })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="min-account-age" className="text-sm font-medium">
+                  Minimum Account Age in Days (Optional)
+                </Label>
+                <Input
+                  id="min-account-age"
+                  type="number"
+                  min={1}
+                  placeholder="No minimum"
+                  value={pollData.minAccountAgeDays ?? ""}
+                  onChange={(e) =>
+                    setPollData({
+                      ...pollData,
+                      minAccountAgeDays: e.target.value ? Number(e.target.value) : null,
+                    })
+                  }
+                />
+              </div>
+            </div>
+
+            {/* Access */}
+            <div className="space-y-2">
+              <Label htmlFor="access" className="text-sm font-medium">
+                Who Can Open the Poll
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Unlisted and private polls are left out of poll listings
+              </p>
+              <select
+                id="access"
+                value={pollData.access ?? "public"}
+                onChange={(e) => setPollData({ ...pollData, access: e.target.value as PollAccess })}
+                className="border-input h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs"
+              >
+                {POLL_ACCESS_LEVELS.map((access) => (
+                  <option key={access} value={access}>
+                    {POLL_ACCESS_LABELS[access]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Bot protection */}
+            <div className="space-y-2">
+              <Label htmlFor="challenge-difficulty" className="text-sm font-medium">
+                Bot Protection
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Voters who are not signed in wait for their browser to solve a puzzle before voting; higher levels take longer
+              </p>
+              <select
+                id="challenge-difficulty"
+                value={pollData.challengeDifficulty ?? DEFAULT_CHALLENGE_DIFFICULTY}
+                onChange={(e) => setPollData({ ...pollData, challengeDifficulty: Number(e.target.value) })}
+                className="border-input h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs"
+              >
+                {CHALLENGE_DIFFICULTY_LEVELS.map((level) => (
+                  <option key={level.value} value={level.value}>
+                    {level.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Phone Verification */}
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="require-phone-verification" className="text-sm font-medium">
+                  Verified Phone Numbers
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  Voters who are not signed in must enter a code texted to their phone before voting
+                </p>
+              </div>
+              <Switch
+                id="require-phone-verification"
+                checked={Boolean(pollData.requirePhoneVerification)}
                 onCheckedChange={(checked) =>
-                  setPollData({ ...pollData, allowMultipleVotes: checked })
+                  setPollData({ ...pollData, requirePhoneVerification: checked })
                 }
               />
             </div>
 
+            {/* Password */}
+            <div className="space-y-2">
+              <Label htmlFor="poll-password" className="text-sm font-medium">
+                Password (optional)
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Voters must enter it before they can see the options and vote
+              </p>
+              <Input
+                id="poll-password"
+                type="password"
+                value={pollData.password ?? ""}
+                onChange={(e) => setPollData({ ...pollData, password: e.target.value })}
+                placeholder="Leave empty for no password"
+                autoComplete="new-password"
+              />
+            </div>
+
+            {/* Results Visibility */}
+            <div className="space-y-2">
+              <Label htmlFor="results-visibility" className="text-sm font-medium">
+                Show Results
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                You can always see the results of your own polls
+              </p>
+              <select
+                id="results-visibility"
+                value={pollData.resultsVisibility ?? "always"}
+                onChange={(e) =>
+                  setPollData({ ...pollData, resultsVisibility: e.target.value as ResultsVisibility })
+                }
+                className="border-input h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs"
+              >
+                {RESULTS_VISIBILITIES.map((visibility) => (
+                  <option key={visibility} value={visibility}>
+                    {RESULTS_VISIBILITY_LABELS[visibility]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             {/* Authentication Requirement */}
             <div className="flex items-center justify-between">
               <div className="space-y-0.5">
@@ -259,6 +755,27 @@ export function CreatePollFormComponent({ onSuccess }: CreatePollFormProps) {
               />
             </div>
 
+            {/* Start Date */}
+            <div className="space-y-2">
+              <Label htmlFor="starts-at" className="text-sm font-medium">
+                Start Date (Optional)
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Publish the poll now and open it for voting later
+              </p>
+              <Input
+                id="starts-at"
+                type="datetime-local"
+                value={pollData.startsAt ? new Date(pollData.startsAt.getTime() - pollData.startsAt.getTimezoneOffset() * 60000).toISOString().slice(0, 16) : ""}
+                onChange={(e) => {
+                  const { startsAt: _startsAt, ...rest } = pollData;
+                  const value = e.target.value;
+                  setPollData(value ? { ...rest, startsAt: new Date(value) } : rest);
+                }}
+                min={new Date().toISOString().slice(0, 16)}
+              />
+            </div>
+
             {/* Expiration Date */}
             <div className="space-y-2">
               <Label htmlFor="expires-at" className="text-sm font-medium">
@@ -293,10 +810,25 @@ export function CreatePollFormComponent({ onSuccess }: CreatePollFormProps) {
             <Button 
               type="submit" 
               className="w-full" 
-              disabled={isLoading || pollData.title.trim() === '' || pollData.options.filter(opt => opt.trim() !== '').length < 2}
+              disabled={
+                isLoading ||
+                pollData.title.trim() === '' ||
+                pollData.options.filter(opt => opt.trim() !== '').length < minOptions ||
+                (isQuiz && pollType === "standard" && !pollData.correctOptions?.length)
+              }
             >
               {isLoading ? 'Creating Poll...' : 'Create Poll'}
             </Button>
+            {/* Drafts stay hidden from voters and can be edited freely until they are published. */}
+            <Button
+              type="submit"
+              name="intent"
+              value="draft"
+              variant="outline"
+              disabled={isLoading || pollData.title.trim() === ''}
+            >
+              Save as Draft
+            </Button>
             <Button type="button" variant="outline">
               Cancel
             </Button>
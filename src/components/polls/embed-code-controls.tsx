@@ -0,0 +1,76 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Poll } from "@/types";
+import { getIframeEmbedCode, getScriptEmbedCode } from "@/lib/embed";
+
+/**
+ * The properties for the `EmbedCodeControls` component.
+ */
+interface EmbedCodeControlsProps {
+  /** The poll to embed. Unlisted and private polls are embedded with their share token. */
+  poll: Poll;
+}
+
+/**
+ * A component that gives the poll creator code to embed the poll on another site: a script
+ * snippet that sizes the poll to fit and reports votes, or a plain iframe.
+ * @param {EmbedCodeControlsProps} props - The component properties.
+ */
+export function EmbedCodeControls({ poll }: EmbedCodeControlsProps) {
+  const [copied, setCopied] = useState<"script" | "iframe" | null>(null);
+
+  const isPublic = poll.access === "public" || !poll.access;
+  const shareToken = isPublic ? null : poll.shareToken;
+  const codes = {
+    script: getScriptEmbedCode(window.location.origin, poll.id, shareToken),
+    iframe: getIframeEmbedCode(window.location.origin, poll.id, shareToken)
+  };
+
+  /**
+   * Copies one of the embed codes to the clipboard.
+   * @param kind Which embed code to copy.
+   */
+  const handleCopy = async (kind: "script" | "iframe") => {
+    await navigator.clipboard.writeText(codes[kind]);
+    setCopied(kind);
+  };
+
+  return (
+    <div className="space-y-3 p-4 border rounded-lg">
+      <div className="space-y-0.5">
+        <p className="text-sm font-medium">Embed</p>
+        <p className="text-xs text-muted-foreground">
+          {isPublic
+            ? "Show this poll on your own site"
+            : "Show this poll on your own site; the code includes the share link, so rotating it breaks the embed"}
+        </p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="embed-script" className="text-xs">
+          Script (resizes to fit and fires a polly:vote event)
+        </Label>
+        <div className="flex gap-2">
+          <Input id="embed-script" value={codes.script} readOnly onFocus={(e) => e.target.select()} />
+          <Button type="button" variant="outline" onClick={() => handleCopy("script")}>
+            {copied === "script" ? "Copied" : "Copy"}
+          </Button>
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="embed-iframe" className="text-xs">
+          Iframe
+        </Label>
+        <div className="flex gap-2">
+          <Input id="embed-iframe" value={codes.iframe} readOnly onFocus={(e) => e.target.select()} />
+          <Button type="button" variant="outline" onClick={() => handleCopy("iframe")}>
+            {copied === "iframe" ? "Copied" : "Copy"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
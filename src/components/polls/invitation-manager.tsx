@@ -0,0 +1,141 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Poll, PollInvitations } from "@/types";
+import { calculatePercentage } from "@/lib/utils";
+import { getBallotUrl, parseInviteeList } from "@/lib/invitations";
+import { PollAPI } from "@/lib/api";
+
+/**
+ * The properties for the `InvitationManager` component.
+ */
+interface InvitationManagerProps {
+  /** The invite-only poll. Only its creator is sent the share token the ballot links need. */
+  poll: Poll;
+}
+
+/**
+ * A component that lets the creator of an invite-only poll add invitees and hand out their ballot
+ * links, and shows the poll's turnout. Which invitee voted for what is never shown, because it is
+ * never recorded.
+ * @param {InvitationManagerProps} props - The component properties.
+ */
+export function InvitationManager({ poll }: InvitationManagerProps) {
+  const [data, setData] = useState<PollInvitations | null>(null);
+  const [inviteeList, setInviteeList] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    PollAPI.getInvitations(poll.id)
+      .then(setData)
+      .catch(() => setError("Failed to load invitations"));
+  }, [poll.id]);
+
+  /**
+   * Adds the pasted email addresses as invitees, once every entry is a valid address.
+   */
+  const handleAdd = async () => {
+    const { emails, invalid } = parseInviteeList(inviteeList);
+    if (invalid.length > 0) {
+      setError(`Not an email address: ${invalid.join(", ")}`);
+      return;
+    }
+    if (emails.length === 0) return;
+
+    setIsAdding(true);
+    setError("");
+
+    const response = await PollAPI.addInvitees(poll.id, emails);
+    setIsAdding(false);
+
+    if (!response.success || !response.data) {
+      setError(response.error || "Failed to add invitees");
+      return;
+    }
+
+    setData(response.data);
+    setInviteeList("");
+  };
+
+  return (
+    <div className="space-y-4 p-4 border rounded-lg">
+      <div className="space-y-0.5">
+        <Label htmlFor="invitees" className="text-sm font-medium">
+          Invitees
+        </Label>
+        <p className="text-xs text-muted-foreground">
+          Each invitee gets their own ballot link, which can be used to vote once
+        </p>
+      </div>
+
+      {data && data.turnout.invited > 0 && (
+        <div className="space-y-1">
+          <div className="flex justify-between text-sm">
+            <span>Turnout</span>
+            <span className="text-muted-foreground">
+              {data.turnout.voted} of {data.turnout.invited} voted (
+              {calculatePercentage(data.turnout.voted, data.turnout.invited)}%)
+            </span>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div
+              className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+              style={{ width: `${calculatePercentage(data.turnout.voted, data.turnout.invited)}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <textarea
+          id="invitees"
+          value={inviteeList}
+          onChange={(e) => setInviteeList(e.target.value)}
+          placeholder="Paste email addresses, separated by commas or new lines"
+          rows={4}
+          className="border-input w-full rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs"
+        />
+        <Button type="button" variant="outline" onClick={handleAdd} disabled={isAdding || !inviteeList.trim()}>
+          {isAdding ? "Adding..." : "Add Invitees"}
+        </Button>
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-600 bg-red-50 p-3 rounded">
+          {error}
+        </div>
+      )}
+
+      {poll.shareToken && data && data.invitations.length > 0 && (
+        <ul className="space-y-2">
+          {data.invitations.map((invitation) => (
+            <li key={invitation.id} className="flex items-center justify-between gap-4 p-3 border rounded-lg text-sm">
+              <span className="truncate">{invitation.email}</span>
+              {invitation.hasVoted ? (
+                <Badge variant="secondary" className="text-xs shrink-0">Voted</Badge>
+              ) : (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="shrink-0"
+                  onClick={() =>
+                    navigator.clipboard.writeText(
+                      getBallotUrl(window.location.origin, poll.id, poll.shareToken ?? "", invitation.ballotToken)
+                    )
+                  }
+                >
+                  Copy Ballot Link
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { PollOption } from "@/types";
+
+/**
+ * The properties for the `LikertBallot` component.
+ */
+interface LikertBallotProps {
+  /** The statements to rate; these are the poll's options. */
+  rows: PollOption[];
+  /** The agreement scale, lowest first. */
+  labels: string[];
+  /** The selected scale position (1-based) for every answered row, keyed by option ID. */
+  answers: Record<string, number>;
+  /** A callback function that is called with the new answers whenever they change. */
+  onChange: (answers: Record<string, number>) => void;
+  /** Whether the ballot can be edited. */
+  disabled?: boolean;
+}
+
+/**
+ * A matrix ballot for Likert polls.
+ * Each row is a statement and each column is a point on the agreement scale.
+ * @param {LikertBallotProps} props - The component properties.
+ */
+export function LikertBallot({ rows, labels, answers, onChange, disabled = false }: LikertBallotProps) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr>
+            <th className="text-left font-medium p-2" />
+            {labels.map((label) => (
+              <th key={label} className="text-center font-normal text-xs text-muted-foreground p-2">
+                {label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.id} className="border-t">
+              <td className="p-2 font-medium">{row.text}</td>
+              {labels.map((label, index) => (
+                <td key={label} className="p-2 text-center">
+                  <input
+                    type="radio"
+                    name={`likert-${row.id}`}
+                    aria-label={`${row.text}: ${label}`}
+                    checked={answers[row.id] === index + 1}
+                    disabled={disabled}
+                    onChange={() => onChange({ ...answers, [row.id]: index + 1 })}
+                    className="h-4 w-4 accent-primary"
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
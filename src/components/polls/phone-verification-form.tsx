@@ -0,0 +1,135 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { PollAPI } from "@/lib/api";
+
+/**
+ * The properties for the `PhoneVerificationForm` component.
+ */
+interface PhoneVerificationFormProps {
+  /** The ID of the poll that requires verified phone numbers. */
+  pollId: string;
+  /** A callback function that is called with the phone number once it is verified. */
+  onVerified: (phone: string) => void;
+}
+
+/**
+ * A component that texts a code to an anonymous voter's phone and checks it, on polls that
+ * require verified phone numbers. The voter then votes with the verified number.
+ * @param {PhoneVerificationFormProps} props - The component properties.
+ */
+export function PhoneVerificationForm({ pollId, onVerified }: PhoneVerificationFormProps) {
+  const [phone, setPhone] = useState("");
+  const [verificationId, setVerificationId] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState("");
+
+  /**
+   * Texts a verification code to the phone number.
+   */
+  const handleRequestCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!phone) return;
+
+    setIsSending(true);
+    setError("");
+
+    const response = await PollAPI.requestPhoneCode(pollId, phone);
+    setIsSending(false);
+
+    if (!response.success || !response.data) {
+      setError(response.error || "Failed to send verification code");
+      return;
+    }
+
+    setCode("");
+    setVerificationId(response.data.verification_id);
+  };
+
+  /**
+   * Checks the code the voter was texted.
+   */
+  const handleVerifyCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!verificationId || !code) return;
+
+    setIsSending(true);
+    setError("");
+
+    const response = await PollAPI.verifyPhoneCode(pollId, verificationId, code);
+    setIsSending(false);
+
+    if (!response.success) {
+      setError(response.error || "Failed to verify code");
+      return;
+    }
+
+    onVerified(phone);
+  };
+
+  return (
+    <div className="space-y-4">
+      {verificationId ? (
+        <form onSubmit={handleVerifyCode} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="phone-code">Enter the code we texted to {phone}</Label>
+            <Input
+              id="phone-code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value.trim())}
+              placeholder="123456"
+              autoFocus
+            />
+          </div>
+          {error && (
+            <div className="text-sm text-red-600 bg-red-50 p-3 rounded">
+              {error}
+            </div>
+          )}
+          <div className="flex gap-2">
+            <Button type="submit" disabled={isSending || !code} className="flex-1">
+              {isSending ? "Verifying..." : "Verify"}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setVerificationId(null)}
+              disabled={isSending}
+              className="flex-1"
+            >
+              Use Another Number
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <form onSubmit={handleRequestCode} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="voter-phone">This poll only takes votes from verified phone numbers</Label>
+            <Input
+              id="voter-phone"
+              type="tel"
+              autoComplete="tel"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value.replace(/[\s()-]/g, ""))}
+              placeholder="+15551234567"
+            />
+          </div>
+          {error && (
+            <div className="text-sm text-red-600 bg-red-50 p-3 rounded">
+              {error}
+            </div>
+          )}
+          <Button type="submit" disabled={isSending || !phone} className="w-full">
+            {isSending ? "Sending code..." : "Text Me a Code"}
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
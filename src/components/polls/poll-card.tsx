@@ -5,7 +5,10 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Poll } from '@/types';
-import { formatDate, calculateTotalVotes, isExpired } from '@/lib/utils';
+import { formatDate, calculateTotalVotes } from '@/lib/utils';
+import { getEffectiveStatus } from '@/lib/lifecycle';
+import { canViewResults } from '@/lib/visibility';
+import { PollStatusBadge } from '@/components/polls/poll-status-badge';
 
 /**
  * The properties for the `PollCard` component.
@@ -26,7 +29,13 @@ interface PollCardProps {
  */
 export function PollCard({ poll, isOwner, onDelete }: PollCardProps) {
   const totalVotes = calculateTotalVotes(poll.options);
-  const expired = poll.expiresAt ? isExpired(poll.expiresAt) : false;
+  const status = getEffectiveStatus(poll.status, poll.startsAt, poll.expiresAt);
+  // Listings don't know who has voted, so results shown only after voting stay hidden here.
+  const resultsVisible = canViewResults(poll.resultsVisibility, {
+    isCreator: isOwner,
+    hasVoted: false,
+    isClosed: status === 'closed' || status === 'archived',
+  });
 
   return (
     <Card className="w-full">
@@ -38,18 +47,24 @@ export function PollCard({ poll, isOwner, onDelete }: PollCardProps) {
           </div>
           <div className="flex gap-2">
             {/* We display badges to indicate the poll's status and settings. */}
-            {!poll.isActive && <Badge variant="secondary">Inactive</Badge>}
-            {expired && <Badge variant="destructive">Expired</Badge>}
+            <PollStatusBadge poll={poll} />
             {poll.allowMultipleVotes && <Badge variant="outline" className="text-xs">Multiple Choice</Badge>}
+            {poll.pollType === 'survey' && <Badge variant="outline" className="text-xs">Survey</Badge>}
             {poll.requireAuthentication && <Badge variant="outline" className="text-xs">Login Required</Badge>}
+            {poll.access === 'unlisted' && <Badge variant="outline" className="text-xs">Unlisted</Badge>}
+            {poll.access === 'private' && <Badge variant="outline" className="text-xs">Private</Badge>}
+            {poll.passwordProtected && <Badge variant="outline" className="text-xs">Password</Badge>}
+            {poll.inviteOnly && <Badge variant="outline" className="text-xs">Invite Only</Badge>}
           </div>
         </div>
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
           <div className="flex items-center justify-between text-sm text-muted-foreground">
-            <span>{totalVotes} votes</span>
-            <span>Created {formatDate(poll.createdAt)}</span>
+            <span>{resultsVisible ? `${totalVotes} votes` : 'Results hidden'}</span>
+            <span>
+              {status === 'scheduled' && poll.startsAt ? `Opens ${formatDate(poll.startsAt)}` : `Created ${formatDate(poll.createdAt)}`}
+            </span>
           </div>
 
           <div className="space-y-2">
@@ -58,17 +73,19 @@ export function PollCard({ poll, isOwner, onDelete }: PollCardProps) {
               <div key={option.id} className="text-sm">
                 <div className="flex justify-between mb-1">
                   <span>{option.text}</span>
-                  <span>{option.votes} votes</span>
+                  {resultsVisible && <span>{option.votes} votes</span>}
                 </div>
                 {/* The progress bar shows the percentage of votes for each option. */}
-                <div className="w-full bg-gray-200 rounded-full h-2">
-                  <div
-                    className="bg-primary h-2 rounded-full"
-                    style={{
-                      width: `${totalVotes > 0 ? (option.votes / totalVotes) * 100 : 0}%`,
-                    }}
-                  />
-                </div>
+                {resultsVisible && (
+                  <div className="w-full bg-gray-200 rounded-full h-2">
+                    <div
+                      className="bg-primary h-2 rounded-full"
+                      style={{
+                        width: `${totalVotes > 0 ? (option.votes / totalVotes) * 100 : 0}%`,
+                      }}
+                    />
+                  </div>
+                )}
               </div>
             ))}
             {poll.options.length > 2 && (
@@ -80,7 +97,7 @@ export function PollCard({ poll, isOwner, onDelete }: PollCardProps) {
             <Button asChild className="flex-1">
               <Link href={`/polls/${poll.id}`}>View Poll</Link>
             </Button>
-            {poll.isActive && !expired && (
+            {status === 'open' && (
               <Button variant="outline" asChild>
                 <Link href={`/polls/${poll.id}`}>Vote Now</Link>
               </Button>
@@ -0,0 +1,44 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { formatCountdown, formatDate } from "@/lib/utils";
+
+/**
+ * The properties for the `PollCountdown` component.
+ */
+interface PollCountdownProps {
+  /** When the poll opens for voting. */
+  startsAt: Date;
+  /** A callback function that is called when the countdown reaches zero. */
+  onOpen?: () => void;
+}
+
+/**
+ * A component that counts down to the opening of a scheduled poll, ticking every second.
+ * @param {PollCountdownProps} props - The component properties.
+ */
+export function PollCountdown({ startsAt, onOpen }: PollCountdownProps) {
+  const startTime = new Date(startsAt).getTime();
+  const [remaining, setRemaining] = useState(() => startTime - Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const next = startTime - Date.now();
+      setRemaining(next);
+      if (next <= 0) {
+        clearInterval(timer);
+        onOpen?.();
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [startTime, onOpen]);
+
+  return (
+    <div className="text-center space-y-1 bg-blue-50 p-4 rounded">
+      <p className="text-sm text-muted-foreground">Voting opens in</p>
+      <p className="text-2xl font-semibold tabular-nums">{formatCountdown(remaining)}</p>
+      <p className="text-xs text-muted-foreground">{formatDate(new Date(startTime))}</p>
+    </div>
+  );
+}
@@ -1,13 +1,32 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Poll } from "@/types";
-import { formatDate, calculateTotalVotes, calculatePercentage, isExpired } from "@/lib/utils";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Ballot, Poll, PollResults, QuizResult } from "@/types";
+import { formatDate, calculateTotalVotes, calculatePercentage, describeSelectionLimits, isExpired } from "@/lib/utils";
 import { PollAPI } from "@/lib/api";
+import { DEFAULT_LIKERT_LABELS, isScalePoll } from "@/lib/scales";
+import { RankedBallot } from "@/components/polls/ranked-ballot";
+import { RunoffRounds } from "@/components/polls/runoff-rounds";
+import { RatingBallot } from "@/components/polls/rating-ballot";
+import { LikertBallot } from "@/components/polls/likert-ballot";
+import { RatingSummary } from "@/components/polls/rating-summary";
+import { WriteInReview } from "@/components/polls/write-in-review";
+import { QuizFeedback } from "@/components/polls/quiz-feedback";
+import { QuizLeaderboard } from "@/components/polls/quiz-leaderboard";
+import { VoteChangeHistory } from "@/components/polls/vote-change-history";
+import { PollCountdown } from "@/components/polls/poll-countdown";
+import { PollStatusBadge } from "@/components/polls/poll-status-badge";
+import { PhoneVerificationForm } from "@/components/polls/phone-verification-form";
+import { getEffectiveStatus } from "@/lib/lifecycle";
+import { canViewResults, getHiddenResultsMessage } from "@/lib/visibility";
+import { getBallotMessage } from "@/lib/invitations";
+import { describeEligibilityRules, getIneligibleMessage } from "@/lib/eligibility";
 
 /**
  * The properties for the `PollDetails` component.
@@ -23,6 +42,8 @@ interface PollDetailsProps {
   onVoteSuccess?: () => void;
   /** Whether the user is authenticated. */
   isAuthenticated?: boolean;
+  /** Whether the user created the poll, which lets them review write-in answers and vote changes. */
+  isCreator?: boolean;
 }
 
 /**
@@ -30,32 +51,133 @@ interface PollDetailsProps {
  * It allows users to vote on the poll and view the results.
  * @param {PollDetailsProps} props - The component properties.
  */
-export function PollDetails({ poll, userVote, userVotes = [], onVoteSuccess, isAuthenticated = false }: PollDetailsProps) {
+export function PollDetails({
+  poll,
+  userVote,
+  userVotes = [],
+  onVoteSuccess,
+  isAuthenticated = false,
+  isCreator = false,
+}: PollDetailsProps) {
   const [selectedOption, setSelectedOption] = useState<string>("");
   const [selectedOptions, setSelectedOptions] = useState<string[]>(userVotes);
+  const [ranking, setRanking] = useState<string[]>([]);
+  const [ratingValue, setRatingValue] = useState<number | null>(null);
+  const [likertAnswers, setLikertAnswers] = useState<Record<string, number>>({});
+  const [isWriteInSelected, setIsWriteInSelected] = useState(false);
+  const [writeIn, setWriteIn] = useState("");
+  const [quizResult, setQuizResult] = useState<QuizResult | null>(null);
+  const [justVoted, setJustVoted] = useState(false);
+  const [isChangingVote, setIsChangingVote] = useState(false);
+  // Set when a scheduled poll's countdown ends, so the ballot opens without a reload.
+  const [, setHasOpened] = useState(false);
+  const [results, setResults] = useState<PollResults | null>(null);
   const [isVoting, setIsVoting] = useState(false);
+  const [verifiedPhone, setVerifiedPhone] = useState<string | null>(null);
   const [error, setError] = useState("");
 
   const totalVotes = calculateTotalVotes(poll.options);
   const expired = poll.expiresAt ? isExpired(poll.expiresAt) : false;
-  const hasVoted = poll.allowMultipleVotes ? userVotes.length > 0 : userVote;
-  const canVote = poll.isActive && !expired && !hasVoted;
+  const status = getEffectiveStatus(poll.status, poll.startsAt, poll.expiresAt);
+  const upcoming = status === "scheduled";
+  const isRankedChoice = poll.pollType === "ranked_choice";
+  const isScale = isScalePoll(poll.pollType);
+  const scaleLabels = poll.scaleLabels?.length ? poll.scaleLabels : DEFAULT_LIKERT_LABELS;
+  const minSelections = poll.minSelections ?? 1;
+  const maxSelections = poll.maxSelections ?? null;
+  const allowsWriteIn = Boolean(poll.allowWriteIn) && !isRankedChoice && !isScale;
+  // A write-in counts as one selection towards the poll's limits.
+  const selectionCount = selectedOptions.length + (isWriteInSelected ? 1 : 0);
+  const atSelectionLimit = maxSelections !== null && selectionCount >= maxSelections;
+  const hasWriteIn = isWriteInSelected && writeIn.trim() !== "";
+  // Quiz answers are scored as soon as they are submitted, so the feedback also marks the poll as voted.
+  const hasVoted =
+    (poll.allowMultipleVotes ? userVotes.length > 0 : Boolean(userVote)) || quizResult !== null || justVoted;
+  const correctOptionIds = quizResult?.answers[0]?.correctOptionIds ?? [];
+  // Signed-in voters can reopen their ballot on polls that allow vote changes, until the poll closes.
+  const canChangeVote = Boolean(poll.allowVoteChanges) && isAuthenticated && status === "open" && hasVoted;
+  // Invite-only polls only take votes from visitors with an unused ballot link.
+  const ballotMessage = hasVoted ? null : getBallotMessage(poll.ballotStatus);
+  // Polls with eligibility rules tell voters who may not vote why, instead of failing when they vote.
+  const eligibilityRules = {
+    allowedEmailDomains: poll.allowedEmailDomains ?? null,
+    requireVerified: Boolean(poll.requireVerified),
+    minAccountAgeDays: poll.minAccountAgeDays ?? null,
+  };
+  const eligibilityRequirements = describeEligibilityRules(eligibilityRules);
+  const ineligibleMessage =
+    hasVoted || !poll.ineligibleReason ? null : getIneligibleMessage(poll.ineligibleReason, eligibilityRules);
+  const canVote = status === "open" && (!hasVoted || isChangingVote) && !ballotMessage && !ineligibleMessage;
+  // The server leaves out the vote counts while the results are hidden from this viewer. Once they
+  // vote, the poll is reloaded with the counts, so we can already show the results here.
+  const resultsVisible =
+    !poll.resultsHidden ||
+    canViewResults(poll.resultsVisibility, {
+      isCreator,
+      hasVoted,
+      isClosed: status === "closed" || status === "archived",
+    });
+  const showResults = resultsVisible && (hasVoted || !canVote);
   
   // We check if the poll requires authentication and if the user is authenticated.
   const needsAuth = poll.requireAuthentication && !isAuthenticated;
+  // Polls that require verified phone numbers have anonymous voters verify theirs before voting.
+  const needsPhone = Boolean(poll.requirePhoneVerification) && !isAuthenticated && !verifiedPhone;
+
+  const runoff = results?.rankedChoice ?? null;
+  const approval = results?.approval ?? null;
+
+  // Ranked-choice, approval and scale results can't be read off the option counts, so we
+  // fetch the tallied results once they are visible.
+  useEffect(() => {
+    if (!(isRankedChoice || isScale || poll.allowMultipleVotes) || !showResults || upcoming) return;
+
+    PollAPI.getResults(poll.id)
+      .then(setResults)
+      .catch(() => setResults(null));
+  }, [poll.id, isRankedChoice, isScale, poll.allowMultipleVotes, showResults, upcoming]);
+
+  // Whether the voter has filled in enough of the ballot to submit it.
+  const hasSelection = isRankedChoice
+    ? ranking.length > 0
+    : poll.pollType === "likert"
+    ? poll.options.every((option) => likertAnswers[option.id] !== undefined)
+    : isScale
+    ? ratingValue !== null
+    : poll.allowMultipleVotes
+    ? selectionCount >= minSelections && (!isWriteInSelected || hasWriteIn)
+    : Boolean(selectedOption) || hasWriteIn;
 
   /**
    * Handles the vote submission.
    * It calls the `vote` or `voteMultiple` method from the `PollAPI` and calls the `onVoteSuccess` callback.
    */
   const handleVote = async () => {
-    if (poll.allowMultipleVotes) {
-      if (selectedOptions.length === 0) {
-        setError("Please select at least one option");
+    if (isWriteInSelected && !hasWriteIn) {
+      setError("Please specify your answer");
+      return;
+    }
+
+    if (isRankedChoice) {
+      if (ranking.length === 0) {
+        setError("Please rank at least one option");
+        return;
+      }
+    } else if (isScale) {
+      if (!hasSelection) {
+        setError(poll.pollType === "likert" ? "Please answer every statement" : "Please choose a rating");
+        return;
+      }
+    } else if (poll.allowMultipleVotes) {
+      if (
+        selectionCount < minSelections ||
+        (maxSelections !== null && selectionCount > maxSelections)
+      ) {
+        setError(describeSelectionLimits(minSelections, maxSelections));
         return;
       }
     } else {
-      if (!selectedOption) {
+      if (!selectedOption && !hasWriteIn) {
         setError("Please select an option");
         return;
       }
@@ -64,20 +186,73 @@ export function PollDetails({ poll, userVote, userVotes = [], onVoteSuccess, isA
     setIsVoting(true);
     setError("");
 
+    /**
+     * Solves the poll's vote challenge, which voters who aren't signed in send with their ballot.
+     */
+    const solveVoteChallenge = () => (isAuthenticated ? null : PollAPI.solveVoteChallenge(poll.id));
+
     try {
-      if (poll.allowMultipleVotes) {
-        // If the poll allows multiple votes, we call the `voteMultiple` method.
-        for (const optionId of selectedOptions) {
-          await PollAPI.vote(poll.id, optionId);
+      if (isChangingVote) {
+        // A changed vote replaces the whole ballot, whatever the voting method.
+        const ballot: Ballot = isRankedChoice
+          ? { optionIds: [], ranking }
+          : poll.pollType === "likert"
+          ? { optionIds: [], ratings: Object.entries(likertAnswers).map(([optionId, value]) => ({ optionId, value })) }
+          : isScale
+          ? { optionIds: [], ratings: [{ value: ratingValue ?? 0 }] }
+          : { optionIds: poll.allowMultipleVotes ? selectedOptions : [selectedOption] };
+        const response = await PollAPI.changeVote(poll.id, ballot, poll.allowMultipleVotes);
+        if (!response.success) {
+          setError(response.error || "Failed to change vote");
+          return;
+        }
+        setIsChangingVote(false);
+      } else if (isRankedChoice) {
+        // Ranked-choice polls submit the whole ranking as one ballot.
+        const response = await PollAPI.voteRanked(poll.id, ranking, await solveVoteChallenge(), verifiedPhone);
+        if (!response.success) {
+          setError(response.error || "Failed to vote");
+          return;
         }
+      } else if (isScale) {
+        // Scale polls submit one answer, or one answer per statement for Likert polls.
+        const response = await PollAPI.voteRating(
+          poll.id,
+          poll.pollType === "likert"
+            ? Object.entries(likertAnswers).map(([optionId, value]) => ({ optionId, value }))
+            : [{ value: ratingValue ?? 0 }],
+          await solveVoteChallenge(),
+          verifiedPhone
+        );
+        if (!response.success) {
+          setError(response.error || "Failed to vote");
+          return;
+        }
+      } else if (poll.allowMultipleVotes) {
+        // If the poll allows multiple votes, we submit every selection in one request.
+        const response = await PollAPI.voteMultiple(
+          poll.id,
+          selectedOptions,
+          isWriteInSelected ? writeIn.trim() : undefined
+        );
+        if (!response.success) {
+          setError(response.error || "Failed to vote");
+          return;
+        }
+        setQuizResult(response.quiz ?? null);
       } else {
-        // Otherwise, we call the `vote` method.
-        const response = await PollAPI.vote(poll.id, selectedOption);
+        // Otherwise, we call the `vote` method with the selected option or the write-in.
+        const challenge = await solveVoteChallenge();
+        const response = isWriteInSelected
+          ? await PollAPI.vote(poll.id, null, writeIn.trim(), challenge, verifiedPhone)
+          : await PollAPI.vote(poll.id, selectedOption, undefined, challenge, verifiedPhone);
         if (!response.success) {
           setError(response.error || "Failed to vote");
           return;
         }
+        setQuizResult(response.quiz ?? null);
       }
+      setJustVoted(true);
       onVoteSuccess?.();
     } catch (err) {
       setError("Failed to vote. Please try again.");
@@ -86,21 +261,78 @@ export function PollDetails({ poll, userVote, userVotes = [], onVoteSuccess, isA
     }
   };
 
+  /**
+   * Reopens the ballot so the voter can change their vote.
+   * Write-ins can't be part of a changed ballot, so any write-in is cleared.
+   */
+  const handleStartChange = () => {
+    setIsWriteInSelected(false);
+    setWriteIn("");
+    setError("");
+    setIsChangingVote(true);
+  };
+
+  /**
+   * Handles retracting the vote, on polls that allow vote changes.
+   * The ballot is cleared so the voter can vote again while the poll is open.
+   */
+  const handleRetract = async () => {
+    setIsVoting(true);
+    setError("");
+
+    try {
+      const response = await PollAPI.retractVote(poll.id);
+      if (!response.success) {
+        setError(response.error || "Failed to retract vote");
+        return;
+      }
+      setJustVoted(false);
+      setIsChangingVote(false);
+      setSelectedOption("");
+      setSelectedOptions([]);
+      setRanking([]);
+      setRatingValue(null);
+      setLikertAnswers({});
+      onVoteSuccess?.();
+    } catch (err) {
+      setError("Failed to retract vote. Please try again.");
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
   /**
    * Handles the selection of a poll option.
    * @param optionId The ID of the option to select.
    */
   const handleOptionToggle = (optionId: string) => {
     if (poll.allowMultipleVotes) {
-      // If the poll allows multiple votes, we toggle the option in the `selectedOptions` array.
+      // If the poll allows multiple votes, we toggle the option in the `selectedOptions` array,
+      // without letting the selection grow past the poll's maximum.
       setSelectedOptions(prev => 
         prev.includes(optionId) 
           ? prev.filter(id => id !== optionId)
+          : atSelectionLimit
+          ? prev
           : [...prev, optionId]
       );
     } else {
       // Otherwise, we set the `selectedOption` to the selected option.
       setSelectedOption(optionId);
+      setIsWriteInSelected(false);
+    }
+  };
+
+  /**
+   * Handles the selection of the "Other" write-in choice.
+   * On single-choice polls it replaces the selected option; on multiple-vote polls it is toggled.
+   */
+  const handleWriteInToggle = () => {
+    if (poll.allowMultipleVotes) {
+      setIsWriteInSelected(isWriteInSelected ? false : !atSelectionLimit);
+    } else {
+      setSelectedOption("");
+      setIsWriteInSelected(true);
     }
   };
 
@@ -112,18 +344,28 @@ export function PollDetails({ poll, userVote, userVotes = [], onVoteSuccess, isA
             <CardTitle className="text-xl">{poll.title}</CardTitle>
             <div className="flex gap-2">
               {/* We display badges to indicate the poll's status and settings. */}
-              {!poll.isActive && (
-                <Badge variant="secondary">Inactive</Badge>
-              )}
-              {expired && (
-                <Badge variant="destructive">Expired</Badge>
-              )}
-              {hasVoted && (
+              <PollStatusBadge poll={poll} />
+              {hasVoted && !isChangingVote && (
                 <Badge variant="outline">Voted</Badge>
               )}
               {poll.allowMultipleVotes && (
                 <Badge variant="secondary">Multiple Choice</Badge>
               )}
+              {isRankedChoice && (
+                <Badge variant="secondary">Ranked Choice</Badge>
+              )}
+              {poll.pollType === "rating" && (
+                <Badge variant="secondary">Star Rating</Badge>
+              )}
+              {poll.pollType === "nps" && (
+                <Badge variant="secondary">NPS</Badge>
+              )}
+              {poll.pollType === "likert" && (
+                <Badge variant="secondary">Likert Scale</Badge>
+              )}
+              {poll.isQuiz && (
+                <Badge variant="secondary">Quiz</Badge>
+              )}
               {poll.requireAuthentication && (
                 <Badge variant="secondary">Login Required</Badge>
               )}
@@ -135,9 +377,29 @@ export function PollDetails({ poll, userVote, userVotes = [], onVoteSuccess, isA
             </CardDescription>
           )}
           <div className="flex items-center gap-4 text-sm text-muted-foreground">
-            <span>{totalVotes} total votes</span>
-            <span>•</span>
+            {resultsVisible && (
+              <>
+                <span>
+                  {isScale ? `${results?.totalVotes ?? 0} responses` : `${totalVotes} total votes`}
+                </span>
+                <span>•</span>
+              </>
+            )}
+            {approval && (
+              <>
+                <span>{approval.voters} voters</span>
+                <span>•</span>
+              </>
+            )}
             <span>Created {formatDate(poll.createdAt)}</span>
+            {poll.startsAt && (
+              <>
+                <span>•</span>
+                <span>
+                  {upcoming ? "Opens" : "Opened"} {formatDate(poll.startsAt)}
+                </span>
+              </>
+            )}
             {poll.expiresAt && (
               <>
                 <span>•</span>
@@ -147,74 +409,194 @@ export function PollDetails({ poll, userVote, userVotes = [], onVoteSuccess, isA
               </>
             )}
           </div>
+          {eligibilityRequirements.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              Who can vote: {eligibilityRequirements.join(" • ")}
+            </p>
+          )}
         </div>
       </CardHeader>
       <CardContent className="space-y-6">
-        <div className="space-y-4">
-          {poll.options.map((option) => {
-            const percentage = calculatePercentage(option.votes, totalVotes);
-            const isSelected = poll.allowMultipleVotes 
-              ? selectedOptions.includes(option.id)
-              : selectedOption === option.id;
-            const isUserVote = poll.allowMultipleVotes
-              ? userVotes.includes(option.id)
-              : userVote === option.id;
-
-            return (
-              <div key={option.id} className="space-y-2">
-                <div
-                  className={`p-4 border rounded-lg transition-colors ${
-                    canVote && !needsAuth
-                      ? isSelected
-                        ? "border-primary bg-primary/5"
-                        : "border-gray-200 hover:border-gray-300 cursor-pointer"
-                      : isUserVote
-                      ? "border-primary bg-primary/10"
-                      : "border-gray-200"
-                  } ${(!canVote || needsAuth) ? "cursor-default" : ""}`}
-                  onClick={() => canVote && !needsAuth && handleOptionToggle(option.id)}
-                >
-                  <div className="flex items-start justify-between mb-2">
-                    <div className="flex items-center gap-3 flex-1">
-                      {/* If the poll allows multiple votes, we display a checkbox for each option. */}
-                      {poll.allowMultipleVotes && canVote && !needsAuth && (
-                        <Checkbox
-                          checked={isSelected}
-                          onCheckedChange={() => handleOptionToggle(option.id)}
-                          className="mt-0.5"
-                        />
-                      )}
-                      <span className="font-medium">{option.text}</span>
-                    </div>
-                    <div className="flex items-center gap-2">
-                      {isUserVote && (
-                        <Badge variant="outline" className="text-xs">
-                          Your vote
-                        </Badge>
-                      )}
-                      <span className="text-sm text-muted-foreground">
-                        {option.votes} votes ({percentage}%)
-                      </span>
+        {/* Scheduled polls count down to their opening; the ballot appears when it opens. */}
+        {upcoming && poll.startsAt && (
+          <PollCountdown startsAt={poll.startsAt} onOpen={() => setHasOpened(true)} />
+        )}
+
+        {/* Ranked-choice polls show a ranking ballot while voting and the runoff rounds afterwards. */}
+        {isRankedChoice && canVote && !needsAuth && (
+          <RankedBallot options={poll.options} ranking={ranking} onChange={setRanking} />
+        )}
+        {isRankedChoice && showResults && runoff && (
+          <RunoffRounds options={poll.options} result={runoff} />
+        )}
+
+        {/* Rating, NPS and Likert polls show a scale ballot while voting and a summary afterwards. */}
+        {isScale && canVote && !needsAuth && (
+          poll.pollType === "likert" ? (
+            <LikertBallot
+              rows={poll.options}
+              labels={scaleLabels}
+              answers={likertAnswers}
+              onChange={setLikertAnswers}
+            />
+          ) : (
+            <RatingBallot
+              variant={poll.pollType === "nps" ? "nps" : "rating"}
+              value={ratingValue}
+              onChange={setRatingValue}
+            />
+          )
+        )}
+        {isScale && showResults && results && (
+          <RatingSummary results={results} options={poll.options} scaleLabels={scaleLabels} />
+        )}
+
+        {!isRankedChoice && !isScale && (
+          <div className="space-y-4">
+            {/* Multiple-vote polls tell the voter how many options they may pick. */}
+            {poll.allowMultipleVotes && canVote && !needsAuth && (
+              <p className="text-sm text-muted-foreground">
+                {describeSelectionLimits(minSelections, maxSelections)}
+              </p>
+            )}
+            {poll.options.map((option) => {
+              // For approval polls, we measure each option against the number of voters
+              // rather than the number of votes, since one voter can approve several options.
+              const approvalResult = approval?.options.find((result) => result.optionId === option.id);
+              const percentage = approvalResult
+                ? approvalResult.approvalShare
+                : calculatePercentage(option.votes, totalVotes);
+              const isSelected = poll.allowMultipleVotes 
+                ? selectedOptions.includes(option.id)
+                : selectedOption === option.id;
+              const isUserVote = poll.allowMultipleVotes
+                ? userVotes.includes(option.id)
+                : userVote === option.id;
+
+              return (
+                <div key={option.id} className="space-y-2">
+                  <div
+                    className={`p-4 border rounded-lg transition-colors ${
+                      canVote && !needsAuth
+                        ? isSelected
+                          ? "border-primary bg-primary/5"
+                          : "border-gray-200 hover:border-gray-300 cursor-pointer"
+                        : isUserVote
+                        ? "border-primary bg-primary/10"
+                        : "border-gray-200"
+                    } ${(!canVote || needsAuth) ? "cursor-default" : ""}`}
+                    onClick={() => canVote && !needsAuth && handleOptionToggle(option.id)}
+                  >
+                    <div className="flex items-start justify-between mb-2">
+                      <div className="flex items-center gap-3 flex-1">
+                        {/* If the poll allows multiple votes, we display a checkbox for each option. */}
+                        {poll.allowMultipleVotes && canVote && !needsAuth && (
+                          <Checkbox
+                            checked={isSelected}
+                            disabled={!isSelected && atSelectionLimit}
+                            onCheckedChange={() => handleOptionToggle(option.id)}
+                            className="mt-0.5"
+                          />
+                        )}
+                        <span className="font-medium">{option.text}</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {correctOptionIds.includes(option.id) && (
+                          <Badge variant="outline" className="text-xs border-green-600 text-green-700">
+                            Correct answer
+                          </Badge>
+                        )}
+                        {isUserVote && (
+                          <Badge variant="outline" className="text-xs">
+                            Your vote
+                          </Badge>
+                        )}
+                        {resultsVisible && (
+                          <span className="text-sm text-muted-foreground">
+                            {approvalResult
+                              ? `${approvalResult.approvals} approvals (${percentage}% of voters)`
+                              : `${option.votes} votes (${percentage}%)`}
+                          </span>
+                        )}
+                      </div>
                     </div>
+                    {/* If the user has already voted or the poll is not active, we display the results. */}
+                    {showResults && (
+                      <div className="w-full bg-gray-200 rounded-full h-2">
+                        <div
+                          className={`h-2 rounded-full ${
+                            isUserVote ? "bg-primary" : "bg-gray-400"
+                          }`}
+                          style={{
+                            width: `${percentage}%`,
+                          }}
+                        />
+                      </div>
+                    )}
                   </div>
-                  {/* If the user has already voted or the poll is not active, we display the results. */}
-                  {(hasVoted || !canVote) && (
-                    <div className="w-full bg-gray-200 rounded-full h-2">
-                      <div
-                        className={`h-2 rounded-full ${
-                          isUserVote ? "bg-primary" : "bg-gray-400"
-                        }`}
-                        style={{
-                          width: `${percentage}%`,
-                        }}
-                      />
-                    </div>
-                  )}
                 </div>
+              );
+            })}
+
+            {/* Polls that allow write-ins offer an "Other" choice with a free-text answer. */}
+            {/* Changed ballots can't include a write-in. */}
+            {allowsWriteIn && canVote && !needsAuth && !isChangingVote && (
+              <div
+                className={`p-4 border rounded-lg space-y-3 transition-colors ${
+                  isWriteInSelected ? "border-primary bg-primary/5" : "border-gray-200 hover:border-gray-300"
+                }`}
+              >
+                {poll.allowMultipleVotes ? (
+                  <div className="flex items-center gap-3">
+                    <Checkbox
+                      id="write-in-option"
+                      checked={isWriteInSelected}
+                      disabled={!isWriteInSelected && atSelectionLimit}
+                      onCheckedChange={handleWriteInToggle}
+                      className="mt-0.5"
+                    />
+                    <Label htmlFor="write-in-option" className="font-medium cursor-pointer">
+                      Other (please specify)
+                    </Label>
+                  </div>
+                ) : (
+                  <button
+                    type="button"
+                    aria-pressed={isWriteInSelected}
+                    onClick={handleWriteInToggle}
+                    className="w-full text-left font-medium cursor-pointer"
+                  >
+                    Other (please specify)
+                  </button>
+                )}
+                {isWriteInSelected && (
+                  <Input
+                    placeholder="Your answer"
+                    value={writeIn}
+                    maxLength={200}
+                    onChange={(e) => setWriteIn(e.target.value)}
+                  />
+                )}
               </div>
-            );
-          })}
-        </div>
+            )}
+          </div>
+        )}
+
+        {/* Quiz voters find out straight away whether they were right, and how they rank. */}
+        {quizResult && <QuizFeedback result={quizResult} />}
+        {poll.isQuiz && resultsVisible && (
+          <QuizLeaderboard key={quizResult ? "answered" : "unanswered"} pollId={poll.id} />
+        )}
+
+        {/* The poll creator can review write-ins and promote frequent ones to options. */}
+        {isCreator && allowsWriteIn && (
+          <WriteInReview pollId={poll.id} onPromote={() => onVoteSuccess?.()} />
+        )}
+
+        {/* The poll creator can see who changed or retracted their vote. */}
+        {isCreator && poll.allowVoteChanges && (
+          <VoteChangeHistory key={totalVotes} pollId={poll.id} options={poll.options} />
+        )}
 
         {/* If the user can vote, we display the vote button. */}
         {canVote && !needsAuth && (
@@ -224,16 +606,22 @@ export function PollDetails({ poll, userVote, userVotes = [], onVoteSuccess, isA
                 {error}
               </div>
             )}
-            <Button
-              onClick={handleVote}
-              disabled={
-                (poll.allowMultipleVotes ? selectedOptions.length === 0 : !selectedOption) || 
-                isVoting
-              }
-              className="w-full"
-            >
-              {isVoting ? "Submitting vote..." : "Submit Vote"}
-            </Button>
+            {needsPhone ? (
+              <PhoneVerificationForm pollId={poll.id} onVerified={setVerifiedPhone} />
+            ) : (
+              <Button
+                onClick={handleVote}
+                disabled={!hasSelection || isVoting}
+                className="w-full"
+              >
+                {isVoting ? "Submitting vote..." : isChangingVote ? "Save Changed Vote" : "Submit Vote"}
+              </Button>
+            )}
+            {isChangingVote && (
+              <Button variant="outline" onClick={() => setIsChangingVote(false)} className="w-full">
+                Keep My Vote
+              </Button>
+            )}
           </div>
         )}
 
@@ -244,17 +632,64 @@ export function PollDetails({ poll, userVote, userVotes = [], onVoteSuccess, isA
           </div>
         )}
 
+        {/* If the poll is invite-only and the visitor has no unused ballot link, we tell them why they can't vote. */}
+        {ballotMessage && status === "open" && (
+          <div className="text-center text-sm text-muted-foreground bg-blue-50 p-3 rounded">
+            {ballotMessage}
+          </div>
+        )}
+
+        {/* If the user doesn't meet the poll's eligibility rules, we tell them which one. */}
+        {ineligibleMessage && status === "open" && (
+          <div className="text-center text-sm text-muted-foreground bg-blue-50 p-3 rounded">
+            {ineligibleMessage}
+          </div>
+        )}
+
         {/* If the user has already voted, we display a thank you message. */}
-        {hasVoted && (
+        {hasVoted && !isChangingVote && (
           <div className="text-center text-sm text-muted-foreground bg-green-50 p-3 rounded">
-            Thank you for voting! You can view the results above.
+            {resultsVisible ? "Thank you for voting! You can view the results above." : "Thank you for voting!"}
+          </div>
+        )}
+
+        {/* If the results are hidden from the viewer, we tell them when they will be shown. */}
+        {!resultsVisible && (hasVoted || !canVote) && status !== "draft" && (
+          <div className="text-center text-sm text-muted-foreground bg-gray-50 p-3 rounded">
+            {getHiddenResultsMessage(poll.resultsVisibility ?? "always")}
+          </div>
+        )}
+
+        {/* On polls that allow vote changes, the voter can change or retract their vote until the poll closes. */}
+        {canChangeVote && !isChangingVote && (
+          <div className="space-y-2">
+            {error && (
+              <div className="text-sm text-red-600 bg-red-50 p-3 rounded">
+                {error}
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleStartChange} disabled={isVoting} className="flex-1">
+                Change Vote
+              </Button>
+              <Button variant="outline" onClick={handleRetract} disabled={isVoting} className="flex-1">
+                Retract Vote
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Drafts are only seen by their creator, until they are published. */}
+        {status === "draft" && (
+          <div className="text-center text-sm text-muted-foreground bg-gray-50 p-3 rounded">
+            This poll is a draft. Publish it to start collecting votes.
           </div>
         )}
 
-        {/* If the poll is not active, we display a message. */}
-        {!poll.isActive && (
+        {/* If the poll was closed or archived by its creator, we display a message. */}
+        {(poll.status === "closed" || poll.status === "archived") && (
           <div className="text-center text-sm text-muted-foreground bg-gray-50 p-3 rounded">
-            This poll is no longer active.
+            This poll is closed and no longer accepts votes.
           </div>
         )}
 
@@ -0,0 +1,87 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Poll } from "@/types";
+import { PollAPI } from "@/lib/api";
+
+/**
+ * The properties for the `PollPasswordForm` component.
+ */
+interface PollPasswordFormProps {
+  /** The locked poll. Its options aren't sent until it is unlocked. */
+  poll: Poll;
+  /** A callback function that is called once the poll is unlocked. */
+  onUnlock: () => void;
+}
+
+/**
+ * A component that asks for the password of a password-protected poll before showing it.
+ * The unlock lasts a while, so voters aren't asked again when they come back to the poll.
+ * @param {PollPasswordFormProps} props - The component properties.
+ */
+export function PollPasswordForm({ poll, onUnlock }: PollPasswordFormProps) {
+  const [password, setPassword] = useState("");
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState("");
+
+  /**
+   * Sends the password to the server, and reloads the poll if it was right.
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password) return;
+
+    setIsUnlocking(true);
+    setError("");
+
+    const response = await PollAPI.unlockPoll(poll.id, password);
+    setIsUnlocking(false);
+
+    if (!response.success) {
+      setError(response.error || "Failed to unlock poll");
+      return;
+    }
+
+    onUnlock();
+  };
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto">
+      <CardHeader>
+        <CardTitle className="text-xl">{poll.title}</CardTitle>
+        {poll.description && (
+          <CardDescription className="text-base">
+            {poll.description}
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="unlock-password">This poll is password protected</Label>
+            <Input
+              id="unlock-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Enter the poll password"
+              autoFocus
+            />
+          </div>
+          {error && (
+            <div className="text-sm text-red-600 bg-red-50 p-3 rounded">
+              {error}
+            </div>
+          )}
+          <Button type="submit" disabled={isUnlocking || !password}>
+            {isUnlocking ? "Unlocking..." : "Unlock"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
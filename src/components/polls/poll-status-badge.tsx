@@ -0,0 +1,32 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Poll } from "@/types";
+import { POLL_STATUS_LABELS, getEffectiveStatus } from "@/lib/lifecycle";
+
+/**
+ * The properties for the `PollStatusBadge` component.
+ */
+interface PollStatusBadgeProps {
+  /** The poll whose status to show. */
+  poll: Pick<Poll, "status" | "startsAt" | "expiresAt">;
+}
+
+/**
+ * A badge that shows where a poll is in its lifecycle.
+ * Polls that closed because they expired, rather than being closed by their creator, show as expired.
+ * @param {PollStatusBadgeProps} props - The component properties.
+ */
+export function PollStatusBadge({ poll }: PollStatusBadgeProps) {
+  const status = getEffectiveStatus(poll.status, poll.startsAt, poll.expiresAt);
+
+  if (status === "closed" && poll.status !== "closed") {
+    return <Badge variant="destructive">Expired</Badge>;
+  }
+
+  return (
+    <Badge variant={status === "open" ? "default" : status === "closed" || status === "archived" ? "secondary" : "outline"}>
+      {POLL_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Poll, PollStatus } from "@/types";
+import { POLL_TRANSITIONS, getEffectiveStatus } from "@/lib/lifecycle";
+import { isExpired } from "@/lib/utils";
+import { PollAPI } from "@/lib/api";
+import { PollStatusBadge } from "@/components/polls/poll-status-badge";
+
+/**
+ * The properties for the `PollStatusControls` component.
+ */
+interface PollStatusControlsProps {
+  /** The poll whose status to manage. */
+  poll: Poll;
+  /** A callback function that is called after the poll moves to a new status. */
+  onStatusChange?: () => void;
+}
+
+/**
+ * Names the action that moves a poll from one status to another.
+ * @param from The poll's current status.
+ * @param to The status to move to.
+ */
+function describeTransition(from: PollStatus, to: PollStatus): string {
+  switch (to) {
+    case "draft":
+      return "Unpublish";
+    case "scheduled":
+      return "Schedule";
+    case "open":
+      return from === "draft" ? "Publish Now" : from === "closed" ? "Reopen" : "Open Now";
+    case "closed":
+      return from === "archived" ? "Unarchive" : "Close";
+    case "archived":
+      return "Archive";
+  }
+}
+
+/**
+ * A component that lets the poll creator move a poll through its lifecycle.
+ * Only the moves allowed from the poll's current status are offered.
+ * @param {PollStatusControlsProps} props - The component properties.
+ */
+export function PollStatusControls({ poll, onStatusChange }: PollStatusControlsProps) {
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState("");
+
+  const status = getEffectiveStatus(poll.status, poll.startsAt, poll.expiresAt);
+  // A poll can only be scheduled while its start date is still ahead.
+  const targets = POLL_TRANSITIONS[status].filter(
+    (target) => target !== "scheduled" || (poll.startsAt && !isExpired(poll.startsAt))
+  );
+
+  /**
+   * Moves the poll to a new status.
+   * @param target The status to move to.
+   */
+  const handleTransition = async (target: PollStatus) => {
+    setIsUpdating(true);
+    setError("");
+
+    const response = await PollAPI.updatePollStatus(poll.id, target);
+    setIsUpdating(false);
+
+    if (!response.success) {
+      setError(response.error || "Failed to update poll status");
+      return;
+    }
+
+    onStatusChange?.();
+  };
+
+  return (
+    <div className="space-y-3 p-4 border rounded-lg">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          Status <PollStatusBadge poll={poll} />
+        </div>
+        <div className="flex gap-2">
+          {targets.map((target) => (
+            <Button
+              key={target}
+              type="button"
+              variant={target === "open" ? "default" : "outline"}
+              size="sm"
+              disabled={isUpdating}
+              onClick={() => handleTransition(target)}
+            >
+              {describeTransition(status, target)}
+            </Button>
+          ))}
+        </div>
+      </div>
+      {error && (
+        <div className="text-sm text-red-600 bg-red-50 p-3 rounded">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { PollDetails } from "@/components/polls/poll-details";
+import { SurveyDetails } from "@/components/polls/survey-details";
+import { PollPasswordForm } from "@/components/polls/poll-password-form";
+import { ShareDialog } from "@/components/polls/share-dialog";
+import { Poll } from "@/types";
+import { PollAPI } from "@/lib/api";
+import { useAuth } from "@/contexts/auth-context";
+
+/**
+ * The poll page's content: the poll, its password form while it is locked, or why it can't be opened.
+ */
+export function PollView() {
+  const params = useParams();
+  const router = useRouter();
+  const { user } = useAuth();
+  const pollId = params.id as string;
+  // Unlisted and private polls are opened through their share link, which carries the share token.
+  // Invitees of invite-only polls also come with their ballot token, and visitors who followed a
+  // recorded share with its ref, which their vote is credited to.
+  const searchParams = useSearchParams();
+  const shareToken = searchParams.get("token");
+  const ballotToken = searchParams.get("ballot");
+  const shareRef = searchParams.get("ref");
+  // Anonymous voters who followed the link in their confirmation email come back with its outcome.
+  const confirmation = searchParams.get("confirmation");
+
+  const [poll, setPoll] = useState<Poll | null>(null);
+  const [userVote] = useState<string | null>(null);
+  const [userVotes] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const isAuthenticated = Boolean(user);
+
+  useEffect(() => {
+    const loadPoll = async () => {
+      if (!pollId) return;
+
+      try {
+        const fetchedPoll = await PollAPI.getPoll(pollId, shareToken, ballotToken, shareRef);
+        if (fetchedPoll) {
+          setPoll(fetchedPoll);
+          // TODO: Fetch user's vote for this poll
+          // const userVoteData = await PollAPI.getUserVote(pollId);
+          // setUserVote(userVoteData?.optionId || null);
+        } else {
+          setError("Poll not found");
+        }
+      } catch (err) {
+        // Private polls ask visitors with the share link to sign in; other failures are reported generically.
+        const message = err instanceof Error ? err.message : "";
+        setError(message === "Sign in to open this poll" || message === "Poll not found" ? message : "Failed to load poll");
+        console.error("Error loading poll:", err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadPoll();
+  }, [pollId, shareToken, ballotToken, shareRef]);
+
+  const handleVoteSuccess = () => {
+    // Reload the poll to get updated vote counts, or its options once it is unlocked
+    if (pollId) {
+      PollAPI.getPoll(pollId, shareToken, ballotToken).then((updatedPoll) => {
+        if (updatedPoll) {
+          setPoll(updatedPoll);
+        }
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto">
+          <div className="text-center">Loading poll...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !poll) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto text-center">
+          <h1 className="text-2xl font-bold mb-4">
+            {error || "Poll Not Found"}
+          </h1>
+          <p className="text-gray-600 mb-4">
+            {error === "Poll not found"
+              ? "The poll you're looking for doesn't exist or has been removed."
+              : error === "Sign in to open this poll"
+              ? "This poll is private. Sign in to open it."
+              : "There was an error loading the poll. Please try again."}
+          </p>
+          <div className="flex gap-4 justify-center">
+            <Button onClick={() => router.back()}>Go Back</Button>
+            <Button variant="outline" onClick={() => router.push("/polls")}>
+              Browse Polls
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-2xl mx-auto">
+        <div className="mb-6 flex justify-between">
+          <Button
+            variant="outline"
+            onClick={() => router.back()}
+            className="mb-4"
+          >
+            ← Back
+          </Button>
+          {!poll.locked && (
+            <Button variant="outline" onClick={() => setIsShareOpen(true)} className="mb-4">
+              Share
+            </Button>
+          )}
+        </div>
+
+        {confirmation && (
+          <div
+            className={`mb-4 text-sm p-3 rounded ${
+              confirmation === "confirmed" ? "text-green-700 bg-green-50" : "text-red-600 bg-red-50"
+            }`}
+          >
+            {confirmation === "confirmed"
+              ? "Thanks for confirming your email address. Your vote has been counted."
+              : confirmation === "expired"
+              ? "This confirmation link has expired, so your vote was not counted. Please vote again."
+              : "This confirmation link is not valid."}
+          </div>
+        )}
+
+        {isShareOpen && (
+          <ShareDialog
+            poll={poll}
+            isCreator={Boolean(user) && user?.id === poll.createdBy}
+            onClose={() => setIsShareOpen(false)}
+          />
+        )}
+
+        {poll.locked ? (
+          <PollPasswordForm poll={poll} onUnlock={handleVoteSuccess} />
+        ) : poll.pollType === "survey" ? (
+          <SurveyDetails
+            poll={poll}
+            isAuthenticated={isAuthenticated}
+            isCreator={Boolean(user) && user?.id === poll.createdBy}
+            onResponseSuccess={handleVoteSuccess}
+          />
+        ) : (
+          <PollDetails
+            poll={poll}
+            userVote={userVote}
+            userVotes={userVotes}
+            isAuthenticated={isAuthenticated}
+            isCreator={Boolean(user) && user?.id === poll.createdBy}
+            onVoteSuccess={handleVoteSuccess}
+          />
+        )}
+
+        <div className="mt-6 text-center">
+          <Button variant="outline" onClick={() => router.push("/polls")}>
+            Browse More Polls
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
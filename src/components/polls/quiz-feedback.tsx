@@ -0,0 +1,61 @@
+"use client";
+
+import { QuizResult, SurveyQuestion } from "@/types";
+
+/**
+ * The properties for the `QuizFeedback` component.
+ */
+interface QuizFeedbackProps {
+  /** The score returned after voting. */
+  result: QuizResult;
+  /** The questions of a survey quiz, used to name each question and its correct options. */
+  questions?: SurveyQuestion[];
+}
+
+/**
+ * A component that tells a quiz participant how they did, right after they answer.
+ * Single-question quizzes show whether the answer was right; survey quizzes also list every scored question.
+ * @param {QuizFeedbackProps} props - The component properties.
+ */
+export function QuizFeedback({ result, questions }: QuizFeedbackProps) {
+  const allCorrect = result.score === result.total;
+
+  return (
+    <div className={`space-y-3 p-4 rounded-lg ${allCorrect ? "bg-green-50" : "bg-orange-50"}`}>
+      <p className="font-medium">
+        {questions
+          ? `You scored ${result.score} out of ${result.total}`
+          : allCorrect
+          ? "Correct!"
+          : "Not quite. The correct answer is marked above."}
+      </p>
+
+      {/* Survey quizzes show the correct options of every question that was scored. */}
+      {questions && (
+        <ul className="space-y-2 text-sm">
+          {result.answers.map((answer) => {
+            const index = questions.findIndex((question) => question.id === answer.questionId);
+            const question = questions[index];
+            if (!question) return null;
+
+            const correctOptions = question.options
+              .filter((option) => answer.correctOptionIds.includes(option.id))
+              .map((option) => option.text);
+
+            return (
+              <li key={question.id}>
+                <span className={answer.correct ? "text-green-700" : "text-red-700"}>
+                  {answer.correct ? "✓" : "✗"}
+                </span>{" "}
+                {index + 1}. {question.text}
+                {!answer.correct && (
+                  <span className="text-muted-foreground"> (answer: {correctOptions.join(", ")})</span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
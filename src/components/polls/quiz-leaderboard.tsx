@@ -0,0 +1,51 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { LeaderboardEntry } from "@/types";
+import { formatDuration } from "@/lib/utils";
+import { PollAPI } from "@/lib/api";
+
+/**
+ * The properties for the `QuizLeaderboard` component.
+ */
+interface QuizLeaderboardProps {
+  /** The ID of the quiz. */
+  pollId: string;
+}
+
+/**
+ * A component that ranks the participants of a quiz by score and answer time.
+ * @param {QuizLeaderboardProps} props - The component properties.
+ */
+export function QuizLeaderboard({ pollId }: QuizLeaderboardProps) {
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+
+  useEffect(() => {
+    PollAPI.getLeaderboard(pollId)
+      .then(setEntries)
+      .catch(() => setEntries([]));
+  }, [pollId]);
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="space-y-3 border-t pt-6">
+      <h3 className="font-medium">Leaderboard</h3>
+      <ol className="space-y-1">
+        {entries.map((entry) => (
+          <li
+            key={`${entry.rank}-${entry.name}-${entry.timeMs}`}
+            className="flex items-center gap-3 p-2 rounded text-sm odd:bg-gray-50"
+          >
+            <span className="w-6 text-right font-medium">{entry.rank}.</span>
+            <span className="flex-1 truncate">{entry.name}</span>
+            <span className="font-medium">
+              {entry.score}/{entry.total}
+            </span>
+            <span className="w-16 text-right text-muted-foreground">{formatDuration(entry.timeMs)}</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
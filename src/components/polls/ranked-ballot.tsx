@@ -0,0 +1,145 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { PollOption } from "@/types";
+
+/**
+ * The properties for the `RankedBallot` component.
+ */
+interface RankedBallotProps {
+  /** The poll options that can be ranked. */
+  options: PollOption[];
+  /** The IDs of the ranked options, most preferred first. */
+  ranking: string[];
+  /** A callback function that is called with the new ranking whenever it changes. */
+  onChange: (ranking: string[]) => void;
+  /** Whether the ballot can be edited. */
+  disabled?: boolean;
+}
+
+/**
+ * Moves an item within a list to a new position.
+ * @param list The list to reorder.
+ * @param from The current index of the item.
+ * @param to The index the item should end up at.
+ */
+function moveItem(list: string[], from: number, to: number): string[] {
+  const next = [...list];
+  const [item] = next.splice(from, 1);
+  if (item !== undefined) {
+    next.splice(to, 0, item);
+  }
+  return next;
+}
+
+/**
+ * A ballot for ranked-choice polls.
+ * Voters add options to their ranking and reorder them by dragging or with the arrow buttons.
+ * Options left out of the ranking are treated as not preferred at all.
+ * @param {RankedBallotProps} props - The component properties.
+ */
+export function RankedBallot({ options, ranking, onChange, disabled = false }: RankedBallotProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const optionText = (optionId: string) =>
+    options.find((option) => option.id === optionId)?.text ?? "";
+  const unranked = options.filter((option) => !ranking.includes(option.id));
+
+  /**
+   * Handles dropping a dragged option onto another ranked position.
+   * @param index The position the option was dropped on.
+   */
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) {
+      onChange(moveItem(ranking, dragIndex, index));
+    }
+    setDragIndex(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Your ranking</p>
+        {ranking.length === 0 ? (
+          <p className="text-sm text-muted-foreground border border-dashed rounded-lg p-4 text-center">
+            Add options below in order of preference.
+          </p>
+        ) : (
+          <ol className="space-y-2">
+            {ranking.map((optionId, index) => (
+              <li
+                key={optionId}
+                draggable={!disabled}
+                onDragStart={() => setDragIndex(index)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => handleDrop(index)}
+                onDragEnd={() => setDragIndex(null)}
+                className={`flex items-center gap-3 p-3 border rounded-lg bg-background ${
+                  disabled ? "" : "cursor-move"
+                } ${dragIndex === index ? "opacity-50" : ""}`}
+              >
+                <span className="flex h-6 w-6 items-center justify-center rounded-full bg-primary text-primary-foreground text-xs font-medium">
+                  {index + 1}
+                </span>
+                <span className="flex-1 font-medium">{optionText(optionId)}</span>
+                {!disabled && (
+                  <div className="flex gap-1">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      aria-label={`Move ${optionText(optionId)} up`}
+                      disabled={index === 0}
+                      onClick={() => onChange(moveItem(ranking, index, index - 1))}
+                    >
+                      ↑
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      aria-label={`Move ${optionText(optionId)} down`}
+                      disabled={index === ranking.length - 1}
+                      onClick={() => onChange(moveItem(ranking, index, index + 1))}
+                    >
+                      ↓
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      aria-label={`Remove ${optionText(optionId)} from ranking`}
+                      onClick={() => onChange(ranking.filter((id) => id !== optionId))}
+                    >
+                      ✕
+                    </Button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      {unranked.length > 0 && !disabled && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Not ranked</p>
+          <div className="flex flex-wrap gap-2">
+            {unranked.map((option) => (
+              <Button
+                key={option.id}
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => onChange([...ranking, option.id])}
+              >
+                + {option.text}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
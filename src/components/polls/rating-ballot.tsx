@@ -0,0 +1,83 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { NPS_SCALE, RATING_SCALE } from "@/lib/scales";
+
+/**
+ * The properties for the `RatingBallot` component.
+ */
+interface RatingBallotProps {
+  /** Whether to show a 1-5 star rating or a 0-10 NPS scale. */
+  variant: "rating" | "nps";
+  /** The selected answer, if any. */
+  value: number | null;
+  /** A callback function that is called with the new answer. */
+  onChange: (value: number) => void;
+  /** Whether the ballot can be edited. */
+  disabled?: boolean;
+}
+
+/**
+ * A ballot for rating and NPS polls.
+ * Rating polls show a row of stars, while NPS polls show the 0-10 "how likely are you to
+ * recommend" scale with its end points labelled.
+ * @param {RatingBallotProps} props - The component properties.
+ */
+export function RatingBallot({ variant, value, onChange, disabled = false }: RatingBallotProps) {
+  if (variant === "rating") {
+    const stars = Array.from(
+      { length: RATING_SCALE.max - RATING_SCALE.min + 1 },
+      (_, index) => RATING_SCALE.min + index
+    );
+
+    return (
+      <div className="flex justify-center gap-2">
+        {stars.map((star) => (
+          <button
+            key={star}
+            type="button"
+            disabled={disabled}
+            aria-label={`${star} star${star !== 1 ? "s" : ""}`}
+            aria-pressed={value === star}
+            onClick={() => onChange(star)}
+            className={`text-4xl transition-colors ${
+              value !== null && star <= value ? "text-yellow-400" : "text-gray-300 hover:text-yellow-200"
+            }`}
+          >
+            ★
+          </button>
+        ))}
+      </div>
+    );
+  }
+
+  const points = Array.from(
+    { length: NPS_SCALE.max - NPS_SCALE.min + 1 },
+    (_, index) => NPS_SCALE.min + index
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-11 gap-1">
+        {points.map((point) => (
+          <Button
+            key={point}
+            type="button"
+            variant={value === point ? "default" : "outline"}
+            size="sm"
+            disabled={disabled}
+            aria-pressed={value === point}
+            onClick={() => onChange(point)}
+            className="px-0"
+          >
+            {point}
+          </Button>
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>Not at all likely</span>
+        <span>Extremely likely</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { PollOption, PollResults, RatingSummary as RatingSummaryData } from "@/types";
+import { calculatePercentage } from "@/lib/utils";
+
+/**
+ * The properties for the `RatingSummary` component.
+ */
+interface RatingSummaryProps {
+  /** The tallied results of a rating, NPS or Likert poll or survey question. */
+  results: Pick<PollResults, "pollType" | "rating" | "nps" | "likert">;
+  /** The poll options, used to label Likert rows. */
+  options: PollOption[];
+  /** The agreement scale for Likert polls, lowest first. */
+  scaleLabels: string[];
+}
+
+/**
+ * Renders how the answers are spread over the scale as a set of bars.
+ * @param summary The summary to render.
+ * @param label A function that turns a scale value into a label.
+ */
+function Distribution({ summary, label }: { summary: RatingSummaryData; label: (value: number) => string }) {
+  return (
+    <div className="space-y-1">
+      {summary.distribution.map(({ value, count }) => {
+        const percentage = calculatePercentage(count, summary.count);
+        return (
+          <div key={value} className="flex items-center gap-2 text-xs">
+            <span className="w-32 shrink-0 text-muted-foreground">{label(value)}</span>
+            <div className="flex-1 bg-gray-200 rounded-full h-2">
+              <div className="bg-primary h-2 rounded-full" style={{ width: `${percentage}%` }} />
+            </div>
+            <span className="w-16 text-right text-muted-foreground">
+              {count} ({percentage}%)
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * A component that displays the results of a rating, NPS or Likert poll.
+ * It shows the mean, median and distribution of the answers, the NPS score for NPS polls
+ * and one summary per statement for Likert polls.
+ * @param {RatingSummaryProps} props - The component properties.
+ */
+export function RatingSummary({ results, options, scaleLabels }: RatingSummaryProps) {
+  if (results.likert) {
+    return (
+      <div className="space-y-6">
+        {results.likert.map((row) => (
+          <div key={row.optionId} className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span className="font-medium">
+                {options.find((option) => option.id === row.optionId)?.text}
+              </span>
+              <span className="text-muted-foreground">
+                Mean {row.mean} • Median {row.median} • {row.count} answers
+              </span>
+            </div>
+            <Distribution summary={row} label={(value) => scaleLabels[value - 1] ?? String(value)} />
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (!results.rating) return null;
+
+  const stats = [
+    { label: "Average", value: results.rating.mean },
+    { label: "Median", value: results.rating.median },
+    { label: "Answers", value: results.rating.count },
+    ...(results.nps ? [{ label: "NPS", value: results.nps.score }] : []),
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-center">
+        {stats.map((stat) => (
+          <div key={stat.label} className="p-3 border rounded-lg">
+            <div className="text-2xl font-bold">{stat.value}</div>
+            <div className="text-xs text-muted-foreground">{stat.label}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* NPS polls split respondents into promoters (9-10), passives (7-8) and detractors (0-6). */}
+      {results.nps && (
+        <div className="flex justify-between text-sm text-muted-foreground">
+          <span>{results.nps.promoters} promoters</span>
+          <span>{results.nps.passives} passives</span>
+          <span>{results.nps.detractors} detractors</span>
+        </div>
+      )}
+
+      <Distribution
+        summary={results.rating}
+        label={(value) => (results.pollType === "rating" ? "★".repeat(value) : String(value))}
+      />
+    </div>
+  );
+}
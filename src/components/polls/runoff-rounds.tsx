@@ -0,0 +1,96 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { PollOption, RankedChoiceResult } from "@/types";
+import { calculatePercentage } from "@/lib/utils";
+
+/**
+ * The properties for the `RunoffRounds` component.
+ */
+interface RunoffRoundsProps {
+  /** The poll options, used to label the counts. */
+  options: PollOption[];
+  /** The instant-runoff tally to display. */
+  result: RankedChoiceResult;
+}
+
+/**
+ * A component that displays the round-by-round results of a ranked-choice poll.
+ * Each round shows the votes for every continuing option and which option was eliminated.
+ * @param {RunoffRoundsProps} props - The component properties.
+ */
+export function RunoffRounds({ options, result }: RunoffRoundsProps) {
+  const optionText = (optionId: string) =>
+    options.find((option) => option.id === optionId)?.text ?? "Unknown option";
+
+  if (result.totalBallots === 0) {
+    return (
+      <div className="text-center text-sm text-muted-foreground bg-gray-50 p-3 rounded">
+        No ballots have been cast yet.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* We announce the outcome before walking through the rounds. */}
+      {result.winner ? (
+        <div className="text-center text-sm bg-green-50 p-3 rounded">
+          <span className="font-medium">{optionText(result.winner)}</span> wins after{" "}
+          {result.rounds.length} round{result.rounds.length !== 1 ? "s" : ""}.
+        </div>
+      ) : (
+        <div className="text-center text-sm bg-orange-50 p-3 rounded">
+          No majority winner
+          {result.tied.length > 0 && `: ${result.tied.map(optionText).join(", ")} are tied`}.
+        </div>
+      )}
+
+      {result.rounds.map((round) => {
+        const activeBallots = result.totalBallots - round.exhausted;
+        const ranked = Object.entries(round.counts).sort(([, a], [, b]) => b - a);
+
+        return (
+          <div key={round.round} className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-medium">Round {round.round}</h4>
+              {round.exhausted > 0 && (
+                <span className="text-xs text-muted-foreground">
+                  {round.exhausted} exhausted ballot{round.exhausted !== 1 ? "s" : ""}
+                </span>
+              )}
+            </div>
+            {ranked.map(([optionId, count]) => {
+              const percentage = calculatePercentage(count, activeBallots);
+              const isEliminated = round.eliminated.includes(optionId);
+              const isWinner = result.winner === optionId && round.round === result.rounds.length;
+
+              return (
+                <div key={optionId} className="text-sm">
+                  <div className="flex justify-between mb-1">
+                    <span className="flex items-center gap-2">
+                      {optionText(optionId)}
+                      {isEliminated && <Badge variant="destructive">Eliminated</Badge>}
+                      {isWinner && <Badge>Winner</Badge>}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {count} votes ({percentage}%)
+                    </span>
+                  </div>
+                  <div className="w-full bg-gray-200 rounded-full h-2">
+                    <div
+                      className={`h-2 rounded-full ${
+                        isEliminated ? "bg-gray-400" : "bg-primary"
+                      }`}
+                      style={{ width: `${percentage}%` }}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Poll, ShareChannelStats, ShareMethod, SharePlatform } from "@/types";
+import { SHARE_PLATFORMS, SHARE_PLATFORM_LABELS, getPlatformShareUrl, getShareChannelLabel } from "@/lib/sharing";
+import { PollAPI } from "@/lib/api";
+
+/**
+ * The properties for the `ShareDialog` component.
+ */
+interface ShareDialogProps {
+  /** The poll to share. */
+  poll: Poll;
+  /** Whether the viewer created the poll, and so can see how each share channel performed. */
+  isCreator: boolean;
+  /** Called when the dialog is closed. */
+  onClose: () => void;
+}
+
+/**
+ * A dialog for sharing a poll by link, QR code or on a social platform. Every share is recorded,
+ * and the link it hands out credits votes from people who follow it to the share. The poll
+ * creator also sees how many shares and votes each channel brought in.
+ * @param {ShareDialogProps} props - The component properties.
+ */
+export function ShareDialog({ poll, isCreator, onClose }: ShareDialogProps) {
+  const [link, setLink] = useState("");
+  const [qrCodeUrl, setQrCodeUrl] = useState("");
+  const [stats, setStats] = useState<ShareChannelStats[] | null>(null);
+  const [isSharing, setIsSharing] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!isCreator) return;
+    PollAPI.getShareStats(poll.id)
+      .then(setStats)
+      .catch(() => setStats(null));
+  }, [poll.id, isCreator]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  /**
+   * Records a share and returns it, or shows why it couldn't be recorded.
+   * @param method How the poll is being shared.
+   * @param platform The platform, for social shares.
+   */
+  const recordShare = async (method: ShareMethod, platform?: SharePlatform) => {
+    setIsSharing(true);
+    setError("");
+
+    const response = await PollAPI.sharePoll(poll.id, method, platform);
+    setIsSharing(false);
+
+    if (!response.success || !response.data) {
+      setError(response.error || "Failed to share poll");
+      return null;
+    }
+    return response.data;
+  };
+
+  const handleCopyLink = async () => {
+    const share = await recordShare("link");
+    if (!share) return;
+
+    setLink(share.url);
+    await navigator.clipboard.writeText(share.url);
+  };
+
+  /**
+   * Shares the poll on a platform. The platform's window is opened straight away, so that popup
+   * blockers allow it, and sent to the platform once the share is recorded.
+   * @param platform The platform to share to.
+   */
+  const handleSharePlatform = async (platform: SharePlatform) => {
+    const popup = window.open("", "_blank");
+    const share = await recordShare("social", platform);
+    if (!share) {
+      popup?.close();
+      return;
+    }
+
+    const shareUrl = getPlatformShareUrl(platform, share.url, poll.title);
+    if (popup) {
+      popup.opener = null;
+      popup.location.href = shareUrl;
+    } else {
+      window.open(shareUrl, "_blank", "noopener,noreferrer");
+    }
+  };
+
+  const handleShowQrCode = async () => {
+    const share = await recordShare("qr");
+    if (!share) return;
+
+    setQrCodeUrl(`/api/polls/${poll.id}/qr?size=300&ref=${share.id}`);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="share-dialog-title"
+    >
+      <Card className="w-full max-w-md max-h-full overflow-y-auto">
+        <CardHeader>
+          <CardTitle id="share-dialog-title">Share Poll</CardTitle>
+          <CardDescription>{poll.title}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="share-dialog-link">Link</Label>
+            <div className="flex gap-2">
+              <Input
+                id="share-dialog-link"
+                value={link}
+                placeholder="Copy a link to share"
+                readOnly
+                onFocus={(e) => e.target.select()}
+              />
+              <Button type="button" variant="outline" onClick={handleCopyLink} disabled={isSharing}>
+                {link ? "Copied" : "Copy Link"}
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {SHARE_PLATFORMS.map((platform) => (
+              <Button
+                key={platform}
+                type="button"
+                variant="outline"
+                onClick={() => handleSharePlatform(platform)}
+                disabled={isSharing}
+              >
+                {SHARE_PLATFORM_LABELS[platform]}
+              </Button>
+            ))}
+          </div>
+
+          {qrCodeUrl ? (
+            <div className="flex flex-col items-center gap-2">
+              <Image src={qrCodeUrl} alt={`QR code for ${poll.title}`} width={300} height={300} unoptimized />
+              <a href={qrCodeUrl} download={`poll-${poll.id}.png`} className="text-sm text-blue-600 hover:underline">
+                Download QR Code
+              </a>
+            </div>
+          ) : (
+            <Button type="button" variant="outline" className="w-full" onClick={handleShowQrCode} disabled={isSharing}>
+              Show QR Code
+            </Button>
+          )}
+
+          {error && (
+            <div className="text-sm text-red-600 bg-red-50 p-3 rounded">
+              {error}
+            </div>
+          )}
+
+          {stats && stats.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Shares</p>
+              <ul className="space-y-1 text-sm">
+                {stats.map((channel) => (
+                  <li key={`${channel.method}-${channel.platform ?? ""}`} className="flex justify-between">
+                    <span>{getShareChannelLabel(channel.method, channel.platform)}</span>
+                    <span className="text-muted-foreground">
+                      {channel.shares} share{channel.shares === 1 ? "" : "s"}, {channel.votes} vote
+                      {channel.votes === 1 ? "" : "s"}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <Button type="button" className="w-full" onClick={onClose}>
+            Done
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
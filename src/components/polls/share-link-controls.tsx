@@ -0,0 +1,78 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Poll } from "@/types";
+import { getShareUrl } from "@/lib/access";
+import { PollAPI } from "@/lib/api";
+
+/**
+ * The properties for the `ShareLinkControls` component.
+ */
+interface ShareLinkControlsProps {
+  /** The poll whose share link to show. Only its creator is sent the share token. */
+  poll: Poll;
+}
+
+/**
+ * A component that shows the poll creator the poll's share link and lets them rotate it.
+ * Rotating the link makes the old link, and every QR code made from it, stop working.
+ * @param {ShareLinkControlsProps} props - The component properties.
+ */
+export function ShareLinkControls({ poll }: ShareLinkControlsProps) {
+  const [shareToken, setShareToken] = useState(poll.shareToken);
+  const [isRotating, setIsRotating] = useState(false);
+  const [error, setError] = useState("");
+
+  if (!shareToken) return null;
+
+  const shareUrl = getShareUrl(window.location.origin, poll.id, shareToken);
+
+  /**
+   * Replaces the share token, once the creator confirms that the old link may stop working.
+   */
+  const handleRotate = async () => {
+    if (!window.confirm("The current link and its QR codes will stop working. Rotate the share link?")) return;
+
+    setIsRotating(true);
+    setError("");
+
+    const response = await PollAPI.rotateShareToken(poll.id);
+    setIsRotating(false);
+
+    if (!response.success || !response.data) {
+      setError(response.error || "Failed to rotate share link");
+      return;
+    }
+
+    setShareToken(response.data);
+  };
+
+  return (
+    <div className="space-y-3 p-4 border rounded-lg">
+      <div className="space-y-0.5">
+        <Label htmlFor="share-link" className="text-sm font-medium">
+          Share Link
+        </Label>
+        <p className="text-xs text-muted-foreground">
+          {poll.access === "public" || !poll.access
+            ? "Anyone can find this poll; the link also keeps working if you make it unlisted or private"
+            : "Only people with this link can open the poll"}
+        </p>
+      </div>
+      <div className="flex gap-2">
+        <Input id="share-link" value={shareUrl} readOnly onFocus={(e) => e.target.select()} />
+        <Button type="button" variant="outline" onClick={handleRotate} disabled={isRotating}>
+          {isRotating ? "Rotating..." : "Rotate Link"}
+        </Button>
+      </div>
+      {error && (
+        <div className="text-sm text-red-600 bg-red-50 p-3 rounded">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
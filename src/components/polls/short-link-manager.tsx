@@ -0,0 +1,165 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Poll, ShortLink } from "@/types";
+import { formatDate } from "@/lib/utils";
+import { getShortLinkUrl } from "@/lib/short-links";
+import { PollAPI } from "@/lib/api";
+
+/**
+ * The properties for the `ShortLinkManager` component.
+ */
+interface ShortLinkManagerProps {
+  /** The poll the short links lead to. */
+  poll: Poll;
+}
+
+/**
+ * A component that lets the poll creator make labeled short links to the poll, one for each
+ * channel they hand it out on, and compare how often each was clicked. Each link can also be
+ * turned into a QR code.
+ * @param {ShortLinkManagerProps} props - The component properties.
+ */
+export function ShortLinkManager({ poll }: ShortLinkManagerProps) {
+  const [links, setLinks] = useState<ShortLink[]>([]);
+  const [label, setLabel] = useState("");
+  const [slug, setSlug] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    PollAPI.getShortLinks(poll.id)
+      .then(setLinks)
+      .catch(() => setError("Failed to load short links"));
+  }, [poll.id]);
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    setError("");
+
+    const response = await PollAPI.createShortLink(poll.id, label.trim() || undefined, slug.trim() || undefined);
+    setIsSaving(false);
+
+    if (!response.success || !response.data) {
+      setError(response.error || "Failed to create short link");
+      return;
+    }
+
+    setLinks(response.data);
+    setLabel("");
+    setSlug("");
+  };
+
+  /**
+   * Deletes a short link, once the creator confirms it.
+   * @param link The short link to delete.
+   */
+  const handleDelete = async (link: ShortLink) => {
+    if (!window.confirm(`Delete /p/${link.slug}? It will stop working straight away.`)) return;
+
+    setIsSaving(true);
+    setError("");
+
+    const response = await PollAPI.deleteShortLink(poll.id, link.id);
+    setIsSaving(false);
+
+    if (!response.success || !response.data) {
+      setError(response.error || "Failed to delete short link");
+      return;
+    }
+
+    setLinks(response.data);
+  };
+
+  return (
+    <div className="space-y-4 p-4 border rounded-lg">
+      <div className="space-y-0.5">
+        <p className="text-sm font-medium">Short Links</p>
+        <p className="text-xs text-muted-foreground">
+          Make a labeled link for each place you share the poll, and compare their clicks. Short links
+          keep working when the share link is rotated, until they are deleted.
+        </p>
+      </div>
+
+      {links.length > 0 && (
+        <ul className="space-y-2">
+          {links.map((link) => {
+            const url = getShortLinkUrl(window.location.origin, link.slug);
+            return (
+              <li key={link.id} className="space-y-2 p-3 border rounded-lg text-sm">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{link.label ?? "Unlabeled"}</p>
+                    <p className="text-muted-foreground truncate">{url}</p>
+                  </div>
+                  <span className="shrink-0 text-muted-foreground">
+                    {link.clicks} click{link.clicks === 1 ? "" : "s"}
+                  </span>
+                </div>
+                {link.lastClickedAt && (
+                  <p className="text-xs text-muted-foreground">
+                    Last clicked {formatDate(new Date(link.lastClickedAt))}
+                    {link.topReferrers.length > 0 &&
+                      `; from ${link.topReferrers.map((referrer) => `${referrer.host} (${referrer.clicks})`).join(", ")}`}
+                  </p>
+                )}
+                <div className="flex gap-2">
+                  <Button type="button" variant="ghost" size="sm" onClick={() => navigator.clipboard.writeText(url)}>
+                    Copy
+                  </Button>
+                  <Button variant="ghost" size="sm" asChild>
+                    <a href={`/api/polls/${poll.id}/qr?size=600&short_link=${link.slug}`} target="_blank" rel="noreferrer">
+                      QR Code
+                    </a>
+                  </Button>
+                  <Button type="button" variant="ghost" size="sm" onClick={() => handleDelete(link)} disabled={isSaving}>
+                    Delete
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="grid gap-2 sm:grid-cols-2">
+        <div className="space-y-1">
+          <Label htmlFor="short-link-label" className="text-xs">
+            Label
+          </Label>
+          <Input
+            id="short-link-label"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="e.g. Newsletter"
+            maxLength={100}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="short-link-slug" className="text-xs">
+            Slug (optional)
+          </Label>
+          <Input
+            id="short-link-slug"
+            value={slug}
+            onChange={(e) => setSlug(e.target.value)}
+            placeholder="Generated if left empty"
+            maxLength={32}
+          />
+        </div>
+      </div>
+      <Button type="button" variant="outline" onClick={handleCreate} disabled={isSaving}>
+        {isSaving ? "Saving..." : "Create Short Link"}
+      </Button>
+
+      {error && (
+        <div className="text-sm text-red-600 bg-red-50 p-3 rounded">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
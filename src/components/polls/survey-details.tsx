@@ -0,0 +1,430 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Poll, PollResults, QuizResult, SurveyAnswer, SurveyQuestion } from "@/types";
+import { formatDate, describeSelectionLimits, isExpired } from "@/lib/utils";
+import { PollAPI } from "@/lib/api";
+import { DEFAULT_LIKERT_LABELS } from "@/lib/scales";
+import { RankedBallot } from "@/components/polls/ranked-ballot";
+import { RatingBallot } from "@/components/polls/rating-ballot";
+import { LikertBallot } from "@/components/polls/likert-ballot";
+import { SurveyResults } from "@/components/polls/survey-results";
+import { QuizFeedback } from "@/components/polls/quiz-feedback";
+import { QuizLeaderboard } from "@/components/polls/quiz-leaderboard";
+import { PollCountdown } from "@/components/polls/poll-countdown";
+import { PollStatusBadge } from "@/components/polls/poll-status-badge";
+import { PhoneVerificationForm } from "@/components/polls/phone-verification-form";
+import { getEffectiveStatus } from "@/lib/lifecycle";
+import { canViewResults, getHiddenResultsMessage } from "@/lib/visibility";
+import { getBallotMessage } from "@/lib/invitations";
+import { getIneligibleMessage } from "@/lib/eligibility";
+
+/**
+ * The properties for the `SurveyDetails` component.
+ */
+interface SurveyDetailsProps {
+  /** The survey to display. */
+  poll: Poll;
+  /** A callback function that is called when the user responds successfully. */
+  onResponseSuccess?: () => void;
+  /** Whether the user is authenticated. */
+  isAuthenticated?: boolean;
+  /** Whether the user created the survey, who can always see its results. */
+  isCreator?: boolean;
+}
+
+/**
+ * Checks whether an answer is complete enough to submit for its question.
+ * @param question The question.
+ * @param answer The answer, if any.
+ */
+function isAnswered(question: SurveyQuestion, answer: SurveyAnswer | undefined): boolean {
+  if (!answer) return false;
+  switch (question.questionType) {
+    case "ranked_choice":
+      return (answer.ranking?.length ?? 0) > 0;
+    case "likert":
+      return question.options.every((option) => answer.ratings?.some((rating) => rating.optionId === option.id));
+    case "rating":
+    case "nps":
+      return (answer.ratings?.length ?? 0) > 0;
+    default:
+      return question.allowMultipleVotes
+        ? (answer.optionIds?.length ?? 0) >= question.minSelections
+        : Boolean(answer.optionId);
+  }
+}
+
+/**
+ * The ballot for a single survey question, using the same ballots as polls of the same type.
+ * @param props The question, its current answer and a callback for changes.
+ */
+function QuestionBallot({
+  question,
+  answer,
+  onChange,
+}: {
+  question: SurveyQuestion;
+  answer: SurveyAnswer | undefined;
+  onChange: (answer: SurveyAnswer) => void;
+}) {
+  const questionId = question.id;
+
+  if (question.questionType === "ranked_choice") {
+    return (
+      <RankedBallot
+        options={question.options}
+        ranking={answer?.ranking ?? []}
+        onChange={(ranking) => onChange({ questionId, ranking })}
+      />
+    );
+  }
+
+  if (question.questionType === "likert") {
+    const answers = Object.fromEntries((answer?.ratings ?? []).map((rating) => [rating.optionId, rating.value]));
+    return (
+      <LikertBallot
+        rows={question.options}
+        labels={question.scaleLabels?.length ? question.scaleLabels : DEFAULT_LIKERT_LABELS}
+        answers={answers}
+        onChange={(next) =>
+          onChange({
+            questionId,
+            ratings: Object.entries(next).map(([optionId, value]) => ({ optionId, value })),
+          })
+        }
+      />
+    );
+  }
+
+  if (question.questionType === "rating" || question.questionType === "nps") {
+    return (
+      <RatingBallot
+        variant={question.questionType}
+        value={answer?.ratings?.[0]?.value ?? null}
+        onChange={(value) => onChange({ questionId, ratings: [{ value }] })}
+      />
+    );
+  }
+
+  const selected = answer?.optionIds ?? [];
+  const atSelectionLimit = question.maxSelections !== null && selected.length >= question.maxSelections;
+
+  return (
+    <div className="space-y-2">
+      {/* Multiple-vote questions tell the respondent how many options they may pick. */}
+      {question.allowMultipleVotes && (
+        <p className="text-sm text-muted-foreground">
+          {describeSelectionLimits(question.minSelections, question.maxSelections)}
+        </p>
+      )}
+      {question.options.map((option) => {
+        const isSelected = question.allowMultipleVotes
+          ? selected.includes(option.id)
+          : answer?.optionId === option.id;
+
+        const handleToggle = () => {
+          if (!question.allowMultipleVotes) {
+            onChange({ questionId, optionId: option.id });
+          } else if (isSelected) {
+            onChange({ questionId, optionIds: selected.filter((id) => id !== option.id) });
+          } else if (!atSelectionLimit) {
+            onChange({ questionId, optionIds: [...selected, option.id] });
+          }
+        };
+
+        const className = `flex w-full items-center gap-3 p-3 border rounded-lg text-left transition-colors ${
+          isSelected ? "border-primary bg-primary/5" : "border-gray-200 hover:border-gray-300"
+        }`;
+
+        // Multiple-vote questions use checkboxes, while single-choice questions select on click.
+        return question.allowMultipleVotes ? (
+          <div key={option.id} className={className}>
+            <Checkbox
+              id={`option-${option.id}`}
+              checked={isSelected}
+              disabled={!isSelected && atSelectionLimit}
+              onCheckedChange={handleToggle}
+            />
+            <Label htmlFor={`option-${option.id}`} className="font-medium flex-1 cursor-pointer">
+              {option.text}
+            </Label>
+          </div>
+        ) : (
+          <button key={option.id} type="button" className={`${className} cursor-pointer`} aria-pressed={isSelected} onClick={handleToggle}>
+            <span className="font-medium">{option.text}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * A component that displays a survey.
+ * It shows every question in order so they can be answered and submitted as one response,
+ * and lets respondents browse the results question by question afterwards.
+ * @param {SurveyDetailsProps} props - The component properties.
+ */
+export function SurveyDetails({
+  poll,
+  onResponseSuccess,
+  isAuthenticated = false,
+  isCreator = false,
+}: SurveyDetailsProps) {
+  const [answers, setAnswers] = useState<Record<string, SurveyAnswer>>({});
+  const [hasResponded, setHasResponded] = useState(false);
+  const [quizResult, setQuizResult] = useState<QuizResult | null>(null);
+  const [results, setResults] = useState<PollResults | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [verifiedPhone, setVerifiedPhone] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  // Set when a scheduled survey's countdown ends, so the questions appear without a reload.
+  const [, setHasOpened] = useState(false);
+
+  const questions = poll.questions ?? [];
+  const expired = poll.expiresAt ? isExpired(poll.expiresAt) : false;
+  const status = getEffectiveStatus(poll.status, poll.startsAt, poll.expiresAt);
+  const upcoming = status === "scheduled";
+  // Invite-only surveys only take responses from visitors with an unused ballot link.
+  const ballotMessage = hasResponded ? null : getBallotMessage(poll.ballotStatus);
+  // Surveys with eligibility rules tell respondents who may not respond why.
+  const ineligibleMessage =
+    hasResponded || !poll.ineligibleReason
+      ? null
+      : getIneligibleMessage(poll.ineligibleReason, {
+          allowedEmailDomains: poll.allowedEmailDomains ?? null,
+          requireVerified: Boolean(poll.requireVerified),
+          minAccountAgeDays: poll.minAccountAgeDays ?? null,
+        });
+  const canRespond = status === "open" && !hasResponded && !ballotMessage && !ineligibleMessage;
+  // The server hides the results from this viewer until the survey's results visibility allows them.
+  const resultsVisible =
+    !poll.resultsHidden ||
+    canViewResults(poll.resultsVisibility, {
+      isCreator,
+      hasVoted: hasResponded,
+      isClosed: status === "closed" || status === "archived",
+    });
+
+  // We check if the survey requires authentication and if the user is authenticated.
+  const needsAuth = poll.requireAuthentication && !isAuthenticated;
+  // Surveys that require verified phone numbers have anonymous respondents verify theirs first.
+  const needsPhone = Boolean(poll.requirePhoneVerification) && !isAuthenticated && !verifiedPhone;
+
+  // We fetch the results once the respondent can no longer answer.
+  useEffect(() => {
+    if (canRespond || upcoming || !resultsVisible) return;
+
+    PollAPI.getResults(poll.id)
+      .then(setResults)
+      .catch(() => setResults(null));
+  }, [poll.id, canRespond, upcoming, resultsVisible]);
+
+  /**
+   * Handles the response submission.
+   * Every required question must be answered; unanswered optional questions are left out.
+   */
+  const handleSubmit = async () => {
+    const unanswered = questions.findIndex((question) => question.required && !isAnswered(question, answers[question.id]));
+    if (unanswered !== -1) {
+      setError(`Please answer question ${unanswered + 1}`);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError("");
+
+    try {
+      // Respondents who aren't signed in solve the survey's vote challenge first.
+      const challenge = isAuthenticated ? null : await PollAPI.solveVoteChallenge(poll.id);
+      const response = await PollAPI.submitSurveyResponse(
+        poll.id,
+        questions.flatMap((question) => {
+          const answer = answers[question.id];
+          return answer && isAnswered(question, answer) ? [answer] : [];
+        }),
+        challenge,
+        verifiedPhone
+      );
+      if (!response.success) {
+        setError(response.error || "Failed to submit response");
+        return;
+      }
+      setHasResponded(true);
+      setQuizResult(response.quiz ?? null);
+      onResponseSuccess?.();
+    } catch (err) {
+      setError("Failed to submit response. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto">
+      <CardHeader>
+        <div className="space-y-2">
+          <div className="flex items-start justify-between">
+            <CardTitle className="text-xl">{poll.title}</CardTitle>
+            <div className="flex gap-2">
+              {/* We display badges to indicate the survey's status and settings. */}
+              <Badge variant="secondary">{poll.isQuiz ? "Quiz" : "Survey"}</Badge>
+              <PollStatusBadge poll={poll} />
+              {hasResponded && (
+                <Badge variant="outline">Responded</Badge>
+              )}
+              {poll.requireAuthentication && (
+                <Badge variant="secondary">Login Required</Badge>
+              )}
+            </div>
+          </div>
+          {poll.description && (
+            <CardDescription className="text-base">
+              {poll.description}
+            </CardDescription>
+          )}
+          <div className="flex items-center gap-4 text-sm text-muted-foreground">
+            <span>{questions.length} questions</span>
+            {results?.respondents !== undefined && (
+              <>
+                <span>•</span>
+                <span>{results.respondents} respondents</span>
+              </>
+            )}
+            <span>•</span>
+            <span>Created {formatDate(poll.createdAt)}</span>
+            {poll.startsAt && (
+              <>
+                <span>•</span>
+                <span>
+                  {upcoming ? "Opens" : "Opened"} {formatDate(poll.startsAt)}
+                </span>
+              </>
+            )}
+            {poll.expiresAt && (
+              <>
+                <span>•</span>
+                <span>
+                  {expired ? "Expired" : "Expires"} {formatDate(poll.expiresAt)}
+                </span>
+              </>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Scheduled surveys count down to their opening; the questions appear when it opens. */}
+        {upcoming && poll.startsAt && (
+          <PollCountdown startsAt={poll.startsAt} onOpen={() => setHasOpened(true)} />
+        )}
+
+        {/* While the survey is open, every question is shown in order. */}
+        {canRespond && !needsAuth && (
+          <div className="space-y-8">
+            {questions.map((question, index) => (
+              <div key={question.id} className="space-y-3">
+                <h3 className="font-medium">
+                  {index + 1}. {question.text}
+                  {question.required && <span className="text-red-600"> *</span>}
+                </h3>
+                <QuestionBallot
+                  question={question}
+                  answer={answers[question.id]}
+                  onChange={(answer) => setAnswers({ ...answers, [question.id]: answer })}
+                />
+              </div>
+            ))}
+
+            <div className="space-y-4">
+              {error && (
+                <div className="text-sm text-red-600 bg-red-50 p-3 rounded">
+                  {error}
+                </div>
+              )}
+              {needsPhone ? (
+                <PhoneVerificationForm pollId={poll.id} onVerified={setVerifiedPhone} />
+              ) : (
+                <Button onClick={handleSubmit} disabled={isSubmitting} className="w-full">
+                  {isSubmitting ? "Submitting response..." : "Submit Response"}
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Quiz respondents see their score as soon as they submit. */}
+        {quizResult && <QuizFeedback result={quizResult} questions={questions} />}
+
+        {!canRespond && results && <SurveyResults questions={questions} results={results} />}
+
+        {poll.isQuiz && resultsVisible && (
+          <QuizLeaderboard key={hasResponded ? "responded" : "unanswered"} pollId={poll.id} />
+        )}
+
+        {/* If the survey requires authentication and the user is not authenticated, we display a message. */}
+        {needsAuth && canRespond && (
+          <div className="text-center text-sm text-muted-foreground bg-blue-50 p-3 rounded">
+            You must be logged in to respond to this survey.
+          </div>
+        )}
+
+        {/* If the survey is invite-only and the visitor has no unused ballot link, we tell them why they can't respond. */}
+        {ballotMessage && status === "open" && (
+          <div className="text-center text-sm text-muted-foreground bg-blue-50 p-3 rounded">
+            {ballotMessage}
+          </div>
+        )}
+
+        {/* If the user doesn't meet the survey's eligibility rules, we tell them which one. */}
+        {ineligibleMessage && status === "open" && (
+          <div className="text-center text-sm text-muted-foreground bg-blue-50 p-3 rounded">
+            {ineligibleMessage}
+          </div>
+        )}
+
+        {/* If the user has already responded, we display a thank you message. */}
+        {hasResponded && (
+          <div className="text-center text-sm text-muted-foreground bg-green-50 p-3 rounded">
+            {resultsVisible
+              ? "Thank you for your response! You can browse the results above."
+              : "Thank you for your response!"}
+          </div>
+        )}
+
+        {/* If the results are hidden from the viewer, we tell them when they will be shown. */}
+        {!resultsVisible && !canRespond && status !== "draft" && (
+          <div className="text-center text-sm text-muted-foreground bg-gray-50 p-3 rounded">
+            {getHiddenResultsMessage(poll.resultsVisibility ?? "always")}
+          </div>
+        )}
+
+        {/* Drafts are only seen by their creator, until they are published. */}
+        {status === "draft" && (
+          <div className="text-center text-sm text-muted-foreground bg-gray-50 p-3 rounded">
+            This survey is a draft. Publish it to start collecting responses.
+          </div>
+        )}
+
+        {/* If the survey was closed or archived by its creator, we display a message. */}
+        {(poll.status === "closed" || poll.status === "archived") && (
+          <div className="text-center text-sm text-muted-foreground bg-gray-50 p-3 rounded">
+            This survey is closed and no longer accepts responses.
+          </div>
+        )}
+
+        {/* If the survey has expired, we display a message. */}
+        {expired && (
+          <div className="text-center text-sm text-muted-foreground bg-orange-50 p-3 rounded">
+            This survey has expired and no longer accepts responses.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,277 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { CreateSurveyOptionForm, CreateSurveyQuestionForm, QuestionType } from "@/types";
+
+// The types a question can have, and how many options (or Likert statements) each needs.
+export const questionTypes: { value: QuestionType; label: string; minOptions: number }[] = [
+  { value: "standard", label: "Multiple choice", minOptions: 2 },
+  { value: "ranked_choice", label: "Ranked choice", minOptions: 2 },
+  { value: "rating", label: "Star rating (1-5)", minOptions: 0 },
+  { value: "nps", label: "Net Promoter Score (0-10)", minOptions: 0 },
+  { value: "likert", label: "Likert scale", minOptions: 1 },
+];
+
+/** The most questions a survey can have. */
+export const MAX_SURVEY_QUESTIONS = 20;
+
+/**
+ * Returns how many options a question of the given type needs.
+ * @param questionType The question type.
+ */
+export function getMinOptions(questionType: QuestionType): number {
+  return questionTypes.find((type) => type.value === questionType)?.minOptions ?? 2;
+}
+
+/**
+ * Marks or unmarks an option as a correct quiz answer.
+ * Single-choice questions have one correct option, so marking another one replaces it.
+ * @param correctOptions The indexes of the options currently marked correct.
+ * @param index The index of the option to toggle.
+ * @param allowMultiple Whether the question allows multiple selections.
+ */
+export function toggleCorrectOption(correctOptions: number[] = [], index: number, allowMultiple: boolean): number[] {
+  if (correctOptions.includes(index)) return correctOptions.filter((i) => i !== index);
+  return allowMultiple ? [...correctOptions, index] : [index];
+}
+
+/**
+ * Keeps the correct quiz answers in step with the options when one of them is removed.
+ * @param correctOptions The indexes of the options marked correct.
+ * @param index The index of the removed option.
+ */
+export function removeCorrectOption(correctOptions: number[] = [], index: number): number[] {
+  return correctOptions.filter((i) => i !== index).map((i) => (i > index ? i - 1 : i));
+}
+
+/** A new, empty option for a survey question. */
+export const emptySurveyOption = (): CreateSurveyOptionForm => ({ id: crypto.randomUUID(), text: "" });
+
+/** A new, empty multiple-choice question. */
+export const emptySurveyQuestion = (): CreateSurveyQuestionForm => ({
+  id: crypto.randomUUID(),
+  text: "",
+  questionType: "standard",
+  options: [emptySurveyOption(), emptySurveyOption()],
+  allowMultipleVotes: false,
+  required: true,
+});
+
+/**
+ * The properties for the `SurveyQuestionsEditor` component.
+ */
+interface SurveyQuestionsEditorProps {
+  /** The survey's questions, in order. */
+  questions: CreateSurveyQuestionForm[];
+  /** A callback function that is called with the new questions whenever they change. */
+  onChange: (questions: CreateSurveyQuestionForm[]) => void;
+  /** Whether the survey is a quiz, which lets multiple choice questions have correct options. */
+  isQuiz?: boolean;
+}
+
+/**
+ * An editor for the ordered questions of a survey.
+ * Each question has its own text, type and options, and can be moved, removed or marked as optional.
+ * On quizzes, the correct options of multiple choice questions are marked here too.
+ * @param {SurveyQuestionsEditorProps} props - The component properties.
+ */
+export function SurveyQuestionsEditor({ questions, onChange, isQuiz = false }: SurveyQuestionsEditorProps) {
+  /**
+   * Applies changes to a single question.
+   * @param index The index of the question to change.
+   * @param changes The changed fields.
+   */
+  const updateQuestion = (index: number, changes: Partial<CreateSurveyQuestionForm>) => {
+    onChange(questions.map((question, i) => (i === index ? { ...question, ...changes } : question)));
+  };
+
+  /**
+   * Swaps a question with its neighbour.
+   * @param index The index of the question to move.
+   * @param offset -1 to move the question up, 1 to move it down.
+   */
+  const moveQuestion = (index: number, offset: number) => {
+    const target = index + offset;
+    const moved = questions[index];
+    const displaced = questions[target];
+    if (!moved || !displaced) return;
+
+    const reordered = [...questions];
+    reordered[index] = displaced;
+    reordered[target] = moved;
+    onChange(reordered);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Label>Questions *</Label>
+      {questions.map((question, index) => {
+        const minOptions = getMinOptions(question.questionType);
+        const isScored = isQuiz && question.questionType === "standard";
+
+        return (
+          <div key={question.id} className="space-y-3 p-4 border rounded-lg">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">Question {index + 1}</span>
+              <div className="flex gap-1">
+                <Button type="button" variant="outline" size="sm" disabled={index === 0} onClick={() => moveQuestion(index, -1)}>
+                  ↑
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={index === questions.length - 1}
+                  onClick={() => moveQuestion(index, 1)}
+                >
+                  ↓
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={questions.length === 1}
+                  onClick={() => onChange(questions.filter((_, i) => i !== index))}
+                >
+                  Remove
+                </Button>
+              </div>
+            </div>
+
+            <Input
+              placeholder="What do you want to ask?"
+              value={question.text}
+              onChange={(e) => updateQuestion(index, { text: e.target.value })}
+            />
+
+            <select
+              aria-label={`Question ${index + 1} type`}
+              value={question.questionType}
+              onChange={(e) => {
+                const questionType = e.target.value as QuestionType;
+                updateQuestion(index, {
+                  questionType,
+                  allowMultipleVotes: questionType === "standard" ? question.allowMultipleVotes : false,
+                  correctOptions: questionType === "standard" ? question.correctOptions ?? [] : [],
+                });
+              }}
+              className="border-input h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs"
+            >
+              {questionTypes.map((type) => (
+                <option key={type.value} value={type.value}>
+                  {type.label}
+                </option>
+              ))}
+            </select>
+
+            {/* Rating and NPS questions have no options to fill in. */}
+            {minOptions > 0 && (
+              <div className="space-y-2">
+                {question.options.map((option, optionIndex) => (
+                  <div key={option.id} className="flex gap-2">
+                    <Input
+                      placeholder={question.questionType === "likert" ? `Statement ${optionIndex + 1}` : `Option ${optionIndex + 1}`}
+                      value={option.text}
+                      onChange={(e) =>
+                        updateQuestion(index, {
+                          options: question.options.map((other) => (other.id === option.id ? { ...other, text: e.target.value } : other)),
+                        })
+                      }
+                    />
+                    {/* On quizzes, the correct options are marked next to the options themselves. */}
+                    {isScored && (
+                      <div className="flex items-center gap-2 shrink-0">
+                        <Checkbox
+                          id={`question-${index}-correct-${optionIndex}`}
+                          checked={question.correctOptions?.includes(optionIndex) ?? false}
+                          onCheckedChange={() =>
+                            updateQuestion(index, {
+                              correctOptions: toggleCorrectOption(question.correctOptions, optionIndex, question.allowMultipleVotes),
+                            })
+                          }
+                        />
+                        <Label htmlFor={`question-${index}-correct-${optionIndex}`} className="text-sm">
+                          Correct
+                        </Label>
+                      </div>
+                    )}
+                    {question.options.length > minOptions && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          updateQuestion(index, {
+                            options: question.options.filter((_, i) => i !== optionIndex),
+                            correctOptions: removeCorrectOption(question.correctOptions, optionIndex),
+                          })
+                        }
+                      >
+                        Remove
+                      </Button>
+                    )}
+                  </div>
+                ))}
+                {question.options.length < 10 && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateQuestion(index, { options: [...question.options, emptySurveyOption()] })}
+                  >
+                    Add Option
+                  </Button>
+                )}
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id={`question-${index}-required`}
+                  checked={question.required}
+                  onCheckedChange={(checked) => updateQuestion(index, { required: checked === true })}
+                />
+                <Label htmlFor={`question-${index}-required`} className="text-sm">
+                  Required
+                </Label>
+              </div>
+              {question.questionType === "standard" && (
+                <div className="flex items-center gap-2">
+                  <Label htmlFor={`question-${index}-multiple`} className="text-sm">
+                    Allow multiple selections
+                  </Label>
+                  <Switch
+                    id={`question-${index}-multiple`}
+                    checked={question.allowMultipleVotes}
+                    onCheckedChange={(checked) =>
+                      updateQuestion(index, {
+                        allowMultipleVotes: checked,
+                        correctOptions: (question.correctOptions ?? []).slice(0, checked ? undefined : 1),
+                      })
+                    }
+                  />
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      {questions.length < MAX_SURVEY_QUESTIONS && (
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => onChange([...questions, emptySurveyQuestion()])}
+          className="w-full"
+        >
+          Add Question
+        </Button>
+      )}
+    </div>
+  );
+}
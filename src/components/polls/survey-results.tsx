@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { PollResults, SurveyQuestion } from "@/types";
+import { calculatePercentage } from "@/lib/utils";
+import { DEFAULT_LIKERT_LABELS, isScalePoll } from "@/lib/scales";
+import { RunoffRounds } from "@/components/polls/runoff-rounds";
+import { RatingSummary } from "@/components/polls/rating-summary";
+
+/**
+ * The properties for the `SurveyResults` component.
+ */
+interface SurveyResultsProps {
+  /** The survey's questions, in order. */
+  questions: SurveyQuestion[];
+  /** The tallied results of the survey. */
+  results: PollResults;
+}
+
+/**
+ * A component that displays the results of a survey one question at a time.
+ * Each question is shown the same way as the results of a poll of the same type.
+ * @param {SurveyResultsProps} props - The component properties.
+ */
+export function SurveyResults({ questions, results }: SurveyResultsProps) {
+  const [index, setIndex] = useState(0);
+
+  const questionResults = results.questions ?? [];
+  const current = questionResults[index];
+  const question = questions.find((candidate) => candidate.id === current?.questionId);
+
+  if (!current || !question) {
+    return <p className="text-sm text-muted-foreground text-center">No results yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Respondents can jump straight to any question. */}
+      <div className="flex flex-wrap gap-1">
+        {questionResults.map((result, position) => (
+          <Button
+            key={result.questionId}
+            variant={position === index ? "default" : "outline"}
+            size="sm"
+            onClick={() => setIndex(position)}
+            aria-label={`Question ${position + 1}`}
+          >
+            {position + 1}
+          </Button>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <p className="text-xs text-muted-foreground">
+          Question {index + 1} of {questionResults.length} • {current.totalVotes} answers
+        </p>
+        <h3 className="font-medium">{current.text}</h3>
+      </div>
+
+      {current.rankedChoice && <RunoffRounds options={question.options} result={current.rankedChoice} />}
+
+      {isScalePoll(current.pollType) && (
+        <RatingSummary
+          results={current}
+          options={question.options}
+          scaleLabels={question.scaleLabels?.length ? question.scaleLabels : DEFAULT_LIKERT_LABELS}
+        />
+      )}
+
+      {!current.rankedChoice && !isScalePoll(current.pollType) && (
+        <div className="space-y-3">
+          {current.options.map((option) => {
+            // Multiple-vote questions are measured against respondents, like approval polls.
+            const approvalResult = current.approval?.options.find((result) => result.optionId === option.id);
+            const percentage = approvalResult
+              ? approvalResult.approvalShare
+              : calculatePercentage(option.votes, current.totalVotes);
+
+            return (
+              <div key={option.id} className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium">{option.text}</span>
+                  <span className="text-muted-foreground">
+                    {option.votes} votes ({percentage}%)
+                  </span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div className="h-2 rounded-full bg-primary" style={{ width: `${percentage}%` }} />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex justify-between">
+        <Button variant="outline" size="sm" disabled={index === 0} onClick={() => setIndex(index - 1)}>
+          Previous
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={index === questionResults.length - 1}
+          onClick={() => setIndex(index + 1)}
+        >
+          Next
+        </Button>
+      </div>
+    </div>
+  );
+}
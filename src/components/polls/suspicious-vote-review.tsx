@@ -0,0 +1,145 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Poll, SuspiciousBallot } from "@/types";
+import { formatDate } from "@/lib/utils";
+import { FRAUD_FLAG_LABELS } from "@/lib/fraud";
+import { PollAPI } from "@/lib/api";
+
+/**
+ * The properties for the `SuspiciousVoteReview` component.
+ */
+interface SuspiciousVoteReviewProps {
+  /** The poll whose votes are reviewed. */
+  poll: Poll;
+}
+
+/**
+ * A component that shows the poll creator the ballots flagged as suspicious, and lets them exclude
+ * a ballot from the tallies with a reason, or count an excluded ballot again. Flagged ballots are
+ * counted until they are excluded.
+ * @param {SuspiciousVoteReviewProps} props - The component properties.
+ */
+export function SuspiciousVoteReview({ poll }: SuspiciousVoteReviewProps) {
+  const [ballots, setBallots] = useState<SuspiciousBallot[]>([]);
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    PollAPI.getSuspiciousVotes(poll.id)
+      .then(setBallots)
+      .catch(() => setError("Failed to load suspicious votes"));
+  }, [poll.id]);
+
+  /**
+   * Excludes a ballot from the tallies, or counts it again.
+   * @param ballot The ballot.
+   * @param excluded Whether to exclude the ballot.
+   */
+  const handleReview = async (ballot: SuspiciousBallot, excluded: boolean) => {
+    const key = ballot.voteIds[0] ?? "";
+    const reason = reasons[key]?.trim();
+    if (excluded && !reason) {
+      setError("Give a reason for excluding the vote");
+      return;
+    }
+
+    setIsSaving(true);
+    setError("");
+
+    const response = await PollAPI.reviewVotes(poll.id, ballot.voteIds, excluded, excluded ? reason : undefined);
+    setIsSaving(false);
+
+    if (!response.success || !response.data) {
+      setError(response.error || "Failed to update votes");
+      return;
+    }
+
+    setBallots(response.data);
+    setReasons((current) => ({ ...current, [key]: "" }));
+  };
+
+  return (
+    <div className="space-y-4 p-4 border rounded-lg">
+      <div className="space-y-0.5">
+        <p className="text-sm font-medium">Suspicious Votes</p>
+        <p className="text-xs text-muted-foreground">
+          Votes that look like ballot stuffing are flagged here. They still count until you exclude them.
+        </p>
+      </div>
+
+      {ballots.length === 0 && !error && <p className="text-sm text-muted-foreground">No votes have been flagged.</p>}
+
+      {ballots.length > 0 && (
+        <ul className="space-y-2">
+          {ballots.map((ballot) => {
+            const key = ballot.voteIds[0] ?? "";
+            return (
+              <li key={key} className="space-y-2 p-3 border rounded-lg text-sm">
+                <div className="flex flex-wrap gap-1">
+                  {ballot.flags.map((flag) => (
+                    <Badge key={flag} variant="secondary" className="text-xs">
+                      {FRAUD_FLAG_LABELS[flag]}
+                    </Badge>
+                  ))}
+                  {ballot.excluded && (
+                    <Badge variant="destructive" className="text-xs">
+                      Excluded
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground break-all">
+                  {ballot.voter ?? "Signed-in voter"} · {ballot.ipAddress ?? "Unknown IP"} ·{" "}
+                  {formatDate(new Date(ballot.createdAt))}
+                </p>
+                {ballot.userAgent && <p className="text-xs text-muted-foreground break-all">{ballot.userAgent}</p>}
+
+                {ballot.excluded ? (
+                  <div className="flex items-center justify-between gap-4">
+                    <span className="text-muted-foreground">Reason: {ballot.exclusionReason}</span>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleReview(ballot, false)}
+                      disabled={isSaving}
+                    >
+                      Count Again
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <Input
+                      value={reasons[key] ?? ""}
+                      onChange={(e) => setReasons((current) => ({ ...current, [key]: e.target.value }))}
+                      placeholder="Reason for excluding"
+                      maxLength={200}
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => handleReview(ballot, true)}
+                      disabled={isSaving || !reasons[key]?.trim()}
+                    >
+                      Exclude
+                    </Button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {error && (
+        <div className="text-sm text-red-600 bg-red-50 p-3 rounded">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { PollOption, VoteChange } from "@/types";
+import { formatDate } from "@/lib/utils";
+import { describeBallot } from "@/lib/ballots";
+import { PollAPI } from "@/lib/api";
+
+/**
+ * The properties for the `VoteChangeHistory` component.
+ */
+interface VoteChangeHistoryProps {
+  /** The ID of the poll. */
+  pollId: string;
+  /** The poll's options, used to describe each ballot. */
+  options: PollOption[];
+}
+
+/**
+ * A component that shows the poll creator every changed and retracted vote, newest first.
+ * @param {VoteChangeHistoryProps} props - The component properties.
+ */
+export function VoteChangeHistory({ pollId, options }: VoteChangeHistoryProps) {
+  const [changes, setChanges] = useState<VoteChange[]>([]);
+
+  useEffect(() => {
+    PollAPI.getVoteChanges(pollId)
+      .then(setChanges)
+      .catch(() => setChanges([]));
+  }, [pollId]);
+
+  if (changes.length === 0) return null;
+
+  return (
+    <div className="space-y-3 border-t pt-6">
+      <h3 className="font-medium">Vote Changes</h3>
+      <ul className="space-y-2">
+        {changes.map((change) => (
+          <li key={change.id} className="p-3 border rounded-lg text-sm space-y-1">
+            <div className="flex items-center justify-between gap-4">
+              <span className="font-medium">
+                {change.voter} {change.action === "retracted" ? "retracted their vote" : "changed their vote"}
+              </span>
+              <span className="text-xs text-muted-foreground shrink-0">
+                {formatDate(new Date(change.changedAt))}
+              </span>
+            </div>
+            <div className="text-muted-foreground">
+              {describeBallot(change.previousBallot, options)}
+              {change.newBallot && <> → {describeBallot(change.newBallot, options)}</>}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
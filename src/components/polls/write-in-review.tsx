@@ -0,0 +1,99 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { WriteInGroup } from "@/types";
+import { PollAPI } from "@/lib/api";
+
+/**
+ * The properties for the `WriteInReview` component.
+ */
+interface WriteInReviewProps {
+  /** The ID of the poll whose write-ins to review. */
+  pollId: string;
+  /** A callback function that is called after a write-in is promoted to an option. */
+  onPromote?: () => void;
+}
+
+/**
+ * A component that lets the poll creator review write-in answers.
+ * Write-ins are grouped by normalized text, and a group can be promoted to a real option
+ * that inherits its votes.
+ * @param {WriteInReviewProps} props - The component properties.
+ */
+export function WriteInReview({ pollId, onPromote }: WriteInReviewProps) {
+  const [groups, setGroups] = useState<WriteInGroup[]>([]);
+  const [promoting, setPromoting] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  const loadWriteIns = useCallback(() => {
+    PollAPI.getWriteIns(pollId)
+      .then(setGroups)
+      .catch(() => setGroups([]));
+  }, [pollId]);
+
+  useEffect(() => {
+    loadWriteIns();
+  }, [loadWriteIns]);
+
+  /**
+   * Promotes a write-in group to a poll option.
+   * @param key The normalized text of the group.
+   */
+  const handlePromote = async (key: string) => {
+    setPromoting(key);
+    setError("");
+
+    const response = await PollAPI.promoteWriteIn(pollId, key);
+    setPromoting(null);
+
+    if (!response.success) {
+      setError(response.error || "Failed to promote write-in");
+      return;
+    }
+
+    loadWriteIns();
+    onPromote?.();
+  };
+
+  if (groups.length === 0) return null;
+
+  return (
+    <div className="space-y-3 border-t pt-6">
+      <div>
+        <h3 className="font-medium">Write-in Answers</h3>
+        <p className="text-sm text-muted-foreground">
+          Promote a frequent answer to an option; its votes move with it.
+        </p>
+      </div>
+      {error && (
+        <div className="text-sm text-red-600 bg-red-50 p-3 rounded">
+          {error}
+        </div>
+      )}
+      {groups.map((group) => (
+        <div key={group.key} className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+          <div className="space-y-1">
+            <div className="font-medium">{group.text}</div>
+            {group.variants.length > 1 && (
+              <div className="text-xs text-muted-foreground">
+                Also written as: {group.variants.filter((variant) => variant !== group.text).join(", ")}
+              </div>
+            )}
+          </div>
+          <div className="flex items-center gap-3 shrink-0">
+            <span className="text-sm text-muted-foreground">{group.count} votes</span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={promoting !== null}
+              onClick={() => handlePromote(group.key)}
+            >
+              {promoting === group.key ? "Promoting..." : "Promote"}
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
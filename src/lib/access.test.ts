@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { checkPollAccess, getShareUrl } from '@/lib/access';
+
+const visitor = { isCreator: false, isSignedIn: false, hasShareToken: false };
+
+describe('checkPollAccess', () => {
+  it('should let anyone open public polls and creators open their own polls', () => {
+    expect(checkPollAccess('public', visitor)).toBe('granted');
+    expect(checkPollAccess(undefined, visitor)).toBe('granted');
+    expect(checkPollAccess('private', { ...visitor, isCreator: true })).toBe('granted');
+  });
+
+  it('should require the share token for unlisted and private polls', () => {
+    expect(checkPollAccess('unlisted', visitor)).toBe('not_found');
+    expect(checkPollAccess('private', { ...visitor, isSignedIn: true })).toBe('not_found');
+    expect(checkPollAccess('unlisted', { ...visitor, hasShareToken: true })).toBe('granted');
+  });
+
+  it('should ask visitors with the share token to sign in to private polls', () => {
+    expect(checkPollAccess('private', { ...visitor, hasShareToken: true })).toBe('sign_in');
+    expect(checkPollAccess('private', { ...visitor, hasShareToken: true, isSignedIn: true })).toBe('granted');
+  });
+});
+
+describe('getShareUrl', () => {
+  it('should put the share token in the poll link', () => {
+    expect(getShareUrl('https://example.com', 'poll-1', 'abc')).toBe('https://example.com/polls/poll-1?token=abc');
+  });
+});
@@ -0,0 +1,50 @@
+import { PollAccess } from '@/types';
+
+/** Every access level, from most to least open. */
+export const POLL_ACCESS_LEVELS: PollAccess[] = ['public', 'unlisted', 'private'];
+
+/** Human-readable names for each access level, used in the poll settings. */
+export const POLL_ACCESS_LABELS: Record<PollAccess, string> = {
+  public: 'Public',
+  unlisted: 'Unlisted (share link only)',
+  private: 'Private (share link and sign-in)'
+};
+
+/**
+ * The outcome of an access check. Polls a visitor can't open are reported as not found, so that
+ * their existence isn't revealed; private polls ask visitors with the share link to sign in.
+ */
+export type PollAccessCheck = 'granted' | 'not_found' | 'sign_in';
+
+/** Who is asking to open a poll. */
+export interface PollVisitor {
+  /** Whether the visitor created the poll. */
+  isCreator: boolean;
+  /** Whether the visitor is signed in. */
+  isSignedIn: boolean;
+  /** Whether the visitor came with the poll's current share token. */
+  hasShareToken: boolean;
+}
+
+/**
+ * Checks whether a visitor may open a poll. The creator can always open their own polls.
+ * @param access The poll's access level; polls without one are public.
+ * @param visitor The visitor.
+ */
+export function checkPollAccess(access: PollAccess | undefined, visitor: PollVisitor): PollAccessCheck {
+  if (visitor.isCreator || (access ?? 'public') === 'public') return 'granted';
+  if (!visitor.hasShareToken) return 'not_found';
+  if (access === 'private' && !visitor.isSignedIn) return 'sign_in';
+  return 'granted';
+}
+
+/**
+ * Builds a poll's share link. The link carries the share token, so it keeps working if the poll
+ * is later made unlisted or private, until the token is rotated.
+ * @param baseUrl The app's base URL.
+ * @param pollId The ID of the poll.
+ * @param shareToken The poll's share token.
+ */
+export function getShareUrl(baseUrl: string, pollId: string, shareToken: string): string {
+  return `${baseUrl}/polls/${pollId}?token=${shareToken}`;
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
-import { AppError, formatErrorResponse, logError } from './errors';
+import { AppError, RateLimitError, formatErrorResponse, logError } from './errors';
+import { getRateLimitHeaders } from './rate-limit';
 import { ZodError } from 'zod';
 
 export interface SuccessResponse<T = any> {
@@ -55,6 +56,17 @@ export function handleApiError(error: unknown, context?: Record<string, any>): N
     );
   }
 
+  // Rate limited requests are told when they may try again
+  if (error instanceof RateLimitError) {
+    return NextResponse.json(
+      formatErrorResponse(error),
+      {
+        status: error.statusCode,
+        ...(error.rateLimit && { headers: getRateLimitHeaders(error.rateLimit) })
+      }
+    );
+  }
+
   // Handle our custom AppError
   if (error instanceof AppError) {
     return NextResponse.json(
@@ -2,9 +2,78 @@
 import { http, HttpResponse } from 'msw';
 import { describe, expect, it } from 'vitest';
 import { PollAPI } from '@/lib/api';
+import { PollResponse, toPollForm } from '@/lib/polls';
+import { createPollSchema, voteSchema } from '@/lib/validations';
 import { server } from '@/lib/setup-tests';
 import { CreatePollForm, Poll } from '@/types';
 
+/** A poll as the poll endpoint sends it. */
+function pollRow(overrides: Partial<PollResponse> = {}): PollResponse {
+  return {
+    id: '1',
+    title: 'Test Poll',
+    description: 'A test poll',
+    created_by: 'user1',
+    status: 'open',
+    allow_multiple_votes: true,
+    require_authentication: false,
+    allow_write_in: false,
+    is_quiz: false,
+    allow_vote_changes: false,
+    results_visibility: 'always',
+    access: 'public',
+    password_protected: false,
+    invite_only: false,
+    allowed_email_domains: null,
+    require_verified: false,
+    min_account_age_days: null,
+    challenge_difficulty: 16,
+    require_phone_verification: false,
+    poll_type: 'standard',
+    scale_labels: null,
+    min_selections: 1,
+    max_selections: null,
+    starts_at: null,
+    expires_at: null,
+    qr_code_url: null,
+    created_at: '2025-01-01T00:00:00.000Z',
+    updated_at: '2025-01-01T00:00:00.000Z',
+    poll_options: [
+      { id: 'b', poll_id: '1', question_id: null, text: 'Option 2', order_index: 1, created_at: '2025-01-01T00:00:00.000Z', votes: 0 },
+      { id: 'a', poll_id: '1', question_id: null, text: 'Option 1', order_index: 0, created_at: '2025-01-01T00:00:00.000Z', votes: 2 },
+    ],
+    ...overrides,
+  };
+}
+
+/**
+ * Opens a poll in the edit form and saves it, the way the edit page does.
+ * @param row The poll as the endpoint sends it.
+ * @param change What the creator changes in the form; nothing by default.
+ * @returns The body the poll was saved with.
+ */
+async function editPoll(
+  row: PollResponse,
+  change: (form: CreatePollForm) => CreatePollForm = (form) => form
+): Promise<Record<string, unknown>> {
+  let body: Record<string, unknown> = {};
+  server.use(
+    http.get('/api/polls/1', () => HttpResponse.json({ success: true, data: row })),
+    http.put('/api/polls/1', async ({ request }) => {
+      body = (await request.json()) as Record<string, unknown>;
+      return HttpResponse.json({ success: true, data: row });
+    })
+  );
+
+  const poll = await PollAPI.getPoll('1');
+  if (!poll) throw new Error('Poll not found');
+  const result = await PollAPI.updatePoll('1', change(toPollForm(poll)));
+  expect(result.success).toBe(true);
+  // The poll endpoint must take the body as it is.
+  expect(createPollSchema.safeParse(body).success).toBe(true);
+  return body;
+}
+
 describe('PollAPI', () => {
   it('should fetch polls', async () => {
     const mockPolls: Poll[] = [
@@ -32,26 +101,163 @@ describe('PollAPI', () => {
   });
 
   it('should fetch a single poll', async () => {
-    const mockPoll: Poll = {
+    server.use(
+      http.get('/api/polls/1', () => {
+        return HttpResponse.json({ success: true, data: pollRow() });
+      })
+    );
+
+    const poll = await PollAPI.getPoll('1');
+    expect(poll).toMatchObject({
       id: '1',
       title: 'Test Poll',
       description: 'A test poll',
-      options: [{ id: '1', text: 'Option 1', vote_count: 0 }],
-      created_at: new Date().toISOString(),
-      expires_at: null,
-      allow_multiple_votes: false,
-      require_authentication: false,
-      created_by: 'user1',
-    };
+      options: [
+        { id: 'a', text: 'Option 1', votes: 2 },
+        { id: 'b', text: 'Option 2', votes: 0 },
+      ],
+      createdBy: 'user1',
+      createdAt: new Date('2025-01-01T00:00:00.000Z'),
+      status: 'open',
+      allowMultipleVotes: true,
+      requireAuthentication: false,
+    });
+    expect(poll?.expiresAt).toBeUndefined();
+  });
 
-    server.use(
-      http.get('/api/polls/1', () => {
-        return HttpResponse.json({ data: mockPoll });
+  it('should clear the description and dates the creator removed', async () => {
+    const row = pollRow({ starts_at: '2099-01-01T00:00:00.000Z', expires_at: '2099-02-01T00:00:00.000Z' });
+    const body = await editPoll(row, ({ description: _description, startsAt: _startsAt, expiresAt: _expiresAt, ...form }) => form);
+
+    expect(body).toMatchObject({ description: null, starts_at: null, expires_at: null });
+  });
+
+  it('should keep the selection limits through an edit', async () => {
+    const row = pollRow({ min_selections: 2, max_selections: 3 });
+    row.poll_options.push({ ...row.poll_options[0]!, id: 'c', text: 'Option 3', order_index: 2 });
+    const body = await editPoll(row);
+
+    expect(body).toMatchObject({
+      title: 'Test Poll',
+      options: ['Option 1', 'Option 2', 'Option 3'],
+      allow_multiple_votes: true,
+      min_selections: 2,
+      max_selections: 3,
+    });
+  });
+
+  it('should keep vote changes allowed through an edit', async () => {
+    const body = await editPoll(pollRow({ allow_vote_changes: true }));
+
+    expect(body).toMatchObject({ allow_vote_changes: true });
+  });
+
+  it('should keep the results visibility through an edit', async () => {
+    const body = await editPoll(pollRow({ results_visibility: 'after_close' }));
+
+    expect(body).toMatchObject({ results_visibility: 'after_close' });
+  });
+
+  it('should keep a poll invite-only through an edit', async () => {
+    const body = await editPoll(pollRow({ invite_only: true }));
+
+    expect(body).toMatchObject({ invite_only: true });
+  });
+
+  it('should keep the eligibility rules through an edit', async () => {
+    const body = await editPoll(
+      pollRow({ allowed_email_domains: ['example.com'], require_verified: true, min_account_age_days: 30 })
+    );
+
+    expect(body).toMatchObject({
+      allowed_email_domains: ['example.com'],
+      require_verified: true,
+      min_account_age_days: 30,
+    });
+  });
+
+  it('should keep the bot protection level through an edit', async () => {
+    const zero = await editPoll(pollRow({ challenge_difficulty: 0 }));
+    const high = await editPoll(pollRow({ challenge_difficulty: 20 }));
+
+    expect(zero).toMatchObject({ challenge_difficulty: 0 });
+    expect(high).toMatchObject({ challenge_difficulty: 20 });
+  });
+
+  it('should keep phone verification required through an edit', async () => {
+    const body = await editPoll(pollRow({ require_phone_verification: true }));
+
+    expect(body).toMatchObject({ require_phone_verification: true });
+  });
+
+  it('should keep the type of rating and Likert polls through an edit', async () => {
+    const rating = await editPoll(pollRow({ poll_type: 'rating', allow_multiple_votes: false, poll_options: [] }));
+    const likert = await editPoll(
+      pollRow({
+        poll_type: 'likert',
+        allow_multiple_votes: false,
+        scale_labels: ['Disagree', 'Neutral', 'Agree'],
+        poll_options: [
+          { id: 'a', poll_id: '1', question_id: null, text: 'The food is good', order_index: 0, created_at: '2025-01-01T00:00:00.000Z' }
+        ]
       })
     );
 
-    const poll = await PollAPI.getPoll('1');
-    expect(poll).toEqual(mockPoll);
+    expect(rating).toMatchObject({ poll_type: 'rating', options: [] });
+    expect(likert).toMatchObject({
+      poll_type: 'likert',
+      options: ['The food is good'],
+      scale_labels: ['Disagree', 'Neutral', 'Agree']
+    });
+  });
+
+  it('should keep the questions of a survey through an edit', async () => {
+    const option = (id: string, text: string, orderIndex: number) => ({
+      id,
+      poll_id: '1',
+      question_id: 'q1',
+      text,
+      order_index: orderIndex,
+      created_at: '2025-01-01T00:00:00.000Z'
+    });
+    const body = await editPoll(
+      pollRow({
+        poll_type: 'survey',
+        allow_multiple_votes: false,
+        poll_options: [option('a', 'Pizza', 0), option('b', 'Tacos', 1)],
+        questions: [
+          {
+            id: 'q1',
+            text: 'Lunch?',
+            questionType: 'standard',
+            options: [{ id: 'a', text: 'Pizza', votes: 0 }, { id: 'b', text: 'Tacos', votes: 0 }],
+            allowMultipleVotes: false,
+            minSelections: 1,
+            maxSelections: null,
+            required: true
+          },
+          {
+            id: 'q2',
+            text: 'How was it?',
+            questionType: 'rating',
+            options: [],
+            allowMultipleVotes: false,
+            minSelections: 1,
+            maxSelections: null,
+            required: false
+          }
+        ]
+      })
+    );
+
+    expect(body).toMatchObject({
+      poll_type: 'survey',
+      options: [],
+      questions: [
+        { text: 'Lunch?', question_type: 'standard', options: ['Pizza', 'Tacos'], is_required: true },
+        { text: 'How was it?', question_type: 'rating', options: [], is_required: false }
+      ]
+    });
   });
 
   it('should create a poll', async () => {
@@ -85,4 +291,33 @@ describe('PollAPI', () => {
     expect(result.success).toBe(true);
     expect(result.data).toEqual(mockCreatedPoll);
   });
+
+  it('should vote with the phone number the voter verified', async () => {
+    const pollId = '3f2c9a6e-4b1d-4c8e-9f1a-2b3c4d5e6f70';
+    const optionId = '8a7b6c5d-4e3f-4a1b-8c2d-3e4f5a6b7c8d';
+    const verificationId = '1b2c3d4e-5f6a-4b7c-8d9e-0f1a2b3c4d5e';
+    let vote: Record<string, unknown> = {};
+    server.use(
+      http.post(`/api/polls/${pollId}/phone-verification`, () =>
+        HttpResponse.json({ success: true, data: { verification_id: verificationId, expires_at: '2025-01-01T00:10:00.000Z' } })
+      ),
+      http.put(`/api/polls/${pollId}/phone-verification`, () =>
+        HttpResponse.json({ success: true, data: { phone: '+15551234567' } })
+      ),
+      http.post(`/api/polls/${pollId}/vote`, async ({ request }) => {
+        vote = (await request.json()) as Record<string, unknown>;
+        return HttpResponse.json({ success: true, data: { id: 'vote-1' } });
+      })
+    );
+
+    const code = await PollAPI.requestPhoneCode(pollId, '+15551234567');
+    expect(code.data?.verification_id).toBe(verificationId);
+    expect((await PollAPI.verifyPhoneCode(pollId, verificationId, '123456')).success).toBe(true);
+    const result = await PollAPI.vote(pollId, optionId, undefined, null, '+15551234567');
+
+    expect(result.success).toBe(true);
+    expect(vote).toMatchObject({ poll_id: pollId, option_id: optionId, voter_phone: '+15551234567' });
+    // The vote endpoint must take the ballot as it is.
+    expect(voteSchema.safeParse(vote).success).toBe(true);
+  });
 });
@@ -1,4 +1,28 @@
-import { Poll, CreatePollForm, Vote, ApiResponse } from '@/types';
+import {
+  Poll,
+  PollOption,
+  CreatePollForm,
+  Vote,
+  ApiResponse,
+  PollResults,
+  SurveyAnswer,
+  WriteInGroup,
+  QuizResult,
+  LeaderboardEntry,
+  Ballot,
+  VoteChange,
+  PollStatus,
+  PollInvitations,
+  PollShare,
+  ShareChannelStats,
+  ShareMethod,
+  SharePlatform,
+  ShortLink,
+  SuspiciousBallot,
+  SolvedVoteChallenge
+} from '@/types';
+import { CHALLENGE_HEADER, CHALLENGE_SOLUTION_HEADER, solveChallenge } from '@/lib/proof-of-work';
+import { toPoll } from '@/lib/polls';
 
 /**
  * A class that provides methods for interacting with the poll API.
@@ -30,18 +54,26 @@ export class PollAPI {
   /**
    * Fetches a single poll from the API by its ID.
    * @param id The ID of the poll to fetch.
+   * @param token The share token from the poll's share link, needed for unlisted and private polls.
+   * @param ballot The ballot token from an invitee's ballot link, needed to vote on invite-only polls.
+   * @param ref The share the visitor came through, so that their vote is credited to it.
    * @returns A promise that resolves to the poll object or null if not found.
    */
-  static async getPoll(id: string): Promise<Poll | null> {
+  static async getPoll(id: string, token?: string | null, ballot?: string | null, ref?: string | null): Promise<Poll | null> {
     try {
-      const response = await fetch(`${this.baseURL}/polls/${id}`);
+      const query = new URLSearchParams({
+        ...(token && { token }),
+        ...(ballot && { ballot }),
+        ...(ref && { ref })
+      }).toString();
+      const response = await fetch(`${this.baseURL}/polls/${id}${query && `?${query}`}`);
       const result = await response.json();
       
       if (!response.ok) {
         throw new Error(result.error || 'Failed to fetch poll');
       }
       
-      return result.data || null;
+      return result.data ? toPoll(result.data) : null;
     } catch (error) {
       console.error('Error fetching poll:', error);
       throw error;
@@ -61,12 +93,8 @@ export class PollAPI {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          title: pollData.title,
-          description: pollData.description || null,
-          options: pollData.options,
-          allow_multiple_votes: pollData.allowMultipleVotes,
-          require_authentication: pollData.requireAuthentication,
-          expires_at: pollData.expiresAt ? pollData.expiresAt.toISOString() : null
+          ...this.toPollBody(pollData),
+          status: pollData.isDraft ? 'draft' : 'open'
         })
       });
 
@@ -105,7 +133,7 @@ export class PollAPI {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(pollData),
+        body: JSON.stringify(this.toPollBody(pollData)),
       });
 
       const result = await response.json();
@@ -127,6 +155,181 @@ export class PollAPI {
     }
   }
 
+  /**
+   * Moves a poll to another lifecycle status, e.g. publishing a draft or closing an open poll.
+   * @param pollId The ID of the poll.
+   * @param status The new status.
+   * @returns A promise that resolves to the updated poll.
+   */
+  static async updatePollStatus(pollId: string, status: PollStatus): Promise<ApiResponse<Poll>> {
+    try {
+      const response = await fetch(`${this.baseURL}/polls/${pollId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ status }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: result.error || 'Failed to update poll status',
+        };
+      }
+
+      return { success: true, data: result.data };
+    } catch (error) {
+      console.error('Error updating poll status:', error);
+      return {
+        success: false,
+        error: 'Network error occurred while updating poll status',
+      };
+    }
+  }
+
+  /**
+   * Rotates a poll's share token. The old share link and its QR codes stop working.
+   * @param pollId The ID of the poll.
+   * @returns A promise that resolves to the new share token.
+   */
+  static async rotateShareToken(pollId: string): Promise<ApiResponse<string>> {
+    try {
+      const response = await fetch(`${this.baseURL}/polls/${pollId}/share-token`, {
+        method: 'POST',
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: result.error || 'Failed to rotate share link',
+        };
+      }
+
+      return { success: true, data: result.data.share_token };
+    } catch (error) {
+      console.error('Error rotating share token:', error);
+      return {
+        success: false,
+        error: 'Network error occurred while rotating share link',
+      };
+    }
+  }
+
+  /**
+   * Unlocks a password-protected poll. The server remembers the unlock in a short-lived cookie.
+   * @param pollId The ID of the poll.
+   * @param password The poll's password.
+   * @returns A promise that resolves when the poll is unlocked.
+   */
+  static async unlockPoll(pollId: string, password: string): Promise<ApiResponse<null>> {
+    try {
+      const response = await fetch(`${this.baseURL}/polls/${pollId}/unlock`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ password }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: result.error || 'Failed to unlock poll',
+        };
+      }
+
+      return { success: true, data: null };
+    } catch (error) {
+      console.error('Error unlocking poll:', error);
+      return {
+        success: false,
+        error: 'Network error occurred while unlocking poll',
+      };
+    }
+  }
+
+  /**
+   * Texts a verification code to an anonymous voter, on a poll that requires verified phone numbers.
+   * @param pollId The ID of the poll.
+   * @param phone The voter's phone number.
+   * @returns A promise that resolves to the verification's ID, to send along with the code, and when the code expires.
+   */
+  static async requestPhoneCode(
+    pollId: string,
+    phone: string
+  ): Promise<ApiResponse<{ verification_id: string; expires_at: string }>> {
+    try {
+      const response = await fetch(`${this.baseURL}/polls/${pollId}/phone-verification`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ phone }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: result.error || 'Failed to send verification code',
+        };
+      }
+
+      return { success: true, data: result.data };
+    } catch (error) {
+      console.error('Error requesting phone code:', error);
+      return {
+        success: false,
+        error: 'Network error occurred while sending verification code',
+      };
+    }
+  }
+
+  /**
+   * Enters the verification code texted to a voter. The server remembers the verified phone
+   * number in a short-lived cookie, and the voter then votes with it as their `voter_phone`.
+   * @param pollId The ID of the poll.
+   * @param verificationId The ID of the verification the code was texted for.
+   * @param code The code.
+   * @returns A promise that resolves when the phone number is verified.
+   */
+  static async verifyPhoneCode(pollId: string, verificationId: string, code: string): Promise<ApiResponse<null>> {
+    try {
+      const response = await fetch(`${this.baseURL}/polls/${pollId}/phone-verification`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ verification_id: verificationId, code }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: result.error || 'Failed to verify code',
+        };
+      }
+
+      return { success: true, data: null };
+    } catch (error) {
+      console.error('Error verifying phone code:', error);
+      return {
+        success: false,
+        error: 'Network error occurred while verifying code',
+      };
+    }
+  }
+
   /**
    * Deletes a poll.
    * @param pollId The ID of the poll to delete.
@@ -159,18 +362,31 @@ export class PollAPI {
   /**
    * Submits a vote for a poll.
    * @param pollId The ID of the poll to vote on.
-   * @param optionId The ID of the option to vote for.
-   * @returns A promise that resolves to the new vote object.
+   * @param optionId The ID of the option to vote for, or null when writing in an answer.
+   * @param writeIn The free-text "Other" answer, for polls that allow write-ins.
+   * @param challenge The solved vote challenge, for anonymous voters.
+   * @param voterPhone The phone number the voter verified, on polls that require verified phone numbers.
+   * @returns A promise that resolves to the new vote object, with the voter's score on quizzes.
    */
-  static async vote(pollId: string, optionId: string): Promise<ApiResponse<Vote>> {
+  static async vote(
+    pollId: string,
+    optionId: string | null,
+    writeIn?: string,
+    challenge?: SolvedVoteChallenge | null,
+    voterPhone?: string | null
+  ): Promise<ApiResponse<Vote> & { quiz?: QuizResult }> {
     try {
       const response = await fetch(`${this.baseURL}/polls/${pollId}/vote`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...this.getChallengeHeaders(challenge)
         },
         body: JSON.stringify({
-          option_id: optionId
+          poll_id: pollId,
+          option_id: optionId ?? undefined,
+          write_in: writeIn,
+          voter_phone: voterPhone ?? undefined
         })
       });
 
@@ -185,7 +401,8 @@ export class PollAPI {
 
       return {
         success: true,
-        data: result.data
+        data: result.data,
+        ...(result.quiz && { quiz: result.quiz })
       };
     } catch (error) {
       console.error('Error voting:', error);
@@ -196,6 +413,191 @@ export class PollAPI {
     }
   }
 
+  /**
+   * Submits a ranked ballot for a ranked-choice poll.
+   * @param pollId The ID of the poll to vote on.
+   * @param ranking The IDs of the options in order of preference, most preferred first.
+   * @param challenge The solved vote challenge, for anonymous voters.
+   * @param voterPhone The phone number the voter verified, on polls that require verified phone numbers.
+   * @returns A promise that resolves to the new vote object.
+   */
+  static async voteRanked(
+    pollId: string,
+    ranking: string[],
+    challenge?: SolvedVoteChallenge | null,
+    voterPhone?: string | null
+  ): Promise<ApiResponse<Vote>> {
+    try {
+      const response = await fetch(`${this.baseURL}/polls/${pollId}/vote`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...this.getChallengeHeaders(challenge)
+        },
+        body: JSON.stringify({
+          poll_id: pollId,
+          ranking,
+          voter_phone: voterPhone ?? undefined
+        })
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: result.error || 'Failed to submit ballot'
+        };
+      }
+
+      return {
+        success: true,
+        data: result.data
+      };
+    } catch (error) {
+      console.error('Error submitting ranked ballot:', error);
+      return {
+        success: false,
+        error: 'Network error occurred while voting'
+      };
+    }
+  }
+
+  /**
+   * Submits answers for a rating, NPS or Likert poll.
+   * @param pollId The ID of the poll to vote on.
+   * @param ratings The answers; Likert answers name the row (option) they answer.
+   * @param challenge The solved vote challenge, for anonymous voters.
+   * @param voterPhone The phone number the voter verified, on polls that require verified phone numbers.
+   * @returns A promise that resolves to the new vote object.
+   */
+  static async voteRating(
+    pollId: string,
+    ratings: { optionId?: string; value: number }[],
+    challenge?: SolvedVoteChallenge | null,
+    voterPhone?: string | null
+  ): Promise<ApiResponse<Vote>> {
+    try {
+      const response = await fetch(`${this.baseURL}/polls/${pollId}/vote`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...this.getChallengeHeaders(challenge)
+        },
+        body: JSON.stringify({
+          poll_id: pollId,
+          ratings: ratings.map((rating) => ({
+            option_id: rating.optionId ?? null,
+            value: rating.value
+          })),
+          voter_phone: voterPhone ?? undefined
+        })
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: result.error || 'Failed to submit answers'
+        };
+      }
+
+      return {
+        success: true,
+        data: result.data
+      };
+    } catch (error) {
+      console.error('Error submitting ratings:', error);
+      return {
+        success: false,
+        error: 'Network error occurred while voting'
+      };
+    }
+  }
+
+  /**
+   * Submits a response to a survey, answering all of its questions at once.
+   * @param pollId The ID of the survey.
+   * @param answers One answer per answered question.
+   * @param challenge The solved vote challenge, for anonymous respondents.
+   * @param voterPhone The phone number the respondent verified, on surveys that require verified phone numbers.
+   * @returns A promise that resolves to the new response, with the respondent's score on quizzes.
+   */
+  static async submitSurveyResponse(
+    pollId: string,
+    answers: SurveyAnswer[],
+    challenge?: SolvedVoteChallenge | null,
+    voterPhone?: string | null
+  ): Promise<ApiResponse<{ id: string }> & { quiz?: QuizResult }> {
+    try {
+      const response = await fetch(`${this.baseURL}/polls/${pollId}/responses`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...this.getChallengeHeaders(challenge)
+        },
+        body: JSON.stringify({
+          poll_id: pollId,
+          answers: answers.map((answer) => ({
+            question_id: answer.questionId,
+            option_id: answer.optionId,
+            option_ids: answer.optionIds,
+            ranking: answer.ranking,
+            ratings: answer.ratings?.map((rating) => ({
+              option_id: rating.optionId ?? null,
+              value: rating.value
+            }))
+          })),
+          voter_phone: voterPhone ?? undefined
+        })
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: result.error || 'Failed to submit response'
+        };
+      }
+
+      return {
+        success: true,
+        data: result.data,
+        ...(result.quiz && { quiz: result.quiz })
+      };
+    } catch (error) {
+      console.error('Error submitting survey response:', error);
+      return {
+        success: false,
+        error: 'Network error occurred while submitting response'
+      };
+    }
+  }
+
+  /**
+   * Fetches the tallied results of a poll.
+   * For ranked-choice polls this includes the instant-runoff rounds.
+   * @param pollId The ID of the poll.
+   * @returns A promise that resolves to the poll results or null if not found.
+   */
+  static async getResults(pollId: string): Promise<PollResults | null> {
+    try {
+      const response = await fetch(`${this.baseURL}/polls/${pollId}/results`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch results');
+      }
+
+      return result.data || null;
+    } catch (error) {
+      console.error('Error fetching results:', error);
+      throw error;
+    }
+  }
+
   /**
    * Fetches all polls created by a specific user.
    * @param userId The ID of the user.
@@ -219,19 +621,26 @@ export class PollAPI {
 
   /**
    * Submits multiple votes for a poll.
+   * The server checks the selection against the poll's minimum and maximum selections.
    * @param pollId The ID of the poll to vote on.
    * @param optionIds The IDs of the options to vote for.
-   * @returns A promise that resolves to an array of new vote objects.
+   * @returns A promise that resolves to an array of new vote objects, with the voter's score on quizzes.
    */
-  static async voteMultiple(pollId: string, optionIds: string[]): Promise<ApiResponse<Vote[]>> {
+  static async voteMultiple(
+    pollId: string,
+    optionIds: string[],
+    writeIn?: string
+  ): Promise<ApiResponse<Vote[]> & { quiz?: QuizResult }> {
     try {
       const response = await fetch(`${this.baseURL}/polls/${pollId}/vote`, {
-        method: 'POST',
+        method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          option_ids: optionIds
+          poll_id: pollId,
+          option_ids: optionIds,
+          write_in: writeIn
         })
       });
 
@@ -246,7 +655,8 @@ export class PollAPI {
 
       return {
         success: true,
-        data: result.data
+        data: result.data,
+        ...(result.quiz && { quiz: result.quiz })
       };
     } catch (error) {
       console.error('Error voting multiple:', error);
@@ -256,4 +666,547 @@ export class PollAPI {
       };
     }
   }
+
+  /**
+   * Changes the current user's vote on a poll that allows vote changes.
+   * The new ballot replaces the old one as a whole.
+   * @param pollId The ID of the poll.
+   * @param ballot The new ballot, in the shape the poll's voting method takes.
+   * @param allowMultipleVotes Whether the poll takes several selections rather than a single option.
+   * @returns A promise that resolves to the new vote objects.
+   */
+  static async changeVote(
+    pollId: string,
+    ballot: Omit<Ballot, 'writeIn'>,
+    allowMultipleVotes = false
+  ): Promise<ApiResponse<Vote[]>> {
+    try {
+      const response = await fetch(`${this.baseURL}/polls/${pollId}/vote`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(
+          ballot.ranking
+            ? { ranking: ballot.ranking }
+            : ballot.ratings
+            ? { ratings: ballot.ratings.map((rating) => ({ option_id: rating.optionId, value: rating.value })) }
+            : allowMultipleVotes
+            ? { option_ids: ballot.optionIds }
+            : { option_id: ballot.optionIds[0] }
+        )
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: result.error || 'Failed to change vote'
+        };
+      }
+
+      return {
+        success: true,
+        data: result.data
+      };
+    } catch (error) {
+      console.error('Error changing vote:', error);
+      return {
+        success: false,
+        error: 'Network error occurred while changing vote'
+      };
+    }
+  }
+
+  /**
+   * Retracts the current user's vote on a poll that allows vote changes.
+   * @param pollId The ID of the poll.
+   * @returns A promise that resolves when the vote is retracted.
+   */
+  static async retractVote(pollId: string): Promise<ApiResponse<null>> {
+    try {
+      const response = await fetch(`${this.baseURL}/polls/${pollId}/vote`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        return {
+          success: false,
+          error: result.error || 'Failed to retract vote',
+        };
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error retracting vote:', error);
+      return {
+        success: false,
+        error: 'Network error occurred while retracting vote',
+      };
+    }
+  }
+
+  /**
+   * Fetches the vote change history of a poll.
+   * Only the poll creator can see it.
+   * @param pollId The ID of the poll.
+   * @returns A promise that resolves to the vote changes, newest first.
+   */
+  static async getVoteChanges(pollId: string): Promise<VoteChange[]> {
+    try {
+      const response = await fetch(`${this.baseURL}/polls/${pollId}/vote-changes`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch vote changes');
+      }
+
+      return result.data || [];
+    } catch (error) {
+      console.error('Error fetching vote changes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches the leaderboard of a quiz.
+   * @param pollId The ID of the quiz.
+   * @returns A promise that resolves to the leaderboard, best first.
+   */
+  static async getLeaderboard(pollId: string): Promise<LeaderboardEntry[]> {
+    try {
+      const response = await fetch(`${this.baseURL}/polls/${pollId}/leaderboard`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch leaderboard');
+      }
+
+      return result.data || [];
+    } catch (error) {
+      console.error('Error fetching leaderboard:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches the write-in answers of a poll, grouped by normalized text.
+   * Only the poll creator can review write-ins.
+   * @param pollId The ID of the poll.
+   * @returns A promise that resolves to the write-in groups, most frequent first.
+   */
+  static async getWriteIns(pollId: string): Promise<WriteInGroup[]> {
+    try {
+      const response = await fetch(`${this.baseURL}/polls/${pollId}/write-ins`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch write-ins');
+      }
+
+      return result.data || [];
+    } catch (error) {
+      console.error('Error fetching write-ins:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Promotes a group of write-in answers to a real option that inherits their votes.
+   * @param pollId The ID of the poll.
+   * @param key The normalized text of the write-in group.
+   * @returns A promise that resolves to the new option.
+   */
+  static async promoteWriteIn(pollId: string, key: string): Promise<ApiResponse<PollOption>> {
+    try {
+      const response = await fetch(`${this.baseURL}/polls/${pollId}/write-ins`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ key })
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: result.error || 'Failed to promote write-in'
+        };
+      }
+
+      return {
+        success: true,
+        data: result.data
+      };
+    } catch (error) {
+      console.error('Error promoting write-in:', error);
+      return {
+        success: false,
+        error: 'Network error occurred while promoting write-in'
+      };
+    }
+  }
+
+  /**
+   * Fetches the invitations of an invite-only poll, with its turnout.
+   * Only the poll creator can see them.
+   * @param pollId The ID of the poll.
+   * @returns A promise that resolves to the invitations, in the order they were added, and the turnout.
+   */
+  static async getInvitations(pollId: string): Promise<PollInvitations> {
+    try {
+      const response = await fetch(`${this.baseURL}/polls/${pollId}/invitations`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch invitations');
+      }
+
+      return result.data;
+    } catch (error) {
+      console.error('Error fetching invitations:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Invites people to vote on an invite-only poll. Each new invitee gets their own ballot token.
+   * @param pollId The ID of the poll.
+   * @param emails The invitees' email addresses.
+   * @returns A promise that resolves to all of the poll's invitations and its turnout.
+   */
+  static async addInvitees(pollId: string, emails: string[]): Promise<ApiResponse<PollInvitations>> {
+    try {
+      const response = await fetch(`${this.baseURL}/polls/${pollId}/invitations`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ emails })
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: result.error || 'Failed to add invitees'
+        };
+      }
+
+      return {
+        success: true,
+        data: result.data
+      };
+    } catch (error) {
+      console.error('Error adding invitees:', error);
+      return {
+        success: false,
+        error: 'Network error occurred while adding invitees'
+      };
+    }
+  }
+
+  /**
+   * Records that a poll is being shared, and gets the link to hand out, which credits votes to the share.
+   * @param pollId The ID of the poll.
+   * @param method How the poll is being shared.
+   * @param platform The platform, for social shares.
+   * @returns A promise that resolves to the share and its link.
+   */
+  static async sharePoll(pollId: string, method: ShareMethod, platform?: SharePlatform): Promise<ApiResponse<PollShare>> {
+    try {
+      const response = await fetch(`${this.baseURL}/polls/${pollId}/share`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ share_method: method, ...(platform && { platform }) })
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: result.error || 'Failed to share poll'
+        };
+      }
+
+      return {
+        success: true,
+        data: result.data
+      };
+    } catch (error) {
+      console.error('Error sharing poll:', error);
+      return {
+        success: false,
+        error: 'Network error occurred while sharing poll'
+      };
+    }
+  }
+
+  /**
+   * Fetches how often a poll was shared through each channel, and the votes that came through each.
+   * Only the poll creator can see them.
+   * @param pollId The ID of the poll.
+   * @returns A promise that resolves to the share channels, busiest first.
+   */
+  static async getShareStats(pollId: string): Promise<ShareChannelStats[]> {
+    try {
+      const response = await fetch(`${this.baseURL}/polls/${pollId}/share`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch share statistics');
+      }
+
+      return result.data;
+    } catch (error) {
+      console.error('Error fetching share statistics:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches a poll's short links and how often each was clicked. Only the poll creator can see them.
+   * @param pollId The ID of the poll.
+   * @returns A promise that resolves to the short links, in the order they were created.
+   */
+  static async getShortLinks(pollId: string): Promise<ShortLink[]> {
+    try {
+      const response = await fetch(`${this.baseURL}/polls/${pollId}/short-links`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch short links');
+      }
+
+      return result.data;
+    } catch (error) {
+      console.error('Error fetching short links:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Creates a short link to a poll.
+   * @param pollId The ID of the poll.
+   * @param label What the link is for, such as the channel it is handed out on.
+   * @param slug The link's slug; a random one is generated if it is left out.
+   * @returns A promise that resolves to all of the poll's short links.
+   */
+  static async createShortLink(pollId: string, label?: string, slug?: string): Promise<ApiResponse<ShortLink[]>> {
+    try {
+      const response = await fetch(`${this.baseURL}/polls/${pollId}/short-links`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...(label && { label }), ...(slug && { slug }) })
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: result.error || 'Failed to create short link'
+        };
+      }
+
+      return {
+        success: true,
+        data: result.data
+      };
+    } catch (error) {
+      console.error('Error creating short link:', error);
+      return {
+        success: false,
+        error: 'Network error occurred while creating short link'
+      };
+    }
+  }
+
+  /**
+   * Deletes one of a poll's short links. It stops working straight away.
+   * @param pollId The ID of the poll.
+   * @param linkId The ID of the short link.
+   * @returns A promise that resolves to the poll's remaining short links.
+   */
+  static async deleteShortLink(pollId: string, linkId: string): Promise<ApiResponse<ShortLink[]>> {
+    try {
+      const response = await fetch(`${this.baseURL}/polls/${pollId}/short-links?link_id=${encodeURIComponent(linkId)}`, {
+        method: 'DELETE'
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: result.error || 'Failed to delete short link'
+        };
+      }
+
+      return {
+        success: true,
+        data: result.data
+      };
+    } catch (error) {
+      console.error('Error deleting short link:', error);
+      return {
+        success: false,
+        error: 'Network error occurred while deleting short link'
+      };
+    }
+  }
+
+  /**
+   * Fetches the ballots on a poll that were flagged as suspicious or excluded from its tallies.
+   * Only the poll creator can see them.
+   * @param pollId The ID of the poll.
+   * @returns A promise that resolves to the ballots, newest first.
+   */
+  static async getSuspiciousVotes(pollId: string): Promise<SuspiciousBallot[]> {
+    try {
+      const response = await fetch(`${this.baseURL}/polls/${pollId}/suspicious-votes`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch suspicious votes');
+      }
+
+      return result.data;
+    } catch (error) {
+      console.error('Error fetching suspicious votes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Excludes votes from a poll's tallies, or counts excluded votes again.
+   * @param pollId The ID of the poll.
+   * @param voteIds The IDs of the votes.
+   * @param excluded Whether to exclude the votes or count them again.
+   * @param reason Why the votes are excluded; required when excluding.
+   * @returns A promise that resolves to the poll's flagged and excluded ballots.
+   */
+  static async reviewVotes(
+    pollId: string,
+    voteIds: string[],
+    excluded: boolean,
+    reason?: string
+  ): Promise<ApiResponse<SuspiciousBallot[]>> {
+    try {
+      const response = await fetch(`${this.baseURL}/polls/${pollId}/suspicious-votes`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ vote_ids: voteIds, excluded, ...(reason && { reason }) })
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: result.error || 'Failed to update votes'
+        };
+      }
+
+      return {
+        success: true,
+        data: result.data
+      };
+    } catch (error) {
+      console.error('Error reviewing votes:', error);
+      return {
+        success: false,
+        error: 'Network error occurred while updating votes'
+      };
+    }
+  }
+
+  /**
+   * Fetches a vote challenge for a poll and solves it, which anonymous voters do before voting.
+   * Solving takes the browser a moment, longer on polls with a higher difficulty.
+   * @param pollId The ID of the poll.
+   * @returns A promise that resolves to the solved challenge, or null if the poll doesn't need one.
+   */
+  static async solveVoteChallenge(pollId: string): Promise<SolvedVoteChallenge | null> {
+    try {
+      const response = await fetch(`${this.baseURL}/polls/${pollId}/challenge`, { cache: 'no-store' });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch vote challenge');
+      }
+
+      if (!result.data) return null;
+      return { token: result.data.token, solution: await solveChallenge(result.data.token, result.data.difficulty) };
+    } catch (error) {
+      console.error('Error solving vote challenge:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Builds the body the poll endpoints take for a new or edited poll, in their snake_case fields.
+   * Settings left out of the form are left out of the body too.
+   * @param pollData The form values.
+   */
+  private static toPollBody(pollData: CreatePollForm) {
+    return {
+      title: pollData.title,
+      // Cleared fields are sent as null, so that editing a poll clears them too.
+      description: pollData.description || null,
+      options: pollData.options,
+      allow_multiple_votes: pollData.allowMultipleVotes,
+      require_authentication: pollData.requireAuthentication,
+      allow_write_in: pollData.allowWriteIn,
+      is_quiz: pollData.isQuiz,
+      allow_vote_changes: pollData.allowVoteChanges,
+      results_visibility: pollData.resultsVisibility,
+      access: pollData.access,
+      password: pollData.password,
+      invite_only: pollData.inviteOnly,
+      allowed_email_domains: pollData.allowedEmailDomains,
+      require_verified: pollData.requireVerified,
+      min_account_age_days: pollData.minAccountAgeDays,
+      challenge_difficulty: pollData.challengeDifficulty,
+      require_phone_verification: pollData.requirePhoneVerification,
+      correct_options: pollData.correctOptions,
+      poll_type: pollData.pollType || 'standard',
+      min_selections: pollData.minSelections,
+      max_selections: pollData.maxSelections,
+      scale_labels: pollData.scaleLabels,
+      questions: pollData.questions?.map((question) => ({
+        text: question.text,
+        question_type: question.questionType,
+        options: question.options.map((option) => option.text),
+        allow_multiple_votes: question.allowMultipleVotes,
+        min_selections: question.minSelections,
+        max_selections: question.maxSelections,
+        scale_labels: question.scaleLabels,
+        is_required: question.required,
+        correct_options: question.correctOptions
+      })),
+      starts_at: pollData.startsAt?.toISOString() ?? null,
+      expires_at: pollData.expiresAt?.toISOString() ?? null
+    };
+  }
+
+  /**
+   * Builds the headers a solved vote challenge is sent in.
+   * @param challenge The solved challenge, if any.
+   */
+  private static getChallengeHeaders(challenge?: SolvedVoteChallenge | null): Record<string, string> {
+    return challenge ? { [CHALLENGE_HEADER]: challenge.token, [CHALLENGE_SOLUTION_HEADER]: challenge.solution } : {};
+  }
 }
\ No newline at end of file
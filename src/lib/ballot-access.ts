@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/client';
+import { getPollCookieOptions } from '@/lib/poll-cookies';
+import { Database } from '@/types/database';
+import { BallotStatus } from '@/types';
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+type PollRow = Pick<Database['public']['Tables']['polls']['Row'], 'id' | 'invite_only'>;
+
+/** How long a browser keeps an invitee's ballot token after following their ballot link. */
+const BALLOT_COOKIE_MAX_AGE = 60 * 60 * 24 * 30;
+
+/**
+ * The name of the cookie that holds the ballot token an invitee opened a poll with.
+ * @param pollId The ID of the poll.
+ */
+function getBallotCookieName(pollId: string): string {
+  return `ballot_${pollId}`;
+}
+
+/**
+ * Reads the ballot token a request came with: the `ballot` query parameter, or the cookie set
+ * when the invitee first opened the poll.
+ * @param request The incoming request.
+ * @param pollId The ID of the poll.
+ */
+function getRequestBallotToken(request: NextRequest, pollId: string): string | undefined {
+  return request.nextUrl.searchParams.get('ballot') ?? request.cookies.get(getBallotCookieName(pollId))?.value;
+}
+
+/**
+ * Looks up the ballot token a visitor to an invite-only poll came with.
+ * @param supabase The Supabase client.
+ * @param request The incoming request.
+ * @param poll The poll.
+ * @returns The state of the ballot token, or null if the poll isn't invite-only.
+ */
+export async function getRequestBallotStatus(
+  supabase: SupabaseClient,
+  request: NextRequest,
+  poll: PollRow
+): Promise<BallotStatus | null> {
+  if (!poll.invite_only) return null;
+
+  const ballotToken = getRequestBallotToken(request, poll.id);
+  if (!ballotToken) return 'missing';
+
+  const { data: invitation } = await supabase
+    .from('poll_invitations')
+    .select('used')
+    .eq('poll_id', poll.id)
+    .eq('ballot_token', ballotToken)
+    .maybeSingle();
+
+  if (!invitation) return 'missing';
+  return invitation.used ? 'used' : 'unused';
+}
+
+/**
+ * Uses up the ballot token of an invitee who is about to vote on an invite-only poll. The token is
+ * claimed in a single update, so two ballots can't be cast with it at once. The claim records only
+ * that the invitee voted, never when or how, so that their invitation can't be matched to their vote.
+ * @param supabase The Supabase client.
+ * @param request The incoming request.
+ * @param poll The poll.
+ * @returns The ID of the claimed invitation (null if the poll isn't invite-only), or an error response.
+ */
+export async function claimRequestBallot(
+  supabase: SupabaseClient,
+  request: NextRequest,
+  poll: PollRow
+): Promise<{ invitationId: string | null } | { response: NextResponse }> {
+  if (!poll.invite_only) return { invitationId: null };
+
+  const ballotToken = getRequestBallotToken(request, poll.id);
+  if (!ballotToken) {
+    return { response: NextResponse.json({ error: 'This poll is invite-only; vote through your ballot link' }, { status: 403 }) };
+  }
+
+  const { data: invitation } = await supabase
+    .from('poll_invitations')
+    .update({ used: true })
+    .eq('poll_id', poll.id)
+    .eq('ballot_token', ballotToken)
+    .eq('used', false)
+    .select('id')
+    .maybeSingle();
+
+  if (!invitation) {
+    return { response: NextResponse.json({ error: 'This ballot link is invalid or has already been used' }, { status: 403 }) };
+  }
+
+  return { invitationId: invitation.id };
+}
+
+/**
+ * Gives an invitee their ballot token back when their vote couldn't be saved after all.
+ * @param supabase The Supabase client.
+ * @param invitationId The ID of the claimed invitation, or null if the poll isn't invite-only.
+ */
+export async function releaseBallot(supabase: SupabaseClient, invitationId: string | null): Promise<void> {
+  if (!invitationId) return;
+  await supabase.from('poll_invitations').update({ used: false }).eq('id', invitationId);
+}
+
+/**
+ * Remembers the ballot token an invitee opened a poll with, so that the vote endpoints accept it.
+ * @param request The request that opened the poll.
+ * @param response The response to the request.
+ * @param pollId The ID of the poll.
+ * @param ballotToken The ballot token.
+ * @returns The same response, with the cookie set.
+ */
+export function rememberBallotToken(request: NextRequest, response: NextResponse, pollId: string, ballotToken: string): NextResponse {
+  response.cookies.set(getBallotCookieName(pollId), ballotToken, getPollCookieOptions(request, BALLOT_COOKIE_MAX_AGE));
+  return response;
+}
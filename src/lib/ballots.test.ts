@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { describeBallot, toBallot } from '@/lib/ballots';
+
+const options = [
+  { id: 'tea', text: 'Tea' },
+  { id: 'coffee', text: 'Coffee' },
+];
+
+describe('toBallot', () => {
+  it('should collect the selected options and write-in', () => {
+    const ballot = toBallot(
+      [
+        { id: 'v1', option_id: 'tea', write_in: null },
+        { id: 'v2', option_id: null, write_in: 'Juice' },
+      ],
+      [],
+      []
+    );
+
+    expect(ballot).toEqual({ optionIds: ['tea'], writeIn: 'Juice' });
+  });
+
+  it('should keep rankings in order and ignore other votes', () => {
+    const ballot = toBallot(
+      [{ id: 'v1', option_id: 'coffee', write_in: null }],
+      [
+        { vote_id: 'v1', option_id: 'tea', rank: 2 },
+        { vote_id: 'v1', option_id: 'coffee', rank: 1 },
+        { vote_id: 'other', option_id: 'tea', rank: 1 },
+      ],
+      []
+    );
+
+    expect(ballot.ranking).toEqual(['coffee', 'tea']);
+  });
+});
+
+describe('describeBallot', () => {
+  it('should describe choice, ranked and rating ballots', () => {
+    expect(describeBallot({ optionIds: ['tea'], writeIn: 'Juice' }, options)).toBe('Tea, Other: "Juice"');
+    expect(describeBallot({ optionIds: ['coffee'], ranking: ['coffee', 'tea'] }, options)).toBe('1. Coffee, 2. Tea');
+    expect(describeBallot({ optionIds: [], ratings: [{ value: 4 }] }, options)).toBe('Rated 4');
+    expect(describeBallot({ optionIds: ['gone'] }, options)).toBe('Removed option');
+  });
+});
@@ -0,0 +1,57 @@
+import { Database } from '@/types/database';
+import { Ballot } from '@/types';
+
+type Tables = Database['public']['Tables'];
+type VoteRow = Pick<Tables['votes']['Row'], 'id' | 'option_id' | 'write_in'>;
+type RankingRow = Pick<Tables['vote_rankings']['Row'], 'vote_id' | 'option_id' | 'rank'>;
+type RatingRow = Pick<Tables['vote_ratings']['Row'], 'vote_id' | 'option_id' | 'value'>;
+
+/**
+ * Rebuilds a voter's whole ballot from their vote rows and the rankings and ratings stored with them.
+ * @param votes The voter's votes on the poll.
+ * @param rankings The rankings of those votes, if any.
+ * @param ratings The ratings of those votes, if any.
+ * @returns The ballot.
+ */
+export function toBallot(votes: VoteRow[], rankings: RankingRow[], ratings: RatingRow[]): Ballot {
+  const voteIds = new Set(votes.map((vote) => vote.id));
+  const ranking = rankings
+    .filter((row) => voteIds.has(row.vote_id))
+    .sort((a, b) => a.rank - b.rank)
+    .map((row) => row.option_id);
+  const voteRatings = ratings
+    .filter((row) => voteIds.has(row.vote_id))
+    .map((row) => ({ ...(row.option_id && { optionId: row.option_id }), value: row.value }));
+  const writeIn = votes.find((vote) => vote.write_in)?.write_in;
+
+  return {
+    optionIds: votes.flatMap((vote) => (vote.option_id ? [vote.option_id] : [])),
+    ...(ranking.length > 0 && { ranking }),
+    ...(voteRatings.length > 0 && { ratings: voteRatings }),
+    ...(writeIn && { writeIn })
+  };
+}
+
+/**
+ * Describes a ballot in words, for the vote change history.
+ * @param ballot The ballot.
+ * @param options The poll's options, used to name the options on the ballot.
+ * @returns A short description, e.g. `1. Tea, 2. Coffee` for a ranked ballot.
+ */
+export function describeBallot(ballot: Ballot, options: { id: string; text: string }[]): string {
+  const textOf = (optionId: string) => options.find((option) => option.id === optionId)?.text ?? 'Removed option';
+
+  if (ballot.ranking) {
+    return ballot.ranking.map((optionId, index) => `${index + 1}. ${textOf(optionId)}`).join(', ');
+  }
+
+  if (ballot.ratings) {
+    return ballot.ratings
+      .map((rating) => (rating.optionId ? `${textOf(rating.optionId)}: ${rating.value}` : `Rated ${rating.value}`))
+      .join(', ');
+  }
+
+  const answers = ballot.optionIds.map(textOf);
+  if (ballot.writeIn) answers.push(`Other: "${ballot.writeIn}"`);
+  return answers.length > 0 ? answers.join(', ') : 'No answer';
+}
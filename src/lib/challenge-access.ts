@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/client';
+import { CHALLENGE_HEADER, CHALLENGE_SOLUTION_HEADER } from '@/lib/proof-of-work';
+import { VoteChallengeError, createVoteChallenge, verifyVoteChallenge } from '@/lib/vote-challenges';
+import { Database } from '@/types/database';
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+type PollRow = Pick<Database['public']['Tables']['polls']['Row'], 'id' | 'challenge_difficulty'>;
+
+const challengeErrors: Record<VoteChallengeError | 'used', string> = {
+  missing: 'Solve the vote challenge before voting',
+  invalid: 'The vote challenge is not valid for this poll',
+  expired: 'The vote challenge has expired; please try again',
+  too_easy: 'The vote challenge is out of date; please try again',
+  unsolved: 'The vote challenge was not solved',
+  used: 'The vote challenge has already been used; please try again'
+};
+
+/**
+ * Returns the secret vote challenges are signed with.
+ */
+function getChallengeSecret(): string {
+  const secret = process.env.VOTE_CHALLENGE_SECRET;
+  if (!secret) {
+    throw new Error('VOTE_CHALLENGE_SECRET is not set');
+  }
+  return secret;
+}
+
+/**
+ * Issues a challenge for a voter to solve before voting anonymously on a poll.
+ * @param poll The poll.
+ * @returns The challenge's token.
+ */
+export function issueVoteChallenge(poll: PollRow): string {
+  return createVoteChallenge(poll.id, poll.challenge_difficulty, getChallengeSecret());
+}
+
+/**
+ * Checks the solved challenge sent with an anonymous ballot, and uses it up so that it can't be
+ * sent again. Signed-in voters, and polls whose difficulty is 0, don't need one.
+ * @param supabase The Supabase client.
+ * @param request The incoming request.
+ * @param poll The poll.
+ * @returns The ID of the used-up challenge (null if none was needed), or an error response.
+ */
+export async function claimRequestChallenge(
+  supabase: SupabaseClient,
+  request: NextRequest,
+  poll: PollRow
+): Promise<{ challengeId: string | null } | { response: NextResponse }> {
+  if (poll.challenge_difficulty === 0) return { challengeId: null };
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (user) return { challengeId: null };
+
+  const challenge = await verifyVoteChallenge(
+    request.headers.get(CHALLENGE_HEADER),
+    request.headers.get(CHALLENGE_SOLUTION_HEADER),
+    poll.id,
+    poll.challenge_difficulty,
+    getChallengeSecret()
+  );
+  if (typeof challenge === 'string') return { response: challengeErrorResponse(challenge) };
+
+  const { error } = await supabase
+    .from('used_vote_challenges')
+    .insert({ id: challenge.id, expires_at: new Date(challenge.expiresAt).toISOString() });
+
+  if (error?.code === '23505') return { response: challengeErrorResponse('used') };
+  if (error) throw error;
+  return { challengeId: challenge.id };
+}
+
+/**
+ * Gives an anonymous voter their challenge back when their ballot couldn't be saved after all,
+ * so they don't have to solve another one to try again.
+ * @param supabase The Supabase client.
+ * @param challengeId The ID of the used-up challenge, or null if none was needed.
+ */
+export async function releaseChallenge(supabase: SupabaseClient, challengeId: string | null): Promise<void> {
+  if (!challengeId) return;
+  await supabase.from('used_vote_challenges').delete().eq('id', challengeId);
+}
+
+/**
+ * Builds the error response for a ballot whose challenge was turned down.
+ * @param reason Why the challenge was turned down.
+ */
+function challengeErrorResponse(reason: VoteChallengeError | 'used'): NextResponse {
+  return NextResponse.json({ error: challengeErrors[reason], challenge: reason }, { status: 403 });
+}
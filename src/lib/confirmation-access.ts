@@ -0,0 +1,127 @@
+import { NextRequest } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/client';
+import { sendMail } from '@/lib/mail-transport';
+import {
+  VOTE_CONFIRMATION_TTL_MS,
+  VoteConfirmationResult,
+  buildConfirmationEmail,
+  createConfirmationToken
+} from '@/lib/vote-confirmations';
+import { Database } from '@/types/database';
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+type PollRow = Pick<Database['public']['Tables']['polls']['Row'], 'id' | 'title' | 'invite_only' | 'require_phone_verification'>;
+
+/**
+ * Returns the secret confirmation links are signed with.
+ */
+export function getConfirmationSecret(): string {
+  const secret = process.env.VOTE_CONFIRMATION_SECRET;
+  if (!secret) {
+    throw new Error('VOTE_CONFIRMATION_SECRET is not set');
+  }
+  return secret;
+}
+
+/**
+ * Decides until when a new ballot waits for its voter to confirm their email address. Only
+ * anonymous ballots with an email address wait; invitees already proved theirs by opening the
+ * link in their invitation, and voters on polls that require verified phone numbers their number.
+ * @param poll The poll.
+ * @param voter Who cast the ballot.
+ * @returns When the ballot is dropped unless confirmed, or null if it is counted straight away.
+ */
+export function getPendingUntil(
+  poll: PollRow,
+  voter: { voter_id?: string | null | undefined; voter_email?: string | null | undefined }
+): string | null {
+  if (voter.voter_id || !voter.voter_email || poll.invite_only || poll.require_phone_verification) return null;
+  return new Date(Date.now() + VOTE_CONFIRMATION_TTL_MS).toISOString();
+}
+
+/**
+ * Drops a voter's ballots on a poll that were never confirmed in time, so that they can vote again.
+ * @param supabase The Supabase client.
+ * @param pollId The ID of the poll.
+ * @param voterEmail The voter's email address.
+ */
+export async function clearExpiredBallots(supabase: SupabaseClient, pollId: string, voterEmail: string): Promise<void> {
+  const now = new Date().toISOString();
+  await supabase.from('survey_responses').delete().eq('poll_id', pollId).eq('voter_email', voterEmail).lt('pending_until', now);
+  await supabase.from('votes').delete().eq('poll_id', pollId).eq('voter_email', voterEmail).lt('pending_until', now);
+}
+
+/**
+ * Emails an anonymous voter the link that confirms their ballot.
+ * @param request The incoming request, whose origin the link points to unless `NEXT_PUBLIC_APP_URL` is set.
+ * @param poll The poll.
+ * @param ballotId The ID of the ballot: its vote, or its survey response.
+ * @param voterEmail The voter's email address.
+ * @param pendingUntil When the ballot is dropped unless confirmed.
+ * @returns Whether the email was sent.
+ */
+export async function sendBallotConfirmation(
+  request: NextRequest,
+  poll: PollRow,
+  ballotId: string,
+  voterEmail: string,
+  pendingUntil: string
+): Promise<boolean> {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL ?? request.nextUrl.origin;
+  const token = createConfirmationToken(poll.id, ballotId, getConfirmationSecret(), new Date(pendingUntil).getTime());
+  const confirmUrl = `${baseUrl}/api/polls/${poll.id}/confirm?token=${encodeURIComponent(token)}`;
+
+  try {
+    await sendMail(buildConfirmationEmail(voterEmail, poll.title, confirmUrl));
+    return true;
+  } catch (error) {
+    console.error('Vote confirmation email error:', error);
+    return false;
+  }
+}
+
+/**
+ * Counts a ballot whose voter followed their confirmation link in time. Following the link again
+ * later finds the ballot already counted.
+ * @param supabase The Supabase client.
+ * @param pollId The ID of the poll.
+ * @param ballotId The ID of the ballot: its vote, or its survey response.
+ * @returns Whether the ballot is now counted, or was dropped before it was confirmed.
+ */
+export async function confirmBallot(
+  supabase: SupabaseClient,
+  pollId: string,
+  ballotId: string
+): Promise<Exclude<VoteConfirmationResult, 'invalid'>> {
+  const now = new Date().toISOString();
+
+  const { error: responseError } = await supabase
+    .from('survey_responses')
+    .update({ pending_until: null })
+    .eq('poll_id', pollId)
+    .eq('id', ballotId)
+    .gte('pending_until', now);
+
+  const { error: votesError } = responseError
+    ? { error: null }
+    : await supabase
+        .from('votes')
+        .update({ pending_until: null })
+        .eq('poll_id', pollId)
+        .or(`id.eq.${ballotId},response_id.eq.${ballotId}`)
+        .gte('pending_until', now);
+
+  if (responseError || votesError) {
+    throw responseError || votesError;
+  }
+
+  const { data: counted } = await supabase
+    .from('votes')
+    .select('id')
+    .eq('poll_id', pollId)
+    .or(`id.eq.${ballotId},response_id.eq.${ballotId}`)
+    .is('pending_until', null)
+    .limit(1);
+
+  return counted?.length ? 'confirmed' : 'expired';
+}
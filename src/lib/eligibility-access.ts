@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/client';
+import { checkEligibility, getIneligibleMessage, hasEligibilityRules } from '@/lib/eligibility';
+import { Database } from '@/types/database';
+import { EligibilityRules, IneligibleReason } from '@/types';
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+type PollRow = Pick<
+  Database['public']['Tables']['polls']['Row'],
+  'allowed_email_domains' | 'require_verified' | 'min_account_age_days'
+>;
+
+/**
+ * Reads a poll's eligibility rules from its row.
+ * @param poll The poll.
+ */
+export function toEligibilityRules(poll: PollRow): EligibilityRules {
+  return {
+    allowedEmailDomains: poll.allowed_email_domains,
+    requireVerified: poll.require_verified,
+    minAccountAgeDays: poll.min_account_age_days
+  };
+}
+
+/**
+ * Checks the current user against a poll's eligibility rules, using their account's email,
+ * verification and creation date. The same rules are enforced by the votes policies.
+ * @param supabase The Supabase client.
+ * @param poll The poll.
+ * @returns Why the user is ineligible, or null if they may vote.
+ */
+export async function checkRequestEligibility(supabase: SupabaseClient, poll: PollRow): Promise<IneligibleReason | null> {
+  const rules = toEligibilityRules(poll);
+  if (!hasEligibilityRules(rules)) return null;
+
+  const { data: { user } } = await supabase.auth.getUser();
+  const { data: account } = user
+    ? await supabase.from('users').select('email, is_verified, created_at').eq('id', user.id).maybeSingle()
+    : { data: null };
+
+  return checkEligibility(
+    rules,
+    account && { email: account.email, isVerified: account.is_verified, createdAt: new Date(account.created_at) }
+  );
+}
+
+/**
+ * Builds the error response for a voter who doesn't meet a poll's eligibility rules, explaining why.
+ * @param reason Why the voter is ineligible.
+ * @param poll The poll.
+ */
+export function ineligibleResponse(reason: IneligibleReason, poll: PollRow): NextResponse {
+  return NextResponse.json(
+    { error: getIneligibleMessage(reason, toEligibilityRules(poll)), ineligible_reason: reason },
+    { status: reason === 'sign_in' ? 401 : 403 }
+  );
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { checkEligibility, describeEligibilityRules, getIneligibleMessage, parseEmailDomains } from '@/lib/eligibility';
+
+const noRules = { allowedEmailDomains: null, requireVerified: false, minAccountAgeDays: null };
+const now = new Date('2025-06-01T00:00:00Z');
+const voter = { email: 'ann@example.com', isVerified: true, createdAt: new Date('2025-01-01T00:00:00Z') };
+
+describe('parseEmailDomains', () => {
+  it('should lowercase domains, drop a leading @ and duplicates, and report invalid entries', () => {
+    expect(parseEmailDomains('@Example.com, example.org example.com, not a domain')).toEqual({
+      domains: ['example.com', 'example.org'],
+      invalid: ['not', 'a', 'domain']
+    });
+  });
+});
+
+describe('checkEligibility', () => {
+  it('should let anyone vote on polls without rules', () => {
+    expect(checkEligibility(noRules, null, now)).toBeNull();
+    expect(checkEligibility({ ...noRules, allowedEmailDomains: [] }, null, now)).toBeNull();
+  });
+
+  it('should ask anonymous voters to sign in on polls with rules', () => {
+    expect(checkEligibility({ ...noRules, requireVerified: true }, null, now)).toBe('sign_in');
+  });
+
+  it('should check the email domain, verification and account age', () => {
+    expect(checkEligibility({ ...noRules, allowedEmailDomains: ['example.com'] }, voter, now)).toBeNull();
+    expect(checkEligibility({ ...noRules, allowedEmailDomains: ['example.org'] }, voter, now)).toBe('email_domain');
+    expect(checkEligibility({ ...noRules, allowedEmailDomains: ['example.com'] }, { ...voter, email: 'ann@eng.example.com' }, now)).toBe('email_domain');
+    expect(checkEligibility({ ...noRules, requireVerified: true }, { ...voter, isVerified: false }, now)).toBe('unverified');
+    expect(checkEligibility({ ...noRules, minAccountAgeDays: 152 }, voter, now)).toBe('account_age');
+    expect(checkEligibility({ ...noRules, minAccountAgeDays: 151 }, voter, now)).toBeNull();
+  });
+});
+
+describe('describeEligibilityRules', () => {
+  it('should list each rule the poll has', () => {
+    expect(describeEligibilityRules(noRules)).toEqual([]);
+    expect(describeEligibilityRules({ allowedEmailDomains: ['example.com'], requireVerified: true, minAccountAgeDays: 1 })).toEqual([
+      'An account email at @example.com',
+      'A verified account',
+      'An account at least 1 day old'
+    ]);
+  });
+});
+
+describe('getIneligibleMessage', () => {
+  it('should name the rule the voter fails', () => {
+    expect(getIneligibleMessage('email_domain', { ...noRules, allowedEmailDomains: ['example.com', 'example.org'] }))
+      .toBe('Only accounts with an email at @example.com, @example.org can vote on this poll.');
+    expect(getIneligibleMessage('account_age', { ...noRules, minAccountAgeDays: 30 }))
+      .toBe('Only accounts at least 30 days old can vote on this poll.');
+  });
+});
@@ -0,0 +1,101 @@
+import { EligibilityRules, IneligibleReason } from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+
+/** The account details eligibility rules are checked against. */
+export interface EligibilityVoter {
+  email: string;
+  isVerified: boolean;
+  createdAt: Date;
+}
+
+/**
+ * Parses the allowed email domains a poll creator typed in: domains separated by commas or
+ * spaces, with or without a leading `@`. Domains are lowercased and duplicates are dropped.
+ * @param text The typed domains.
+ * @returns The valid domains, in order, and the entries that aren't domains.
+ */
+export function parseEmailDomains(text: string): { domains: string[]; invalid: string[] } {
+  const entries = text.split(/[\s,;]+/).map((entry) => entry.trim().toLowerCase().replace(/^@/, '')).filter(Boolean);
+  const domains = new Set<string>();
+  const invalid: string[] = [];
+
+  for (const entry of entries) {
+    if (DOMAIN_PATTERN.test(entry)) {
+      domains.add(entry);
+    } else {
+      invalid.push(entry);
+    }
+  }
+
+  return { domains: [...domains], invalid };
+}
+
+/**
+ * Checks whether a poll has any eligibility rules. Polls without rules are open to every voter,
+ * signed in or not.
+ * @param rules The poll's eligibility rules.
+ */
+export function hasEligibilityRules(rules: EligibilityRules): boolean {
+  return (rules.allowedEmailDomains?.length ?? 0) > 0 || rules.requireVerified || rules.minAccountAgeDays !== null;
+}
+
+/**
+ * Checks a voter against a poll's eligibility rules. The rules are about accounts, so polls with
+ * rules need voters to sign in. Email domains must match exactly; subdomains aren't allowed.
+ * @param rules The poll's eligibility rules.
+ * @param voter The signed-in voter's account, or null for anonymous voters.
+ * @param now The current time.
+ * @returns Why the voter is ineligible, or null if they may vote.
+ */
+export function checkEligibility(
+  rules: EligibilityRules,
+  voter: EligibilityVoter | null,
+  now: Date = new Date()
+): IneligibleReason | null {
+  if (!hasEligibilityRules(rules)) return null;
+  if (!voter) return 'sign_in';
+
+  const domain = voter.email.split('@').pop()?.toLowerCase() ?? '';
+  if (rules.allowedEmailDomains?.length && !rules.allowedEmailDomains.includes(domain)) return 'email_domain';
+  if (rules.requireVerified && !voter.isVerified) return 'unverified';
+  if (rules.minAccountAgeDays !== null && now.getTime() - voter.createdAt.getTime() < rules.minAccountAgeDays * DAY_MS) {
+    return 'account_age';
+  }
+  return null;
+}
+
+/**
+ * Lists a poll's eligibility rules in words, for voters.
+ * @param rules The poll's eligibility rules.
+ */
+export function describeEligibilityRules(rules: EligibilityRules): string[] {
+  const domains = rules.allowedEmailDomains ?? [];
+  return [
+    ...(domains.length > 0 ? [`An account email at ${domains.map((domain) => `@${domain}`).join(', ')}`] : []),
+    ...(rules.requireVerified ? ['A verified account'] : []),
+    ...(rules.minAccountAgeDays !== null
+      ? [`An account at least ${rules.minAccountAgeDays} day${rules.minAccountAgeDays === 1 ? '' : 's'} old`]
+      : [])
+  ];
+}
+
+/**
+ * Explains to a voter why they can't vote on a poll.
+ * @param reason Why the voter is ineligible.
+ * @param rules The poll's eligibility rules.
+ */
+export function getIneligibleMessage(reason: IneligibleReason, rules: EligibilityRules): string {
+  switch (reason) {
+    case 'sign_in':
+      return 'Sign in to vote on this poll; only some accounts are eligible.';
+    case 'email_domain':
+      return `Only accounts with an email at ${(rules.allowedEmailDomains ?? []).map((domain) => `@${domain}`).join(', ')} can vote on this poll.`;
+    case 'unverified':
+      return 'Only verified accounts can vote on this poll. Verify your account to vote.';
+    case 'account_age':
+      return `Only accounts at least ${rules.minAccountAgeDays} day${rules.minAccountAgeDays === 1 ? '' : 's'} old can vote on this poll.`;
+  }
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { getEmbedUrl, getIframeEmbedCode, getScriptEmbedCode, isEmbedMessage } from '@/lib/embed';
+
+const baseUrl = 'https://polly.example';
+
+describe('getEmbedUrl', () => {
+  it('should add the share token only when there is one', () => {
+    expect(getEmbedUrl(baseUrl, 'poll-1')).toBe('https://polly.example/embed/polls/poll-1');
+    expect(getEmbedUrl(baseUrl, 'poll-1', 'abc')).toBe('https://polly.example/embed/polls/poll-1?token=abc');
+  });
+});
+
+describe('embed codes', () => {
+  it('should point the iframe at the embed page', () => {
+    expect(getIframeEmbedCode(baseUrl, 'poll-1', 'abc')).toContain('src="https://polly.example/embed/polls/poll-1?token=abc"');
+  });
+
+  it('should load the embed script after the placeholder', () => {
+    expect(getScriptEmbedCode(baseUrl, 'poll-1', 'abc')).toBe(
+      '<div data-polly-poll="poll-1" data-polly-token="abc"></div>\n<script src="https://polly.example/embed.js" async></script>'
+    );
+    expect(getScriptEmbedCode(baseUrl, 'poll-1')).toContain('<div data-polly-poll="poll-1"></div>');
+  });
+});
+
+describe('isEmbedMessage', () => {
+  it('should accept only resize and vote messages from embedded polls', () => {
+    expect(isEmbedMessage({ source: 'polly', type: 'resize', pollId: 'poll-1', height: 320 })).toBe(true);
+    expect(isEmbedMessage({ source: 'polly', type: 'vote', pollId: 'poll-1' })).toBe(true);
+    expect(isEmbedMessage({ source: 'polly', type: 'resize', pollId: 'poll-1' })).toBe(false);
+    expect(isEmbedMessage({ source: 'other', type: 'vote', pollId: 'poll-1' })).toBe(false);
+    expect(isEmbedMessage('polly')).toBe(false);
+  });
+});
@@ -0,0 +1,48 @@
+import { EmbedMessage } from '@/types';
+
+/** The height embedded polls start at, before they first report their own. */
+export const DEFAULT_EMBED_HEIGHT = 480;
+
+/**
+ * Builds the URL of a poll's embeddable, chrome-less page. Unlisted and private polls need their
+ * share token, like their share link.
+ * @param baseUrl The app's base URL.
+ * @param pollId The ID of the poll.
+ * @param shareToken The poll's share token, for polls that aren't public.
+ */
+export function getEmbedUrl(baseUrl: string, pollId: string, shareToken?: string | null): string {
+  return `${baseUrl}/embed/polls/${pollId}${shareToken ? `?token=${shareToken}` : ''}`;
+}
+
+/**
+ * Builds the HTML that embeds a poll with a plain iframe. The iframe keeps its starting height.
+ * @param baseUrl The app's base URL.
+ * @param pollId The ID of the poll.
+ * @param shareToken The poll's share token, for polls that aren't public.
+ */
+export function getIframeEmbedCode(baseUrl: string, pollId: string, shareToken?: string | null): string {
+  return `<iframe src="${getEmbedUrl(baseUrl, pollId, shareToken)}" width="100%" height="${DEFAULT_EMBED_HEIGHT}" style="border: 0;" title="Poll" loading="lazy"></iframe>`;
+}
+
+/**
+ * Builds the HTML that embeds a poll with the embed script. The script adds the iframe, resizes it
+ * to the poll, and fires a `polly:vote` event on the placeholder element when someone votes.
+ * @param baseUrl The app's base URL.
+ * @param pollId The ID of the poll.
+ * @param shareToken The poll's share token, for polls that aren't public.
+ */
+export function getScriptEmbedCode(baseUrl: string, pollId: string, shareToken?: string | null): string {
+  const token = shareToken ? ` data-polly-token="${shareToken}"` : '';
+  return `<div data-polly-poll="${pollId}"${token}></div>\n<script src="${baseUrl}/embed.js" async></script>`;
+}
+
+/**
+ * Checks whether a message event's data was posted by an embedded poll.
+ * @param data The message event's data.
+ */
+export function isEmbedMessage(data: unknown): data is EmbedMessage {
+  if (typeof data !== 'object' || data === null) return false;
+  const message = data as Partial<EmbedMessage>;
+  return message.source === 'polly' && typeof message.pollId === 'string' &&
+    (message.type === 'vote' || (message.type === 'resize' && typeof message.height === 'number'));
+}
@@ -1,3 +1,5 @@
+import { RateLimitResult } from './rate-limit';
+
 export enum ErrorCode {
   // Authentication errors
   UNAUTHORIZED = 'UNAUTHORIZED',
@@ -89,8 +91,12 @@ export class ConflictError extends AppError {
 }
 
 export class RateLimitError extends AppError {
-  constructor(message: string = 'Rate limit exceeded') {
+  /** The limit that was reached, which the response's rate limit headers describe. */
+  public readonly rateLimit: RateLimitResult | undefined;
+
+  constructor(message: string = 'Rate limit exceeded', rateLimit?: RateLimitResult) {
     super(message, ErrorCode.RATE_LIMIT_EXCEEDED, 429);
+    this.rateLimit = rateLimit;
   }
 }
 
@@ -0,0 +1,44 @@
+import { createServerSupabaseClient } from '@/lib/supabase/client';
+import { BallotFingerprint, FRAUD_WINDOW_MS, detectVoteFraud, getBallotKey } from '@/lib/fraud';
+import { FraudFlag } from '@/types';
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+/**
+ * Checks a new ballot against the poll's votes from the last few minutes.
+ * A check that fails is logged and lets the ballot through unflagged, since flags only mark
+ * votes for review.
+ * @param supabase The Supabase client.
+ * @param pollId The ID of the poll.
+ * @param ballot The new ballot.
+ * @returns The flags to store on the ballot's votes, or null if nothing looks wrong.
+ */
+export async function detectBallotFraud(
+  supabase: SupabaseClient,
+  pollId: string,
+  ballot: BallotFingerprint
+): Promise<FraudFlag[] | null> {
+  const now = new Date();
+  const { data: votes, error } = await supabase
+    .from('votes')
+    .select('id, response_id, voter_id, voter_email, voter_phone, ip_address, user_agent, created_at')
+    .eq('poll_id', pollId)
+    .gte('created_at', new Date(now.getTime() - FRAUD_WINDOW_MS).toISOString());
+
+  if (error) {
+    console.error('Fraud check error:', error);
+    return null;
+  }
+
+  const flags = detectVoteFraud(
+    ballot,
+    votes.map((vote) => ({
+      ballotKey: getBallotKey(vote),
+      ipAddress: vote.ip_address,
+      userAgent: vote.user_agent,
+      createdAt: vote.created_at
+    })),
+    now
+  );
+  return flags.length > 0 ? flags : null;
+}
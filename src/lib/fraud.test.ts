@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { detectVoteFraud, getBallotKey, getSubnet, groupSuspiciousBallots, isThrowawayEmail } from '@/lib/fraud';
+
+const now = new Date('2024-05-01T10:00:00Z');
+
+/**
+ * Builds recent votes, one ballot each, cast a minute before `now`.
+ * @param count How many votes to build.
+ * @param vote What the votes have in common.
+ */
+function recentVotes(count: number, vote: { ipAddress?: string; userAgent?: string }) {
+  return Array.from({ length: count }, (_, i) => ({
+    ballotKey: `b${i}`,
+    ipAddress: vote.ipAddress ?? `198.51.${i}.1`,
+    userAgent: vote.userAgent ?? `Agent ${i}`,
+    createdAt: '2024-05-01T09:59:00Z'
+  }));
+}
+
+describe('getBallotKey', () => {
+  it('should group vote rows by response, then voter', () => {
+    const vote = { id: 'v1', response_id: null, voter_id: null, voter_email: 'a@example.com', voter_phone: null };
+    expect(getBallotKey(vote)).toBe('a@example.com');
+    expect(getBallotKey({ ...vote, response_id: 'r1' })).toBe('r1');
+    expect(getBallotKey({ ...vote, voter_email: null })).toBe('v1');
+  });
+});
+
+describe('getSubnet', () => {
+  it('should find the /24 of IPv4 addresses and the /48 of IPv6 addresses', () => {
+    expect(getSubnet('203.0.113.42')).toBe('203.0.113.0/24');
+    expect(getSubnet('2001:db8:0042::1')).toBe('2001:db8:42::/48');
+    expect(getSubnet('2001:DB8:1:2:3:4:5:6')).toBe('2001:db8:1::/48');
+    expect(getSubnet('unknown')).toBeNull();
+  });
+});
+
+describe('isThrowawayEmail', () => {
+  it('should spot disposable domains and + aliases', () => {
+    expect(isThrowawayEmail('someone@Mailinator.com')).toBe(true);
+    expect(isThrowawayEmail('someone+poll3@example.com')).toBe(true);
+    expect(isThrowawayEmail('someone@example.com')).toBe(false);
+  });
+});
+
+describe('detectVoteFraud', () => {
+  it('should flag bursts of ballots from one IP address', () => {
+    const ballot = { ipAddress: '203.0.113.42', userAgent: 'Agent' };
+    expect(detectVoteFraud(ballot, recentVotes(2, { ipAddress: '203.0.113.42' }), now)).toEqual([]);
+    expect(detectVoteFraud(ballot, recentVotes(3, { ipAddress: '203.0.113.42' }), now)).toEqual(['ip_burst']);
+  });
+
+  it('should count ballots rather than vote rows', () => {
+    const votes = recentVotes(3, { ipAddress: '203.0.113.42' }).map((vote) => ({ ...vote, ballotKey: 'b0' }));
+    expect(detectVoteFraud({ ipAddress: '203.0.113.42', userAgent: 'Agent' }, votes, now)).toEqual([]);
+  });
+
+  it('should flag bursts from one network and from identical browsers', () => {
+    const network = recentVotes(10, {}).map((vote, i) => ({ ...vote, ipAddress: `203.0.113.${i}` }));
+    expect(detectVoteFraud({ ipAddress: '203.0.113.200', userAgent: 'Agent' }, network, now)).toEqual(['subnet_burst']);
+    expect(detectVoteFraud({ ipAddress: '192.0.2.1', userAgent: 'Bot/1.0' }, recentVotes(10, { userAgent: 'Bot/1.0' }), now)).toEqual([
+      'shared_user_agent'
+    ]);
+  });
+
+  it('should ignore votes from before the window and unknown addresses', () => {
+    const old = recentVotes(5, { ipAddress: '203.0.113.42' }).map((vote) => ({ ...vote, createdAt: '2024-05-01T09:45:00Z' }));
+    expect(detectVoteFraud({ ipAddress: '203.0.113.42', userAgent: 'Agent' }, old, now)).toEqual([]);
+    expect(detectVoteFraud({ ipAddress: 'unknown', userAgent: 'unknown' }, recentVotes(20, { ipAddress: 'unknown', userAgent: 'unknown' }), now)).toEqual([]);
+  });
+
+  it('should flag throwaway email addresses', () => {
+    expect(detectVoteFraud({ ipAddress: null, userAgent: null, voterEmail: 'x@yopmail.com' }, [], now)).toEqual(['throwaway_email']);
+  });
+});
+
+describe('groupSuspiciousBallots', () => {
+  it('should merge the rows of each ballot, newest ballot first', () => {
+    const row = {
+      voter: null,
+      ipAddress: '203.0.113.42',
+      userAgent: 'Agent',
+      excluded: false,
+      exclusionReason: null
+    };
+    const ballots = groupSuspiciousBallots([
+      { ...row, id: 'v1', ballotKey: 'u1', flags: ['ip_burst'], createdAt: '2024-05-01T09:00:00Z' },
+      { ...row, id: 'v2', ballotKey: 'u2', flags: ['ip_burst'], createdAt: '2024-05-01T09:05:00Z' },
+      {
+        ...row,
+        id: 'v3',
+        ballotKey: 'u1',
+        flags: ['ip_burst', 'shared_user_agent'],
+        createdAt: '2024-05-01T09:00:00Z',
+        excluded: true,
+        exclusionReason: 'Same office'
+      }
+    ]);
+
+    expect(ballots.map((ballot) => ballot.voteIds)).toEqual([['v2'], ['v1', 'v3']]);
+    expect(ballots[1]).toMatchObject({ flags: ['ip_burst', 'shared_user_agent'], excluded: true, exclusionReason: 'Same office' });
+  });
+});
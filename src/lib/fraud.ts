@@ -0,0 +1,177 @@
+import { FraudFlag, SuspiciousBallot } from '@/types';
+
+/** How far back votes are compared with a new ballot. */
+export const FRAUD_WINDOW_MS = 10 * 60 * 1000;
+
+/**
+ * How many earlier ballots in the window may share something with a new ballot before it is
+ * flagged. Offices and campuses put many honest voters behind one address, so these only flag
+ * votes for review; they never reject them.
+ */
+export const FRAUD_THRESHOLDS = {
+  ip: 3,
+  subnet: 10,
+  userAgent: 10
+};
+
+/** Human-readable descriptions of each flag, shown on the review screen. */
+export const FRAUD_FLAG_LABELS: Record<FraudFlag, string> = {
+  ip_burst: 'Many votes from one IP address',
+  subnet_burst: 'Many votes from one network',
+  shared_user_agent: 'Many votes from an identical browser',
+  throwaway_email: 'Throwaway email address'
+};
+
+/** Domains of disposable email services. */
+const THROWAWAY_EMAIL_DOMAINS = new Set([
+  '10minutemail.com',
+  'dispostable.com',
+  'getnada.com',
+  'guerrillamail.com',
+  'maildrop.cc',
+  'mailinator.com',
+  'sharklasers.com',
+  'temp-mail.org',
+  'throwawaymail.com',
+  'trashmail.com',
+  'yopmail.com'
+]);
+
+/** A recent vote, as compared with a new ballot. */
+export interface RecentVote {
+  /** Identifies the ballot the vote row belongs to; see `getBallotKey`. */
+  ballotKey: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+}
+
+/** What is known about a new ballot when it is cast. */
+export interface BallotFingerprint {
+  ipAddress: string | null;
+  userAgent: string | null;
+  voterEmail?: string | null | undefined;
+}
+
+/**
+ * Identifies the ballot a vote row belongs to: the survey response, the voter, or the row itself.
+ * Multiple-vote and survey ballots are stored as several rows.
+ * @param vote The vote row.
+ */
+export function getBallotKey(vote: {
+  id: string;
+  response_id: string | null;
+  voter_id: string | null;
+  voter_email: string | null;
+  voter_phone: string | null;
+}): string {
+  return vote.response_id || vote.voter_id || vote.voter_email || vote.voter_phone || vote.id;
+}
+
+/**
+ * Finds the network an IP address is on: its /24 for IPv4 addresses, and its /48 for IPv6.
+ * @param ip The IP address.
+ * @returns The network, or null if the address isn't known.
+ */
+export function getSubnet(ip: string | null): string | null {
+  if (!ip || ip === 'unknown') return null;
+
+  const ipv4 = ip.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.\d{1,3}$/);
+  if (ipv4) return `${ipv4[1]}.${ipv4[2]}.${ipv4[3]}.0/24`;
+
+  if (ip.includes(':')) {
+    const [head = '', tail = ''] = ip.toLowerCase().split('::');
+    const headGroups = head ? head.split(':') : [];
+    const tailGroups = tail ? tail.split(':') : [];
+    const groups = ip.includes('::')
+      ? [...headGroups, ...Array(Math.max(8 - headGroups.length - tailGroups.length, 0)).fill('0'), ...tailGroups]
+      : headGroups;
+    return `${groups.slice(0, 3).map((group) => group.replace(/^0+(?=.)/, '')).join(':')}::/48`;
+  }
+
+  return null;
+}
+
+/**
+ * Checks whether an email address looks like one made to vote again: one at a disposable email
+ * service, or a `+` alias of another address.
+ * @param email The email address.
+ */
+export function isThrowawayEmail(email: string): boolean {
+  const [local = '', domain = ''] = email.toLowerCase().split('@');
+  return THROWAWAY_EMAIL_DOMAINS.has(domain) || local.includes('+');
+}
+
+/**
+ * Compares a new ballot with the poll's recent votes, and says why it looks suspicious.
+ * @param ballot The new ballot.
+ * @param recentVotes The poll's votes, at least those cast in the last `FRAUD_WINDOW_MS`.
+ * @param now When the ballot was cast.
+ * @returns The ballot's flags, or an empty array if nothing looks wrong.
+ */
+export function detectVoteFraud(ballot: BallotFingerprint, recentVotes: RecentVote[], now: Date = new Date()): FraudFlag[] {
+  const since = now.getTime() - FRAUD_WINDOW_MS;
+  const recent = recentVotes.filter((vote) => new Date(vote.createdAt).getTime() >= since);
+
+  /**
+   * Counts the ballots among the recent votes that match.
+   * @param matches Whether a vote matches.
+   */
+  const countBallots = (matches: (vote: RecentVote) => boolean) =>
+    new Set(recent.filter(matches).map((vote) => vote.ballotKey)).size;
+
+  const flags: FraudFlag[] = [];
+  const ip = ballot.ipAddress && ballot.ipAddress !== 'unknown' ? ballot.ipAddress : null;
+  if (ip && countBallots((vote) => vote.ipAddress === ip) >= FRAUD_THRESHOLDS.ip) {
+    flags.push('ip_burst');
+  }
+
+  const subnet = getSubnet(ip);
+  if (subnet && countBallots((vote) => getSubnet(vote.ipAddress) === subnet) >= FRAUD_THRESHOLDS.subnet) {
+    flags.push('subnet_burst');
+  }
+
+  const userAgent = ballot.userAgent && ballot.userAgent !== 'unknown' ? ballot.userAgent : null;
+  if (userAgent && countBallots((vote) => vote.userAgent === userAgent) >= FRAUD_THRESHOLDS.userAgent) {
+    flags.push('shared_user_agent');
+  }
+
+  if (ballot.voterEmail && isThrowawayEmail(ballot.voterEmail)) {
+    flags.push('throwaway_email');
+  }
+
+  return flags;
+}
+
+/** A vote row that was flagged or excluded, as shown on the review screen. */
+export interface ReviewedVote extends Omit<SuspiciousBallot, 'voteIds' | 'flags'> {
+  id: string;
+  ballotKey: string;
+  flags: FraudFlag[];
+}
+
+/**
+ * Groups flagged and excluded vote rows into ballots, newest first. A ballot carries the flags
+ * of all its rows, and counts as excluded if any of them is.
+ * @param votes The vote rows.
+ */
+export function groupSuspiciousBallots(votes: ReviewedVote[]): SuspiciousBallot[] {
+  const ballots = new Map<string, SuspiciousBallot>();
+
+  for (const { id, ballotKey, flags, ...vote } of votes) {
+    const ballot = ballots.get(ballotKey);
+    if (!ballot) {
+      ballots.set(ballotKey, { ...vote, voteIds: [id], flags: [...flags] });
+      continue;
+    }
+
+    ballot.voteIds.push(id);
+    ballot.flags = [...new Set([...ballot.flags, ...flags])];
+    if (vote.excluded && !ballot.excluded) {
+      ballot.excluded = true;
+      ballot.exclusionReason = vote.exclusionReason;
+    }
+  }
+
+  return [...ballots.values()].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { getBallotMessage, getBallotUrl, getTurnout, parseInviteeList } from '@/lib/invitations';
+
+describe('parseInviteeList', () => {
+  it('should split, lowercase and deduplicate addresses, and report the invalid entries', () => {
+    expect(parseInviteeList('Ann@example.com, bob@example.com;\nann@example.com  not-an-email\n')).toEqual({
+      emails: ['ann@example.com', 'bob@example.com'],
+      invalid: ['not-an-email']
+    });
+  });
+});
+
+describe('getTurnout', () => {
+  it('should count invitees and the ballot tokens that were used', () => {
+    expect(getTurnout([{ hasVoted: true }, { hasVoted: false }, { hasVoted: true }])).toEqual({ invited: 3, voted: 2 });
+    expect(getTurnout([])).toEqual({ invited: 0, voted: 0 });
+  });
+});
+
+describe('getBallotUrl', () => {
+  it('should add the ballot token to the share link', () => {
+    expect(getBallotUrl('https://example.com', 'poll-1', 'abc', 'xyz')).toBe('https://example.com/polls/poll-1?token=abc&ballot=xyz');
+  });
+});
+
+describe('getBallotMessage', () => {
+  it('should only explain missing and used ballot tokens', () => {
+    expect(getBallotMessage('missing')).toContain('invite-only');
+    expect(getBallotMessage('used')).toContain('already been used');
+    expect(getBallotMessage('unused')).toBeNull();
+    expect(getBallotMessage(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+import { BallotStatus, PollInvitation, PollTurnout } from '@/types';
+import { getShareUrl } from '@/lib/access';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Parses an invitee list pasted by a poll creator: email addresses separated by commas,
+ * semicolons, spaces or new lines. Addresses are lowercased and duplicates are dropped.
+ * @param text The pasted list.
+ * @returns The valid addresses, in order, and the entries that aren't email addresses.
+ */
+export function parseInviteeList(text: string): { emails: string[]; invalid: string[] } {
+  const entries = text.split(/[\s,;]+/).map((entry) => entry.trim().toLowerCase()).filter(Boolean);
+  const emails = new Set<string>();
+  const invalid: string[] = [];
+
+  for (const entry of entries) {
+    if (EMAIL_PATTERN.test(entry)) {
+      emails.add(entry);
+    } else {
+      invalid.push(entry);
+    }
+  }
+
+  return { emails: [...emails], invalid };
+}
+
+/**
+ * Counts how many invitees have voted. Only whether each ballot token was used is known,
+ * never what it was used for.
+ * @param invitations The poll's invitations.
+ */
+export function getTurnout(invitations: Pick<PollInvitation, 'hasVoted'>[]): PollTurnout {
+  return {
+    invited: invitations.length,
+    voted: invitations.filter((invitation) => invitation.hasVoted).length
+  };
+}
+
+/**
+ * Builds an invitee's ballot link. It goes through the poll's share link, so it also opens
+ * unlisted and private polls.
+ * @param baseUrl The app's base URL.
+ * @param pollId The ID of the poll.
+ * @param shareToken The poll's share token.
+ * @param ballotToken The invitee's ballot token.
+ */
+export function getBallotUrl(baseUrl: string, pollId: string, shareToken: string, ballotToken: string): string {
+  return `${getShareUrl(baseUrl, pollId, shareToken)}&ballot=${ballotToken}`;
+}
+
+/**
+ * Explains to a visitor of an invite-only poll why they can't vote.
+ * @param status The state of the visitor's ballot token.
+ * @returns The message, or null if the visitor can vote.
+ */
+export function getBallotMessage(status: BallotStatus | undefined): string | null {
+  switch (status) {
+    case 'missing':
+      return 'This poll is invite-only. Open it through the ballot link in your invitation to vote.';
+    case 'used':
+      return 'This ballot link has already been used to vote.';
+    default:
+      return null;
+  }
+}
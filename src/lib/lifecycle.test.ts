@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { canTransition, getEffectiveStatus, getPublishedStatus } from '@/lib/lifecycle';
+
+const now = new Date('2026-03-01T12:00:00Z');
+const past = '2026-02-01T12:00:00Z';
+const future = '2026-04-01T12:00:00Z';
+
+describe('canTransition', () => {
+  it('should allow publishing drafts and archiving closed polls', () => {
+    expect(canTransition('draft', 'open')).toBe(true);
+    expect(canTransition('draft', 'scheduled')).toBe(true);
+    expect(canTransition('closed', 'archived')).toBe(true);
+    expect(canTransition('closed', 'open')).toBe(true);
+  });
+
+  it('should reject skipping or reversing steps', () => {
+    expect(canTransition('draft', 'closed')).toBe(false);
+    expect(canTransition('open', 'draft')).toBe(false);
+    expect(canTransition('open', 'archived')).toBe(false);
+    expect(canTransition('archived', 'open')).toBe(false);
+  });
+});
+
+describe('getEffectiveStatus', () => {
+  it('should open scheduled polls once they start and close them once they expire', () => {
+    expect(getEffectiveStatus('scheduled', future, null, now)).toBe('scheduled');
+    expect(getEffectiveStatus('scheduled', past, null, now)).toBe('open');
+    expect(getEffectiveStatus('open', past, past, now)).toBe('closed');
+    expect(getEffectiveStatus('scheduled', past, future, now)).toBe('open');
+  });
+
+  it('should open polls at their start and close them at their expiry, to the millisecond', () => {
+    expect(getEffectiveStatus('scheduled', now, null, now)).toBe('open');
+    expect(getEffectiveStatus('scheduled', new Date(now.getTime() + 1), null, now)).toBe('scheduled');
+    expect(getEffectiveStatus('open', null, now, now)).toBe('closed');
+    expect(getEffectiveStatus('open', null, new Date(now.getTime() + 1), now)).toBe('open');
+  });
+
+  it('should close polls that expire before they were due to start', () => {
+    expect(getEffectiveStatus('scheduled', future, past, now)).toBe('closed');
+  });
+
+  it('should open scheduled and open polls with no dates', () => {
+    expect(getEffectiveStatus('scheduled', null, null, now)).toBe('open');
+    expect(getEffectiveStatus('open', undefined, undefined, now)).toBe('open');
+  });
+
+  it('should leave drafts, closed and archived polls alone', () => {
+    expect(getEffectiveStatus('draft', past, past, now)).toBe('draft');
+    expect(getEffectiveStatus('closed', null, future, now)).toBe('closed');
+    expect(getEffectiveStatus('archived', null, null, now)).toBe('archived');
+  });
+});
+
+describe('getPublishedStatus', () => {
+  it('should schedule polls that start in the future', () => {
+    expect(getPublishedStatus(future, now)).toBe('scheduled');
+    expect(getPublishedStatus(past, now)).toBe('open');
+    expect(getPublishedStatus(null, now)).toBe('open');
+  });
+
+  it('should open polls that start right away, whether the start is a date or a string', () => {
+    expect(getPublishedStatus(now, now)).toBe('open');
+    expect(getPublishedStatus(now.toISOString(), now)).toBe('open');
+    expect(getPublishedStatus(new Date(future), now)).toBe('scheduled');
+    expect(getPublishedStatus(undefined, now)).toBe('open');
+  });
+});
@@ -0,0 +1,66 @@
+import { PollStatus } from '@/types';
+
+/** Every lifecycle status, in the order a poll normally moves through them. */
+export const POLL_STATUSES: PollStatus[] = ['draft', 'scheduled', 'open', 'closed', 'archived'];
+
+/**
+ * The statuses a poll may move to from each status.
+ * Drafts are published as scheduled or open polls, closed polls can be reopened or archived,
+ * and archived polls can be brought back as closed polls.
+ */
+export const POLL_TRANSITIONS: Record<PollStatus, PollStatus[]> = {
+  draft: ['scheduled', 'open'],
+  scheduled: ['draft', 'open', 'closed'],
+  open: ['closed'],
+  closed: ['open', 'archived'],
+  archived: ['closed']
+};
+
+/** Human-readable names for each status, used in badges and error messages. */
+export const POLL_STATUS_LABELS: Record<PollStatus, string> = {
+  draft: 'Draft',
+  scheduled: 'Scheduled',
+  open: 'Open',
+  closed: 'Closed',
+  archived: 'Archived'
+};
+
+/**
+ * Checks whether a poll may move from one status to another.
+ * @param from The poll's current status.
+ * @param to The requested status.
+ */
+export function canTransition(from: PollStatus, to: PollStatus): boolean {
+  return POLL_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Works out a poll's status right now. The stored status doesn't change on its own, so a
+ * scheduled poll whose start has passed is open, and an open poll whose expiry has passed is closed.
+ * @param status The stored status.
+ * @param startsAt When the poll opens, if it is scheduled.
+ * @param expiresAt When the poll expires, if ever.
+ * @param now The current time.
+ * @returns The effective status.
+ */
+export function getEffectiveStatus(
+  status: PollStatus,
+  startsAt?: Date | string | null,
+  expiresAt?: Date | string | null,
+  now: Date = new Date()
+): PollStatus {
+  if (status !== 'scheduled' && status !== 'open') return status;
+  if (expiresAt && new Date(expiresAt) <= now) return 'closed';
+  if (startsAt && new Date(startsAt) > now) return 'scheduled';
+  return 'open';
+}
+
+/**
+ * Returns the status a poll takes when it is published: scheduled if it starts in the future,
+ * otherwise open.
+ * @param startsAt When the poll opens, if it is scheduled.
+ * @param now The current time.
+ */
+export function getPublishedStatus(startsAt?: Date | string | null, now: Date = new Date()): PollStatus {
+  return startsAt && new Date(startsAt) > now ? 'scheduled' : 'open';
+}
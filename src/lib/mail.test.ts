@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { encodeHeader, formatMailMessage, getEnvelopeAddress, toSmtpData } from '@/lib/mail';
+
+describe('encodeHeader', () => {
+  it('should keep ASCII headers as they are and encode the rest', () => {
+    expect(encodeHeader('Confirm your vote')).toBe('Confirm your vote');
+    expect(encodeHeader('Café poll')).toBe(`=?UTF-8?B?${Buffer.from('Café poll').toString('base64')}?=`);
+    expect(encodeHeader('Line one\r\nBcc: someone@example.com')).toBe('Line one Bcc: someone@example.com');
+  });
+});
+
+describe('formatMailMessage', () => {
+  it('should put the headers before the body, with CRLF line endings', () => {
+    const formatted = formatMailMessage(
+      { to: 'ann@example.com', subject: 'Hello', text: 'First line\nSecond line' },
+      'Polly <no-reply@example.com>',
+      'abc@example.com',
+      new Date('2025-01-01T00:00:00Z')
+    );
+
+    expect(formatted).toContain('From: Polly <no-reply@example.com>\r\nTo: ann@example.com\r\nSubject: Hello\r\n');
+    expect(formatted).toContain('Date: Wed, 01 Jan 2025 00:00:00 GMT\r\nMessage-ID: <abc@example.com>\r\n');
+    expect(formatted.endsWith('\r\n\r\nFirst line\r\nSecond line')).toBe(true);
+  });
+});
+
+describe('toSmtpData', () => {
+  it('should double leading dots and end with a lone dot', () => {
+    expect(toSmtpData('Subject: Hi\r\n\r\n.hidden\r\nshown')).toBe('Subject: Hi\r\n\r\n..hidden\r\nshown\r\n.');
+  });
+});
+
+describe('getEnvelopeAddress', () => {
+  it('should take the address out of a display name', () => {
+    expect(getEnvelopeAddress('Polly <no-reply@example.com>')).toBe('no-reply@example.com');
+    expect(getEnvelopeAddress(' ann@example.com ')).toBe('ann@example.com');
+  });
+});
@@ -0,0 +1,70 @@
+/** An email to send. Emails are plain text. */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Delivers emails. `FileMailTransport` keeps them on disk for development, and
+ * `SmtpMailTransport` hands them to an SMTP server.
+ */
+export interface MailTransport {
+  /**
+   * Delivers one email.
+   * @param message The email.
+   * @param from The sender's address, which may include a display name.
+   * @returns The formatted message that was delivered.
+   */
+  send(message: MailMessage, from: string): Promise<string>;
+}
+
+/**
+ * Encodes a header value as an RFC 2047 encoded word if it isn't plain ASCII, such as a subject
+ * with a poll's title in it.
+ * @param value The header value.
+ */
+export function encodeHeader(value: string): string {
+  const singleLine = value.replace(/[\r\n]+/g, ' ');
+  if (/^[ -~]*$/.test(singleLine)) return singleLine;
+  return `=?UTF-8?B?${Buffer.from(singleLine, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Formats an email as an RFC 5322 message, with CRLF line endings.
+ * @param message The email.
+ * @param from The sender's address.
+ * @param messageId The message's unique ID, without angle brackets.
+ * @param date When the email is sent.
+ */
+export function formatMailMessage(message: MailMessage, from: string, messageId: string, date: Date = new Date()): string {
+  const headers = [
+    `From: ${encodeHeader(from)}`,
+    `To: ${encodeHeader(message.to)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${messageId}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit'
+  ];
+  return `${headers.join('\r\n')}\r\n\r\n${message.text.replace(/\r?\n/g, '\r\n')}`;
+}
+
+/**
+ * Prepares a formatted message to be sent after an SMTP DATA command: lines starting with a dot
+ * get another, and the message ends with the line holding a lone dot that marks its end.
+ * @param message The formatted message.
+ * @returns The message, without a line ending after the final dot.
+ */
+export function toSmtpData(message: string): string {
+  return `${message.replace(/^\./gm, '..')}\r\n.`;
+}
+
+/**
+ * Finds the address part of a sender such as `Polly <no-reply@example.com>`, for the SMTP envelope.
+ * @param address The address, with or without a display name.
+ */
+export function getEnvelopeAddress(address: string): string {
+  return address.match(/<([^>]+)>\s*$/)?.[1] ?? address.trim();
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PHONE_VERIFICATION_DURATION_MS, createPhoneVerificationToken, verifyPhoneVerificationToken } from '@/lib/phone-verification';
+import { getPollCookieOptions } from '@/lib/poll-cookies';
+import { Database } from '@/types/database';
+
+type PollRow = Pick<Database['public']['Tables']['polls']['Row'], 'id' | 'require_phone_verification'>;
+
+/**
+ * The name of the cookie that shows a voter verified their phone number for a poll.
+ * @param pollId The ID of the poll.
+ */
+function getPhoneCookieName(pollId: string): string {
+  return `phone_${pollId}`;
+}
+
+/**
+ * Returns the secret verification codes are hashed, and verification cookies signed, with.
+ */
+export function getPhoneVerificationSecret(): string {
+  const secret = process.env.PHONE_VERIFICATION_SECRET;
+  if (!secret) {
+    throw new Error('PHONE_VERIFICATION_SECRET is not set');
+  }
+  return secret;
+}
+
+/**
+ * Checks that a ballot on a poll that requires verified phone numbers comes from a voter who
+ * verified the number it was cast with. Ballots recorded by account don't need one.
+ * @param request The incoming request.
+ * @param poll The poll.
+ * @param voter Who cast the ballot.
+ * @returns The error response to send, or null if the ballot can be taken.
+ */
+export function checkRequestPhoneVerification(
+  request: NextRequest,
+  poll: PollRow,
+  voter: { voter_id?: string | null | undefined; voter_phone?: string | null | undefined }
+): NextResponse | null {
+  if (!poll.require_phone_verification || voter.voter_id) return null;
+
+  if (!voter.voter_phone) {
+    return NextResponse.json(
+      { error: 'This poll requires a verified phone number', phoneVerification: 'required' },
+      { status: 400 }
+    );
+  }
+
+  const token = request.cookies.get(getPhoneCookieName(poll.id))?.value;
+  if (!token || !verifyPhoneVerificationToken(token, poll.id, voter.voter_phone, getPhoneVerificationSecret())) {
+    return NextResponse.json(
+      { error: 'Verify your phone number first', phoneVerification: 'unverified' },
+      { status: 403 }
+    );
+  }
+  return null;
+}
+
+/**
+ * Lets the voter who just entered their verification code vote with their phone number, for a
+ * short while.
+ * @param request The verification request.
+ * @param response The response to the verification request.
+ * @param pollId The ID of the poll.
+ * @param phone The verified phone number.
+ * @returns The same response, with the cookie set.
+ */
+export function rememberPhoneVerification(request: NextRequest, response: NextResponse, pollId: string, phone: string): NextResponse {
+  const expiresAt = Date.now() + PHONE_VERIFICATION_DURATION_MS;
+  const token = createPhoneVerificationToken(pollId, phone, getPhoneVerificationSecret(), expiresAt);
+  response.cookies.set(getPhoneCookieName(pollId), token, getPollCookieOptions(request, PHONE_VERIFICATION_DURATION_MS / 1000));
+  return response;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_PHONE_CODE_ATTEMPTS,
+  PHONE_CODE_LENGTH,
+  buildPhoneCodeMessage,
+  checkPhoneCode,
+  createPhoneVerificationToken,
+  generatePhoneCode,
+  hashPhoneCode,
+  verifyPhoneVerificationToken
+} from '@/lib/phone-verification';
+
+describe('generatePhoneCode', () => {
+  it('should generate codes of digits only, padded to their full length', () => {
+    for (let i = 0; i < 20; i++) {
+      expect(generatePhoneCode()).toMatch(new RegExp(`^\\d{${PHONE_CODE_LENGTH}}$`));
+    }
+  });
+});
+
+describe('checkPhoneCode', () => {
+  const now = Date.UTC(2025, 0, 1);
+  const record = {
+    id: 'verification-1',
+    code_hash: hashPhoneCode('verification-1', '123456', 'secret'),
+    attempts: 0,
+    expires_at: new Date(now + 1000).toISOString()
+  };
+
+  it('should accept the code that was texted until it expires', () => {
+    expect(checkPhoneCode(record, '123456', 'secret', now)).toBe('verified');
+    expect(checkPhoneCode(record, '123456', 'secret', now + 1000)).toBe('expired');
+  });
+
+  it('should reject another code, or the code hashed for another verification or secret', () => {
+    expect(checkPhoneCode(record, '654321', 'secret', now)).toBe('incorrect');
+    expect(checkPhoneCode({ ...record, id: 'verification-2' }, '123456', 'secret', now)).toBe('incorrect');
+    expect(checkPhoneCode(record, '123456', 'other-secret', now)).toBe('incorrect');
+  });
+
+  it('should stop accepting the code once it was entered too many times', () => {
+    expect(checkPhoneCode({ ...record, attempts: MAX_PHONE_CODE_ATTEMPTS - 1 }, '123456', 'secret', now)).toBe('verified');
+    expect(checkPhoneCode({ ...record, attempts: MAX_PHONE_CODE_ATTEMPTS }, '123456', 'secret', now)).toBe('too_many_attempts');
+  });
+});
+
+describe('verifyPhoneVerificationToken', () => {
+  const now = Date.UTC(2025, 0, 1);
+  const token = createPhoneVerificationToken('poll-1', '+15550100', 'secret', now + 1000);
+
+  it('should accept the token for the same poll and phone number until it expires', () => {
+    expect(verifyPhoneVerificationToken(token, 'poll-1', '+15550100', 'secret', now)).toBe(true);
+    expect(verifyPhoneVerificationToken(token, 'poll-1', '+15550100', 'secret', now + 1000)).toBe(false);
+  });
+
+  it('should reject the token for another poll, phone number or secret', () => {
+    expect(verifyPhoneVerificationToken(token, 'poll-2', '+15550100', 'secret', now)).toBe(false);
+    expect(verifyPhoneVerificationToken(token, 'poll-1', '+15550199', 'secret', now)).toBe(false);
+    expect(verifyPhoneVerificationToken(token.replace('+15550100', '+15550199'), 'poll-1', '+15550199', 'secret', now)).toBe(false);
+    expect(verifyPhoneVerificationToken(token, 'poll-1', '+15550100', 'other-secret', now)).toBe(false);
+    expect(verifyPhoneVerificationToken('', 'poll-1', '+15550100', 'secret', now)).toBe(false);
+  });
+});
+
+describe('buildPhoneCodeMessage', () => {
+  it('should text the voter their code for the poll', () => {
+    const message = buildPhoneCodeMessage('+15550100', '123456', 'Lunch');
+
+    expect(message.to).toBe('+15550100');
+    expect(message.text).toMatch(/^123456 is your code to vote on "Lunch"/);
+  });
+});
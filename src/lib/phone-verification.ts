@@ -0,0 +1,121 @@
+import { createHmac, randomInt, timingSafeEqual } from 'crypto';
+import { SmsMessage } from '@/lib/sms';
+
+/** How many digits a verification code has. */
+export const PHONE_CODE_LENGTH = 6;
+
+/** How long a verification code can be entered after it was texted. */
+export const PHONE_CODE_TTL_MS = 10 * 60 * 1000;
+
+/** How many times a verification code can be entered before it stops working. */
+export const MAX_PHONE_CODE_ATTEMPTS = 5;
+
+/** How many codes can be texted to one phone number for one poll in an hour. */
+export const MAX_PHONE_CODES_PER_HOUR = 5;
+
+/** How long a verified phone number can be voted with, once its code was entered. */
+export const PHONE_VERIFICATION_DURATION_MS = 60 * 60 * 1000;
+
+/** What became of an attempt to enter a verification code. */
+export type PhoneCodeResult = 'verified' | 'incorrect' | 'expired' | 'too_many_attempts';
+
+/** A verification code as it is stored: hashed, with the number of times it was entered. */
+export interface PhoneCodeRecord {
+  id: string;
+  code_hash: string;
+  attempts: number;
+  expires_at: string;
+}
+
+/**
+ * Generates a random verification code, with leading zeros if need be.
+ */
+export function generatePhoneCode(): string {
+  return String(randomInt(10 ** PHONE_CODE_LENGTH)).padStart(PHONE_CODE_LENGTH, '0');
+}
+
+/**
+ * Hashes a verification code for storage, so that codes can't be read back from the database.
+ * @param verificationId The ID of the verification the code was texted for.
+ * @param code The code.
+ * @param secret The secret the hash is keyed with.
+ */
+export function hashPhoneCode(verificationId: string, code: string, secret: string): string {
+  return createHmac('sha256', secret).update(`${verificationId}.${code}`).digest('hex');
+}
+
+/**
+ * Checks a code entered by a voter against the one texted to them. The attempt counts against
+ * the code's limit whatever the outcome, so callers record it before checking.
+ * @param record The stored code, with the attempts made before this one.
+ * @param code The code the voter entered.
+ * @param secret The secret the code was hashed with.
+ * @param now The current time, in milliseconds since the epoch.
+ */
+export function checkPhoneCode(record: PhoneCodeRecord, code: string, secret: string, now: number = Date.now()): PhoneCodeResult {
+  if (record.attempts >= MAX_PHONE_CODE_ATTEMPTS) return 'too_many_attempts';
+  if (new Date(record.expires_at).getTime() <= now) return 'expired';
+
+  const expected = Buffer.from(record.code_hash);
+  const actual = Buffer.from(hashPhoneCode(record.id, code, secret));
+  return actual.length === expected.length && timingSafeEqual(actual, expected) ? 'verified' : 'incorrect';
+}
+
+/**
+ * Signs the verification of one phone number for one poll.
+ */
+function signPhoneVerification(pollId: string, phone: string, expiresAt: number, secret: string): string {
+  return createHmac('sha256', secret).update(`${pollId}.${phone}.${expiresAt}`).digest('hex');
+}
+
+/**
+ * Creates the token that shows a voter verified their phone number for a poll.
+ * @param pollId The ID of the poll.
+ * @param phone The verified phone number.
+ * @param secret The secret the token is signed with.
+ * @param expiresAt When the token stops working, in milliseconds since the epoch.
+ * @returns The token, as `<phone>.<expiresAt>.<signature>`.
+ */
+export function createPhoneVerificationToken(pollId: string, phone: string, secret: string, expiresAt: number): string {
+  return `${phone}.${expiresAt}.${signPhoneVerification(pollId, phone, expiresAt, secret)}`;
+}
+
+/**
+ * Checks that a token shows the given phone number was verified for this poll, and that it
+ * hasn't expired.
+ * @param token The token.
+ * @param pollId The ID of the poll.
+ * @param phone The phone number the voter is voting with.
+ * @param secret The secret the token was signed with.
+ * @param now The current time, in milliseconds since the epoch.
+ */
+export function verifyPhoneVerificationToken(
+  token: string,
+  pollId: string,
+  phone: string,
+  secret: string,
+  now: number = Date.now()
+): boolean {
+  const [tokenPhone, expiresAtText, signature, ...rest] = token.split('.');
+  const expiresAt = Number(expiresAtText);
+  if (tokenPhone !== phone || !signature || rest.length > 0 || !Number.isInteger(expiresAt) || expiresAt <= now) {
+    return false;
+  }
+
+  const expected = Buffer.from(signPhoneVerification(pollId, phone, expiresAt, secret));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Writes the text message that carries a verification code.
+ * @param to The voter's phone number.
+ * @param code The code.
+ * @param pollTitle The title of the poll they are verifying their number for.
+ */
+export function buildPhoneCodeMessage(to: string, code: string, pollTitle: string): SmsMessage {
+  return {
+    to,
+    text: `${code} is your code to vote on "${pollTitle}". It expires in ${PHONE_CODE_TTL_MS / (60 * 1000)} minutes.`
+  };
+}
@@ -0,0 +1,46 @@
+import { NextRequest } from 'next/server';
+
+/** The attributes of a cookie that remembers something about a poll. */
+export interface PollCookieOptions {
+  httpOnly: true;
+  path: string;
+  maxAge: number;
+  sameSite: 'lax' | 'none';
+  secure?: boolean;
+  partitioned?: boolean;
+}
+
+/** The path every embedded poll page is served under. */
+const EMBED_PATH_PREFIX = '/embed/';
+
+/**
+ * Checks whether a request was made by an embedded poll page. The page is loaded from the app's own
+ * origin, so the browser sends its address as the referrer.
+ * @param request The incoming request.
+ */
+export function isEmbedRequest(request: NextRequest): boolean {
+  const referrer = request.headers.get('referer');
+  if (!referrer) return false;
+
+  try {
+    const url = new URL(referrer);
+    return url.origin === request.nextUrl.origin && url.pathname.startsWith(EMBED_PATH_PREFIX);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The options of a cookie that remembers something about a poll for the visitor's browser: their
+ * share link, ballot, unlock, vote and so on. Embedded polls run in a third-party iframe, which
+ * browsers only send cookies to when they are `SameSite=None; Secure`, so embeds get those, kept
+ * to the embedding site with `Partitioned`. Everywhere else the cookies stay `SameSite=Lax`.
+ * @param request The request the cookie is set in response to.
+ * @param maxAge How long the cookie lasts, in seconds.
+ */
+export function getPollCookieOptions(request: NextRequest, maxAge: number): PollCookieOptions {
+  if (isEmbedRequest(request)) {
+    return { httpOnly: true, path: '/', maxAge, sameSite: 'none', secure: true, partitioned: true };
+  }
+  return { httpOnly: true, path: '/', maxAge, sameSite: 'lax' };
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { createUnlockToken, hashPassword, verifyPassword, verifyUnlockToken } from '@/lib/poll-passwords';
+
+describe('hashPassword', () => {
+  it('should only verify the password it was made from', async () => {
+    const passwordHash = await hashPassword('open sesame');
+
+    expect(passwordHash).not.toContain('open sesame');
+    expect(await verifyPassword('open sesame', passwordHash)).toBe(true);
+    expect(await verifyPassword('open sesame!', passwordHash)).toBe(false);
+    expect(await verifyPassword('open sesame', 'not-a-hash')).toBe(false);
+  });
+});
+
+describe('verifyUnlockToken', () => {
+  const now = Date.UTC(2025, 0, 1);
+  const token = createUnlockToken('poll-1', 'hash-1', 'secret', now + 1000);
+
+  it('should accept the token for the same poll and password until it expires', () => {
+    expect(verifyUnlockToken(token, 'poll-1', 'hash-1', 'secret', now)).toBe(true);
+    expect(verifyUnlockToken(token, 'poll-1', 'hash-1', 'secret', now + 1000)).toBe(false);
+  });
+
+  it('should reject the token for another poll, a changed password or a tampered expiry', () => {
+    expect(verifyUnlockToken(token, 'poll-2', 'hash-1', 'secret', now)).toBe(false);
+    expect(verifyUnlockToken(token, 'poll-1', 'hash-2', 'secret', now)).toBe(false);
+    expect(verifyUnlockToken(token.replace(/^\d+/, String(now + 5000)), 'poll-1', 'hash-1', 'secret', now)).toBe(false);
+  });
+});
@@ -0,0 +1,79 @@
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+const SALT_BYTES = 16;
+const KEY_LENGTH = 64;
+
+/** How long a poll stays unlocked after its password is entered. */
+export const UNLOCK_DURATION_MS = 60 * 60 * 1000;
+
+/**
+ * Hashes a poll password with scrypt and a random salt.
+ * @param password The password.
+ * @returns The hash, as `scrypt$<salt>$<key>` in hex.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${key.toString('hex')}`;
+}
+
+/**
+ * Checks a password against a hash made by `hashPassword`, in constant time.
+ * @param password The password that was entered.
+ * @param passwordHash The stored hash.
+ */
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [scheme, salt, key] = passwordHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !key) return false;
+
+  const expected = Buffer.from(key, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+/**
+ * Signs the unlock for one poll. The signature covers the poll's password hash, so changing or
+ * removing the password invalidates every unlock issued before.
+ */
+function signUnlock(pollId: string, passwordHash: string, expiresAt: number, secret: string): string {
+  return createHmac('sha256', secret).update(`${pollId}.${expiresAt}.${passwordHash}`).digest('hex');
+}
+
+/**
+ * Creates the token that keeps a poll unlocked for a voter until it expires.
+ * @param pollId The ID of the poll.
+ * @param passwordHash The poll's password hash.
+ * @param secret The secret the token is signed with.
+ * @param expiresAt When the unlock expires, in milliseconds since the epoch.
+ * @returns The token, as `<expiresAt>.<signature>`.
+ */
+export function createUnlockToken(pollId: string, passwordHash: string, secret: string, expiresAt: number): string {
+  return `${expiresAt}.${signUnlock(pollId, passwordHash, expiresAt, secret)}`;
+}
+
+/**
+ * Checks that an unlock token was issued for this poll and password, and hasn't expired.
+ * @param token The token from the voter's cookie.
+ * @param pollId The ID of the poll.
+ * @param passwordHash The poll's current password hash.
+ * @param secret The secret the token was signed with.
+ * @param now The current time, in milliseconds since the epoch.
+ */
+export function verifyUnlockToken(
+  token: string,
+  pollId: string,
+  passwordHash: string,
+  secret: string,
+  now: number = Date.now()
+): boolean {
+  const [expiresAtText, signature] = token.split('.');
+  const expiresAt = Number(expiresAtText);
+  if (!signature || !Number.isInteger(expiresAt) || expiresAt <= now) return false;
+
+  const expected = Buffer.from(signUnlock(pollId, passwordHash, expiresAt, secret));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,120 @@
+import { DEFAULT_CHALLENGE_DIFFICULTY } from '@/lib/proof-of-work';
+import { BallotStatus, CreatePollForm, CreateSurveyQuestionForm, IneligibleReason, Poll, PollAccess, PollStatus, PollType, ResultsVisibility, SurveyQuestion } from '@/types';
+import { Database } from '@/types/database';
+
+type PollRow = Database['public']['Tables']['polls']['Row'];
+type OptionRow = Database['public']['Tables']['poll_options']['Row'];
+
+/**
+ * A poll as the poll endpoint sends it: its row, with its options and whatever the endpoint
+ * worked out for the requester. The share token is only sent to the poll's creator.
+ */
+export type PollResponse = Omit<PollRow, 'share_token'> & {
+  poll_options: (OptionRow & { votes?: number })[];
+  share_token?: string;
+  results_hidden?: boolean;
+  locked?: boolean;
+  ballot_status?: BallotStatus;
+  ineligible_reason?: IneligibleReason;
+  questions?: SurveyQuestion[];
+};
+
+/**
+ * Builds a poll from the poll endpoint's response.
+ * @param row The poll as the endpoint sent it.
+ * @returns The poll.
+ */
+export function toPoll(row: PollResponse): Poll {
+  return {
+    id: row.id,
+    title: row.title,
+    ...(row.description && { description: row.description }),
+    options: [...row.poll_options]
+      .sort((a, b) => a.order_index - b.order_index)
+      .map((option) => ({ id: option.id, text: option.text, votes: option.votes ?? 0 })),
+    createdBy: row.created_by,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+    status: row.status as PollStatus,
+    ...(row.starts_at && { startsAt: new Date(row.starts_at) }),
+    ...(row.expires_at && { expiresAt: new Date(row.expires_at) }),
+    allowMultipleVotes: row.allow_multiple_votes,
+    requireAuthentication: row.require_authentication,
+    pollType: row.poll_type as PollType,
+    minSelections: row.min_selections,
+    maxSelections: row.max_selections,
+    ...(row.scale_labels && { scaleLabels: row.scale_labels }),
+    allowWriteIn: row.allow_write_in,
+    isQuiz: row.is_quiz,
+    allowVoteChanges: row.allow_vote_changes,
+    resultsVisibility: row.results_visibility as ResultsVisibility,
+    ...(row.results_hidden && { resultsHidden: true }),
+    access: row.access as PollAccess,
+    ...(row.share_token && { shareToken: row.share_token }),
+    passwordProtected: row.password_protected,
+    ...(row.locked && { locked: true }),
+    inviteOnly: row.invite_only,
+    ...(row.ballot_status && { ballotStatus: row.ballot_status }),
+    allowedEmailDomains: row.allowed_email_domains,
+    requireVerified: row.require_verified,
+    minAccountAgeDays: row.min_account_age_days,
+    challengeDifficulty: row.challenge_difficulty,
+    requirePhoneVerification: row.require_phone_verification,
+    ...(row.ineligible_reason && { ineligibleReason: row.ineligible_reason }),
+    ...(row.questions && { questions: row.questions })
+  };
+}
+
+/**
+ * Fills a survey question's part of the edit form.
+ * @param question The survey question.
+ * @returns The question's form values.
+ */
+function toQuestionForm(question: SurveyQuestion): CreateSurveyQuestionForm {
+  return {
+    id: question.id,
+    text: question.text,
+    questionType: question.questionType,
+    options: question.options.map((option) => ({ id: option.id, text: option.text })),
+    allowMultipleVotes: question.allowMultipleVotes,
+    minSelections: question.minSelections,
+    maxSelections: question.maxSelections,
+    ...(question.scaleLabels && { scaleLabels: question.scaleLabels }),
+    required: question.required
+  };
+}
+
+/**
+ * Fills the edit form with a poll's current settings, so that saving the form keeps every setting
+ * the creator didn't change. The password is left out, which keeps the current one. The poll's
+ * type, scale and survey questions go along too, since the poll is checked against them.
+ * @param poll The poll.
+ * @returns The form values.
+ */
+export function toPollForm(poll: Poll): CreatePollForm {
+  return {
+    title: poll.title,
+    ...(poll.description && { description: poll.description }),
+    // A survey's options all belong to its questions.
+    options: poll.pollType === 'survey' ? [] : poll.options.map((option) => option.text),
+    allowMultipleVotes: poll.allowMultipleVotes,
+    requireAuthentication: poll.requireAuthentication,
+    pollType: poll.pollType ?? 'standard',
+    ...(poll.scaleLabels && { scaleLabels: poll.scaleLabels }),
+    ...(poll.questions && { questions: poll.questions.map(toQuestionForm) }),
+    allowWriteIn: poll.allowWriteIn ?? false,
+    access: poll.access ?? 'public',
+    allowVoteChanges: poll.allowVoteChanges ?? false,
+    resultsVisibility: poll.resultsVisibility ?? 'always',
+    inviteOnly: poll.inviteOnly ?? false,
+    ...(poll.allowedEmailDomains && { allowedEmailDomains: poll.allowedEmailDomains }),
+    requireVerified: poll.requireVerified ?? false,
+    minAccountAgeDays: poll.minAccountAgeDays ?? null,
+    challengeDifficulty: poll.challengeDifficulty ?? DEFAULT_CHALLENGE_DIFFICULTY,
+    requirePhoneVerification: poll.requirePhoneVerification ?? false,
+    minSelections: poll.minSelections ?? 1,
+    maxSelections: poll.maxSelections ?? null,
+    ...(poll.startsAt && { startsAt: poll.startsAt }),
+    ...(poll.expiresAt && { expiresAt: poll.expiresAt })
+  };
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { checkSolution, countLeadingZeroBits, solveChallenge } from '@/lib/proof-of-work';
+
+describe('countLeadingZeroBits', () => {
+  it('should count whole zero bytes and the zero bits of the first set byte', () => {
+    expect(countLeadingZeroBits(new Uint8Array([0x80, 0]))).toBe(0);
+    expect(countLeadingZeroBits(new Uint8Array([0, 0x10]))).toBe(11);
+    expect(countLeadingZeroBits(new Uint8Array([0, 0]))).toBe(16);
+  });
+});
+
+describe('solveChallenge', () => {
+  it('should find a solution that checks out at its difficulty', async () => {
+    const solution = await solveChallenge('challenge-1', 8);
+
+    expect(await checkSolution('challenge-1', solution, 8)).toBe(true);
+    expect(await checkSolution('challenge-2', solution, 8)).toBe(false);
+  });
+
+  it('should reject empty and overlong solutions', async () => {
+    expect(await checkSolution('challenge-1', '', 0)).toBe(false);
+    expect(await checkSolution('challenge-1', 'x'.repeat(17), 0)).toBe(false);
+  });
+});
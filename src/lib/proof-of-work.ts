@@ -0,0 +1,73 @@
+/** The difficulty new polls ask anonymous voters to solve, in leading zero bits. */
+export const DEFAULT_CHALLENGE_DIFFICULTY = 16;
+
+/** The highest difficulty a poll can set; each extra bit doubles the work a voter's browser does. */
+export const MAX_CHALLENGE_DIFFICULTY = 24;
+
+/** The difficulties offered to poll creators, from none to one that takes a few seconds to solve. */
+export const CHALLENGE_DIFFICULTY_LEVELS = [
+  { value: 0, label: 'Off' },
+  { value: 12, label: 'Low' },
+  { value: DEFAULT_CHALLENGE_DIFFICULTY, label: 'Medium' },
+  { value: 20, label: 'High' }
+];
+
+/** The request headers a solved vote challenge is sent in. */
+export const CHALLENGE_HEADER = 'X-Vote-Challenge';
+export const CHALLENGE_SOLUTION_HEADER = 'X-Vote-Challenge-Solution';
+
+/** The longest solution that is checked; solutions are counters, so real ones are much shorter. */
+const MAX_SOLUTION_LENGTH = 16;
+
+/**
+ * Counts the zero bits a hash starts with.
+ * @param bytes The hash.
+ */
+export function countLeadingZeroBits(bytes: Uint8Array): number {
+  let bits = 0;
+  for (const byte of bytes) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
+
+/**
+ * Hashes a candidate solution to a challenge with SHA-256.
+ * @param challenge The challenge.
+ * @param solution The candidate solution.
+ */
+async function hashSolution(challenge: string, solution: string): Promise<Uint8Array> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${challenge}:${solution}`));
+  return new Uint8Array(digest);
+}
+
+/**
+ * Checks that a solution to a challenge hashes to at least as many leading zero bits as asked.
+ * @param challenge The challenge.
+ * @param solution The solution.
+ * @param difficulty The number of leading zero bits.
+ */
+export async function checkSolution(challenge: string, solution: string, difficulty: number): Promise<boolean> {
+  if (!solution || solution.length > MAX_SOLUTION_LENGTH) return false;
+  return countLeadingZeroBits(await hashSolution(challenge, solution)) >= difficulty;
+}
+
+/**
+ * Solves a challenge by trying counters until one hashes to enough leading zero bits. This takes
+ * about 2^difficulty hashes.
+ * @param challenge The challenge.
+ * @param difficulty The number of leading zero bits.
+ * @returns The solution, as a counter in base 36.
+ */
+export async function solveChallenge(challenge: string, difficulty: number): Promise<string> {
+  for (let counter = 0; ; counter++) {
+    const solution = counter.toString(36);
+    if (countLeadingZeroBits(await hashSolution(challenge, solution)) >= difficulty) {
+      return solution;
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkQrColors,
+  composeQrSvg,
+  getErrorCorrectionLevel,
+  getQrCaption,
+  getQrFileName,
+  getQrLayout,
+  normalizeHexColor,
+  wrapText
+} from '@/lib/qr-codes';
+
+describe('normalizeHexColor', () => {
+  it('should add the # and lowercase the digits', () => {
+    expect(normalizeHexColor('1A2B3C')).toBe('#1a2b3c');
+    expect(normalizeHexColor('#ffffff')).toBe('#ffffff');
+  });
+});
+
+describe('checkQrColors', () => {
+  it('should accept dark modules on a light background', () => {
+    expect(checkQrColors('#000000', '#ffffff')).toBeNull();
+    expect(checkQrColors('#1e3a8a', '#fef3c7')).toBeNull();
+  });
+
+  it('should reject inverted and low-contrast colors', () => {
+    expect(checkQrColors('#ffffff', '#000000')).toBe('The dark color must be darker than the light color');
+    expect(checkQrColors('#aaaaaa', '#ffffff')).toBe('The colors are too close to scan reliably');
+  });
+});
+
+describe('getErrorCorrectionLevel', () => {
+  it('should default to the highest level for codes with a logo', () => {
+    expect(getErrorCorrectionLevel(undefined, false)).toBe('M');
+    expect(getErrorCorrectionLevel(undefined, true)).toBe('H');
+    expect(getErrorCorrectionLevel('Q', true)).toBe('Q');
+  });
+});
+
+describe('getQrLayout', () => {
+  it('should make room for the caption under the code', () => {
+    expect(getQrLayout(300, { logo: false, caption: false })).toEqual({ size: 300, logoSize: 0, captionHeight: 0, fontSize: 0, height: 300 });
+    expect(getQrLayout(300, { logo: true, caption: true })).toEqual({ size: 300, logoSize: 66, captionHeight: 48, fontSize: 19, height: 348 });
+  });
+});
+
+describe('getQrCaption', () => {
+  it('should shorten long titles', () => {
+    expect(getQrCaption('  Lunch?  ')).toBe('Lunch?');
+    expect(getQrCaption('x'.repeat(80))).toBe(`${'x'.repeat(59)}…`);
+  });
+});
+
+describe('composeQrSvg', () => {
+  it('should place the code, logo and escaped caption', () => {
+    const svg = composeQrSvg('<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 25 25"></svg>', {
+      layout: getQrLayout(300, { logo: true, caption: true }),
+      light: '#ffffff',
+      dark: '#000000',
+      logoDataUrl: 'data:image/png;base64,AAAA',
+      caption: 'Tea & <cake>'
+    });
+
+    expect(svg).toContain('viewBox="0 0 300 348"');
+    expect(svg).toContain('<svg x="0" y="0" width="300" height="300" xmlns=');
+    expect(svg).toContain('<image href="data:image/png;base64,AAAA" x="117" y="117" width="66" height="66"');
+    expect(svg).toContain('>Tea &#38; &#60;cake&#62;</text>');
+  });
+});
+
+describe('getQrFileName', () => {
+  it('should name files after the poll title and ID', () => {
+    expect(getQrFileName('Café & Lunch?', '0b6f2c1e-8f1a-4c3e', 'png')).toBe('cafe-lunch-0b6f2c1e.png');
+    expect(getQrFileName('???', '0b6f2c1e-8f1a-4c3e', 'svg')).toBe('poll-0b6f2c1e.svg');
+  });
+});
+
+describe('wrapText', () => {
+  const measure = (text: string) => text.length;
+
+  it('should break between words, and within words too long for a line', () => {
+    expect(wrapText('one two three', 8, measure)).toEqual(['one two', 'three']);
+    expect(wrapText('https://polly.example/p', 10, measure)).toEqual(['https://po', 'lly.exampl', 'e/p']);
+  });
+
+  it('should cut text that needs too many lines short', () => {
+    expect(wrapText('one two three four', 8, measure, 2)).toEqual(['one two', 'three…']);
+  });
+});
@@ -0,0 +1,203 @@
+import { QrErrorCorrectionLevel } from '@/types';
+
+/** Every error-correction level, from least to most robust. */
+export const QR_ERROR_CORRECTION_LEVELS: QrErrorCorrectionLevel[] = ['L', 'M', 'Q', 'H'];
+
+/** The lowest contrast between a QR code's colors that phone cameras read reliably. */
+export const MIN_QR_CONTRAST = 3;
+
+/** The longest caption a QR code is printed with. */
+const MAX_CAPTION_LENGTH = 60;
+
+/** The share of a QR code's width a center logo takes up; high error correction covers it. */
+const LOGO_SCALE = 0.22;
+
+/** The height of the caption under a QR code, as a share of the code's width. */
+const CAPTION_SCALE = 0.16;
+
+/** The sizes of the parts of a QR code image, in pixels. */
+export interface QrLayout {
+  size: number;
+  logoSize: number;
+  captionHeight: number;
+  fontSize: number;
+  height: number;
+}
+
+/**
+ * Normalizes a hex color to `#rrggbb`, with or without the leading `#`.
+ * @param color The color, as 6 hex digits.
+ */
+export function normalizeHexColor(color: string): string {
+  return `#${color.replace(/^#/, '').toLowerCase()}`;
+}
+
+/**
+ * Computes the relative luminance of a `#rrggbb` color, as defined by WCAG.
+ * @param color The color.
+ */
+function getLuminance(color: string): number {
+  const [r = 0, g = 0, b = 0] = [1, 3, 5].map((start) => {
+    const channel = parseInt(color.slice(start, start + 2), 16) / 255;
+    return channel <= 0.03928 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * Checks that a QR code's colors can be scanned: the modules must be darker than the background,
+ * since many scanners can't read inverted codes, and contrast enough with it.
+ * @param dark The modules' color.
+ * @param light The background color.
+ * @returns Why the colors can't be scanned, or null if they can.
+ */
+export function checkQrColors(dark: string, light: string): string | null {
+  const darkLuminance = getLuminance(dark);
+  const lightLuminance = getLuminance(light);
+
+  if (darkLuminance >= lightLuminance) return 'The dark color must be darker than the light color';
+  if ((lightLuminance + 0.05) / (darkLuminance + 0.05) < MIN_QR_CONTRAST) {
+    return 'The colors are too close to scan reliably';
+  }
+  return null;
+}
+
+/**
+ * Picks a QR code's error-correction level. Codes with a center logo default to the highest
+ * level, so that the logo doesn't stop them from scanning.
+ * @param requested The level asked for, if any.
+ * @param hasLogo Whether the code has a center logo.
+ */
+export function getErrorCorrectionLevel(
+  requested: QrErrorCorrectionLevel | undefined,
+  hasLogo: boolean
+): QrErrorCorrectionLevel {
+  return requested ?? (hasLogo ? 'H' : 'M');
+}
+
+/**
+ * Lays out a QR code image: the code, a center logo, and a caption underneath.
+ * @param size The width of the code, in pixels.
+ * @param parts Whether the image has a logo and a caption.
+ */
+export function getQrLayout(size: number, parts: { logo: boolean; caption: boolean }): QrLayout {
+  const captionHeight = parts.caption ? Math.round(size * CAPTION_SCALE) : 0;
+  return {
+    size,
+    logoSize: parts.logo ? Math.round(size * LOGO_SCALE) : 0,
+    captionHeight,
+    fontSize: Math.round(captionHeight * 0.4),
+    height: size + captionHeight
+  };
+}
+
+/**
+ * Shortens a poll title to fit under a QR code.
+ * @param title The poll's title.
+ */
+export function getQrCaption(title: string): string {
+  const trimmed = title.trim();
+  return trimmed.length > MAX_CAPTION_LENGTH ? `${trimmed.slice(0, MAX_CAPTION_LENGTH - 1)}…` : trimmed;
+}
+
+/**
+ * Escapes text for use in SVG markup.
+ * @param text The text.
+ */
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Wraps a plain QR code SVG with a center logo and a caption.
+ * @param qrSvg The QR code, as rendered by the `qrcode` package without a width.
+ * @param options The layout, the code's background and text colors, the logo as a data URL, and the caption.
+ */
+export function composeQrSvg(
+  qrSvg: string,
+  options: { layout: QrLayout; light: string; dark: string; logoDataUrl: string | null; caption: string | null }
+): string {
+  const { layout, light, dark, logoDataUrl, caption } = options;
+  const code = qrSvg.replace('<svg ', `<svg x="0" y="0" width="${layout.size}" height="${layout.size}" `);
+  const logoOffset = (layout.size - layout.logoSize) / 2;
+  const logoPadding = Math.round(layout.logoSize * 0.08);
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${layout.size}" height="${layout.height}" viewBox="0 0 ${layout.size} ${layout.height}">`,
+    `<rect width="${layout.size}" height="${layout.height}" fill="${light}"/>`,
+    code,
+    ...(logoDataUrl
+      ? [
+          `<rect x="${logoOffset - logoPadding}" y="${logoOffset - logoPadding}" width="${layout.logoSize + logoPadding * 2}" height="${layout.logoSize + logoPadding * 2}" fill="${light}"/>`,
+          `<image href="${logoDataUrl}" x="${logoOffset}" y="${logoOffset}" width="${layout.logoSize}" height="${layout.logoSize}" preserveAspectRatio="xMidYMid meet"/>`
+        ]
+      : []),
+    ...(caption
+      ? [
+          `<text x="${layout.size / 2}" y="${layout.size + layout.captionHeight / 2}" fill="${dark}" font-family="sans-serif" font-size="${layout.fontSize}" text-anchor="middle" dominant-baseline="middle">${escapeXml(caption)}</text>`
+        ]
+      : []),
+    '</svg>'
+  ].join('');
+}
+
+/**
+ * Names a poll's QR code file after its title, with the start of its ID to keep names unique.
+ * @param title The poll's title.
+ * @param pollId The ID of the poll.
+ * @param extension The file extension, without the dot.
+ */
+export function getQrFileName(title: string, pollId: string, extension: string): string {
+  const slug = title
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40)
+    .replace(/-+$/, '');
+  return `${slug ? `${slug}-` : 'poll-'}${pollId.slice(0, 8)}.${extension}`;
+}
+
+/**
+ * Wraps text into lines that fit a width, breaking between words, and within words that are too
+ * long for a line on their own, such as links. Text that needs more lines than allowed is cut
+ * short with an ellipsis.
+ * @param text The text.
+ * @param maxWidth The widest a line may be.
+ * @param measure Measures the width of a piece of text.
+ * @param maxLines The most lines to use.
+ */
+export function wrapText(
+  text: string,
+  maxWidth: number,
+  measure: (text: string) => number,
+  maxLines: number = Number.POSITIVE_INFINITY
+): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.trim().split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (measure(candidate) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+
+    if (line) lines.push(line);
+    line = '';
+    for (const char of word) {
+      if (line && measure(line + char) > maxWidth) {
+        lines.push(line);
+        line = '';
+      }
+      line += char;
+    }
+  }
+  if (line) lines.push(line);
+
+  if (lines.length <= maxLines) return lines;
+
+  let last = lines[maxLines - 1] ?? '';
+  while (last && measure(`${last}…`) > maxWidth) last = last.slice(0, -1);
+  return [...lines.slice(0, maxLines - 1), `${last.trimEnd()}…`];
+}
@@ -0,0 +1,123 @@
+import { zipSync } from 'fflate';
+import { PDFDocument, PDFFont, PDFPage, RGB, StandardFonts, rgb } from 'pdf-lib';
+import { getQrCaption, getQrFileName, wrapText } from '@/lib/qr-codes';
+import { QrImageOptions, renderQrPng, renderQrSvg } from '@/lib/qr-images';
+
+/** The size of poster pages: A4, in points. */
+const POSTER_PAGE_SIZE: [number, number] = [595.28, 841.89];
+
+/** The space around poster content, in points. */
+const POSTER_MARGIN = 56;
+
+/** The width of the QR code on a poster, in points. */
+const POSTER_QR_WIDTH = 340;
+
+/** The width posters' QR codes are rendered at, in pixels, so that they stay sharp in print. */
+const POSTER_QR_PIXELS = 1000;
+
+/** A poll to export a QR code for. */
+export interface QrExportPoll {
+  id: string;
+  title: string;
+  description: string | null;
+  /** The link the poll's QR code opens. */
+  url: string;
+}
+
+/** How every QR code in an export looks. */
+export type QrExportOptions = Omit<QrImageOptions, 'url' | 'caption'>;
+
+/**
+ * Replaces the characters a standard PDF font can't draw, which would otherwise fail the export.
+ * @param text The text.
+ * @param font The font the text is drawn in.
+ */
+function toDrawableText(text: string, font: PDFFont): string {
+  const supported = new Set(font.getCharacterSet());
+  return [...text].map((char) => (supported.has(char.codePointAt(0) ?? 0) ? char : '?')).join('');
+}
+
+/**
+ * Builds a printable poster for each poll, one per A4 page: its title, description, QR code, and
+ * the link under the code for those who'd rather type it.
+ * @param polls The polls, in page order.
+ * @param options How the QR codes look.
+ */
+export async function buildQrPosterPdf(polls: QrExportPoll[], options: QrExportOptions): Promise<Buffer> {
+  const pdf = await PDFDocument.create();
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const [pageWidth, pageHeight] = POSTER_PAGE_SIZE;
+  const textWidth = pageWidth - POSTER_MARGIN * 2;
+
+  /**
+   * Draws lines of text centered on the page, from the top down.
+   * @returns Where the next line would go.
+   */
+  const drawLines = (
+    page: PDFPage,
+    lines: string[],
+    font: PDFFont,
+    size: number,
+    top: number,
+    color: RGB = rgb(0, 0, 0)
+  ) => {
+    let y = top;
+    for (const line of lines) {
+      y -= size * 1.25;
+      page.drawText(line, { x: (pageWidth - font.widthOfTextAtSize(line, size)) / 2, y, size, font, color });
+    }
+    return y;
+  };
+
+  for (const poll of polls) {
+    const page = pdf.addPage(POSTER_PAGE_SIZE);
+    const gray = rgb(0.3, 0.3, 0.3);
+
+    let y = pageHeight - POSTER_MARGIN;
+    const title = wrapText(toDrawableText(poll.title, bold), textWidth, (text) => bold.widthOfTextAtSize(text, 30), 3);
+    y = drawLines(page, title, bold, 30, y);
+    if (poll.description) {
+      const description = wrapText(
+        toDrawableText(poll.description, regular),
+        textWidth,
+        (text) => regular.widthOfTextAtSize(text, 15),
+        4
+      );
+      y = drawLines(page, description, regular, 15, y - 12, gray);
+    }
+
+    const png = await pdf.embedPng(await renderQrPng({ ...options, url: poll.url, size: POSTER_QR_PIXELS, caption: null }));
+    const qr = png.scale(POSTER_QR_WIDTH / png.width);
+    y -= 32 + qr.height;
+    page.drawImage(png, { x: (pageWidth - qr.width) / 2, y, width: qr.width, height: qr.height });
+
+    const link = wrapText(poll.url, textWidth, (text) => regular.widthOfTextAtSize(text, 11), 3);
+    drawLines(page, link, regular, 11, y - 12, gray);
+  }
+
+  return Buffer.from(await pdf.save());
+}
+
+/**
+ * Bundles a QR code file for each poll into a ZIP, each named after its poll.
+ * @param polls The polls.
+ * @param format The format of the files.
+ * @param options How the QR codes look, including whether they carry the poll title as a caption.
+ */
+export async function buildQrZip(
+  polls: QrExportPoll[],
+  format: 'png' | 'svg',
+  options: QrExportOptions & { caption: boolean }
+): Promise<Buffer> {
+  const files: Record<string, Uint8Array> = {};
+
+  for (const poll of polls) {
+    const image = { ...options, url: poll.url, caption: options.caption ? getQrCaption(poll.title) : null };
+    files[getQrFileName(poll.title, poll.id, format)] = format === 'svg'
+      ? new TextEncoder().encode(await renderQrSvg(image))
+      : new Uint8Array(await renderQrPng(image));
+  }
+
+  return Buffer.from(zipSync(files));
+}
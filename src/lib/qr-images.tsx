@@ -0,0 +1,168 @@
+import { ImageResponse } from 'next/og';
+import { PDFDocument } from 'pdf-lib';
+import QRCode from 'qrcode';
+import { createServerSupabaseClient } from '@/lib/supabase/client';
+import { composeQrSvg, getQrLayout } from '@/lib/qr-codes';
+import { QrCodeStyle } from '@/types';
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+/** The storage bucket QR code logos are uploaded to, under `logos/`. */
+const LOGO_BUCKET = 'poll-assets';
+
+/** The size of QR code PDF pages: A4, in points. */
+const PDF_PAGE_SIZE: [number, number] = [595.28, 841.89];
+
+/** The width QR codes are printed at on PDF pages, in points. */
+const PDF_QR_WIDTH = 360;
+
+/** A center logo for a QR code. */
+export interface QrLogo {
+  data: Buffer;
+  contentType: string;
+}
+
+/** What to draw in a QR code image. */
+export interface QrImageOptions {
+  /** The link the code opens. */
+  url: string;
+  /** The width of the code, in pixels. */
+  size: number;
+  style: QrCodeStyle;
+  logo: QrLogo | null;
+  /** The text under the code, if any. */
+  caption: string | null;
+}
+
+/**
+ * Downloads a QR code logo from storage.
+ * @param supabase The Supabase client.
+ * @param path The logo's path in the bucket, under `logos/`.
+ * @returns The logo, or null if it doesn't exist.
+ */
+export async function loadQrLogo(supabase: SupabaseClient, path: string): Promise<QrLogo | null> {
+  const { data, error } = await supabase.storage.from(LOGO_BUCKET).download(path);
+  if (error || !data) return null;
+
+  return { data: Buffer.from(await data.arrayBuffer()), contentType: data.type || 'image/png' };
+}
+
+/**
+ * Converts a logo to a data URL, to inline it in an image.
+ * @param logo The logo.
+ */
+function toDataUrl(logo: QrLogo): string {
+  return `data:${logo.contentType};base64,${logo.data.toString('base64')}`;
+}
+
+/**
+ * The options for the `qrcode` package that draw a code in a style.
+ * @param style The code's style.
+ */
+function toQrCodeOptions(style: QrCodeStyle) {
+  return {
+    margin: style.margin,
+    errorCorrectionLevel: style.errorCorrectionLevel,
+    color: { dark: style.dark, light: style.light }
+  };
+}
+
+/**
+ * Draws a QR code as SVG.
+ * @param options What to draw.
+ */
+export async function renderQrSvg(options: QrImageOptions): Promise<string> {
+  const qrSvg = await QRCode.toString(options.url, { ...toQrCodeOptions(options.style), type: 'svg' });
+  if (!options.logo && !options.caption) return qrSvg;
+
+  return composeQrSvg(qrSvg, {
+    layout: getQrLayout(options.size, { logo: Boolean(options.logo), caption: Boolean(options.caption) }),
+    light: options.style.light,
+    dark: options.style.dark,
+    logoDataUrl: options.logo && toDataUrl(options.logo),
+    caption: options.caption
+  });
+}
+
+/**
+ * Draws a QR code as PNG. Codes with a logo or a caption are composed with the Open Graph image
+ * renderer, which brings its own font.
+ * @param options What to draw.
+ */
+export async function renderQrPng(options: QrImageOptions): Promise<Buffer> {
+  const qrOptions = { ...toQrCodeOptions(options.style), width: options.size };
+  if (!options.logo && !options.caption) return QRCode.toBuffer(options.url, qrOptions);
+
+  const layout = getQrLayout(options.size, { logo: Boolean(options.logo), caption: Boolean(options.caption) });
+  const code = await QRCode.toDataURL(options.url, qrOptions);
+  const logoPadding = Math.round(layout.logoSize * 0.08);
+  const image = new ImageResponse(
+    (
+      <div style={{ width: '100%', height: '100%', display: 'flex', flexDirection: 'column', background: options.style.light }}>
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            width: layout.size,
+            height: layout.size,
+            backgroundImage: `url(${code})`,
+            backgroundSize: `${layout.size}px ${layout.size}px`
+          }}
+        >
+          {options.logo && (
+            <div style={{ display: 'flex', padding: logoPadding, background: options.style.light }}>
+              <div
+                style={{
+                  display: 'flex',
+                  width: layout.logoSize,
+                  height: layout.logoSize,
+                  backgroundImage: `url(${toDataUrl(options.logo)})`,
+                  backgroundSize: `${layout.logoSize}px ${layout.logoSize}px`
+                }}
+              />
+            </div>
+          )}
+        </div>
+        {options.caption && (
+          <div
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              height: layout.captionHeight,
+              padding: '0 8px',
+              fontSize: layout.fontSize,
+              color: options.style.dark
+            }}
+          >
+            {options.caption}
+          </div>
+        )}
+      </div>
+    ),
+    { width: layout.size, height: layout.height }
+  );
+
+  return Buffer.from(await image.arrayBuffer());
+}
+
+/**
+ * Draws a QR code on an A4 PDF page, centered, for printing.
+ * @param options What to draw.
+ */
+export async function renderQrPdf(options: QrImageOptions): Promise<Buffer> {
+  const pdf = await PDFDocument.create();
+  const page = pdf.addPage(PDF_PAGE_SIZE);
+  const png = await pdf.embedPng(await renderQrPng(options));
+  const { width, height } = png.scale(PDF_QR_WIDTH / png.width);
+
+  page.drawImage(png, {
+    x: (PDF_PAGE_SIZE[0] - width) / 2,
+    y: (PDF_PAGE_SIZE[1] - height) / 2,
+    width,
+    height
+  });
+
+  return Buffer.from(await pdf.save());
+}
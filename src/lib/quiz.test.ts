@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { buildAnswerKey, buildLeaderboard, collectSelections, maskContact, scoreQuiz } from '@/lib/quiz';
+
+describe('scoreQuiz', () => {
+  it('should only count questions answered with exactly the correct options', () => {
+    const answerKey = buildAnswerKey([
+      { option_id: 'a', question_id: 'q1' },
+      { option_id: 'c', question_id: 'q2' },
+      { option_id: 'd', question_id: 'q2' },
+    ]);
+    const result = scoreQuiz(answerKey, collectSelections([
+      { option_id: 'a', question_id: 'q1' },
+      { option_id: 'c', question_id: 'q2' },
+    ]));
+
+    expect(result.score).toBe(1);
+    expect(result.total).toBe(2);
+    expect(result.answers).toEqual([
+      { questionId: 'q1', correct: true, correctOptionIds: ['a'] },
+      { questionId: 'q2', correct: false, correctOptionIds: ['c', 'd'] },
+    ]);
+  });
+
+  it('should leave out the question ID on single-question quizzes', () => {
+    const result = scoreQuiz(
+      buildAnswerKey([{ option_id: 'b', question_id: null }]),
+      collectSelections([{ option_id: 'b', question_id: null }])
+    );
+
+    expect(result).toEqual({ score: 1, total: 1, answers: [{ correct: true, correctOptionIds: ['b'] }] });
+  });
+});
+
+describe('buildLeaderboard', () => {
+  const answerKey = buildAnswerKey([{ option_id: 'right', question_id: null }]);
+  const openedAt = new Date('2024-01-01T10:00:00Z');
+  const vote = (participant: string, optionId: string, seconds: number) => ({
+    participant,
+    name: participant,
+    option_id: optionId,
+    question_id: null,
+    created_at: new Date(openedAt.getTime() + seconds * 1000).toISOString(),
+  });
+
+  it('should rank by score, then by answer time', () => {
+    const leaderboard = buildLeaderboard(
+      [vote('slow', 'right', 30), vote('wrong', 'wrong', 5), vote('fast', 'right', 10)],
+      answerKey,
+      openedAt
+    );
+
+    expect(leaderboard.map((entry) => [entry.rank, entry.name, entry.score, entry.timeMs])).toEqual([
+      [1, 'fast', 1, 10000],
+      [2, 'slow', 1, 30000],
+      [3, 'wrong', 0, 5000],
+    ]);
+  });
+
+  it('should give tied participants the same rank', () => {
+    const leaderboard = buildLeaderboard(
+      [vote('a', 'right', 10), vote('b', 'right', 10), vote('c', 'right', 10), vote('d', 'right', 20)],
+      answerKey,
+      openedAt
+    );
+
+    expect(leaderboard.map((entry) => entry.rank)).toEqual([1, 1, 1, 4]);
+  });
+});
+
+describe('maskContact', () => {
+  it('should mask email addresses and phone numbers', () => {
+    expect(maskContact('jane@example.com')).toBe('j•••@example.com');
+    expect(maskContact('+15551234567')).toBe('•••4567');
+  });
+});
@@ -0,0 +1,110 @@
+import { Database } from '@/types/database';
+import { LeaderboardEntry, QuizResult } from '@/types';
+
+type QuizAnswerRow = Pick<Database['public']['Tables']['quiz_answers']['Row'], 'option_id' | 'question_id'>;
+type VoteRow = Pick<Database['public']['Tables']['votes']['Row'], 'option_id' | 'question_id' | 'created_at'>;
+
+/** A quiz vote, along with who cast it. */
+export type QuizVote = VoteRow & {
+  /** Identifies the participant, so that all of their votes are scored together. */
+  participant: string;
+  name: string;
+};
+
+// Single-question quizzes have no question ID, so their answers share this key.
+const POLL_QUESTION = '';
+
+/**
+ * Builds the answer key of a quiz from its correct options.
+ * @param rows The quiz's correct options.
+ * @returns The correct option IDs of each scored question, keyed by question ID.
+ */
+export function buildAnswerKey(rows: QuizAnswerRow[]): Map<string, string[]> {
+  const answerKey = new Map<string, string[]>();
+  for (const row of rows) {
+    const key = row.question_id ?? POLL_QUESTION;
+    answerKey.set(key, [...(answerKey.get(key) ?? []), row.option_id]);
+  }
+  return answerKey;
+}
+
+/**
+ * Collects the options selected for each question from a participant's votes.
+ * @param votes The participant's votes.
+ * @returns The selected option IDs, keyed by question ID.
+ */
+export function collectSelections(votes: Omit<VoteRow, 'created_at'>[]): Map<string, string[]> {
+  const selections = new Map<string, string[]>();
+  for (const vote of votes) {
+    if (!vote.option_id) continue;
+    const key = vote.question_id ?? POLL_QUESTION;
+    selections.set(key, [...(selections.get(key) ?? []), vote.option_id]);
+  }
+  return selections;
+}
+
+/**
+ * Scores a participant's selections against a quiz's answer key.
+ * A question is answered correctly when exactly its correct options are selected.
+ * @param answerKey The correct option IDs of each scored question.
+ * @param selections The selected option IDs of each question.
+ * @returns The score, with feedback for every scored question.
+ */
+export function scoreQuiz(answerKey: Map<string, string[]>, selections: Map<string, string[]>): QuizResult {
+  const answers = [...answerKey].map(([questionId, correctOptionIds]) => {
+    const selected = new Set(selections.get(questionId));
+    const correct = selected.size === correctOptionIds.length && correctOptionIds.every((id) => selected.has(id));
+    return { ...(questionId !== POLL_QUESTION && { questionId }), correct, correctOptionIds };
+  });
+
+  return {
+    score: answers.filter((answer) => answer.correct).length,
+    total: answers.length,
+    answers
+  };
+}
+
+/**
+ * Ranks the participants of a quiz by score and, on equal scores, by how quickly they answered.
+ * @param votes Every vote on the quiz.
+ * @param answerKey The correct option IDs of each scored question.
+ * @param openedAt When the quiz opened; answer times are measured from here.
+ * @returns The leaderboard, best first. Participants with the same score and time share a rank.
+ */
+export function buildLeaderboard(votes: QuizVote[], answerKey: Map<string, string[]>, openedAt: Date): LeaderboardEntry[] {
+  const participants = new Map<string, { name: string; votes: QuizVote[]; lastAnsweredAt: number }>();
+  for (const vote of votes) {
+    const participant = participants.get(vote.participant) ?? { name: vote.name, votes: [], lastAnsweredAt: 0 };
+    participant.votes.push(vote);
+    participant.lastAnsweredAt = Math.max(participant.lastAnsweredAt, new Date(vote.created_at).getTime());
+    participants.set(vote.participant, participant);
+  }
+
+  const entries = [...participants.values()]
+    .map(({ name, votes: participantVotes, lastAnsweredAt }) => {
+      const { score, total } = scoreQuiz(answerKey, collectSelections(participantVotes));
+      return { name, score, total, timeMs: Math.max(0, lastAnsweredAt - openedAt.getTime()) };
+    })
+    .sort((a, b) => b.score - a.score || a.timeMs - b.timeMs);
+
+  const leaderboard: LeaderboardEntry[] = [];
+  for (const [index, entry] of entries.entries()) {
+    const previous = leaderboard[index - 1];
+    const tied = previous && previous.score === entry.score && previous.timeMs === entry.timeMs;
+    leaderboard.push({ ...entry, rank: tied ? previous.rank : index + 1 });
+  }
+  return leaderboard;
+}
+
+/**
+ * Masks an email address or phone number so anonymous participants can be shown on a leaderboard.
+ * @param contact The email address or phone number.
+ * @returns The masked contact, e.g. `j•••@example.com` or `•••1234`.
+ */
+export function maskContact(contact: string): string {
+  const at = contact.indexOf('@');
+  if (at > 0) {
+    return `${contact[0]}•••${contact.slice(at)}`;
+  }
+  return `•••${contact.slice(-4)}`;
+}
@@ -0,0 +1,43 @@
+// @vitest-environment node
+import { NextRequest, NextResponse } from 'next/server';
+import { describe, expect, it, vi } from 'vitest';
+import { AuthorizationError } from '@/lib/errors';
+import { RateLimitRule } from '@/lib/rate-limit';
+import { enforceRateLimit, withRateLimitHeaders } from '@/lib/rate-limit-store';
+
+// Outside production, requests are counted in memory rather than in the database.
+vi.mock('@/lib/supabase/client', () => ({ createServerSupabaseClient: vi.fn() }));
+
+const rule: RateLimitRule = { name: 'store-test', limit: 5, windowMs: 60_000, by: ['ip', 'poll'] };
+
+function request(headers: Record<string, string>) {
+  return new NextRequest('https://polly.test/api/polls/p1/vote', { headers });
+}
+
+describe('enforceRateLimit', () => {
+  it('should turn away requests whose address is unknown, rather than count them together', async () => {
+    await expect(enforceRateLimit(request({}), rule, { pollId: 'p1' })).rejects.toBeInstanceOf(AuthorizationError);
+  });
+
+  it('should count requests by the address the proxy reported', async () => {
+    await enforceRateLimit(request({ 'x-forwarded-for': '6.6.6.6, 1.2.3.4' }), rule, { pollId: 'p1' });
+    const result = await enforceRateLimit(request({ 'x-forwarded-for': '7.7.7.7, 1.2.3.4' }), rule, { pollId: 'p1' });
+
+    expect(result.remaining).toBe(3);
+  });
+});
+
+describe('withRateLimitHeaders', () => {
+  it('should tell the client how much of the limit it has left', () => {
+    const response = withRateLimitHeaders(NextResponse.json({ success: true }), {
+      allowed: true,
+      limit: 5,
+      remaining: 4,
+      resetAt: new Date('2024-05-01T10:01:00Z')
+    });
+
+    expect(response.headers.get('X-RateLimit-Limit')).toBe('5');
+    expect(response.headers.get('X-RateLimit-Remaining')).toBe('4');
+    expect(response.headers.get('Retry-After')).toBeNull();
+  });
+});
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/client';
+import { AuthorizationError, RateLimitError } from '@/lib/errors';
+import {
+  MemoryRateLimitStore,
+  RateLimitResult,
+  RateLimitRule,
+  RateLimitStore,
+  RateLimitSubject,
+  checkRateLimit,
+  getClientIp,
+  getRateLimitHeaders
+} from '@/lib/rate-limit';
+
+/**
+ * Keeps rate limit counters in the rate_limits table, so that every server instance shares them.
+ * Each request is counted with a single call to the increment_rate_limit function.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  constructor(private readonly supabase = createServerSupabaseClient()) {}
+
+  async increment(key: string, windowMs: number, _now: Date) {
+    const { data, error } = await this.supabase.rpc('increment_rate_limit', {
+      limit_key: key,
+      window_seconds: Math.ceil(windowMs / 1000)
+    });
+
+    const counter = data?.[0];
+    if (error || !counter) {
+      throw new Error(`Failed to count request for rate limit: ${error?.message ?? 'no counter returned'}`);
+    }
+    return { count: counter.hits, resetAt: new Date(counter.window_reset_at) };
+  }
+}
+
+let store: RateLimitStore | null = null;
+
+/**
+ * Returns the store rate limits are counted in: Postgres in production, and memory elsewhere.
+ * `RATE_LIMIT_STORE` (`memory` or `postgres`) overrides the choice.
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    const kind = process.env.RATE_LIMIT_STORE ?? (process.env.NODE_ENV === 'production' ? 'postgres' : 'memory');
+    store = kind === 'postgres' ? new PostgresRateLimitStore() : new MemoryRateLimitStore();
+  }
+  return store;
+}
+
+/**
+ * Counts a request against a rate limit, and stops it once the limit is reached.
+ * The request's IP address is filled in for rules that count by IP. Requests whose address no
+ * proxy reported are turned away, rather than all being counted against one shared address.
+ * @param request The incoming request.
+ * @param rule The rate limit rule.
+ * @param subject The user and poll the request is about, for rules that count by them.
+ * @returns The state of the rate limit, for `withRateLimitHeaders`.
+ * @throws {RateLimitError} If the limit was reached; `handleApiError` turns it into a 429 response.
+ * @throws {AuthorizationError} If the rule counts by IP and the request's address is unknown.
+ */
+export async function enforceRateLimit(
+  request: NextRequest,
+  rule: RateLimitRule,
+  subject: Omit<RateLimitSubject, 'ip'> = {}
+): Promise<RateLimitResult> {
+  const ip = getClientIp(request.headers);
+  if (!ip && rule.by.includes('ip')) {
+    throw new AuthorizationError('Could not tell where the request came from');
+  }
+
+  const result = await checkRateLimit(getRateLimitStore(), rule, { ...subject, ...(ip && { ip }) });
+  if (!result.allowed) {
+    throw new RateLimitError('Too many requests, please try again later', result);
+  }
+  return result;
+}
+
+/**
+ * Tells the client how much of a rate limit it has left, on a request that was allowed.
+ * @param response The response to the request.
+ * @param rateLimit The state of the rate limit, as `enforceRateLimit` returned it.
+ * @returns The same response, with the rate limit headers set.
+ */
+export function withRateLimitHeaders(response: NextResponse, rateLimit: RateLimitResult): NextResponse {
+  for (const [name, value] of Object.entries(getRateLimitHeaders(rateLimit))) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  MemoryRateLimitStore,
+  RateLimitRule,
+  checkRateLimit,
+  getClientIp,
+  getRateLimitHeaders,
+  getRateLimitKey,
+  getTrustedProxyCount
+} from '@/lib/rate-limit';
+
+const rule: RateLimitRule = { name: 'vote', limit: 2, windowMs: 60_000, by: ['ip', 'poll'] };
+
+describe('getRateLimitKey', () => {
+  it('should key requests by the rule and each of its dimensions', () => {
+    expect(getRateLimitKey(rule, { ip: '1.2.3.4', pollId: 'p1', userId: 'u1' })).toBe('vote:ip=1.2.3.4:poll=p1');
+  });
+
+  it('should refuse subjects that lack a dimension', () => {
+    expect(() => getRateLimitKey(rule, { ip: '1.2.3.4' })).toThrow('needs the request\'s poll');
+  });
+});
+
+describe('checkRateLimit', () => {
+  it('should allow requests up to the limit within a window', async () => {
+    const store = new MemoryRateLimitStore();
+    const now = new Date('2024-05-01T10:00:00Z');
+    const subject = { ip: '1.2.3.4', pollId: 'p1' };
+
+    const first = await checkRateLimit(store, rule, subject, now);
+    await checkRateLimit(store, rule, subject, now);
+    const third = await checkRateLimit(store, rule, subject, new Date('2024-05-01T10:00:30Z'));
+
+    expect(first).toEqual({ allowed: true, limit: 2, remaining: 1, resetAt: new Date('2024-05-01T10:01:00Z') });
+    expect(third).toEqual({ allowed: false, limit: 2, remaining: 0, resetAt: new Date('2024-05-01T10:01:00Z') });
+  });
+
+  it('should count each subject separately and start over once the window ends', async () => {
+    const store = new MemoryRateLimitStore();
+    const now = new Date('2024-05-01T10:00:00Z');
+    await checkRateLimit(store, rule, { ip: '1.2.3.4', pollId: 'p1' }, now);
+    await checkRateLimit(store, rule, { ip: '1.2.3.4', pollId: 'p1' }, now);
+
+    expect((await checkRateLimit(store, rule, { ip: '1.2.3.4', pollId: 'p2' }, now)).allowed).toBe(true);
+    expect(await checkRateLimit(store, rule, { ip: '1.2.3.4', pollId: 'p1' }, new Date('2024-05-01T10:01:00Z'))).toMatchObject({
+      allowed: true,
+      remaining: 1
+    });
+  });
+});
+
+describe('getRateLimitHeaders', () => {
+  const resetAt = new Date('2024-05-01T10:01:00Z');
+
+  it('should describe the limit, and when to retry once it is reached', () => {
+    expect(getRateLimitHeaders({ allowed: false, limit: 2, remaining: 0, resetAt }, new Date('2024-05-01T10:00:30.5Z'))).toEqual({
+      'X-RateLimit-Limit': '2',
+      'X-RateLimit-Remaining': '0',
+      'X-RateLimit-Reset': String(resetAt.getTime() / 1000),
+      'Retry-After': '30'
+    });
+  });
+
+  it('should leave out Retry-After while requests are allowed', () => {
+    expect(getRateLimitHeaders({ allowed: true, limit: 2, remaining: 1, resetAt })).not.toHaveProperty('Retry-After');
+  });
+});
+
+describe('getClientIp', () => {
+  it('should take the address the trusted proxy added, not the ones the client sent', () => {
+    expect(getClientIp(new Headers({ 'x-forwarded-for': '6.6.6.6, 1.2.3.4' }), 1)).toBe('1.2.3.4');
+    expect(getClientIp(new Headers({ 'x-forwarded-for': '6.6.6.6, 1.2.3.4, 10.0.0.1' }), 2)).toBe('1.2.3.4');
+    expect(getClientIp(new Headers({ 'x-forwarded-for': '1.2.3.4' }), 2)).toBe('1.2.3.4');
+  });
+
+  it('should fall back to the real IP header, and report no address rather than a shared one', () => {
+    expect(getClientIp(new Headers({ 'x-real-ip': '5.6.7.8' }), 1)).toBe('5.6.7.8');
+    expect(getClientIp(new Headers(), 1)).toBeNull();
+    expect(getClientIp(new Headers({ 'x-forwarded-for': ' , ' }), 1)).toBeNull();
+  });
+});
+
+describe('getTrustedProxyCount', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should read the count of trusted proxies, and default to one', () => {
+    vi.stubEnv('TRUSTED_PROXY_COUNT', '2');
+    expect(getTrustedProxyCount()).toBe(2);
+    vi.stubEnv('TRUSTED_PROXY_COUNT', 'none');
+    expect(getTrustedProxyCount()).toBe(1);
+  });
+});
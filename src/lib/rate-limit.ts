@@ -0,0 +1,166 @@
+/** What a rate limit counts requests by. */
+export type RateLimitDimension = 'ip' | 'user' | 'poll';
+
+/** How many requests of a kind are allowed in a window, counted separately for each dimension value. */
+export interface RateLimitRule {
+  /** Names the rule in store keys, so that rules don't share counters. */
+  name: string;
+  limit: number;
+  windowMs: number;
+  by: RateLimitDimension[];
+}
+
+/** Who a request comes from and what it is about. Dimensions a rule counts by must be given. */
+export interface RateLimitSubject {
+  ip?: string;
+  userId?: string;
+  pollId?: string;
+}
+
+/** The state of a rate limit after a request was counted. */
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+/** Where rate limit counters are kept. Windows are fixed: they start at a key's first request. */
+export interface RateLimitStore {
+  /**
+   * Counts a request against a key.
+   * @param key The counter's key.
+   * @param windowMs How long the counter's window lasts.
+   * @param now The time of the request.
+   * @returns The number of requests in the key's current window, including this one, and when it ends.
+   */
+  increment(key: string, windowMs: number, now: Date): Promise<{ count: number; resetAt: Date }>;
+}
+
+const MINUTE = 60 * 1000;
+
+/** The rate limits of the API. */
+export const RATE_LIMITS = {
+  createPoll: { name: 'create-poll', limit: 20, windowMs: 60 * MINUTE, by: ['user'] },
+  vote: { name: 'vote', limit: 10, windowMs: MINUTE, by: ['ip', 'poll'] },
+  unlock: { name: 'unlock', limit: 10, windowMs: 15 * MINUTE, by: ['ip', 'poll'] },
+  phoneCode: { name: 'phone-code', limit: 10, windowMs: 15 * MINUTE, by: ['ip', 'poll'] },
+  share: { name: 'share', limit: 30, windowMs: MINUTE, by: ['ip'] }
+} satisfies Record<string, RateLimitRule>;
+
+/**
+ * Keeps rate limit counters in memory. Counters are lost on restart and aren't shared between
+ * server instances, so this store is meant for development and tests.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly counters = new Map<string, { count: number; resetAt: Date }>();
+
+  async increment(key: string, windowMs: number, now: Date) {
+    this.prune(now);
+
+    const counter = this.counters.get(key) ?? { count: 0, resetAt: new Date(now.getTime() + windowMs) };
+    counter.count += 1;
+    this.counters.set(key, counter);
+    return { ...counter };
+  }
+
+  /**
+   * Drops the counters whose windows have ended.
+   * @param now The current time.
+   */
+  private prune(now: Date) {
+    for (const [key, counter] of this.counters) {
+      if (counter.resetAt <= now) this.counters.delete(key);
+    }
+  }
+}
+
+/**
+ * Builds the key a request is counted under for a rule.
+ * @param rule The rate limit rule.
+ * @param subject Who the request comes from and what it is about.
+ * @throws If the subject lacks a dimension the rule counts by.
+ */
+export function getRateLimitKey(rule: RateLimitRule, subject: RateLimitSubject): string {
+  const values: Record<RateLimitDimension, string | undefined> = {
+    ip: subject.ip,
+    user: subject.userId,
+    poll: subject.pollId
+  };
+
+  const parts = rule.by.map((dimension) => {
+    const value = values[dimension];
+    if (!value) throw new Error(`Rate limit ${rule.name} needs the request's ${dimension}`);
+    return `${dimension}=${value}`;
+  });
+  return [rule.name, ...parts].join(':');
+}
+
+/**
+ * Counts a request against a rate limit.
+ * @param store Where the counters are kept.
+ * @param rule The rate limit rule.
+ * @param subject Who the request comes from and what it is about.
+ * @param now The time of the request.
+ */
+export async function checkRateLimit(
+  store: RateLimitStore,
+  rule: RateLimitRule,
+  subject: RateLimitSubject,
+  now: Date = new Date()
+): Promise<RateLimitResult> {
+  const { count, resetAt } = await store.increment(getRateLimitKey(rule, subject), rule.windowMs, now);
+  return {
+    allowed: count <= rule.limit,
+    limit: rule.limit,
+    remaining: Math.max(rule.limit - count, 0),
+    resetAt
+  };
+}
+
+/**
+ * Builds the headers that tell clients about a rate limit. `Retry-After` is only sent once the
+ * limit is reached.
+ * @param result The state of the rate limit.
+ * @param now The current time.
+ */
+export function getRateLimitHeaders(result: RateLimitResult, now: Date = new Date()): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(result.resetAt.getTime() / 1000))
+  };
+  if (!result.allowed) {
+    headers['Retry-After'] = String(Math.max(Math.ceil((result.resetAt.getTime() - now.getTime()) / 1000), 1));
+  }
+  return headers;
+}
+
+/**
+ * Returns how many proxies in front of the app add to `X-Forwarded-For`, as set by
+ * `TRUSTED_PROXY_COUNT`. It defaults to 1, a single load balancer or reverse proxy.
+ */
+export function getTrustedProxyCount(): number {
+  const count = Number(process.env.TRUSTED_PROXY_COUNT ?? 1);
+  return Number.isInteger(count) && count > 0 ? count : 1;
+}
+
+/**
+ * Finds the IP address a request came from, as reported by the proxies in front of the app.
+ * Each proxy appends the address it got the request from to `X-Forwarded-For`, so the client's
+ * address is the one the outermost trusted proxy added. Anything before it was sent by the client
+ * itself, and can't be trusted.
+ * @param headers The request's headers.
+ * @param trustedProxies How many proxies in front of the app add to `X-Forwarded-For`.
+ * @returns The client's IP address, or null if no proxy reported one.
+ */
+export function getClientIp(headers: Headers, trustedProxies: number = getTrustedProxyCount()): string | null {
+  const forwarded = (headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean);
+  if (forwarded.length > 0) {
+    return forwarded[Math.max(forwarded.length - trustedProxies, 0)] ?? null;
+  }
+  return headers.get('x-real-ip')?.trim() || null;
+}
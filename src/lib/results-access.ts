@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/client';
+import { getEffectiveStatus } from '@/lib/lifecycle';
+import { canViewResults } from '@/lib/visibility';
+import { getPollCookieOptions } from '@/lib/poll-cookies';
+import { Database } from '@/types/database';
+import { PollStatus, ResultsVisibility } from '@/types';
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+type PollRow = Pick<
+  Database['public']['Tables']['polls']['Row'],
+  'id' | 'created_by' | 'status' | 'starts_at' | 'expires_at' | 'results_visibility'
+>;
+
+/** How long a browser remembers that it voted on a poll. */
+const VOTED_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+/**
+ * The name of the cookie that holds the ID of the vote an anonymous visitor cast on a poll.
+ * @param pollId The ID of the poll.
+ */
+function getVotedCookieName(pollId: string): string {
+  return `voted_${pollId}`;
+}
+
+/**
+ * Remembers in the voter's browser that they voted on a poll, so that results shown only after
+ * voting can be revealed to anonymous voters too. Signed-in voters are recognised by their account.
+ * @param request The vote request.
+ * @param response The response to the vote.
+ * @param pollId The ID of the poll.
+ * @param voteId The ID of one of the voter's vote rows.
+ * @returns The same response, with the cookie set.
+ */
+export function rememberVote(request: NextRequest, response: NextResponse, pollId: string, voteId: string): NextResponse {
+  response.cookies.set(getVotedCookieName(pollId), voteId, getPollCookieOptions(request, VOTED_COOKIE_MAX_AGE));
+  return response;
+}
+
+/**
+ * Checks whether the person making a request may see a poll's results, following the poll's
+ * results visibility policy. The vote cookie is only trusted if it names a vote on this poll.
+ * @param supabase The Supabase client.
+ * @param request The incoming request.
+ * @param poll The poll.
+ */
+export async function canRequestViewResults(
+  supabase: SupabaseClient,
+  request: NextRequest,
+  poll: PollRow
+): Promise<boolean> {
+  const visibility = poll.results_visibility as ResultsVisibility;
+  if (visibility === 'always') return true;
+
+  const { data: { user } } = await supabase.auth.getUser();
+  const status = getEffectiveStatus(poll.status as PollStatus, poll.starts_at, poll.expires_at);
+
+  let hasVoted = false;
+  if (visibility === 'after_vote') {
+    const votedVoteId = request.cookies.get(getVotedCookieName(poll.id))?.value;
+    const voters = [
+      ...(user ? [`voter_id.eq.${user.id}`] : []),
+      ...(votedVoteId && /^[0-9a-f-]{36}$/i.test(votedVoteId) ? [`id.eq.${votedVoteId}`] : [])
+    ];
+
+    if (voters.length > 0) {
+      const { count } = await supabase
+        .from('votes')
+        .select('id', { count: 'exact', head: true })
+        .eq('poll_id', poll.id)
+        .or(voters.join(','));
+      hasVoted = Boolean(count);
+    }
+  }
+
+  return canViewResults(visibility, {
+    isCreator: Boolean(user) && user?.id === poll.created_by,
+    hasVoted,
+    isClosed: status === 'closed' || status === 'archived'
+  });
+}
@@ -0,0 +1,47 @@
+import { PollType } from '@/types';
+
+/** Star ratings run from one to five stars. */
+export const RATING_SCALE = { min: 1, max: 5 };
+
+/** Net Promoter Score answers run from 0 ("not at all likely") to 10 ("extremely likely"). */
+export const NPS_SCALE = { min: 0, max: 10 };
+
+/** The agreement scale used for Likert polls when the creator doesn't provide one. */
+export const DEFAULT_LIKERT_LABELS = [
+  'Strongly disagree',
+  'Disagree',
+  'Neither agree nor disagree',
+  'Agree',
+  'Strongly agree'
+];
+
+/**
+ * Checks whether a poll type collects answers on a numeric scale instead of choices.
+ * @param pollType The poll type to check.
+ */
+export function isScalePoll(pollType: PollType | string | undefined): boolean {
+  return pollType === 'rating' || pollType === 'nps' || pollType === 'likert';
+}
+
+/**
+ * Returns the range of values a poll accepts.
+ * Likert values are 1-based positions on the poll's agreement scale.
+ * @param pollType The poll type.
+ * @param scaleLabels The agreement scale for Likert polls.
+ * @returns The inclusive range, or null if the poll type isn't a scale poll.
+ */
+export function getScaleRange(
+  pollType: PollType | string | undefined,
+  scaleLabels?: string[] | null
+): { min: number; max: number } | null {
+  switch (pollType) {
+    case 'rating':
+      return RATING_SCALE;
+    case 'nps':
+      return NPS_SCALE;
+    case 'likert':
+      return { min: 1, max: (scaleLabels?.length ? scaleLabels : DEFAULT_LIKERT_LABELS).length };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,95 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/client';
+import { PollAccessCheck, checkPollAccess } from '@/lib/access';
+import { getPollCookieOptions } from '@/lib/poll-cookies';
+import { Database } from '@/types/database';
+import { PollAccess } from '@/types';
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+type PollRow = Pick<Database['public']['Tables']['polls']['Row'], 'id' | 'created_by' | 'access' | 'share_token'>;
+
+/** How long a browser keeps a share token after following a share link. */
+const SHARE_COOKIE_MAX_AGE = 60 * 60 * 24 * 30;
+
+/**
+ * The name of the cookie that holds the share token a visitor opened a poll with, so that the
+ * poll's other endpoints (voting, results) accept them without the token in every request.
+ * @param pollId The ID of the poll.
+ */
+function getShareCookieName(pollId: string): string {
+  return `share_${pollId}`;
+}
+
+/**
+ * Generates a new share token, in the same format as the database default.
+ */
+export function generateShareToken(): string {
+  return randomBytes(16).toString('hex');
+}
+
+/**
+ * Reads the share token a request came with: the `token` query parameter, or the cookie set when
+ * the visitor first opened the poll.
+ * @param request The incoming request.
+ * @param pollId The ID of the poll.
+ */
+function getRequestShareToken(request: NextRequest, pollId: string): string | undefined {
+  return request.nextUrl.searchParams.get('token') ?? request.cookies.get(getShareCookieName(pollId))?.value;
+}
+
+/**
+ * Compares a share token with the poll's current one in constant time.
+ * @param token The token the visitor came with.
+ * @param shareToken The poll's current share token.
+ */
+export function isShareTokenValid(token: string | undefined, shareToken: string): boolean {
+  if (!token || token.length !== shareToken.length) return false;
+  return timingSafeEqual(Buffer.from(token), Buffer.from(shareToken));
+}
+
+/**
+ * Checks whether the person making a request may open a poll, following the poll's access level.
+ * @param supabase The Supabase client.
+ * @param request The incoming request.
+ * @param poll The poll.
+ */
+export async function checkRequestPollAccess(
+  supabase: SupabaseClient,
+  request: NextRequest,
+  poll: PollRow
+): Promise<PollAccessCheck> {
+  const access = poll.access as PollAccess;
+  if (access === 'public') return 'granted';
+
+  const { data: { user } } = await supabase.auth.getUser();
+  return checkPollAccess(access, {
+    isCreator: Boolean(user) && user?.id === poll.created_by,
+    isSignedIn: Boolean(user),
+    hasShareToken: isShareTokenValid(getRequestShareToken(request, poll.id), poll.share_token)
+  });
+}
+
+/**
+ * Builds the error response for a failed access check.
+ * @param check The outcome of the access check.
+ */
+export function pollAccessErrorResponse(check: Exclude<PollAccessCheck, 'granted'>): NextResponse {
+  return check === 'sign_in'
+    ? NextResponse.json({ error: 'Sign in to open this poll' }, { status: 401 })
+    : NextResponse.json({ error: 'Poll not found' }, { status: 404 });
+}
+
+/**
+ * Remembers the share token a visitor opened a poll with. Rotating the poll's token makes the
+ * remembered one stop working, like every old share link.
+ * @param request The request that opened the poll.
+ * @param response The response to the request.
+ * @param pollId The ID of the poll.
+ * @param token The share token.
+ * @returns The same response, with the cookie set.
+ */
+export function rememberShareToken(request: NextRequest, response: NextResponse, pollId: string, token: string): NextResponse {
+  response.cookies.set(getShareCookieName(pollId), token, getPollCookieOptions(request, SHARE_COOKIE_MAX_AGE));
+  return response;
+}
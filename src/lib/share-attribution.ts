@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/client';
+import { SHARE_REF_PARAM } from '@/lib/sharing';
+import { getPollCookieOptions } from '@/lib/poll-cookies';
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+/** How long a browser remembers the share it came through. */
+const SHARE_REF_COOKIE_MAX_AGE = 60 * 60 * 24 * 30;
+
+const SHARE_ID_PATTERN = /^[0-9a-f-]{36}$/i;
+
+/**
+ * The name of the cookie that holds the share a visitor came to a poll through.
+ * @param pollId The ID of the poll.
+ */
+function getShareRefCookieName(pollId: string): string {
+  return `ref_${pollId}`;
+}
+
+/**
+ * Finds the share a vote should be credited to: the `ref` query parameter, or the cookie set when
+ * the visitor first opened the poll. It is only trusted if it names a share of this poll.
+ * @param supabase The Supabase client.
+ * @param request The incoming request.
+ * @param pollId The ID of the poll.
+ * @returns The ID of the share, or null if the visitor didn't come through one.
+ */
+export async function getRequestShareId(
+  supabase: SupabaseClient,
+  request: NextRequest,
+  pollId: string
+): Promise<string | null> {
+  const shareId = request.nextUrl.searchParams.get(SHARE_REF_PARAM) ?? request.cookies.get(getShareRefCookieName(pollId))?.value;
+  if (!shareId || !SHARE_ID_PATTERN.test(shareId)) return null;
+
+  const { data: share } = await supabase
+    .from('poll_shares')
+    .select('id')
+    .eq('id', shareId)
+    .eq('poll_id', pollId)
+    .maybeSingle();
+  return share?.id ?? null;
+}
+
+/**
+ * Remembers the share a visitor came through, so that their vote is credited to it. A later share
+ * replaces an earlier one.
+ * @param request The request that opened the poll.
+ * @param response The response to the request.
+ * @param pollId The ID of the poll.
+ * @param shareId The ID of the share.
+ * @returns The same response, with the cookie set.
+ */
+export function rememberShareRef(request: NextRequest, response: NextResponse, pollId: string, shareId: string): NextResponse {
+  if (!SHARE_ID_PATTERN.test(shareId)) return response;
+
+  response.cookies.set(getShareRefCookieName(pollId), shareId, getPollCookieOptions(request, SHARE_REF_COOKIE_MAX_AGE));
+  return response;
+}
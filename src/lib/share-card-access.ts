@@ -0,0 +1,62 @@
+import { createServerSupabaseClient } from '@/lib/supabase/client';
+import { checkPollAccess } from '@/lib/access';
+import { isShareTokenValid } from '@/lib/share-access';
+import { getEffectiveStatus } from '@/lib/lifecycle';
+import { canViewResults } from '@/lib/visibility';
+import { PollAccess, PollStatus, ResultsVisibility, ShareCard } from '@/types';
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+
+/**
+ * Loads what link previews may show of a poll. Previews are fetched anonymously by other services,
+ * so a poll is only described if an anonymous visitor with the same link could open it, and its
+ * results are only included if that visitor could see them. Password-protected polls never show
+ * results, and only standard polls have result bars.
+ * @param supabase The Supabase client.
+ * @param pollId The ID of the poll.
+ * @param shareToken The share token the poll was shared with, if any.
+ * @returns The poll's share card, or null if the poll can't be previewed.
+ */
+export async function getPollShareCard(
+  supabase: SupabaseClient,
+  pollId: string,
+  shareToken: string | null
+): Promise<ShareCard | null> {
+  const { data: poll, error } = await supabase
+    .from('polls')
+    .select('id, title, description, status, access, share_token, password_protected, results_visibility, poll_type, starts_at, expires_at, poll_options (id, text, order_index)')
+    .eq('id', pollId)
+    .maybeSingle();
+
+  if (error || !poll || poll.status === 'draft') return null;
+
+  const access = checkPollAccess(poll.access as PollAccess, {
+    isCreator: false,
+    isSignedIn: false,
+    hasShareToken: isShareTokenValid(shareToken ?? undefined, poll.share_token)
+  });
+  if (access !== 'granted') return null;
+
+  const status = getEffectiveStatus(poll.status as PollStatus, poll.starts_at, poll.expires_at);
+  const resultsVisible = poll.poll_type === 'standard' && !poll.password_protected &&
+    canViewResults(poll.results_visibility as ResultsVisibility, {
+      isCreator: false,
+      hasVoted: false,
+      isClosed: status === 'closed' || status === 'archived'
+    });
+
+  // A card without results is still better than no card, so a failed vote count leaves them out.
+  const { data: votes } = resultsVisible
+    ? await supabase.from('votes').select('option_id').eq('poll_id', poll.id).is('excluded_at', null).is('pending_until', null)
+    : { data: null };
+  const results = votes
+    ? [...poll.poll_options]
+      .sort((a, b) => a.order_index - b.order_index)
+      .map((option) => ({
+        text: option.text,
+        votes: votes.filter((vote) => vote.option_id === option.id).length
+      }))
+    : null;
+
+  return { pollId: poll.id, title: poll.title, description: poll.description, results };
+}
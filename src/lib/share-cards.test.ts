@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { getOEmbedResponse, getShareCardBars, getShareCardDescription, parsePollUrl } from '@/lib/share-cards';
+
+const baseUrl = 'https://polly.example';
+const pollId = '0b6f2c1e-8f1a-4c3e-9d2b-7a5e4f3c2b1a';
+const card = { pollId, title: 'Lunch?', description: null, results: [{ text: 'Pizza', votes: 1 }, { text: 'Sushi', votes: 3 }] };
+
+describe('getShareCardBars', () => {
+  it('should show the leading options first, with their share of the votes', () => {
+    expect(getShareCardBars(card.results, 1)).toEqual({
+      bars: [{ text: 'Sushi', votes: 3, percentage: 75 }],
+      remaining: 1
+    });
+  });
+});
+
+describe('getShareCardDescription', () => {
+  it('should prefer the poll description, then the vote count', () => {
+    expect(getShareCardDescription({ ...card, description: 'Friday team lunch' })).toBe('Friday team lunch');
+    expect(getShareCardDescription(card)).toBe('4 votes so far. Cast yours on Polly.');
+    expect(getShareCardDescription({ ...card, results: null })).toBe('Cast your vote on Polly.');
+  });
+});
+
+describe('parsePollUrl', () => {
+  it('should read poll page and embed links to this app', () => {
+    expect(parsePollUrl(`${baseUrl}/polls/${pollId}?token=abc`, baseUrl)).toEqual({ pollId, shareToken: 'abc' });
+    expect(parsePollUrl(`${baseUrl}/embed/polls/${pollId}`, baseUrl)).toEqual({ pollId, shareToken: null });
+  });
+
+  it('should reject other sites, other pages and malformed links', () => {
+    expect(parsePollUrl(`https://other.example/polls/${pollId}`, baseUrl)).toBeNull();
+    expect(parsePollUrl(`${baseUrl}/polls/${pollId}/edit`, baseUrl)).toBeNull();
+    expect(parsePollUrl('not a url', baseUrl)).toBeNull();
+  });
+});
+
+describe('getOEmbedResponse', () => {
+  it('should embed the poll, within the requested size, with its share card as thumbnail', () => {
+    const response = getOEmbedResponse(card, { baseUrl, shareToken: 'abc', maxWidth: 400 });
+    expect(response).toMatchObject({ type: 'rich', title: 'Lunch?', width: 400, height: 480 });
+    expect(response.html).toContain(`src="${baseUrl}/embed/polls/${pollId}?token=abc"`);
+    expect(response.thumbnail_url).toBe(`${baseUrl}/api/polls/${pollId}/card?token=abc`);
+  });
+});
@@ -0,0 +1,119 @@
+import { ShareCard, ShareCardBar, ShareCardOption } from '@/types';
+import { calculatePercentage } from '@/lib/utils';
+import { DEFAULT_EMBED_HEIGHT, getIframeEmbedCode } from '@/lib/embed';
+
+/** The size of share card images, as recommended for Open Graph images. */
+export const SHARE_CARD_SIZE = { width: 1200, height: 630 };
+
+/** How many options a share card shows bars for. */
+export const SHARE_CARD_MAX_BARS = 4;
+
+/** The widest an oEmbed of a poll is offered at. */
+const OEMBED_MAX_WIDTH = 600;
+
+const POLL_PATH_PATTERN = /^\/(?:embed\/)?polls\/([0-9a-f-]{36})\/?$/i;
+
+/** The body of an oEmbed response for a poll, as defined by the oEmbed spec for rich content. */
+export interface OEmbedResponse {
+  version: '1.0';
+  type: 'rich';
+  provider_name: string;
+  provider_url: string;
+  title: string;
+  html: string;
+  width: number;
+  height: number;
+  thumbnail_url: string;
+  thumbnail_width: number;
+  thumbnail_height: number;
+}
+
+/**
+ * Picks the options a share card shows bars for: those with the most votes, in order, each with
+ * its share of all votes.
+ * @param options Every option, with its votes.
+ * @param limit How many bars to show.
+ * @returns The bars, and how many options were left out.
+ */
+export function getShareCardBars(
+  options: ShareCardOption[],
+  limit: number = SHARE_CARD_MAX_BARS
+): { bars: ShareCardBar[]; remaining: number } {
+  const total = options.reduce((sum, option) => sum + option.votes, 0);
+  const bars = [...options]
+    .sort((a, b) => b.votes - a.votes)
+    .slice(0, limit)
+    .map((option) => ({ ...option, percentage: calculatePercentage(option.votes, total) }));
+
+  return { bars, remaining: Math.max(options.length - limit, 0) };
+}
+
+/**
+ * Describes a poll in its link previews: its own description, or its vote count when its results
+ * are public.
+ * @param card The poll's share card.
+ */
+export function getShareCardDescription(card: ShareCard): string {
+  if (card.description) return card.description;
+  if (!card.results) return 'Cast your vote on Polly.';
+
+  const total = card.results.reduce((sum, option) => sum + option.votes, 0);
+  return `${total} vote${total === 1 ? '' : 's'} so far. Cast yours on Polly.`;
+}
+
+/**
+ * Builds the URL of a poll's share card image. Unlisted polls need their share token, like their
+ * share link.
+ * @param baseUrl The app's base URL.
+ * @param pollId The ID of the poll.
+ * @param shareToken The share token the poll was shared with, if any.
+ */
+export function getShareCardImageUrl(baseUrl: string, pollId: string, shareToken?: string | null): string {
+  return `${baseUrl}/api/polls/${pollId}/card${shareToken ? `?token=${shareToken}` : ''}`;
+}
+
+/**
+ * Reads the poll a pasted link points to. Only links to this app's poll pages and embeds are
+ * recognised.
+ * @param url The pasted link.
+ * @param baseUrl The app's base URL.
+ * @returns The poll's ID and the link's share token, or null if the link isn't to a poll.
+ */
+export function parsePollUrl(url: string, baseUrl: string): { pollId: string; shareToken: string | null } | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  if (parsed.origin !== new URL(baseUrl).origin) return null;
+  const pollId = POLL_PATH_PATTERN.exec(parsed.pathname)?.[1];
+  return pollId ? { pollId, shareToken: parsed.searchParams.get('token') } : null;
+}
+
+/**
+ * Builds the oEmbed response for a poll, which embeds the poll itself and uses its share card
+ * as the thumbnail.
+ * @param card The poll's share card.
+ * @param options The app's base URL, the share token the poll was shared with, and the largest
+ *   size the consumer asked for.
+ */
+export function getOEmbedResponse(
+  card: ShareCard,
+  options: { baseUrl: string; shareToken: string | null; maxWidth?: number; maxHeight?: number }
+): OEmbedResponse {
+  return {
+    version: '1.0',
+    type: 'rich',
+    provider_name: 'Polly',
+    provider_url: options.baseUrl,
+    title: card.title,
+    html: getIframeEmbedCode(options.baseUrl, card.pollId, options.shareToken),
+    width: Math.min(options.maxWidth ?? OEMBED_MAX_WIDTH, OEMBED_MAX_WIDTH),
+    height: Math.min(options.maxHeight ?? DEFAULT_EMBED_HEIGHT, DEFAULT_EMBED_HEIGHT),
+    thumbnail_url: getShareCardImageUrl(options.baseUrl, card.pollId, options.shareToken),
+    thumbnail_width: SHARE_CARD_SIZE.width,
+    thumbnail_height: SHARE_CARD_SIZE.height
+  };
+}
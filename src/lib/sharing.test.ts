@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { addAttribution, getPlatformShareUrl, getShareChannelLabel, summarizeShareChannels } from '@/lib/sharing';
+
+describe('addAttribution', () => {
+  it('should add the share to links with or without a query', () => {
+    expect(addAttribution('https://polly.example/polls/p1', 's1')).toBe('https://polly.example/polls/p1?ref=s1');
+    expect(addAttribution('https://polly.example/polls/p1?token=abc', 's1')).toBe('https://polly.example/polls/p1?token=abc&ref=s1');
+  });
+});
+
+describe('getPlatformShareUrl', () => {
+  const url = 'https://polly.example/polls/p1?ref=s1';
+
+  it('should encode the link for each platform', () => {
+    expect(getPlatformShareUrl('twitter', url, 'Lunch?')).toBe(
+      'https://twitter.com/intent/tweet?url=https%3A%2F%2Fpolly.example%2Fpolls%2Fp1%3Fref%3Ds1&text=Lunch%3F'
+    );
+    expect(getPlatformShareUrl('facebook', url, 'Lunch?')).toBe(
+      'https://www.facebook.com/sharer/sharer.php?u=https%3A%2F%2Fpolly.example%2Fpolls%2Fp1%3Fref%3Ds1'
+    );
+    expect(getPlatformShareUrl('whatsapp', url, 'Lunch?')).toBe(
+      'https://wa.me/?text=Lunch%3F%20https%3A%2F%2Fpolly.example%2Fpolls%2Fp1%3Fref%3Ds1'
+    );
+  });
+});
+
+describe('getShareChannelLabel', () => {
+  it('should name social shares after their platform', () => {
+    expect(getShareChannelLabel('social', 'linkedin')).toBe('LinkedIn');
+    expect(getShareChannelLabel('qr', null)).toBe('QR code');
+  });
+});
+
+describe('summarizeShareChannels', () => {
+  it('should total shares and credited votes per channel, busiest first', () => {
+    const shares = [
+      { id: 's1', method: 'link' as const, platform: null },
+      { id: 's2', method: 'social' as const, platform: 'twitter' as const },
+      { id: 's3', method: 'link' as const, platform: null }
+    ];
+    const votes = [{ shareId: 's2' }, { shareId: 's2' }, { shareId: 's3' }, { shareId: null }, { shareId: 'other' }];
+
+    expect(summarizeShareChannels(shares, votes)).toEqual([
+      { method: 'social', platform: 'twitter', shares: 1, votes: 2 },
+      { method: 'link', platform: null, shares: 2, votes: 1 }
+    ]);
+  });
+});
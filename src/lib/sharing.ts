@@ -0,0 +1,90 @@
+import { ShareChannelStats, ShareMethod, SharePlatform } from '@/types';
+
+/** The query parameter that carries the share a visitor came through. */
+export const SHARE_REF_PARAM = 'ref';
+
+/** Every platform a poll can be shared to, in the order they are offered. */
+export const SHARE_PLATFORMS: SharePlatform[] = ['twitter', 'facebook', 'linkedin', 'whatsapp'];
+
+/** Human-readable names for each platform. */
+export const SHARE_PLATFORM_LABELS: Record<SharePlatform, string> = {
+  twitter: 'X (Twitter)',
+  facebook: 'Facebook',
+  linkedin: 'LinkedIn',
+  whatsapp: 'WhatsApp'
+};
+
+/** Human-readable names for the share methods other than social platforms. */
+const SHARE_METHOD_LABELS: Record<Exclude<ShareMethod, 'social'>, string> = {
+  qr: 'QR code',
+  link: 'Link'
+};
+
+/**
+ * Adds the attribution parameter to a poll link, so that votes from visitors who follow it are
+ * credited to the share.
+ * @param url The poll link.
+ * @param shareId The ID of the share.
+ */
+export function addAttribution(url: string, shareId: string): string {
+  const attributed = new URL(url);
+  attributed.searchParams.set(SHARE_REF_PARAM, shareId);
+  return attributed.toString();
+}
+
+/**
+ * Builds the link that shares a poll on a platform.
+ * @param platform The platform.
+ * @param url The poll link to share.
+ * @param title The poll's title, for platforms that take a message with the link.
+ */
+export function getPlatformShareUrl(platform: SharePlatform, url: string, title: string): string {
+  const link = encodeURIComponent(url);
+  switch (platform) {
+    case 'twitter':
+      return `https://twitter.com/intent/tweet?url=${link}&text=${encodeURIComponent(title)}`;
+    case 'facebook':
+      return `https://www.facebook.com/sharer/sharer.php?u=${link}`;
+    case 'linkedin':
+      return `https://www.linkedin.com/sharing/share-offsite/?url=${link}`;
+    case 'whatsapp':
+      return `https://wa.me/?text=${encodeURIComponent(`${title} ${url}`)}`;
+  }
+}
+
+/**
+ * Names a share channel: the platform of social shares, or the share method.
+ * @param method How the poll was shared.
+ * @param platform The platform, for social shares.
+ */
+export function getShareChannelLabel(method: ShareMethod, platform: SharePlatform | null): string {
+  return method === 'social' ? (platform ? SHARE_PLATFORM_LABELS[platform] : 'Social') : SHARE_METHOD_LABELS[method];
+}
+
+/**
+ * Totals a poll's shares and the votes credited to them by channel, busiest channel first.
+ * @param shares The poll's shares.
+ * @param votes The share each of the poll's votes came through, if any.
+ */
+export function summarizeShareChannels(
+  shares: { id: string; method: ShareMethod; platform: SharePlatform | null }[],
+  votes: { shareId: string | null }[]
+): ShareChannelStats[] {
+  const channels = new Map<string, ShareChannelStats>();
+  const channelOfShare = new Map<string, ShareChannelStats>();
+
+  for (const share of shares) {
+    const key = `${share.method}:${share.platform ?? ''}`;
+    const channel = channels.get(key) ?? { method: share.method, platform: share.platform, shares: 0, votes: 0 };
+    channel.shares += 1;
+    channels.set(key, channel);
+    channelOfShare.set(share.id, channel);
+  }
+
+  for (const vote of votes) {
+    const channel = vote.shareId ? channelOfShare.get(vote.shareId) : undefined;
+    if (channel) channel.votes += 1;
+  }
+
+  return [...channels.values()].sort((a, b) => b.votes - a.votes || b.shares - a.shares);
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import {
+  SHORT_LINK_SLUG_LENGTH,
+  SHORT_LINK_SLUG_PATTERN,
+  generateShortLinkSlug,
+  getReferrerHost,
+  getShortLinkUrl,
+  summarizeShortLinks
+} from '@/lib/short-links';
+
+describe('generateShortLinkSlug', () => {
+  it('should generate slugs that creators could also have chosen', () => {
+    const slug = generateShortLinkSlug();
+    expect(slug).toHaveLength(SHORT_LINK_SLUG_LENGTH);
+    expect(slug).toMatch(SHORT_LINK_SLUG_PATTERN);
+    expect(slug).not.toMatch(/[l1oO0I]/);
+  });
+});
+
+describe('getShortLinkUrl', () => {
+  it('should put the slug under /p', () => {
+    expect(getShortLinkUrl('https://polly.example', 'abc123')).toBe('https://polly.example/p/abc123');
+  });
+});
+
+describe('getReferrerHost', () => {
+  it('should reduce referrers to their host', () => {
+    expect(getReferrerHost('https://www.Facebook.com/groups/1')).toBe('facebook.com');
+    expect(getReferrerHost('https://t.co/xyz')).toBe('t.co');
+  });
+
+  it('should ignore missing and malformed referrers', () => {
+    expect(getReferrerHost(null)).toBeNull();
+    expect(getReferrerHost('not a url')).toBeNull();
+  });
+});
+
+describe('summarizeShortLinks', () => {
+  it('should count clicks, the latest click and the top referrers of each link', () => {
+    const links = [
+      { id: 'l1', slug: 'news', label: 'Newsletter' },
+      { id: 'l2', slug: 'abc123', label: null }
+    ];
+    const clicks = [
+      { shortLinkId: 'l1', referrer: 'https://mail.example.com/', clickedAt: '2024-05-01T10:00:00Z' },
+      { shortLinkId: 'l1', referrer: 'https://t.co/a', clickedAt: '2024-05-03T10:00:00Z' },
+      { shortLinkId: 'l1', referrer: 'https://mail.example.com/inbox', clickedAt: '2024-05-02T10:00:00Z' },
+      { shortLinkId: 'l1', referrer: null, clickedAt: '2024-05-02T11:00:00Z' }
+    ];
+
+    expect(summarizeShortLinks(links, clicks)).toEqual([
+      {
+        id: 'l1',
+        slug: 'news',
+        label: 'Newsletter',
+        clicks: 4,
+        lastClickedAt: '2024-05-03T10:00:00Z',
+        topReferrers: [
+          { host: 'mail.example.com', clicks: 2 },
+          { host: 't.co', clicks: 1 }
+        ]
+      },
+      { id: 'l2', slug: 'abc123', label: null, clicks: 0, lastClickedAt: null, topReferrers: [] }
+    ]);
+  });
+});
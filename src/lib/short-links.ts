@@ -0,0 +1,84 @@
+import { ShortLink, ShortLinkReferrer } from '@/types';
+
+/** How many characters generated short link slugs have. */
+export const SHORT_LINK_SLUG_LENGTH = 6;
+
+/** What slugs chosen by poll creators may look like; mirrors the check on short_links.slug. */
+export const SHORT_LINK_SLUG_PATTERN = /^[A-Za-z0-9_-]{3,32}$/;
+
+/** How many referring sites are listed for each short link. */
+export const SHORT_LINK_TOP_REFERRERS = 3;
+
+const SLUG_ALPHABET = 'abcdefghijkmnpqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/**
+ * Generates a random short link slug. Characters that are easily confused, like `l` and `1`, are
+ * left out, so that slugs can be read off a poster.
+ */
+export function generateShortLinkSlug(): string {
+  // Bytes past the last whole multiple of the alphabet's length are skipped, so that every
+  // character is equally likely.
+  const limit = 256 - (256 % SLUG_ALPHABET.length);
+  let slug = '';
+  while (slug.length < SHORT_LINK_SLUG_LENGTH) {
+    for (const byte of crypto.getRandomValues(new Uint8Array(SHORT_LINK_SLUG_LENGTH))) {
+      if (byte < limit && slug.length < SHORT_LINK_SLUG_LENGTH) slug += SLUG_ALPHABET[byte % SLUG_ALPHABET.length];
+    }
+  }
+  return slug;
+}
+
+/**
+ * Builds a short link's URL.
+ * @param baseUrl The app's base URL.
+ * @param slug The short link's slug.
+ */
+export function getShortLinkUrl(baseUrl: string, slug: string): string {
+  return `${baseUrl}/p/${slug}`;
+}
+
+/**
+ * Finds the site a click came from.
+ * @param referrer The click's Referer header.
+ * @returns The referring host, without a leading `www.`, or null if there is no valid referrer.
+ */
+export function getReferrerHost(referrer: string | null): string | null {
+  if (!referrer) return null;
+  try {
+    const host = new URL(referrer).hostname.toLowerCase();
+    return host ? host.replace(/^www\./, '') : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Totals the clicks on each of a poll's short links. Links keep the order they are given in.
+ * @param links The poll's short links.
+ * @param clicks The clicks on them.
+ */
+export function summarizeShortLinks(
+  links: { id: string; slug: string; label: string | null }[],
+  clicks: { shortLinkId: string; referrer: string | null; clickedAt: string }[]
+): ShortLink[] {
+  return links.map((link) => {
+    const linkClicks = clicks.filter((click) => click.shortLinkId === link.id);
+
+    const referrers = new Map<string, number>();
+    let lastClickedAt: string | null = null;
+    for (const click of linkClicks) {
+      const host = getReferrerHost(click.referrer);
+      if (host) referrers.set(host, (referrers.get(host) ?? 0) + 1);
+      if (!lastClickedAt || new Date(click.clickedAt) > new Date(lastClickedAt)) {
+        lastClickedAt = click.clickedAt;
+      }
+    }
+
+    const topReferrers: ShortLinkReferrer[] = [...referrers]
+      .map(([host, count]) => ({ host, clicks: count }))
+      .sort((a, b) => b.clicks - a.clicks || a.host.localeCompare(b.host))
+      .slice(0, SHORT_LINK_TOP_REFERRERS);
+
+    return { ...link, clicks: linkClicks.length, lastClickedAt, topReferrers };
+  });
+}
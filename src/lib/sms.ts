@@ -0,0 +1,87 @@
+/** A text message to send. */
+export interface SmsMessage {
+  to: string;
+  text: string;
+}
+
+/**
+ * Delivers text messages. `ConsoleSmsProvider` prints them for development, and
+ * `WebhookSmsProvider` hands them to an SMS gateway. Other providers can be plugged in with
+ * `setSmsProvider`.
+ */
+export interface SmsProvider {
+  /**
+   * Delivers one text message.
+   * @param message The message.
+   */
+  send(message: SmsMessage): Promise<void>;
+}
+
+/**
+ * Prints text messages to the server log instead of sending them, for development.
+ */
+export class ConsoleSmsProvider implements SmsProvider {
+  async send(message: SmsMessage) {
+    console.info(`SMS to ${message.to}: ${message.text}`);
+  }
+}
+
+/**
+ * Posts text messages as JSON, `{ "to": ..., "text": ... }`, to an SMS gateway's webhook, with
+ * an optional bearer token. Any gateway, or a small function in front of one, can take them.
+ */
+export class WebhookSmsProvider implements SmsProvider {
+  constructor(private readonly url: string, private readonly token?: string) {}
+
+  async send(message: SmsMessage) {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.token && { Authorization: `Bearer ${this.token}` })
+      },
+      body: JSON.stringify({ to: message.to, text: message.text })
+    });
+    if (!response.ok) {
+      throw new Error(`SMS webhook failed with status ${response.status}`);
+    }
+  }
+}
+
+let provider: SmsProvider | null = null;
+
+/**
+ * Returns the provider text messages are sent with: the webhook in production, and the console
+ * elsewhere. `SMS_PROVIDER` (`console` or `webhook`) overrides the choice; the webhook needs
+ * `SMS_WEBHOOK_URL`, and sends `SMS_WEBHOOK_TOKEN` if it is set.
+ */
+export function getSmsProvider(): SmsProvider {
+  if (!provider) {
+    const kind = process.env.SMS_PROVIDER ?? (process.env.NODE_ENV === 'production' ? 'webhook' : 'console');
+    if (kind === 'webhook') {
+      if (!process.env.SMS_WEBHOOK_URL) {
+        throw new Error('SMS_WEBHOOK_URL is not set');
+      }
+      provider = new WebhookSmsProvider(process.env.SMS_WEBHOOK_URL, process.env.SMS_WEBHOOK_TOKEN);
+    } else {
+      provider = new ConsoleSmsProvider();
+    }
+  }
+  return provider;
+}
+
+/**
+ * Replaces the provider text messages are sent with, such as with a client for a gateway's own API.
+ * @param smsProvider The provider.
+ */
+export function setSmsProvider(smsProvider: SmsProvider): void {
+  provider = smsProvider;
+}
+
+/**
+ * Sends a text message.
+ * @param message The message.
+ */
+export async function sendSms(message: SmsMessage): Promise<void> {
+  await getSmsProvider().send(message);
+}
@@ -1,5 +1,6 @@
 import { createClient } from '@supabase/supabase-js'
 import type { Database } from '@/types/database'
+import { getShareUrl } from '@/lib/access'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
@@ -118,7 +119,7 @@ export const getUserVote = async (pollId: string, userId: string) => {
 
 // QR Code helpers
 export const generateQRCode = async (pollId: string, shareToken: string) => {
-  const pollUrl = `${process.env.NEXT_PUBLIC_APP_URL}/polls/${pollId}?token=${shareToken}`
+  const pollUrl = getShareUrl(process.env.NEXT_PUBLIC_APP_URL ?? '', pollId, shareToken)
   
   // Generate QR code using qrcode library
   const QRCode = require('qrcode')
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { findSurveyResponseError } from '@/lib/survey';
+import { SurveyQuestion } from '@/types';
+
+const question = (overrides: Partial<SurveyQuestion> & Pick<SurveyQuestion, 'id'>): SurveyQuestion => ({
+  text: 'Question',
+  questionType: 'standard',
+  options: [],
+  allowMultipleVotes: false,
+  minSelections: 1,
+  maxSelections: null,
+  required: true,
+  ...overrides,
+});
+
+const option = (id: string) => ({ id, text: id, votes: 0 });
+
+describe('findSurveyResponseError', () => {
+  const questions = [
+    question({ id: 'color', options: [option('red'), option('blue')] }),
+    question({ id: 'fruit', options: [option('apple'), option('pear'), option('plum')], allowMultipleVotes: true, maxSelections: 2 }),
+    question({ id: 'score', questionType: 'nps', required: false }),
+  ];
+
+  it('should accept a complete response', () => {
+    expect(findSurveyResponseError(questions, [
+      { question_id: 'color', option_id: 'red' },
+      { question_id: 'fruit', option_ids: ['apple', 'plum'] },
+      { question_id: 'score', ratings: [{ value: 9 }] },
+    ])).toBeNull();
+  });
+
+  it('should allow optional questions to be skipped', () => {
+    expect(findSurveyResponseError(questions, [
+      { question_id: 'color', option_id: 'blue' },
+      { question_id: 'fruit', option_ids: ['pear'] },
+    ])).toBeNull();
+  });
+
+  it('should require an answer to every required question', () => {
+    expect(findSurveyResponseError(questions, [
+      { question_id: 'color', option_id: 'red' },
+    ])).toBe('Question 2: an answer is required');
+  });
+
+  it('should reject answers to unknown questions', () => {
+    expect(findSurveyResponseError(questions, [
+      { question_id: 'color', option_id: 'red' },
+      { question_id: 'fruit', option_ids: ['pear'] },
+      { question_id: 'other', option_id: 'red' },
+    ])).toBe('One or more answers are for an unknown question');
+  });
+
+  it('should reject options from another question', () => {
+    expect(findSurveyResponseError(questions, [
+      { question_id: 'color', option_id: 'apple' },
+      { question_id: 'fruit', option_ids: ['pear'] },
+    ])).toBe('Question 1: invalid option selected');
+  });
+
+  it('should enforce selection limits and scale ranges', () => {
+    expect(findSurveyResponseError(questions, [
+      { question_id: 'color', option_id: 'red' },
+      { question_id: 'fruit', option_ids: ['apple', 'pear', 'plum'] },
+    ])).toBe('Question 2: select up to 2 options');
+
+    expect(findSurveyResponseError(questions, [
+      { question_id: 'color', option_id: 'red' },
+      { question_id: 'fruit', option_ids: ['apple'] },
+      { question_id: 'score', ratings: [{ value: 11 }] },
+    ])).toBe('Question 3: answers must be between 0 and 10');
+  });
+
+  it('should require the ballot type of the question', () => {
+    const ranked = [question({ id: 'rank', questionType: 'ranked_choice', options: [option('a'), option('b')] })];
+
+    expect(findSurveyResponseError(ranked, [{ question_id: 'rank', option_id: 'a' }]))
+      .toBe('Question 1: requires a ranked ballot');
+    expect(findSurveyResponseError(ranked, [{ question_id: 'rank', ranking: ['b', 'a'] }])).toBeNull();
+  });
+});
@@ -0,0 +1,125 @@
+import { Database } from '@/types/database';
+import { QuestionType, SurveyQuestion } from '@/types';
+import { SurveyResponseData } from './validations';
+import { getScaleRange, isScalePoll } from './scales';
+import { describeSelectionLimits } from './utils';
+
+type PollRow = Database['public']['Tables']['polls']['Row'];
+type QuestionRow = Database['public']['Tables']['poll_questions']['Row'];
+type OptionRow = Database['public']['Tables']['poll_options']['Row'];
+type SurveyAnswerData = SurveyResponseData['answers'][number];
+
+/**
+ * Builds a survey question from its database row and the survey's options.
+ * @param row The question row.
+ * @param options The options of the whole survey; only the question's own options are kept, in order.
+ * @returns The survey question.
+ */
+export function toSurveyQuestion(row: QuestionRow, options: OptionRow[]): SurveyQuestion {
+  return {
+    id: row.id,
+    text: row.text,
+    questionType: row.question_type as QuestionType,
+    options: options
+      .filter((option) => option.question_id === row.id)
+      .sort((a, b) => a.order_index - b.order_index)
+      .map((option) => ({ id: option.id, text: option.text, votes: 0 })),
+    allowMultipleVotes: row.allow_multiple_votes,
+    minSelections: row.min_selections,
+    maxSelections: row.max_selections,
+    ...(row.scale_labels && { scaleLabels: row.scale_labels }),
+    required: row.is_required
+  };
+}
+
+/**
+ * Describes a single-question poll as a question, so its ballots can be checked like survey answers.
+ * @param poll The poll row.
+ * @param options The poll's options.
+ * @returns The poll as a question.
+ */
+export function toPollQuestion(poll: PollRow, options: OptionRow[]): SurveyQuestion {
+  return {
+    id: poll.id,
+    text: poll.title,
+    questionType: poll.poll_type as QuestionType,
+    options: [...options]
+      .sort((a, b) => a.order_index - b.order_index)
+      .map((option) => ({ id: option.id, text: option.text, votes: 0 })),
+    allowMultipleVotes: poll.allow_multiple_votes,
+    minSelections: poll.min_selections,
+    maxSelections: poll.max_selections,
+    ...(poll.scale_labels && { scaleLabels: poll.scale_labels }),
+    required: true
+  };
+}
+
+/**
+ * Checks a single answer against its question.
+ * The answer must use the field the question type expects and may only refer to the question's own options.
+ * Single-question polls can be checked the same way, with the poll itself as the question.
+ * @param question The question being answered.
+ * @param answer The answer.
+ * @returns A description of the problem, or null if the answer is valid.
+ */
+export function findAnswerError(question: SurveyQuestion, answer: Omit<SurveyAnswerData, 'question_id'>): string | null {
+  const optionIds = new Set(question.options.map((option) => option.id));
+
+  if (question.questionType === 'ranked_choice') {
+    if (!answer.ranking) return 'requires a ranked ballot';
+    return answer.ranking.every((id) => optionIds.has(id)) ? null : 'one or more invalid options ranked';
+  }
+
+  if (isScalePoll(question.questionType)) {
+    if (!answer.ratings) return 'requires a rating';
+    const range = getScaleRange(question.questionType, question.scaleLabels);
+    if (range && answer.ratings.some((rating) => rating.value < range.min || rating.value > range.max)) {
+      return `answers must be between ${range.min} and ${range.max}`;
+    }
+    if (question.questionType === 'likert') {
+      return answer.ratings.every((rating) => rating.option_id && optionIds.has(rating.option_id))
+        ? null
+        : 'one or more invalid rows answered';
+    }
+    return answer.ratings.length === 1 && !answer.ratings[0]?.option_id ? null : 'takes a single answer';
+  }
+
+  if (question.allowMultipleVotes) {
+    if (!answer.option_ids) return 'requires a selection';
+    if (!answer.option_ids.every((id) => optionIds.has(id))) return 'one or more invalid options selected';
+    const count = new Set(answer.option_ids).size;
+    if (count < question.minSelections || (question.maxSelections !== null && count > question.maxSelections)) {
+      return describeSelectionLimits(question.minSelections, question.maxSelections).toLowerCase();
+    }
+    return null;
+  }
+
+  if (!answer.option_id) return 'requires a single option';
+  return optionIds.has(answer.option_id) ? null : 'invalid option selected';
+}
+
+/**
+ * Checks a survey response against the survey's questions.
+ * Every required question must be answered, and every answer must be valid for its question.
+ * @param questions The survey's questions, in order.
+ * @param answers The answers in the response.
+ * @returns The first problem found, prefixed with the question number, or null if the response is valid.
+ */
+export function findSurveyResponseError(questions: SurveyQuestion[], answers: SurveyAnswerData[]): string | null {
+  if (answers.some((answer) => !questions.some((question) => question.id === answer.question_id))) {
+    return 'One or more answers are for an unknown question';
+  }
+
+  for (const [index, question] of questions.entries()) {
+    const answer = answers.find((candidate) => candidate.question_id === question.id);
+    if (!answer) {
+      if (question.required) return `Question ${index + 1}: an answer is required`;
+      continue;
+    }
+
+    const error = findAnswerError(question, answer);
+    if (error) return `Question ${index + 1}: ${error}`;
+  }
+
+  return null;
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { calculateNps, summarizeRatings, tallyApproval, tallyInstantRunoff } from '@/lib/tally';
+
+describe('tallyInstantRunoff', () => {
+  const options = ['alice', 'bob', 'carol'];
+
+  it('should declare a first-round majority winner', () => {
+    const result = tallyInstantRunoff(options, [
+      ['alice', 'bob'],
+      ['alice'],
+      ['bob', 'alice'],
+    ]);
+
+    expect(result.winner).toBe('alice');
+    expect(result.rounds).toHaveLength(1);
+    expect(result.rounds[0]?.counts).toEqual({ alice: 2, bob: 1, carol: 0 });
+  });
+
+  it('should transfer eliminated ballots to their next preference', () => {
+    // Plurality would pick alice, but carol's supporters prefer bob.
+    const result = tallyInstantRunoff(options, [
+      ['alice'],
+      ['alice'],
+      ['bob', 'alice'],
+      ['bob'],
+      ['carol', 'bob'],
+    ]);
+
+    expect(result.rounds).toHaveLength(2);
+    expect(result.rounds[0]?.eliminated).toEqual(['carol']);
+    expect(result.rounds[1]?.counts).toEqual({ alice: 2, bob: 3 });
+    expect(result.winner).toBe('bob');
+  });
+
+  it('should count exhausted ballots separately', () => {
+    const result = tallyInstantRunoff(options, [
+      ['alice'],
+      ['alice'],
+      ['bob'],
+      ['bob'],
+      ['carol'],
+    ]);
+
+    expect(result.rounds[1]?.exhausted).toBe(1);
+    expect(result.winner).toBeNull();
+    expect(result.tied).toEqual(['alice', 'bob']);
+  });
+
+  it('should break elimination ties using earlier rounds', () => {
+    const result = tallyInstantRunoff(['alice', 'bob', 'carol', 'dave'], [
+      ['alice'],
+      ['alice'],
+      ['alice'],
+      ['alice'],
+      ['bob'],
+      ['bob'],
+      ['carol'],
+      ['carol'],
+      ['carol'],
+      ['dave', 'bob'],
+    ]);
+
+    // bob and carol tie in round 2, but bob had fewer votes in round 1.
+    expect(result.rounds[0]?.eliminated).toEqual(['dave']);
+    expect(result.rounds[1]?.counts).toEqual({ alice: 4, bob: 3, carol: 3 });
+    expect(result.rounds[1]?.eliminated).toEqual(['bob']);
+  });
+
+  it('should fall back to option order for ties with no history', () => {
+    const result = tallyInstantRunoff(options, [
+      ['alice'],
+      ['alice'],
+      ['bob'],
+      ['carol', 'alice'],
+    ]);
+
+    expect(result.rounds[0]?.eliminated).toEqual(['carol']);
+    expect(result.winner).toBe('alice');
+  });
+
+  it('should report a tie when no ballots have been cast', () => {
+    const result = tallyInstantRunoff(options, []);
+
+    expect(result.winner).toBeNull();
+    expect(result.totalBallots).toBe(0);
+    expect(result.tied).toEqual(options);
+  });
+});
+
+describe('tallyApproval', () => {
+  it('should measure approval share against voters, not votes', () => {
+    const result = tallyApproval(['alice', 'bob', 'carol'], [
+      ['alice', 'bob'],
+      ['alice'],
+      ['alice', 'bob', 'carol'],
+      ['bob'],
+    ]);
+
+    expect(result.voters).toBe(4);
+    expect(result.options).toEqual([
+      { optionId: 'alice', approvals: 3, approvalShare: 75 },
+      { optionId: 'bob', approvals: 3, approvalShare: 75 },
+      { optionId: 'carol', approvals: 1, approvalShare: 25 },
+    ]);
+  });
+
+  it('should report zero shares when nobody has voted', () => {
+    const result = tallyApproval(['alice'], []);
+
+    expect(result.voters).toBe(0);
+    expect(result.options[0]?.approvalShare).toBe(0);
+  });
+});
+
+describe('summarizeRatings', () => {
+  it('should summarize answers across the whole scale', () => {
+    const result = summarizeRatings([5, 3, 4, 4], { min: 1, max: 5 });
+
+    expect(result.count).toBe(4);
+    expect(result.mean).toBe(4);
+    expect(result.median).toBe(4);
+    expect(result.distribution).toEqual([
+      { value: 1, count: 0 },
+      { value: 2, count: 0 },
+      { value: 3, count: 1 },
+      { value: 4, count: 2 },
+      { value: 5, count: 1 },
+    ]);
+  });
+
+  it('should average the middle answers for an even count', () => {
+    expect(summarizeRatings([1, 2, 4, 5], { min: 1, max: 5 }).median).toBe(3);
+    expect(summarizeRatings([], { min: 1, max: 5 }).median).toBe(0);
+  });
+});
+
+describe('calculateNps', () => {
+  it('should subtract the detractor share from the promoter share', () => {
+    const result = calculateNps([10, 9, 9, 8, 7, 6, 2, 10]);
+
+    expect(result).toEqual({ promoters: 4, passives: 2, detractors: 2, score: 25 });
+  });
+});
@@ -0,0 +1,170 @@
+import { ApprovalResult, NpsScore, RankedChoiceResult, RatingSummary, RunoffRound } from '@/types';
+import { calculatePercentage } from '@/lib/utils';
+
+/**
+ * Counts each continuing ballot towards its highest-ranked option that is still in the race.
+ * @param ballots The rankings submitted by voters, most preferred option first.
+ * @param continuing The options that have not been eliminated yet.
+ * @returns The vote count per continuing option and the number of exhausted ballots.
+ */
+function countFirstPreferences(ballots: string[][], continuing: string[]) {
+  const counts: Record<string, number> = {};
+  for (const optionId of continuing) {
+    counts[optionId] = 0;
+  }
+
+  let exhausted = 0;
+  for (const ballot of ballots) {
+    const preference = ballot.find((optionId) => optionId in counts);
+    if (preference) {
+      counts[preference] = (counts[preference] ?? 0) + 1;
+    } else {
+      exhausted++;
+    }
+  }
+
+  return { counts, exhausted };
+}
+
+/**
+ * Picks the option to eliminate from those tied for the fewest votes.
+ * Ties are broken by looking back through earlier rounds for the option that did worst,
+ * and finally by eliminating the option that appears last in the poll.
+ * @param tied The options tied for the fewest votes in the current round.
+ * @param rounds The rounds counted so far, including the current one.
+ * @param optionIds The poll's options in display order.
+ */
+function breakEliminationTie(tied: string[], rounds: RunoffRound[], optionIds: string[]): string {
+  let candidates = tied;
+
+  for (const { counts } of rounds.slice(0, -1).reverse()) {
+    if (candidates.length === 1) break;
+    const lowest = Math.min(...candidates.map((optionId) => counts[optionId] ?? 0));
+    candidates = candidates.filter((optionId) => (counts[optionId] ?? 0) === lowest);
+  }
+
+  return candidates.reduce((last, optionId) =>
+    optionIds.indexOf(optionId) > optionIds.indexOf(last) ? optionId : last
+  );
+}
+
+/**
+ * Tallies ranked ballots using instant-runoff voting.
+ * Each round counts every ballot towards its highest-ranked continuing option. An option
+ * with a majority of the continuing ballots wins; otherwise the option with the fewest votes
+ * is eliminated and its ballots transfer to their next preference.
+ * @param optionIds The IDs of the poll's options in display order.
+ * @param ballots The rankings submitted by voters, most preferred option first.
+ * @returns The round-by-round counts and the winning option, if there is one.
+ */
+export function tallyInstantRunoff(optionIds: string[], ballots: string[][]): RankedChoiceResult {
+  const rounds: RunoffRound[] = [];
+  let continuing = [...optionIds];
+
+  while (continuing.length > 0) {
+    const { counts, exhausted } = countFirstPreferences(ballots, continuing);
+    const activeBallots = ballots.length - exhausted;
+    const round: RunoffRound = {
+      round: rounds.length + 1,
+      counts,
+      exhausted,
+      eliminated: []
+    };
+    rounds.push(round);
+
+    const leader = continuing.find((optionId) => (counts[optionId] ?? 0) * 2 > activeBallots);
+    if (leader) {
+      return { rounds, winner: leader, tied: [], totalBallots: ballots.length };
+    }
+
+    if (continuing.length === 1) {
+      // A lone option without a majority only happens when no ballots are left.
+      return { rounds, winner: null, tied: [], totalBallots: ballots.length };
+    }
+
+    const lowest = Math.min(...continuing.map((optionId) => counts[optionId] ?? 0));
+    const tied = continuing.filter((optionId) => (counts[optionId] ?? 0) === lowest);
+
+    // If every remaining option is tied there is nobody left to transfer votes to.
+    if (tied.length === continuing.length) {
+      return { rounds, winner: null, tied, totalBallots: ballots.length };
+    }
+
+    const eliminated = breakEliminationTie(tied, rounds, optionIds);
+    round.eliminated = [eliminated];
+    continuing = continuing.filter((optionId) => optionId !== eliminated);
+  }
+
+  return { rounds, winner: null, tied: [], totalBallots: ballots.length };
+}
+
+/**
+ * Tallies approval ballots, where each voter approves any number of options.
+ * Shares are measured against the number of voters rather than the number of votes,
+ * so they answer "how many voters approved this option" and can add up to more than 100%.
+ * @param optionIds The IDs of the poll's options in display order.
+ * @param ballots The options approved by each voter.
+ * @returns The approval count and share of voters for every option.
+ */
+export function tallyApproval(optionIds: string[], ballots: string[][]): ApprovalResult {
+  const voters = ballots.filter((ballot) => ballot.length > 0).length;
+
+  return {
+    voters,
+    options: optionIds.map((optionId) => {
+      const approvals = ballots.filter((ballot) => ballot.includes(optionId)).length;
+      return {
+        optionId,
+        approvals,
+        approvalShare: calculatePercentage(approvals, voters)
+      };
+    })
+  };
+}
+
+/**
+ * Summarizes answers given on a numeric scale.
+ * @param values The submitted answers.
+ * @param range The inclusive range of the scale, used to include unused points in the distribution.
+ * @returns The answer count, mean, median and per-point distribution.
+ */
+export function summarizeRatings(values: number[], range: { min: number; max: number }): RatingSummary {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length === 0
+    ? 0
+    : sorted.length % 2 === 1
+      ? sorted[middle] ?? 0
+      : ((sorted[middle - 1] ?? 0) + (sorted[middle] ?? 0)) / 2;
+  const mean = sorted.length === 0 ? 0 : sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+
+  const distribution = [];
+  for (let value = range.min; value <= range.max; value++) {
+    distribution.push({ value, count: sorted.filter((answer) => answer === value).length });
+  }
+
+  return {
+    count: sorted.length,
+    mean: Math.round(mean * 100) / 100,
+    median,
+    distribution
+  };
+}
+
+/**
+ * Calculates the Net Promoter Score for a set of 0-10 answers.
+ * Promoters answer 9 or 10, detractors answer 0 to 6 and everyone else is a passive.
+ * @param values The submitted answers.
+ * @returns The group sizes and the score, from -100 to 100.
+ */
+export function calculateNps(values: number[]): NpsScore {
+  const promoters = values.filter((value) => value >= 9).length;
+  const detractors = values.filter((value) => value <= 6).length;
+
+  return {
+    promoters,
+    passives: values.length - promoters - detractors,
+    detractors,
+    score: calculatePercentage(promoters, values.length) - calculatePercentage(detractors, values.length)
+  };
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/lib/supabase/client';
+import { UNLOCK_DURATION_MS, createUnlockToken, verifyUnlockToken } from '@/lib/poll-passwords';
+import { getPollCookieOptions } from '@/lib/poll-cookies';
+import { Database } from '@/types/database';
+
+type SupabaseClient = ReturnType<typeof createServerSupabaseClient>;
+type PollRow = Pick<Database['public']['Tables']['polls']['Row'], 'id' | 'created_by' | 'password_protected'>;
+
+/**
+ * The name of the cookie that keeps a password-protected poll unlocked.
+ * @param pollId The ID of the poll.
+ */
+function getUnlockCookieName(pollId: string): string {
+  return `unlock_${pollId}`;
+}
+
+/**
+ * Returns the secret unlock cookies are signed with.
+ */
+function getUnlockSecret(): string {
+  const secret = process.env.POLL_UNLOCK_SECRET;
+  if (!secret) {
+    throw new Error('POLL_UNLOCK_SECRET is not set');
+  }
+  return secret;
+}
+
+/**
+ * Fetches the password hash of a password-protected poll.
+ * @param supabase The Supabase client.
+ * @param pollId The ID of the poll.
+ * @returns The hash, or null if the poll has no password.
+ */
+export async function getPollPasswordHash(supabase: SupabaseClient, pollId: string): Promise<string | null> {
+  const { data } = await supabase
+    .from('poll_passwords')
+    .select('password_hash')
+    .eq('poll_id', pollId)
+    .maybeSingle();
+  return data?.password_hash ?? null;
+}
+
+/**
+ * Checks whether the person making a request has unlocked a poll. Polls without a password are
+ * always unlocked, and creators never need to enter the password of their own polls.
+ * @param supabase The Supabase client.
+ * @param request The incoming request.
+ * @param poll The poll.
+ */
+export async function isRequestUnlocked(
+  supabase: SupabaseClient,
+  request: NextRequest,
+  poll: PollRow
+): Promise<boolean> {
+  if (!poll.password_protected) return true;
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (user && user.id === poll.created_by) return true;
+
+  const token = request.cookies.get(getUnlockCookieName(poll.id))?.value;
+  const passwordHash = token ? await getPollPasswordHash(supabase, poll.id) : null;
+  return Boolean(token && passwordHash && verifyUnlockToken(token, poll.id, passwordHash, getUnlockSecret()));
+}
+
+/**
+ * Builds the error response for a request to a poll that is still locked.
+ */
+export function pollLockedResponse(): NextResponse {
+  return NextResponse.json({ error: 'Enter the poll password first', locked: true }, { status: 403 });
+}
+
+/**
+ * Keeps a poll unlocked for the voter who just entered its password, for a short while.
+ * @param request The unlock request.
+ * @param response The response to the unlock request.
+ * @param pollId The ID of the poll.
+ * @param passwordHash The poll's password hash.
+ * @returns The same response, with the cookie set.
+ */
+export function rememberUnlock(request: NextRequest, response: NextResponse, pollId: string, passwordHash: string): NextResponse {
+  const expiresAt = Date.now() + UNLOCK_DURATION_MS;
+  const token = createUnlockToken(pollId, passwordHash, getUnlockSecret(), expiresAt);
+  response.cookies.set(getUnlockCookieName(pollId), token, getPollCookieOptions(request, UNLOCK_DURATION_MS / 1000));
+  return response;
+}
@@ -20,6 +20,27 @@ export function isExpired(date: Date): boolean {
   return new Date() > date;
 }
 
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+}
+
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (days > 0) return `${days}d ${hours}h ${minutes}m`;
+  if (hours > 0) return `${hours}h ${minutes}m ${seconds}s`;
+  return `${minutes}m ${seconds}s`;
+}
+
 // Poll utilities
 export function calculateTotalVotes(options: { votes: number }[]): number {
   return options.reduce((total, option) => total + option.votes, 0);
@@ -29,6 +50,14 @@ export function calculatePercentage(votes: number, total: number): number {
   return total === 0 ? 0 : Math.round((votes / total) * 100);
 }
 
+export function describeSelectionLimits(min: number, max: number | null): string {
+  const plural = (count: number) => `${count} option${count === 1 ? '' : 's'}`;
+  if (max === null) return `Select at least ${plural(min)}`;
+  if (min === max) return `Select exactly ${plural(min)}`;
+  if (min <= 1) return `Select up to ${plural(max)}`;
+  return `Select between ${min} and ${max} options`;
+}
+
 // Validation utilities
 export function isValidEmail(email: string): boolean {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -1,4 +1,7 @@
 import { z } from 'zod'
+import { isScalePoll } from './scales'
+import { SHORT_LINK_SLUG_PATTERN } from './short-links'
+import { DEFAULT_CHALLENGE_DIFFICULTY, MAX_CHALLENGE_DIFFICULTY } from './proof-of-work'
 
 // User validation schemas
 export const userProfileSchema = z.object({
@@ -30,53 +33,353 @@ export const registerSchema = z.object({
 })
 
 // Poll validation schemas
-export const createPollSchema = z.object({
-  title: z.string().min(1, 'Poll title is required').max(200),
-  description: z.string().max(1000).optional(),
+const questionTypes = ['standard', 'ranked_choice', 'rating', 'nps', 'likert'] as const
+const pollStatuses = ['draft', 'scheduled', 'open', 'closed', 'archived'] as const
+const resultsVisibilities = ['always', 'after_vote', 'after_close', 'never'] as const
+const pollAccessLevels = ['public', 'unlisted', 'private'] as const
+
+const choiceSettingsShape = {
+  // Choice polls need at least 2 options and Likert polls at least 1 row; see `checkChoiceSettings`.
   options: z.array(z.string().min(1, 'Option text is required').max(200))
-    .min(2, 'At least 2 options are required')
     .max(10, 'Maximum 10 options allowed'),
   allow_multiple_votes: z.boolean().default(false),
+  scale_labels: z.array(z.string().min(1, 'Scale label is required').max(50))
+    .min(2, 'At least 2 scale points are required')
+    .max(10, 'Maximum 10 scale points allowed')
+    .optional(),
+  min_selections: z.number().int().min(1, 'Voters must select at least one option').optional(),
+  max_selections: z.number().int().min(1).nullable().optional(),
+  // The indexes of the correct options when the poll is a quiz
+  correct_options: z.array(z.number().int().min(0)).max(10).optional()
+}
+
+type ChoiceSettings = {
+  question_type: (typeof questionTypes)[number]
+  options: string[]
+  allow_multiple_votes: boolean
+  min_selections?: number | undefined
+  max_selections?: number | null | undefined
+}
+
+// The option and selection rules shared by single-question polls and survey questions
+const checkChoiceSettings = (data: ChoiceSettings, ctx: z.RefinementCtx) => {
+  if (!isScalePoll(data.question_type) && data.options.length < 2) {
+    ctx.addIssue({ code: 'custom', message: 'At least 2 options are required', path: ['options'] })
+  }
+  if (data.question_type === 'likert' && data.options.length < 1) {
+    ctx.addIssue({ code: 'custom', message: 'At least 1 statement is required', path: ['options'] })
+  }
+  if (data.min_selections && data.max_selections && data.min_selections > data.max_selections) {
+    ctx.addIssue({
+      code: 'custom',
+      message: 'Maximum selections cannot be lower than minimum selections',
+      path: ['max_selections']
+    })
+  }
+  if (data.allow_multiple_votes && (data.max_selections ?? data.min_selections ?? 1) > data.options.length) {
+    ctx.addIssue({
+      code: 'custom',
+      message: 'Selection limits cannot exceed the number of options',
+      path: ['max_selections']
+    })
+  }
+}
+
+type QuizSettings = Pick<ChoiceSettings, 'question_type' | 'options' | 'allow_multiple_votes'> & {
+  correct_options?: number[] | undefined
+}
+
+// Quiz questions are multiple choice, and single-choice questions have exactly one correct option.
+const checkQuizAnswers = (data: QuizSettings, ctx: z.RefinementCtx, path: (string | number)[]) => {
+  const correct = data.correct_options ?? []
+  if (data.question_type !== 'standard') {
+    ctx.addIssue({ code: 'custom', message: 'Only multiple choice questions can be scored', path })
+  } else if (correct.length === 0) {
+    ctx.addIssue({ code: 'custom', message: 'Mark at least one correct option', path: [...path, 'correct_options'] })
+  } else if (!data.allow_multiple_votes && correct.length > 1) {
+    ctx.addIssue({ code: 'custom', message: 'Single-choice questions have one correct option', path: [...path, 'correct_options'] })
+  } else if (new Set(correct).size !== correct.length || correct.some((index) => index >= data.options.length)) {
+    ctx.addIssue({ code: 'custom', message: 'Invalid correct options', path: [...path, 'correct_options'] })
+  }
+}
+
+export const surveyQuestionSchema = z.object({
+  text: z.string().min(1, 'Question text is required').max(500),
+  question_type: z.enum(questionTypes).default('standard'),
+  ...choiceSettingsShape,
+  is_required: z.boolean().default(true)
+}).superRefine(checkChoiceSettings)
+
+export const createPollSchema = z.object({
+  title: z.string().min(1, 'Poll title is required').max(200),
+  // null clears the description, start or expiry when editing a poll
+  description: z.string().max(1000).nullable().optional(),
+  ...choiceSettingsShape,
   require_authentication: z.boolean().default(false),
-  expires_at: z.string().datetime().optional()
+  allow_write_in: z.boolean().default(false),
+  is_quiz: z.boolean().default(false),
+  allow_vote_changes: z.boolean().default(false),
+  results_visibility: z.enum(resultsVisibilities).default('always'),
+  access: z.enum(pollAccessLevels).default('public'),
+  // Voters must enter the password before they can vote; null removes it when editing a poll.
+  password: z.string().min(4, 'Password must be at least 4 characters').max(100).nullable().optional(),
+  // Only invitees can vote, each once, with the single-use ballot token from their invitation.
+  invite_only: z.boolean().default(false),
+  // Eligibility rules: only accounts at these email domains, verified, or old enough may vote.
+  allowed_email_domains: z.array(
+    z.string().trim().toLowerCase().regex(/^[a-z0-9-]+(\.[a-z0-9-]+)+$/, 'Invalid email domain')
+  ).max(20, 'Maximum 20 email domains allowed').optional(),
+  require_verified: z.boolean().default(false),
+  min_account_age_days: z.number().int().min(1, 'Minimum account age must be at least 1 day').max(3650).nullable().optional(),
+  // How hard the proof-of-work anonymous voters solve is, in leading zero bits; 0 turns it off.
+  challenge_difficulty: z.number().int().min(0).max(MAX_CHALLENGE_DIFFICULTY).default(DEFAULT_CHALLENGE_DIFFICULTY),
+  require_phone_verification: z.boolean().default(false),
+  poll_type: z.enum([...questionTypes, 'survey']).default('standard'),
+  // New polls are saved as drafts or published straight away; polls published with a future start are scheduled.
+  status: z.enum(['draft', 'open']).default('open'),
+  // Surveys hold their options in their questions instead.
+  questions: z.array(surveyQuestionSchema).max(20, 'Maximum 20 questions allowed').optional(),
+  // Polls without a start date open as soon as they are created.
+  starts_at: z.string().datetime().nullable().optional(),
+  expires_at: z.string().datetime().nullable().optional()
     .refine((date) => !date || new Date(date) > new Date(), {
       message: 'Expiration date must be in the future'
     })
+}).superRefine((data, ctx) => {
+  if (data.poll_type !== 'survey') {
+    checkChoiceSettings({ ...data, question_type: data.poll_type }, ctx)
+  } else if (!data.questions?.length) {
+    ctx.addIssue({ code: 'custom', message: 'At least 1 question is required', path: ['questions'] })
+  }
+  if (data.starts_at && data.expires_at && new Date(data.expires_at) <= new Date(data.starts_at)) {
+    ctx.addIssue({ code: 'custom', message: 'Expiration date must be after the start date', path: ['expires_at'] })
+  }
+  if (data.allow_write_in && data.poll_type !== 'standard') {
+    ctx.addIssue({ code: 'custom', message: 'Write-in answers are only available for standard polls', path: ['allow_write_in'] })
+  }
+  if (data.allow_vote_changes && data.poll_type === 'survey') {
+    ctx.addIssue({ code: 'custom', message: 'Survey responses cannot be changed', path: ['allow_vote_changes'] })
+  }
+  // Quizzes score the questions that have correct options; in surveys, the rest go unscored.
+  if (data.is_quiz) {
+    if (data.allow_write_in) {
+      ctx.addIssue({ code: 'custom', message: 'Quizzes cannot accept write-in answers', path: ['allow_write_in'] })
+    }
+    if (data.allow_vote_changes) {
+      ctx.addIssue({ code: 'custom', message: 'Quiz answers cannot be changed', path: ['allow_vote_changes'] })
+    }
+    if (data.poll_type !== 'survey') {
+      checkQuizAnswers({ ...data, question_type: data.poll_type }, ctx, [])
+    } else if (data.questions && !data.questions.some((question) => question.correct_options?.length)) {
+      ctx.addIssue({ code: 'custom', message: 'Mark the correct options of at least one question', path: ['questions'] })
+    } else {
+      data.questions?.forEach((question, index) => {
+        if (question.correct_options?.length) checkQuizAnswers(question, ctx, ['questions', index])
+      })
+    }
+  }
 })
 
 export const updatePollSchema = createPollSchema.partial().extend({
-  is_active: z.boolean().optional()
+  status: z.enum(pollStatuses).optional()
+})
+
+// Moves a poll to another lifecycle status; the allowed moves are checked against the current status.
+export const pollStatusSchema = z.object({
+  status: z.enum(pollStatuses)
+})
+
+// Unlocks a password-protected poll.
+export const unlockPollSchema = z.object({
+  password: z.string().min(1, 'Password is required').max(100)
+})
+
+export const requestPhoneCodeSchema = z.object({
+  phone: z.string().regex(/^\+?[1-9]\d{1,14}$/, 'Invalid phone number')
+})
+
+export const verifyPhoneCodeSchema = z.object({
+  verification_id: z.string().uuid('Invalid verification ID'),
+  code: z.string().regex(/^\d{6}$/, 'Enter the 6-digit code')
 })
 
 // Vote validation schemas
+const writeInSchema = z.string().trim().min(1, 'Please specify your answer').max(200)
+
+// A vote picks an option or, on polls that allow it, writes in an "Other" answer.
 export const voteSchema = z.object({
   poll_id: z.string().uuid('Invalid poll ID'),
-  option_id: z.string().uuid('Invalid option ID'),
+  option_id: z.string().uuid('Invalid option ID').optional(),
+  write_in: writeInSchema.optional(),
   voter_email: z.string().email().optional(),
   voter_phone: z.string().regex(/^\+?[1-9]\d{1,14}$/).optional()
+}).refine((data) => Boolean(data.option_id) !== Boolean(data.write_in), {
+  message: 'Select an option or write in an answer',
+  path: ['option_id']
 }).refine((data) => data.voter_email || data.voter_phone, {
   message: 'Either email or phone is required for anonymous voting',
   path: ['voter_email']
 })
 
-export const multipleVoteSchema = z.object({
+const rankingSchema = z.array(z.string().uuid('Invalid option ID'))
+  .min(1, 'Rank at least one option')
+  .max(10, 'Maximum 10 options allowed')
+  .refine((ranking) => new Set(ranking).size === ranking.length, {
+    message: 'Each option can only be ranked once'
+  })
+
+export const rankedVoteSchema = z.object({
   poll_id: z.string().uuid('Invalid poll ID'),
+  ranking: rankingSchema,
+  voter_email: z.string().email().optional(),
+  voter_phone: z.string().regex(/^\+?[1-9]\d{1,14}$/).optional()
+}).refine((data) => data.voter_email || data.voter_phone, {
+  message: 'Either email or phone is required for anonymous voting',
+  path: ['voter_email']
+})
+
+// Rating and NPS polls take a single answer without an option; Likert polls take one answer per row.
+const ratingsSchema = z.array(z.object({
+  option_id: z.string().uuid('Invalid option ID').nullable().optional(),
+  value: z.number().int().min(0).max(10)
+}))
+  .min(1, 'At least one answer is required')
+  .max(10, 'Maximum 10 answers allowed')
+  .refine((ratings) => new Set(ratings.map((rating) => rating.option_id ?? null)).size === ratings.length, {
+    message: 'Each row can only be answered once'
+  })
+
+export const ratingVoteSchema = z.object({
+  poll_id: z.string().uuid('Invalid poll ID'),
+  ratings: ratingsSchema,
+  voter_email: z.string().email().optional(),
+  voter_phone: z.string().regex(/^\+?[1-9]\d{1,14}$/).optional()
+}).refine((data) => data.voter_email || data.voter_phone, {
+  message: 'Either email or phone is required for anonymous voting',
+  path: ['voter_email']
+})
+
+// A whole ballot for any question type; which field is set depends on the type,
+// like the single-question vote schemas above.
+const ballotShape = {
+  option_id: z.string().uuid('Invalid option ID').optional(),
   option_ids: z.array(z.string().uuid('Invalid option ID'))
     .min(1, 'At least one option must be selected')
     .max(10, 'Maximum 10 options allowed')
+    .optional(),
+  ranking: rankingSchema.optional(),
+  ratings: ratingsSchema.optional()
+}
+
+// A survey response answers several questions at once, with one ballot per question.
+export const surveyResponseSchema = z.object({
+  poll_id: z.string().uuid('Invalid poll ID'),
+  answers: z.array(z.object({
+    question_id: z.string().uuid('Invalid question ID'),
+    ...ballotShape
+  }))
+    .min(1, 'At least one answer is required')
+    .max(20, 'Maximum 20 answers allowed')
+    .refine((answers) => new Set(answers.map((answer) => answer.question_id)).size === answers.length, {
+      message: 'Each question can only be answered once'
+    }),
+  voter_email: z.string().email().optional(),
+  voter_phone: z.string().regex(/^\+?[1-9]\d{1,14}$/).optional()
+}).refine((data) => data.voter_email || data.voter_phone, {
+  message: 'Either email or phone is required for anonymous voting',
+  path: ['voter_email']
+})
+
+export const multipleVoteSchema = z.object({
+  poll_id: z.string().uuid('Invalid poll ID'),
+  option_ids: z.array(z.string().uuid('Invalid option ID'))
+    .max(10, 'Maximum 10 options allowed'),
+  write_in: writeInSchema.optional()
+}).refine((data) => data.option_ids.length > 0 || data.write_in, {
+  message: 'At least one option must be selected',
+  path: ['option_ids']
+})
+
+// A changed vote replaces the voter's whole ballot.
+export const changeVoteSchema = z.object({
+  poll_id: z.string().uuid('Invalid poll ID'),
+  ...ballotShape
+}).refine((data) => [data.option_id, data.option_ids, data.ranking, data.ratings].filter(Boolean).length === 1, {
+  message: 'Submit exactly one ballot',
+  path: ['option_id']
+})
+
+// Invitees of an invite-only poll, by email address
+export const inviteesSchema = z.object({
+  emails: z.array(z.string().trim().toLowerCase().email('Invalid email address'))
+    .min(1, 'Add at least one email address')
+    .max(500, 'Maximum 500 invitees at a time')
+})
+
+export const promoteWriteInSchema = z.object({
+  // The normalized text of the write-in group to promote
+  key: z.string().min(1).max(200)
+})
+
+// Excluding suspicious votes from the tallies, or counting them again; exclusions need a reason
+export const reviewVotesSchema = z.object({
+  vote_ids: z.array(z.string().uuid('Invalid vote ID'))
+    .min(1, 'Select at least one vote')
+    .max(500, 'Maximum 500 votes at a time'),
+  excluded: z.boolean(),
+  reason: z.string().trim().min(1).max(200, 'Reason must be less than 200 characters').optional()
+}).superRefine((data, ctx) => {
+  if (data.excluded && !data.reason) {
+    ctx.addIssue({ code: 'custom', path: ['reason'], message: 'Give a reason for excluding the votes' })
+  }
 })
 
 // QR Code validation
+const qrColorSchema = z.string().regex(/^#?[0-9a-f]{6}$/i, 'Colors must be 6-digit hex colors')
+
 export const qrCodeSchema = z.object({
   poll_id: z.string().uuid('Invalid poll ID'),
   size: z.number().min(100).max(1000).default(300),
-  format: z.enum(['png', 'svg', 'pdf']).default('png')
+  format: z.enum(['png', 'svg', 'pdf']).default('png'),
+  dark: qrColorSchema.default('#000000'),
+  light: qrColorSchema.default('#ffffff'),
+  margin: z.number().int().min(0).max(10).default(2),
+  // Defaults to the highest level when there is a logo, and to M otherwise
+  error_correction: z.enum(['L', 'M', 'Q', 'H']).optional(),
+  // A PNG or JPEG uploaded to the poll-assets bucket, shown in the middle of the code
+  logo: z.string().regex(/^logos\/[\w-]+\.(png|jpe?g)$/i, 'Logos must be PNG or JPEG files under logos/').optional(),
+  // Whether to print the poll title under the code
+  caption: z.boolean().default(false),
+  // A recorded QR share, which votes from people who scan the code are credited to
+  ref: z.string().uuid('Invalid share').optional(),
+  // The slug of one of the poll's short links, which the code then holds instead of the share link
+  short_link: z.string().regex(SHORT_LINK_SLUG_PATTERN, 'Invalid short link').optional()
+})
+
+// Batch QR export: a PDF with a poster per poll, or a ZIP with a QR code file per poll
+export const qrExportSchema = qrCodeSchema
+  .omit({ poll_id: true, format: true, ref: true, short_link: true })
+  .extend({
+    poll_ids: z.array(z.string().uuid('Invalid poll ID'))
+      .min(1, 'Select at least one poll')
+      .max(50, 'Maximum 50 polls per export'),
+    format: z.enum(['pdf', 'zip']).default('pdf'),
+    // The format of each file in a ZIP
+    file_format: z.enum(['png', 'svg']).default('png')
+  })
+
+// oEmbed validation; parameter names follow the oEmbed spec
+export const oEmbedSchema = z.object({
+  url: z.string().url('Invalid URL'),
+  format: z.enum(['json', 'xml']).default('json'),
+  maxwidth: z.coerce.number().int().positive().optional(),
+  maxheight: z.coerce.number().int().positive().optional()
 })
 
 // Search and filter schemas
 export const pollSearchSchema = z.object({
   query: z.string().max(100).optional(),
-  status: z.enum(['all', 'active', 'expired', 'inactive']).default('all'),
+  status: z.enum(['all', ...pollStatuses]).default('all'),
   created_by: z.string().uuid().optional(),
   limit: z.number().min(1).max(100).default(20),
   offset: z.number().min(0).default(0)
@@ -95,6 +398,25 @@ export const sharePollSchema = z.object({
   poll_id: z.string().uuid('Invalid poll ID'),
   share_method: z.enum(['qr', 'link', 'social']),
   platform: z.enum(['twitter', 'facebook', 'linkedin', 'whatsapp']).optional()
+}).superRefine((data, ctx) => {
+  // Social shares are recorded per platform; other methods have none
+  if ((data.share_method === 'social') !== Boolean(data.platform)) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['platform'],
+      message: data.platform ? 'Only social shares have a platform' : 'Choose a platform to share to'
+    })
+  }
+})
+
+// Short links; creators can choose the slug, or have one generated
+export const shortLinkSchema = z.object({
+  label: z.string().trim().min(1, 'Label is required').max(100, 'Label must be less than 100 characters').optional(),
+  slug: z.string().regex(SHORT_LINK_SLUG_PATTERN, 'Short links must be 3 to 32 letters, digits, dashes or underscores').optional()
+})
+
+export const deleteShortLinkSchema = z.object({
+  link_id: z.string().uuid('Invalid short link')
 })
 
 // Type exports
@@ -103,12 +425,27 @@ export type LoginCredentials = z.infer<typeof loginSchema>
 export type RegisterCredentials = z.infer<typeof registerSchema>
 export type CreatePollData = z.infer<typeof createPollSchema>
 export type UpdatePollData = z.infer<typeof updatePollSchema>
+export type PollStatusData = z.infer<typeof pollStatusSchema>
+export type UnlockPollData = z.infer<typeof unlockPollSchema>
+export type RequestPhoneCodeData = z.infer<typeof requestPhoneCodeSchema>
+export type VerifyPhoneCodeData = z.infer<typeof verifyPhoneCodeSchema>
 export type VoteData = z.infer<typeof voteSchema>
+export type RankedVoteData = z.infer<typeof rankedVoteSchema>
+export type RatingVoteData = z.infer<typeof ratingVoteSchema>
+export type SurveyQuestionData = z.infer<typeof surveyQuestionSchema>
+export type SurveyResponseData = z.infer<typeof surveyResponseSchema>
 export type MultipleVoteData = z.infer<typeof multipleVoteSchema>
+export type ChangeVoteData = z.infer<typeof changeVoteSchema>
+export type InviteesData = z.infer<typeof inviteesSchema>
+export type PromoteWriteInData = z.infer<typeof promoteWriteInSchema>
+export type ReviewVotesData = z.infer<typeof reviewVotesSchema>
 export type QRCodeData = z.infer<typeof qrCodeSchema>
+export type QRExportData = z.infer<typeof qrExportSchema>
+export type OEmbedQuery = z.infer<typeof oEmbedSchema>
 export type PollSearch = z.infer<typeof pollSearchSchema>
 export type AnalyticsData = z.infer<typeof analyticsSchema>
 export type SharePollData = z.infer<typeof sharePollSchema>
+export type ShortLinkData = z.infer<typeof shortLinkSchema>
 
 // Validation helpers
 export const validateEmail = (email: string): boolean => {
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { canViewResults } from '@/lib/visibility';
+
+const viewer = { isCreator: false, hasVoted: false, isClosed: false };
+
+describe('canViewResults', () => {
+  it('should always show the results to the creator', () => {
+    expect(canViewResults('never', { ...viewer, isCreator: true })).toBe(true);
+    expect(canViewResults('after_close', { ...viewer, isCreator: true })).toBe(true);
+  });
+
+  it('should show the results once the viewer has voted or the poll has closed', () => {
+    expect(canViewResults('after_vote', viewer)).toBe(false);
+    expect(canViewResults('after_vote', { ...viewer, hasVoted: true })).toBe(true);
+    expect(canViewResults('after_close', { ...viewer, hasVoted: true })).toBe(false);
+    expect(canViewResults('after_close', { ...viewer, isClosed: true })).toBe(true);
+  });
+
+  it('should treat polls without a policy as always visible', () => {
+    expect(canViewResults(undefined, viewer)).toBe(true);
+    expect(canViewResults('never', { ...viewer, hasVoted: true, isClosed: true })).toBe(false);
+  });
+});
@@ -0,0 +1,58 @@
+import { ResultsVisibility } from '@/types';
+
+/** Every results visibility policy, from most to least open. */
+export const RESULTS_VISIBILITIES: ResultsVisibility[] = ['always', 'after_vote', 'after_close', 'never'];
+
+/** Human-readable names for each policy, used in the poll settings. */
+export const RESULTS_VISIBILITY_LABELS: Record<ResultsVisibility, string> = {
+  always: 'Always visible',
+  after_vote: 'After voting',
+  after_close: 'After the poll closes',
+  never: 'Only to me'
+};
+
+/** What a viewer is told while the results are hidden from them. */
+const HIDDEN_RESULTS_MESSAGES: Record<ResultsVisibility, string> = {
+  always: '',
+  after_vote: 'Results will be shown once you have voted.',
+  after_close: 'Results will be shown when the poll closes.',
+  never: 'Results are only visible to the poll creator.'
+};
+
+/** What the viewer has done with the poll, and where the poll is in its lifecycle. */
+export interface ResultsViewer {
+  /** Whether the viewer created the poll. */
+  isCreator: boolean;
+  /** Whether the viewer has voted on, or responded to, the poll. */
+  hasVoted: boolean;
+  /** Whether the poll is closed, archived or past its expiry. */
+  isClosed: boolean;
+}
+
+/**
+ * Checks whether a viewer may see a poll's results. The creator can always see them.
+ * @param visibility The poll's results visibility policy; polls without one show their results.
+ * @param viewer The viewer and the state of the poll.
+ */
+export function canViewResults(visibility: ResultsVisibility | undefined, viewer: ResultsViewer): boolean {
+  if (viewer.isCreator) return true;
+
+  switch (visibility ?? 'always') {
+    case 'always':
+      return true;
+    case 'after_vote':
+      return viewer.hasVoted;
+    case 'after_close':
+      return viewer.isClosed;
+    case 'never':
+      return false;
+  }
+}
+
+/**
+ * Explains to a viewer why they can't see the results yet.
+ * @param visibility The poll's results visibility policy.
+ */
+export function getHiddenResultsMessage(visibility: ResultsVisibility): string {
+  return HIDDEN_RESULTS_MESSAGES[visibility];
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { solveChallenge } from '@/lib/proof-of-work';
+import { VOTE_CHALLENGE_TTL_MS, createVoteChallenge, parseVoteChallenge, verifyVoteChallenge } from '@/lib/vote-challenges';
+
+describe('parseVoteChallenge', () => {
+  const now = Date.UTC(2025, 0, 1);
+  const token = createVoteChallenge('poll-1', 8, 'secret', now);
+
+  it('should read back the challenge for the same poll until it expires', () => {
+    expect(parseVoteChallenge(token, 'poll-1', 'secret', now)).toMatchObject({ difficulty: 8, expiresAt: now + VOTE_CHALLENGE_TTL_MS });
+    expect(parseVoteChallenge(token, 'poll-1', 'secret', now + VOTE_CHALLENGE_TTL_MS)).toBe('expired');
+  });
+
+  it('should reject the challenge for another poll, or with a tampered difficulty', () => {
+    expect(parseVoteChallenge(token, 'poll-2', 'secret', now)).toBe('invalid');
+    expect(parseVoteChallenge(token.replace('.8.', '.1.'), 'poll-1', 'secret', now)).toBe('invalid');
+    expect(parseVoteChallenge('not-a-challenge', 'poll-1', 'secret', now)).toBe('invalid');
+  });
+});
+
+describe('verifyVoteChallenge', () => {
+  const now = Date.UTC(2025, 0, 1);
+  const token = createVoteChallenge('poll-1', 8, 'secret', now);
+
+  it('should accept a solved challenge at least as hard as the poll asks', async () => {
+    const solution = await solveChallenge(token, 8);
+
+    expect(await verifyVoteChallenge(token, solution, 'poll-1', 8, 'secret', now)).toMatchObject({ difficulty: 8 });
+    expect(await verifyVoteChallenge(token, solution, 'poll-1', 12, 'secret', now)).toBe('too_easy');
+  });
+
+  it('should turn down missing and unsolved challenges', async () => {
+    expect(await verifyVoteChallenge(null, null, 'poll-1', 8, 'secret', now)).toBe('missing');
+    expect(await verifyVoteChallenge(token, 'zzzzzz', 'poll-1', 24, 'secret', now)).toBe('too_easy');
+    expect(await verifyVoteChallenge(createVoteChallenge('poll-1', 24, 'secret', now), 'zz', 'poll-1', 24, 'secret', now)).toBe('unsolved');
+  });
+});
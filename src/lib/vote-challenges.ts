@@ -0,0 +1,94 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { checkSolution } from '@/lib/proof-of-work';
+
+/** How long a voter has to solve a challenge and cast their vote with it. */
+export const VOTE_CHALLENGE_TTL_MS = 10 * 60 * 1000;
+
+/** A challenge issued by the server, as read back from its token. */
+export interface VoteChallenge {
+  id: string;
+  difficulty: number;
+  /** When the challenge expires, in milliseconds since the epoch. */
+  expiresAt: number;
+}
+
+/** Why a solved challenge was turned down. */
+export type VoteChallengeError = 'missing' | 'invalid' | 'expired' | 'too_easy' | 'unsolved';
+
+/**
+ * Signs a challenge for one poll, so that it can't be made up or used on another poll.
+ */
+function signChallenge(pollId: string, id: string, difficulty: number, expiresAt: number, secret: string): string {
+  return createHmac('sha256', secret).update(`${pollId}.${id}.${difficulty}.${expiresAt}`).digest('hex');
+}
+
+/**
+ * Creates a challenge for a voter to solve before voting anonymously on a poll.
+ * @param pollId The ID of the poll.
+ * @param difficulty The number of leading zero bits the solution must hash to.
+ * @param secret The secret the challenge is signed with.
+ * @param now The current time, in milliseconds since the epoch.
+ * @returns The challenge's token, as `<id>.<difficulty>.<expiresAt>.<signature>`.
+ */
+export function createVoteChallenge(pollId: string, difficulty: number, secret: string, now: number = Date.now()): string {
+  const id = randomBytes(16).toString('hex');
+  const expiresAt = now + VOTE_CHALLENGE_TTL_MS;
+  return `${id}.${difficulty}.${expiresAt}.${signChallenge(pollId, id, difficulty, expiresAt, secret)}`;
+}
+
+/**
+ * Reads a challenge token, checking that it was issued for this poll and hasn't expired.
+ * @param token The challenge's token.
+ * @param pollId The ID of the poll.
+ * @param secret The secret the challenge was signed with.
+ * @param now The current time, in milliseconds since the epoch.
+ * @returns The challenge, or why it can't be used.
+ */
+export function parseVoteChallenge(
+  token: string,
+  pollId: string,
+  secret: string,
+  now: number = Date.now()
+): VoteChallenge | 'invalid' | 'expired' {
+  const [id, difficultyText, expiresAtText, signature, ...rest] = token.split('.');
+  const difficulty = Number(difficultyText);
+  const expiresAt = Number(expiresAtText);
+  if (!id || !signature || rest.length > 0 || !Number.isInteger(difficulty) || !Number.isInteger(expiresAt)) {
+    return 'invalid';
+  }
+
+  const expected = Buffer.from(signChallenge(pollId, id, difficulty, expiresAt, secret));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return 'invalid';
+
+  return expiresAt <= now ? 'expired' : { id, difficulty, expiresAt };
+}
+
+/**
+ * Checks a voter's solution to a challenge: that the challenge was issued for this poll, hasn't
+ * expired, is at least as hard as the poll now asks, and is solved. Whether it was used before
+ * is up to the caller.
+ * @param token The challenge's token.
+ * @param solution The voter's solution.
+ * @param pollId The ID of the poll.
+ * @param difficulty The poll's current difficulty.
+ * @param secret The secret the challenge was signed with.
+ * @param now The current time, in milliseconds since the epoch.
+ * @returns The challenge, or why it was turned down.
+ */
+export async function verifyVoteChallenge(
+  token: string | null,
+  solution: string | null,
+  pollId: string,
+  difficulty: number,
+  secret: string,
+  now: number = Date.now()
+): Promise<VoteChallenge | VoteChallengeError> {
+  if (!token || !solution) return 'missing';
+
+  const challenge = parseVoteChallenge(token, pollId, secret, now);
+  if (typeof challenge === 'string') return challenge;
+  if (challenge.difficulty < difficulty) return 'too_easy';
+
+  return (await checkSolution(token, solution, challenge.difficulty)) ? challenge : 'unsolved';
+}
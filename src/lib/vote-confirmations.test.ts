@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { buildConfirmationEmail, createConfirmationToken, verifyConfirmationToken } from '@/lib/vote-confirmations';
+
+describe('verifyConfirmationToken', () => {
+  const now = Date.UTC(2025, 0, 1);
+  const token = createConfirmationToken('poll-1', 'ballot-1', 'secret', now + 1000);
+
+  it('should read back the ballot for the same poll until the token expires', () => {
+    expect(verifyConfirmationToken(token, 'poll-1', 'secret', now)).toEqual({ ballotId: 'ballot-1' });
+    expect(verifyConfirmationToken(token, 'poll-1', 'secret', now + 1000)).toBe('expired');
+  });
+
+  it('should reject the token for another poll, ballot or secret', () => {
+    expect(verifyConfirmationToken(token, 'poll-2', 'secret', now)).toBe('invalid');
+    expect(verifyConfirmationToken(token.replace('ballot-1', 'ballot-2'), 'poll-1', 'secret', now)).toBe('invalid');
+    expect(verifyConfirmationToken(token, 'poll-1', 'other-secret', now)).toBe('invalid');
+    expect(verifyConfirmationToken('', 'poll-1', 'secret', now)).toBe('invalid');
+  });
+});
+
+describe('buildConfirmationEmail', () => {
+  it('should address the voter with the link to confirm their vote', () => {
+    const email = buildConfirmationEmail('ann@example.com', 'Lunch', 'https://polly.test/confirm');
+
+    expect(email).toMatchObject({ to: 'ann@example.com', subject: 'Confirm your vote on "Lunch"' });
+    expect(email.text).toContain('\nhttps://polly.test/confirm\n');
+  });
+});
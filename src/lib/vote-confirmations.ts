@@ -0,0 +1,75 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { MailMessage } from '@/lib/mail';
+
+/** How long an anonymous voter has to confirm their email address before their ballot is dropped. */
+export const VOTE_CONFIRMATION_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** What became of a confirmation link, as shown to the voter who followed it. */
+export type VoteConfirmationResult = 'confirmed' | 'expired' | 'invalid';
+
+/**
+ * Signs the confirmation of one ballot on one poll.
+ */
+function signConfirmation(pollId: string, ballotId: string, expiresAt: number, secret: string): string {
+  return createHmac('sha256', secret).update(`${pollId}.${ballotId}.${expiresAt}`).digest('hex');
+}
+
+/**
+ * Creates the token in the link that confirms an anonymous ballot.
+ * @param pollId The ID of the poll.
+ * @param ballotId The ID of the ballot: its vote, or its survey response.
+ * @param secret The secret the token is signed with.
+ * @param expiresAt When the ballot is dropped unless confirmed, in milliseconds since the epoch.
+ * @returns The token, as `<ballotId>.<expiresAt>.<signature>`.
+ */
+export function createConfirmationToken(pollId: string, ballotId: string, secret: string, expiresAt: number): string {
+  return `${ballotId}.${expiresAt}.${signConfirmation(pollId, ballotId, expiresAt, secret)}`;
+}
+
+/**
+ * Reads a confirmation token, checking that it was issued for this poll and hasn't expired.
+ * @param token The token from the confirmation link.
+ * @param pollId The ID of the poll.
+ * @param secret The secret the token was signed with.
+ * @param now The current time, in milliseconds since the epoch.
+ * @returns The ID of the ballot to confirm, or why it can't be.
+ */
+export function verifyConfirmationToken(
+  token: string,
+  pollId: string,
+  secret: string,
+  now: number = Date.now()
+): { ballotId: string } | Exclude<VoteConfirmationResult, 'confirmed'> {
+  const [ballotId, expiresAtText, signature, ...rest] = token.split('.');
+  const expiresAt = Number(expiresAtText);
+  if (!ballotId || !signature || rest.length > 0 || !Number.isInteger(expiresAt)) return 'invalid';
+
+  const expected = Buffer.from(signConfirmation(pollId, ballotId, expiresAt, secret));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return 'invalid';
+
+  return expiresAt <= now ? 'expired' : { ballotId };
+}
+
+/**
+ * Writes the email that asks an anonymous voter to confirm their ballot.
+ * @param to The voter's email address.
+ * @param pollTitle The title of the poll they voted on.
+ * @param confirmUrl The confirmation link.
+ */
+export function buildConfirmationEmail(to: string, pollTitle: string, confirmUrl: string): MailMessage {
+  return {
+    to,
+    subject: `Confirm your vote on "${pollTitle}"`,
+    text: [
+      `Thanks for voting on "${pollTitle}".`,
+      '',
+      'Your vote is counted once you confirm this is your email address. Open this link to confirm it:',
+      '',
+      confirmUrl,
+      '',
+      `The link expires in ${VOTE_CONFIRMATION_TTL_MS / (60 * 60 * 1000)} hours; votes that aren't confirmed by then are dropped.`,
+      "If you didn't vote on this poll, you can ignore this email."
+    ].join('\n')
+  };
+}
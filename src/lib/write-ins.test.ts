@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { groupWriteIns, normalizeWriteIn } from '@/lib/write-ins';
+
+describe('normalizeWriteIn', () => {
+  it('should ignore case, surrounding punctuation and extra whitespace', () => {
+    expect(normalizeWriteIn('  Ice   Cream! ')).toBe('ice cream');
+    expect(normalizeWriteIn('"ice cream"')).toBe('ice cream');
+  });
+
+  it('should keep punctuation inside the answer', () => {
+    expect(normalizeWriteIn("Rock 'n' Roll")).toBe("rock 'n' roll");
+  });
+});
+
+describe('groupWriteIns', () => {
+  it('should group answers by normalized text, most frequent first', () => {
+    const groups = groupWriteIns([
+      { voteId: '1', text: 'Tea' },
+      { voteId: '2', text: 'ice cream' },
+      { voteId: '3', text: 'Ice Cream' },
+      { voteId: '4', text: 'Ice Cream!' },
+      { voteId: '5', text: 'Ice Cream' },
+    ]);
+
+    expect(groups).toHaveLength(2);
+    expect(groups[0]).toMatchObject({ key: 'ice cream', text: 'Ice Cream', count: 4, voteIds: ['2', '3', '4', '5'] });
+    expect(groups[0]?.variants).toEqual(['ice cream', 'Ice Cream', 'Ice Cream!']);
+    expect(groups[1]).toMatchObject({ key: 'tea', text: 'Tea', count: 1 });
+  });
+
+  it('should skip answers that are only punctuation', () => {
+    expect(groupWriteIns([{ voteId: '1', text: '?!' }])).toEqual([]);
+  });
+});
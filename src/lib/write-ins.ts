@@ -0,0 +1,50 @@
+import { WriteInGroup } from '@/types';
+
+/**
+ * Normalizes a write-in answer so that trivially different spellings are grouped together.
+ * Case, surrounding punctuation and repeated whitespace are ignored.
+ * @param text The write-in answer.
+ * @returns The normalized text.
+ */
+export function normalizeWriteIn(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s\p{P}]+|[\s\p{P}]+$/gu, '');
+}
+
+/**
+ * Groups write-in answers by their normalized text.
+ * Each group is labelled with its most common spelling (the earliest one on ties).
+ * @param writeIns The write-in answers, with the ID of the vote each one belongs to.
+ * @returns The groups, most frequent first.
+ */
+export function groupWriteIns(writeIns: { voteId: string; text: string }[]): (WriteInGroup & { voteIds: string[] })[] {
+  const groups = new Map<string, { voteIds: string[]; spellings: Map<string, number> }>();
+
+  for (const { voteId, text } of writeIns) {
+    const key = normalizeWriteIn(text);
+    if (!key) continue;
+
+    const group = groups.get(key) ?? { voteIds: [], spellings: new Map<string, number>() };
+    const spelling = text.trim().replace(/\s+/g, ' ');
+    group.voteIds.push(voteId);
+    group.spellings.set(spelling, (group.spellings.get(spelling) ?? 0) + 1);
+    groups.set(key, group);
+  }
+
+  return [...groups.entries()]
+    .map(([key, { voteIds, spellings }]) => {
+      let text = key;
+      let textCount = 0;
+      for (const [spelling, count] of spellings) {
+        if (count > textCount) {
+          text = spelling;
+          textCount = count;
+        }
+      }
+      return { key, text, count: voteIds.length, variants: [...spellings.keys()], voteIds };
+    })
+    .sort((a, b) => b.count - a.count);
+}
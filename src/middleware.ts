@@ -62,18 +62,8 @@ export async function middleware(req: NextRequest) {
     return NextResponse.redirect(new URL('/dashboard', req.url))
   }
 
-  // This handles poll sharing tokens. If a request to a poll page includes a valid token,
-  // the user is allowed to access the poll, even if they are not logged in.
-  if (pathname.startsWith('/polls/') && req.nextUrl.searchParams.has('token')) {
-    const token = req.nextUrl.searchParams.get('token')
-    
-    // The token should be a 32-character hexadecimal string.
-    // This is a basic validation to ensure the token format is correct.
-    if (token && /^[a-f0-9]{32}$/.test(token)) {
-      // If the token is valid, we allow the request to proceed.
-      return res
-    }
-  }
+  // Poll sharing tokens (`/polls/[id]?token=...`) are not checked here. The poll API compares
+  // them with the poll's current share token, since only it can read unlisted and private polls.
 
   // For server components, we add the user's information to the request headers.
   // This allows server components to access the user's session information.
@@ -43,6 +43,7 @@ export interface Database {
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
       polls: {
         Row: {
@@ -50,9 +51,26 @@ export interface Database {
           title: string
           description: string | null
           created_by: string
-          is_active: boolean
+          status: string
           allow_multiple_votes: boolean
           require_authentication: boolean
+          allow_write_in: boolean
+          is_quiz: boolean
+          allow_vote_changes: boolean
+          results_visibility: string
+          access: string
+          password_protected: boolean
+          invite_only: boolean
+          allowed_email_domains: string[] | null
+          require_verified: boolean
+          min_account_age_days: number | null
+          challenge_difficulty: number
+          require_phone_verification: boolean
+          poll_type: string
+          scale_labels: string[] | null
+          min_selections: number
+          max_selections: number | null
+          starts_at: string | null
           expires_at: string | null
           qr_code_url: string | null
           share_token: string
@@ -64,9 +82,26 @@ export interface Database {
           title: string
           description?: string | null
           created_by: string
-          is_active?: boolean
+          status?: string
           allow_multiple_votes?: boolean
           require_authentication?: boolean
+          allow_write_in?: boolean
+          is_quiz?: boolean
+          allow_vote_changes?: boolean
+          results_visibility?: string
+          access?: string
+          password_protected?: boolean
+          invite_only?: boolean
+          allowed_email_domains?: string[] | null
+          require_verified?: boolean
+          min_account_age_days?: number | null
+          challenge_difficulty?: number
+          require_phone_verification?: boolean
+          poll_type?: string
+          scale_labels?: string[] | null
+          min_selections?: number
+          max_selections?: number | null
+          starts_at?: string | null
           expires_at?: string | null
           qr_code_url?: string | null
           share_token?: string
@@ -78,20 +113,81 @@ export interface Database {
           title?: string
           description?: string | null
           created_by?: string
-          is_active?: boolean
+          status?: string
           allow_multiple_votes?: boolean
           require_authentication?: boolean
+          allow_write_in?: boolean
+          is_quiz?: boolean
+          allow_vote_changes?: boolean
+          results_visibility?: string
+          access?: string
+          password_protected?: boolean
+          invite_only?: boolean
+          allowed_email_domains?: string[] | null
+          require_verified?: boolean
+          min_account_age_days?: number | null
+          challenge_difficulty?: number
+          require_phone_verification?: boolean
+          poll_type?: string
+          scale_labels?: string[] | null
+          min_selections?: number
+          max_selections?: number | null
+          starts_at?: string | null
           expires_at?: string | null
           qr_code_url?: string | null
           share_token?: string
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
+      }
+      poll_questions: {
+        Row: {
+          id: string
+          poll_id: string
+          text: string
+          question_type: string
+          allow_multiple_votes: boolean
+          min_selections: number
+          max_selections: number | null
+          scale_labels: string[] | null
+          is_required: boolean
+          order_index: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          poll_id: string
+          text: string
+          question_type?: string
+          allow_multiple_votes?: boolean
+          min_selections?: number
+          max_selections?: number | null
+          scale_labels?: string[] | null
+          is_required?: boolean
+          order_index: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          poll_id?: string
+          text?: string
+          question_type?: string
+          allow_multiple_votes?: boolean
+          min_selections?: number
+          max_selections?: number | null
+          scale_labels?: string[] | null
+          is_required?: boolean
+          order_index?: number
+          created_at?: string
+        }
+        Relationships: []
       }
       poll_options: {
         Row: {
           id: string
           poll_id: string
+          question_id: string | null
           text: string
           order_index: number
           created_at: string
@@ -99,6 +195,7 @@ export interface Database {
         Insert: {
           id?: string
           poll_id: string
+          question_id?: string | null
           text: string
           order_index: number
           created_at?: string
@@ -106,55 +203,467 @@ export interface Database {
         Update: {
           id?: string
           poll_id?: string
+          question_id?: string | null
           text?: string
           order_index?: number
           created_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: 'poll_options_poll_id_fkey'
+            columns: ['poll_id']
+            isOneToOne: false
+            referencedRelation: 'polls'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'poll_options_question_id_fkey'
+            columns: ['question_id']
+            isOneToOne: false
+            referencedRelation: 'poll_questions'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      quiz_answers: {
+        Row: {
+          option_id: string
+          poll_id: string
+          question_id: string | null
+          created_at: string
+        }
+        Insert: {
+          option_id: string
+          poll_id: string
+          question_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          option_id?: string
+          poll_id?: string
+          question_id?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      poll_passwords: {
+        Row: {
+          poll_id: string
+          password_hash: string
+          created_at: string
+        }
+        Insert: {
+          poll_id: string
+          password_hash: string
+          created_at?: string
+        }
+        Update: {
+          poll_id?: string
+          password_hash?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      poll_invitations: {
+        Row: {
+          id: string
+          poll_id: string
+          email: string
+          ballot_token: string
+          used: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          poll_id: string
+          email: string
+          ballot_token?: string
+          used?: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          poll_id?: string
+          email?: string
+          ballot_token?: string
+          used?: boolean
+          created_at?: string
+        }
+        Relationships: []
       }
       votes: {
         Row: {
           id: string
           poll_id: string
-          option_id: string
+          option_id: string | null
+          question_id: string | null
+          response_id: string | null
+          share_id: string | null
+          write_in: string | null
           voter_id: string | null
           voter_email: string | null
           voter_phone: string | null
           ip_address: string | null
           user_agent: string | null
+          fraud_flags: string[] | null
+          excluded_at: string | null
+          excluded_by: string | null
+          exclusion_reason: string | null
+          pending_until: string | null
           created_at: string
         }
         Insert: {
           id?: string
           poll_id: string
-          option_id: string
+          option_id?: string | null
+          question_id?: string | null
+          response_id?: string | null
+          share_id?: string | null
+          write_in?: string | null
           voter_id?: string | null
           voter_email?: string | null
           voter_phone?: string | null
           ip_address?: string | null
           user_agent?: string | null
+          fraud_flags?: string[] | null
+          excluded_at?: string | null
+          excluded_by?: string | null
+          exclusion_reason?: string | null
+          pending_until?: string | null
           created_at?: string
         }
         Update: {
           id?: string
           poll_id?: string
-          option_id?: string
+          option_id?: string | null
+          question_id?: string | null
+          response_id?: string | null
+          share_id?: string | null
+          write_in?: string | null
           voter_id?: string | null
           voter_email?: string | null
           voter_phone?: string | null
           ip_address?: string | null
           user_agent?: string | null
+          fraud_flags?: string[] | null
+          excluded_at?: string | null
+          excluded_by?: string | null
+          exclusion_reason?: string | null
+          pending_until?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      survey_responses: {
+        Row: {
+          id: string
+          poll_id: string
+          voter_id: string | null
+          voter_email: string | null
+          voter_phone: string | null
+          ip_address: string | null
+          user_agent: string | null
+          pending_until: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          poll_id: string
+          voter_id?: string | null
+          voter_email?: string | null
+          voter_phone?: string | null
+          ip_address?: string | null
+          user_agent?: string | null
+          pending_until?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          poll_id?: string
+          voter_id?: string | null
+          voter_email?: string | null
+          voter_phone?: string | null
+          ip_address?: string | null
+          user_agent?: string | null
+          pending_until?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      vote_rankings: {
+        Row: {
+          id: string
+          vote_id: string
+          option_id: string
+          rank: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          vote_id: string
+          option_id: string
+          rank: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          vote_id?: string
+          option_id?: string
+          rank?: number
+          created_at?: string
+        }
+        Relationships: []
+      }
+      vote_ratings: {
+        Row: {
+          id: string
+          vote_id: string
+          option_id: string | null
+          value: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          vote_id: string
+          option_id?: string | null
+          value: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          vote_id?: string
+          option_id?: string | null
+          value?: number
+          created_at?: string
+        }
+        Relationships: []
+      }
+      vote_changes: {
+        Row: {
+          id: string
+          poll_id: string
+          voter_id: string
+          action: string
+          previous_ballot: Json
+          new_ballot: Json | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          poll_id: string
+          voter_id: string
+          action: string
+          previous_ballot: Json
+          new_ballot?: Json | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          poll_id?: string
+          voter_id?: string
+          action?: string
+          previous_ballot?: Json
+          new_ballot?: Json | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      poll_analytics: {
+        Row: {
+          id: string
+          poll_id: string
+          total_votes: number
+          unique_voters: number
+          last_vote_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          poll_id: string
+          total_votes?: number
+          unique_voters?: number
+          last_vote_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          poll_id?: string
+          total_votes?: number
+          unique_voters?: number
+          last_vote_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      poll_shares: {
+        Row: {
+          id: string
+          poll_id: string
+          shared_by: string | null
+          share_method: string
+          platform: string | null
+          shared_at: string
+        }
+        Insert: {
+          id?: string
+          poll_id: string
+          shared_by?: string | null
+          share_method: string
+          platform?: string | null
+          shared_at?: string
+        }
+        Update: {
+          id?: string
+          poll_id?: string
+          shared_by?: string | null
+          share_method?: string
+          platform?: string | null
+          shared_at?: string
+        }
+        Relationships: []
+      }
+      short_links: {
+        Row: {
+          id: string
+          poll_id: string
+          slug: string
+          label: string | null
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          poll_id: string
+          slug: string
+          label?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          poll_id?: string
+          slug?: string
+          label?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      rate_limits: {
+        Row: {
+          key: string
+          count: number
+          reset_at: string
+        }
+        Insert: {
+          key: string
+          count?: number
+          reset_at: string
+        }
+        Update: {
+          key?: string
+          count?: number
+          reset_at?: string
+        }
+        Relationships: []
+      }
+      short_link_clicks: {
+        Row: {
+          id: string
+          short_link_id: string
+          referrer: string | null
+          user_agent: string | null
+          clicked_at: string
+        }
+        Insert: {
+          id?: string
+          short_link_id: string
+          referrer?: string | null
+          user_agent?: string | null
+          clicked_at?: string
+        }
+        Update: {
+          id?: string
+          short_link_id?: string
+          referrer?: string | null
+          user_agent?: string | null
+          clicked_at?: string
+        }
+        Relationships: []
+      }
+      used_vote_challenges: {
+        Row: {
+          id: string
+          expires_at: string
+        }
+        Insert: {
+          id: string
+          expires_at: string
+        }
+        Update: {
+          id?: string
+          expires_at?: string
+        }
+        Relationships: []
+      }
+      phone_verifications: {
+        Row: {
+          id: string
+          poll_id: string
+          phone: string
+          code_hash: string
+          attempts: number
+          expires_at: string
+          created_at: string
+        }
+        Insert: {
+          id: string
+          poll_id: string
+          phone: string
+          code_hash: string
+          attempts?: number
+          expires_at: string
           created_at?: string
         }
+        Update: {
+          id?: string
+          poll_id?: string
+          phone?: string
+          code_hash?: string
+          attempts?: number
+          expires_at?: string
+          created_at?: string
+        }
+        Relationships: []
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      expire_pending_votes: {
+        Args: Record<string, never>
+        Returns: undefined
+      }
+      increment_rate_limit: {
+        Args: {
+          limit_key: string
+          window_seconds: number
+        }
+        Returns: {
+          hits: number
+          window_reset_at: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
     }
+    CompositeTypes: {
+      [_ in never]: never
+    }
   }
 }
\ No newline at end of file
@@ -8,6 +8,45 @@ export interface User {
 }
 
 // Poll types
+export type PollType = 'standard' | 'ranked_choice' | 'rating' | 'nps' | 'likert' | 'survey';
+
+/**
+ * Where a poll is in its lifecycle. Drafts are only visible to their creator, scheduled polls are
+ * published but not yet open, and archived polls are hidden from listings.
+ */
+export type PollStatus = 'draft' | 'scheduled' | 'open' | 'closed' | 'archived';
+
+/**
+ * Who can see a poll's results and when. The creator can always see them; `never` keeps them
+ * private to the creator.
+ */
+export type ResultsVisibility = 'always' | 'after_vote' | 'after_close' | 'never';
+
+/**
+ * Who can open a poll. Public polls are listed and open to anyone; unlisted polls need the share
+ * link, and private polls need the share link and a signed-in account.
+ */
+export type PollAccess = 'public' | 'unlisted' | 'private';
+
+/** Whether a visitor to an invite-only poll came with a ballot token, and whether it was used. */
+export type BallotStatus = 'unused' | 'used' | 'missing';
+
+/** Which accounts may vote on a poll. A poll without any rules is open to every voter. */
+export interface EligibilityRules {
+  /** The domains voters' account emails must be at; null or empty allows any domain. */
+  allowedEmailDomains: string[] | null;
+  /** Whether only verified accounts may vote. */
+  requireVerified: boolean;
+  /** How old, in days, an account must be to vote; null for no minimum. */
+  minAccountAgeDays: number | null;
+}
+
+/** Why a voter doesn't meet a poll's eligibility rules. */
+export type IneligibleReason = 'sign_in' | 'email_domain' | 'unverified' | 'account_age';
+
+/** The types a single survey question can have. */
+export type QuestionType = Exclude<PollType, 'survey'>;
+
 export interface PollOption {
   id: string;
   text: string;
@@ -22,10 +61,112 @@ export interface Poll {
   createdBy: string;
   createdAt: Date;
   updatedAt: Date;
-  isActive: boolean;
+  status: PollStatus;
+  /** When the poll opens for voting; polls without one open as soon as they are created. */
+  startsAt?: Date;
   expiresAt?: Date;
   allowMultipleVotes: boolean;
   requireAuthentication: boolean;
+  pollType?: PollType;
+  /** The fewest options a voter must approve on a multiple-vote poll. */
+  minSelections?: number;
+  /** The most options a voter may approve on a multiple-vote poll; null means no limit. */
+  maxSelections?: number | null;
+  /** The agreement scale for Likert polls, lowest first. The poll's options are the rows. */
+  scaleLabels?: string[];
+  /** Whether voters can pick "Other (please specify)" and write in their own answer. */
+  allowWriteIn?: boolean;
+  /** Whether votes are scored against correct answers, which only the creator can see. */
+  isQuiz?: boolean;
+  /** Whether signed-in voters can change or retract their vote until the poll closes. */
+  allowVoteChanges?: boolean;
+  /** When the results can be seen by people other than the creator. */
+  resultsVisibility?: ResultsVisibility;
+  /** Set when the results are hidden from the current viewer; option vote counts are then left out. */
+  resultsHidden?: boolean;
+  access?: PollAccess;
+  /** The token in the poll's share link; only sent to the poll's creator. */
+  shareToken?: string;
+  /** Whether voters must enter a password before they can see the options and vote. */
+  passwordProtected?: boolean;
+  /** Set while the poll's password hasn't been entered; the options are then left out. */
+  locked?: boolean;
+  /** Whether only invitees, each with a single-use ballot token, can vote. */
+  inviteOnly?: boolean;
+  /** On invite-only polls, the state of the ballot token the visitor came with. */
+  ballotStatus?: BallotStatus;
+  allowedEmailDomains?: string[] | null;
+  requireVerified?: boolean;
+  minAccountAgeDays?: number | null;
+  /** How hard the proof-of-work anonymous voters solve is, in leading zero bits; 0 when there is none. */
+  challengeDifficulty?: number;
+  /** Whether anonymous voters must verify their phone number with a texted code before voting. */
+  requirePhoneVerification?: boolean;
+  /** Set when the current viewer doesn't meet the poll's eligibility rules. */
+  ineligibleReason?: IneligibleReason;
+  /** The ordered questions of a survey poll. Surveys have no options of their own. */
+  questions?: SurveyQuestion[];
+}
+
+// Survey types
+export interface SurveyQuestion {
+  id: string;
+  text: string;
+  questionType: QuestionType;
+  options: PollOption[];
+  allowMultipleVotes: boolean;
+  minSelections: number;
+  maxSelections: number | null;
+  scaleLabels?: string[];
+  required: boolean;
+}
+
+/** One answer in a survey response; which fields are set depends on the question type. */
+export interface SurveyAnswer {
+  questionId: string;
+  optionId?: string;
+  optionIds?: string[];
+  ranking?: string[];
+  ratings?: { optionId?: string; value: number }[];
+}
+
+// Write-in types
+export interface WriteInGroup {
+  /** The normalized text shared by every write-in in the group. */
+  key: string;
+  /** The most common spelling, used as the option text when the group is promoted. */
+  text: string;
+  count: number;
+  /** Every distinct spelling in the group. */
+  variants: string[];
+}
+
+// Quiz types
+/** Whether one quiz question was answered correctly. */
+export interface QuizFeedback {
+  /** The survey question answered; absent on single-question quizzes. */
+  questionId?: string;
+  correct: boolean;
+  correctOptionIds: string[];
+}
+
+/** The score of a vote or survey response on a quiz, returned right after voting. */
+export interface QuizResult {
+  score: number;
+  /** The number of scored questions. */
+  total: number;
+  answers: QuizFeedback[];
+}
+
+export interface LeaderboardEntry {
+  /** Participants with the same score and time share a rank. */
+  rank: number;
+  /** The participant's username, or their masked email or phone number. */
+  name: string;
+  score: number;
+  total: number;
+  /** Milliseconds from the quiz opening to the participant's last answer. */
+  timeMs: number;
 }
 
 // Vote types
@@ -37,6 +178,225 @@ export interface Vote {
   createdAt: Date;
 }
 
+/**
+ * A voter's whole ballot, as kept in the vote change history.
+ * This is a type rather than an interface so it can be stored as JSON.
+ */
+export type Ballot = {
+  optionIds: string[];
+  /** The full preference order of a ranked ballot, most preferred first. */
+  ranking?: string[];
+  ratings?: { optionId?: string; value: number }[];
+  writeIn?: string;
+};
+
+export interface VoteChange {
+  id: string;
+  /** The voter's username. */
+  voter: string;
+  action: 'changed' | 'retracted';
+  previousBallot: Ballot;
+  /** The replacement ballot; null when the vote was retracted. */
+  newBallot: Ballot | null;
+  changedAt: Date;
+}
+
+// Invitation types
+export interface PollInvitation {
+  id: string;
+  email: string;
+  /** The invitee's single-use ballot token. */
+  ballotToken: string;
+  /** Whether the ballot token has been used. Nothing links it to the vote cast with it. */
+  hasVoted: boolean;
+}
+
+export interface PollTurnout {
+  invited: number;
+  voted: number;
+}
+
+export interface PollInvitations {
+  invitations: PollInvitation[];
+  turnout: PollTurnout;
+}
+
+// Embed types
+/** A message an embedded poll posts to the page it is embedded in. */
+export type EmbedMessage =
+  | { source: 'polly'; type: 'resize'; pollId: string; height: number }
+  | { source: 'polly'; type: 'vote'; pollId: string };
+
+// Share types
+export type ShareMethod = 'qr' | 'link' | 'social';
+
+export type SharePlatform = 'twitter' | 'facebook' | 'linkedin' | 'whatsapp';
+
+/** A recorded share, with the link that credits votes to it. */
+export interface PollShare {
+  id: string;
+  url: string;
+}
+
+/** How many times a poll was shared through a channel, and how many votes came through it. */
+export interface ShareChannelStats {
+  method: ShareMethod;
+  platform: SharePlatform | null;
+  shares: number;
+  votes: number;
+}
+
+// Fraud review types
+/** Why a vote looks suspicious. Suspicious votes are still counted until the poll creator excludes them. */
+export type FraudFlag = 'ip_burst' | 'subnet_burst' | 'shared_user_agent' | 'throwaway_email';
+
+/** A ballot that was flagged as suspicious or excluded, as shown to the poll creator for review. */
+export interface SuspiciousBallot {
+  /** The ballot's vote rows, which are excluded and restored together. */
+  voteIds: string[];
+  flags: FraudFlag[];
+  /** The voter's masked email address or phone number, or null for signed-in voters. */
+  voter: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  excluded: boolean;
+  exclusionReason: string | null;
+}
+
+// Vote challenge types
+/** A proof-of-work challenge solved by an anonymous voter's browser, sent along with their ballot. */
+export interface SolvedVoteChallenge {
+  token: string;
+  solution: string;
+}
+
+// Short link types
+/** How many of a short link's clicks came from a site. */
+export interface ShortLinkReferrer {
+  host: string;
+  clicks: number;
+}
+
+/** A labeled `/p/<slug>` link to a poll, with its click counts. */
+export interface ShortLink {
+  id: string;
+  slug: string;
+  label: string | null;
+  clicks: number;
+  lastClickedAt: string | null;
+  /** The sites most clicks came from, busiest first. Clicks without a referrer aren't counted. */
+  topReferrers: ShortLinkReferrer[];
+}
+
+// Share card types
+/** An option's votes, as shown on a poll's share card. */
+export interface ShareCardOption {
+  text: string;
+  votes: number;
+}
+
+/** One bar on a poll's share card. */
+export interface ShareCardBar extends ShareCardOption {
+  percentage: number;
+}
+
+/** What link previews of a poll show. Results are left out unless anyone may see them. */
+export interface ShareCard {
+  pollId: string;
+  title: string;
+  description: string | null;
+  results: ShareCardOption[] | null;
+}
+
+// QR code types
+/** How much of a QR code can be covered or damaged and still scan: about 7%, 15%, 25% or 30%. */
+export type QrErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+/** How a QR code looks. Colors are `#rrggbb` hex colors. */
+export interface QrCodeStyle {
+  dark: string;
+  light: string;
+  margin: number;
+  errorCorrectionLevel: QrErrorCorrectionLevel;
+}
+
+// Ranked-choice result types
+export interface RunoffRound {
+  round: number;
+  /** Votes per continuing option, keyed by option ID. */
+  counts: Record<string, number>;
+  /** Ballots with no continuing option left in their ranking. */
+  exhausted: number;
+  /** Option IDs eliminated at the end of this round. */
+  eliminated: string[];
+}
+
+export interface RankedChoiceResult {
+  rounds: RunoffRound[];
+  winner: string | null;
+  /** Options still tied when no further elimination was possible. */
+  tied: string[];
+  totalBallots: number;
+}
+
+// Approval result types
+export interface ApprovalOptionResult {
+  optionId: string;
+  approvals: number;
+  /** Percentage of voters who approved this option. */
+  approvalShare: number;
+}
+
+export interface ApprovalResult {
+  /** Number of distinct voters, as opposed to the number of vote rows. */
+  voters: number;
+  options: ApprovalOptionResult[];
+}
+
+// Rating result types
+export interface RatingSummary {
+  count: number;
+  mean: number;
+  median: number;
+  /** Number of answers for every point on the scale, lowest first. */
+  distribution: { value: number; count: number }[];
+}
+
+export interface NpsScore {
+  promoters: number;
+  passives: number;
+  detractors: number;
+  /** Percentage of promoters minus percentage of detractors, from -100 to 100. */
+  score: number;
+}
+
+export interface LikertRowSummary extends RatingSummary {
+  optionId: string;
+}
+
+export interface PollResults {
+  pollId: string;
+  pollType: PollType;
+  totalVotes: number;
+  options: PollOption[];
+  rankedChoice?: RankedChoiceResult;
+  approval?: ApprovalResult;
+  rating?: RatingSummary;
+  nps?: NpsScore;
+  likert?: LikertRowSummary[];
+  /** Number of survey responses; `totalVotes` counts individual answers. */
+  respondents?: number;
+  /** Per-question results for survey polls, in question order. */
+  questions?: SurveyQuestionResults[];
+}
+
+export interface SurveyQuestionResults extends Omit<PollResults, 'pollId' | 'pollType' | 'respondents' | 'questions'> {
+  questionId: string;
+  text: string;
+  pollType: QuestionType;
+}
+
 // Auth types
 export interface AuthUser {
   id: string;
@@ -62,9 +422,55 @@ export interface CreatePollForm {
   title: string;
   description?: string;
   options: string[];
+  startsAt?: Date;
   expiresAt?: Date;
+  /** Saves the new poll as a draft instead of publishing it. */
+  isDraft?: boolean;
   allowMultipleVotes: boolean;
   requireAuthentication: boolean;
+  pollType?: PollType;
+  minSelections?: number;
+  maxSelections?: number | null;
+  scaleLabels?: string[];
+  allowWriteIn?: boolean;
+  isQuiz?: boolean;
+  allowVoteChanges?: boolean;
+  resultsVisibility?: ResultsVisibility;
+  access?: PollAccess;
+  /** The poll password; null removes the password when editing a poll. */
+  password?: string | null;
+  inviteOnly?: boolean;
+  allowedEmailDomains?: string[];
+  requireVerified?: boolean;
+  /** The minimum account age in days; null removes it when editing a poll. */
+  minAccountAgeDays?: number | null;
+  challengeDifficulty?: number;
+  requirePhoneVerification?: boolean;
+  /** The indexes of the correct options on a quiz. */
+  correctOptions?: number[];
+  questions?: CreateSurveyQuestionForm[];
+}
+
+/** An option of a survey question in the poll form. */
+export interface CreateSurveyOptionForm {
+  /** Keeps the option apart from the others while they are edited. */
+  id: string;
+  text: string;
+}
+
+export interface CreateSurveyQuestionForm {
+  /** Keeps the question apart from the others while they are edited. */
+  id: string;
+  text: string;
+  questionType: QuestionType;
+  options: CreateSurveyOptionForm[];
+  allowMultipleVotes: boolean;
+  minSelections?: number;
+  maxSelections?: number | null;
+  scaleLabels?: string[];
+  required: boolean;
+  /** The indexes of the correct options when the survey is a quiz. */
+  correctOptions?: number[];
 }
 
 // API Response types